@@ -538,7 +538,7 @@ const AgentDecisionVisualization: React.FC = () => {
         
         <div className="flex justify-end mt-4">          
           <div className="flex space-x-1">
-            {agents.map(agent => (
+            {agents.filter(agent => agent.type in sampleDecisionTrees).map(agent => (
               <Button
                 key={agent.id}
                 variant={activeAgent === agent.type ? "default" : "outline"}
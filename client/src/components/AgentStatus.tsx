@@ -1,9 +1,66 @@
 import { useMemo } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Pause, Play, RotateCw, Hourglass } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { useAgents } from "@/hooks/useAgents";
-import { AgentStatus as AgentStatusType } from "@/types";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Agent, AgentStatus as AgentStatusType } from "@/types";
+
+type LifecycleAction = "pause" | "drain" | "resume" | "restart";
+
+// The lifecycle actions the server allows from each status
+const availableActions = (status: string): LifecycleAction[] => {
+  switch (status) {
+    case 'paused': return ["resume", "restart"];
+    case 'draining': return ["pause", "resume", "restart"];
+    default: return ["pause", "drain", "restart"];
+  }
+};
+
+const actionIcons = {
+  pause: Pause,
+  drain: Hourglass,
+  resume: Play,
+  restart: RotateCw,
+};
+
+const actionTitles = {
+  pause: "Pause: take no new work",
+  drain: "Drain: finish current work, then pause",
+  resume: "Resume",
+  restart: "Restart: cancel current work and start over",
+};
 
 export default function AgentStatus() {
   const { agents, isLoading, error } = useAgents();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const lifecycleMutation = useMutation({
+    mutationFn: ({ agent, action }: { agent: Agent; action: LifecycleAction }) =>
+      apiRequest(`/api/agents/${agent.id}/${action}`, { method: 'POST' }),
+    onSuccess: (agent: Agent) => {
+      toast({
+        title: "Agent updated",
+        description: `${agent.name} is now ${agent.status}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/agents'] });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Error updating agent",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // One row per pool instance, the instances of a type together
+  const sortedAgents = useMemo(
+    () => agents.slice().sort((a, b) => a.type === b.type ? a.id - b.id : agents.findIndex(agent => agent.type === a.type) - agents.findIndex(agent => agent.type === b.type)),
+    [agents]
+  );
 
   // Generate status badge color based on agent status
   const getStatusBadgeClasses = (status: AgentStatusType) => {
@@ -18,6 +75,8 @@ export default function AgentStatus() {
         return "bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-900 text-purple-700 dark:text-purple-400";
       case 'error':
         return "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-900 text-red-700 dark:text-red-400";
+      case 'draining':
+        return "bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-900 text-orange-700 dark:text-orange-400";
       default:
         return "bg-gray-50 dark:bg-gray-900/20 border-gray-200 dark:border-gray-900 text-gray-700 dark:text-gray-400";
     }
@@ -31,6 +90,7 @@ export default function AgentStatus() {
       case 'observing': return "bg-blue-500";
       case 'standby': return "bg-purple-500";
       case 'error': return "bg-red-500";
+      case 'draining': return "bg-orange-500";
       default: return "bg-gray-500";
     }
   };
@@ -68,18 +128,40 @@ export default function AgentStatus() {
     <div className="p-4 border-b border-gray-200 dark:border-gray-700">
       <h2 className="text-lg font-semibold mb-3">Agent Status</h2>
       <ul className="space-y-2">
-        {agents.map((agent) => (
-          <li
-            key={agent.id}
-            className={`flex items-center justify-between p-2 rounded-md border ${getStatusBadgeClasses(agent.status as AgentStatusType)}`}
-          >
-            <div className="flex items-center space-x-2">
-              <div className={`h-2.5 w-2.5 ${getStatusIndicatorColor(agent.status as AgentStatusType)} rounded-full`}></div>
-              <span className="font-medium">{agent.name}</span>
-            </div>
-            <span className="text-xs">{formatStatus(agent.status)}</span>
-          </li>
-        ))}
+        {sortedAgents.map((agent) => {
+          // Deactivated agents receive no requests, whatever their last status was
+          const status = agent.isActive ? agent.status : 'inactive';
+          return (
+            <li
+              key={agent.id}
+              className={`flex items-center justify-between p-2 rounded-md border ${getStatusBadgeClasses(status as AgentStatusType)}`}
+            >
+              <div className="flex items-center space-x-2">
+                <div className={`h-2.5 w-2.5 ${getStatusIndicatorColor(status as AgentStatusType)} rounded-full`}></div>
+                <span className="font-medium">{agent.name}</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <span className="text-xs mr-1">{formatStatus(status)}</span>
+                {agent.isActive && availableActions(agent.status).map(action => {
+                  const Icon = actionIcons[action];
+                  return (
+                    <Button
+                      key={action}
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title={actionTitles[action]}
+                      disabled={lifecycleMutation.isPending}
+                      onClick={() => lifecycleMutation.mutate({ agent, action })}
+                    >
+                      <Icon className="h-3.5 w-3.5" />
+                    </Button>
+                  );
+                })}
+              </div>
+            </li>
+          );
+        })}
       </ul>
     </div>
   );
@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { AgentType, AgentTypeInfo } from "@/types";
+
+interface ExperimentVariantConfig {
+  promptVersions?: Record<string, number>;
+  temperature?: number;
+  provider?: string;
+  model?: string;
+}
+
+interface Experiment {
+  id: number;
+  name: string;
+  description: string | null;
+  agentType: string;
+  status: "draft" | "running" | "stopped";
+  trafficPercent: number;
+  variantA: ExperimentVariantConfig;
+  variantB: ExperimentVariantConfig;
+  createdAt: string;
+  startedAt: string | null;
+  stoppedAt: string | null;
+}
+
+interface ExperimentVariantReport {
+  variant: "A" | "B";
+  config: ExperimentVariantConfig;
+  runs: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  successRate: number | null;
+  ratings: number;
+  averageRating: number | null;
+  validations: number;
+  validationPassRate: number | null;
+  totalTokens: number;
+  averageTokens: number | null;
+}
+
+interface ExperimentReport {
+  experiment: Experiment;
+  variants: ExperimentVariantReport[];
+}
+
+interface PromptTemplateSummary {
+  name: string;
+  versions: Array<{ version: number }>;
+}
+
+interface LLMProvidersResponse {
+  providers: Array<{ id: string; name: string }>;
+}
+
+// Select values cannot be empty, so "Agent's own" settings use this placeholder
+const UNCHANGED = "unchanged";
+
+const describeVariant = (config: ExperimentVariantConfig) => {
+  const changes = [
+    ...Object.keys(config.promptVersions || {}).map(name => `${name} v${config.promptVersions![name]}`),
+    config.temperature !== undefined ? `temperature ${config.temperature}` : null,
+    config.provider ? `provider ${config.provider}` : null,
+    config.model ? `model ${config.model}` : null
+  ].filter(Boolean);
+  return changes.length > 0 ? changes.join(", ") : "Agent's own settings";
+};
+
+const percent = (value: number | null) => value === null ? "—" : `${Math.round(value * 100)}%`;
+
+export const ExperimentsPanel = () => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [agentType, setAgentType] = useState<string>(AgentType.SUPERVISION);
+  const [trafficPercent, setTrafficPercent] = useState("50");
+  const [promptName, setPromptName] = useState(UNCHANGED);
+  const [promptVersion, setPromptVersion] = useState("");
+  const [temperature, setTemperature] = useState("");
+  const [provider, setProvider] = useState(UNCHANGED);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: experiments, isLoading } = useQuery<Experiment[]>({
+    queryKey: ['/api/experiments'],
+  });
+  const { data: prompts } = useQuery<PromptTemplateSummary[]>({
+    queryKey: ['/api/prompts'],
+  });
+  const { data: providerData } = useQuery<LLMProvidersResponse>({
+    queryKey: ['/api/llm-providers'],
+  });
+  const { data: agentTypes } = useQuery<AgentTypeInfo[]>({
+    queryKey: ['/api/agent-types'],
+  });
+
+  const selected = experiments?.find(experiment => experiment.id === selectedId) || experiments?.[experiments.length - 1];
+  const { data: report } = useQuery<ExperimentReport>({
+    queryKey: [`/api/experiments/${selected?.id}/report`],
+    enabled: !!selected,
+    refetchInterval: 30000,
+  });
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const variantB: ExperimentVariantConfig = {};
+      if (promptName !== UNCHANGED && promptVersion !== "") {
+        variantB.promptVersions = { [promptName]: parseInt(promptVersion) };
+      }
+      if (temperature !== "") variantB.temperature = parseFloat(temperature);
+      if (provider !== UNCHANGED) variantB.provider = provider;
+
+      return apiRequest('/api/experiments', {
+        method: 'POST',
+        data: { name, agentType, trafficPercent: parseInt(trafficPercent), variantB, start: true }
+      });
+    },
+    onSuccess: (experiment: Experiment) => {
+      toast({
+        title: "Experiment started",
+        description: `${experiment.trafficPercent}% of ${experiment.agentType} runs now use variant B.`,
+      });
+      setName("");
+      setSelectedId(experiment.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments'] });
+    },
+    onError: showError("Error creating experiment"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: "start" | "stop" }) =>
+      apiRequest(`/api/experiments/${id}/${action}`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/experiments'] });
+    },
+    onError: showError("Error updating experiment"),
+  });
+
+  const promptVersions = prompts?.find(prompt => prompt.name === promptName)?.versions || [];
+  const canCreate = name.trim() !== "" && !isNaN(parseInt(trafficPercent)) && !createMutation.isPending;
+
+  const rows: Array<[string, (variant: ExperimentVariantReport) => string]> = [
+    ["Settings", variant => describeVariant(variant.config)],
+    ["Runs", variant => String(variant.runs)],
+    ["Completed / failed / cancelled", variant => `${variant.completed} / ${variant.failed} / ${variant.cancelled}`],
+    ["Success rate", variant => percent(variant.successRate)],
+    ["Average rating", variant => variant.averageRating === null ? "—" : `${variant.averageRating.toFixed(1)} (${variant.ratings})`],
+    ["Validation pass rate", variant => variant.validations > 0 ? `${percent(variant.validationPassRate)} (${variant.validations})` : "—"],
+    ["Average tokens", variant => variant.averageTokens === null ? "—" : String(Math.round(variant.averageTokens))],
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Experiments</CardTitle>
+          <CardDescription>
+            Send a share of an agent type's runs to variant B and compare the outcomes with the agent's current settings
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="h-4 w-1/2 animate-pulse rounded bg-gray-200 dark:bg-gray-700"></div>
+          ) : !experiments || experiments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No experiments yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Variant B</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {experiments.map((experiment) => (
+                  <TableRow
+                    key={experiment.id}
+                    className={experiment.id === selected?.id ? "bg-muted/50" : "cursor-pointer"}
+                    onClick={() => setSelectedId(experiment.id)}
+                  >
+                    <TableCell className="font-medium">{experiment.name}</TableCell>
+                    <TableCell>{experiment.agentType}</TableCell>
+                    <TableCell>{experiment.trafficPercent}%: {describeVariant(experiment.variantB)}</TableCell>
+                    <TableCell>
+                      <Badge variant={experiment.status === "running" ? "default" : "secondary"}>{experiment.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          statusMutation.mutate({ id: experiment.id, action: experiment.status === "running" ? "stop" : "start" });
+                        }}
+                        disabled={statusMutation.isPending}
+                      >
+                        {experiment.status === "running" ? "Stop" : "Start"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{report.experiment.name}</CardTitle>
+            <CardDescription>Variant A keeps the agent's own settings unless the experiment changes them</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead></TableHead>
+                  {report.variants.map(variant => (
+                    <TableHead key={variant.variant}>Variant {variant.variant}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(([label, format]) => (
+                  <TableRow key={label}>
+                    <TableCell className="font-medium">{label}</TableCell>
+                    {report.variants.map(variant => (
+                      <TableCell key={variant.variant}>{format(variant)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Experiment</CardTitle>
+          <CardDescription>Leave a setting unchanged to keep the agent's own for variant B</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="experiment-name">Name</Label>
+              <Input id="experiment-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Shorter planning prompt" />
+            </div>
+            <div className="space-y-2">
+              <Label>Agent</Label>
+              <Select value={agentType} onValueChange={setAgentType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(agentTypes || []).map(info => (
+                    <SelectItem key={info.type} value={info.type}>{info.type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="experiment-traffic">Runs sent to B (%)</Label>
+              <Input id="experiment-traffic" type="number" min={0} max={100} value={trafficPercent} onChange={(e) => setTrafficPercent(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Prompt template</Label>
+              <Select value={promptName} onValueChange={(value) => { setPromptName(value); setPromptVersion(""); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNCHANGED}>Unchanged</SelectItem>
+                  {(prompts || []).map(prompt => (
+                    <SelectItem key={prompt.name} value={prompt.name}>{prompt.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Prompt version</Label>
+              <Select value={promptVersion} onValueChange={setPromptVersion} disabled={promptName === UNCHANGED}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Version" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">Built-in</SelectItem>
+                  {promptVersions.map(version => (
+                    <SelectItem key={version.version} value={String(version.version)}>v{version.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="experiment-temperature">Temperature</Label>
+              <Input id="experiment-temperature" type="number" min={0} max={2} step={0.1} value={temperature} onChange={(e) => setTemperature(e.target.value)} placeholder="Unchanged" />
+            </div>
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={provider} onValueChange={setProvider}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNCHANGED}>Unchanged</SelectItem>
+                  {(providerData?.providers || []).map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={!canCreate}>
+            Start experiment
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
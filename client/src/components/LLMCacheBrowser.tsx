@@ -0,0 +1,265 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+
+interface LLMCacheEntry {
+  id: string;
+  provider: string;
+  model?: string;
+  agent?: string;
+  prompt: string;
+  system?: string;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+  hits: number;
+  pinned: boolean;
+  sizeBytes: number;
+}
+
+interface LLMCacheEntriesResponse {
+  entries: LLMCacheEntry[];
+  total: number;
+}
+
+interface LLMCacheFilter {
+  ids?: string[];
+  agent?: string;
+}
+
+export const LLMCacheBrowser = () => {
+  const [search, setSearch] = useState("");
+  const [agentFilter, setAgentFilter] = useState("all");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The default query function fetches queryKey[0], so the filter travels in the URL
+  const entriesUrl = `/api/llm-cache/entries?search=${encodeURIComponent(search)}`;
+  const { data, isLoading } = useQuery<LLMCacheEntriesResponse>({
+    queryKey: [entriesUrl],
+    refetchInterval: 5000, // Refresh every 5 seconds
+  });
+
+  const entries = (data?.entries || []).filter(entry => agentFilter === "all" || entry.agent === agentFilter);
+  const agents = Array.from(new Set((data?.entries || []).map(entry => entry.agent).filter((agent): agent is string => !!agent)));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [entriesUrl] });
+    queryClient.invalidateQueries({ queryKey: ['/api/llm-cache-stats'] });
+  };
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  // Invalidate entries by id or agent
+  const invalidateMutation = useMutation({
+    mutationFn: (filter: LLMCacheFilter) =>
+      apiRequest('/api/llm-cache/invalidate', {
+        method: 'POST',
+        data: filter
+      }),
+    onSuccess: (result: { deleted: number }) => {
+      toast({
+        title: "Cache entries removed",
+        description: `${result.deleted} cached response${result.deleted === 1 ? "" : "s"} removed.`,
+      });
+      refresh();
+    },
+    onError: showError("Error removing cache entries"),
+  });
+
+  // Pin or unpin an entry
+  const pinMutation = useMutation({
+    mutationFn: ({ id, pinned }: { id: string; pinned: boolean }) =>
+      apiRequest(`/api/llm-cache/entries/${id}/pin`, {
+        method: 'PUT',
+        data: { pinned }
+      }),
+    onSuccess: refresh,
+    onError: showError("Error pinning cache entry"),
+  });
+
+  // Import a bundle produced by the export button
+  const importMutation = useMutation({
+    mutationFn: (bundle: unknown) =>
+      apiRequest('/api/llm-cache/import', {
+        method: 'POST',
+        data: { bundle }
+      }),
+    onSuccess: (result: { imported: number; skipped: number }) => {
+      toast({
+        title: "Cache imported",
+        description: `${result.imported} entries imported, ${result.skipped} already present.`,
+      });
+      refresh();
+    },
+    onError: showError("Error importing cache"),
+  });
+
+  const handleExport = async () => {
+    try {
+      const bundle = await apiRequest('/api/llm-cache/export');
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `llm-cache-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      showError("Error exporting cache")(error);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      importMutation.mutate(JSON.parse(await file.text()));
+    } catch (error) {
+      showError("Invalid cache bundle")(error);
+    }
+  };
+
+  // Format an entry's age as e.g. "5m ago"
+  const formatAge = (timestamp: number) => {
+    const seconds = Math.max(0, Math.floor((Date.now() - timestamp) / 1000));
+    if (seconds < 60) return `${seconds}s ago`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+    return `${Math.floor(seconds / 3600)}h ago`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cached Responses</CardTitle>
+        <CardDescription>
+          Inspect, pin and invalidate individual cache entries, or export them to reproduce a session
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Search prompts, system prompts, agents..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Select value={agentFilter} onValueChange={setAgentFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Agent" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All agents</SelectItem>
+              {agents.map((agent) => (
+                <SelectItem key={agent} value={agent}>{agent}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+          >
+            {importMutation.isPending ? "Importing..." : "Import"}
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json" className="hidden" onChange={handleImport} />
+          <Button
+            variant="destructive"
+            size="sm"
+            disabled={entries.length === 0 || invalidateMutation.isPending || (!search && agentFilter === "all")}
+            onClick={() => invalidateMutation.mutate(
+              search
+                ? { ids: entries.map(entry => entry.id) }
+                : { agent: agentFilter }
+            )}
+          >
+            Delete {entries.length} matching
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <div className="h-4 w-1/2 animate-pulse rounded bg-gray-200 dark:bg-gray-700"></div>
+            <div className="h-4 w-3/4 animate-pulse rounded bg-gray-200 dark:bg-gray-700"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No cached responses{search ? " match this search" : ""}.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prompt</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Agent</TableHead>
+                <TableHead className="text-right">Age</TableHead>
+                <TableHead className="text-right">Hits</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="max-w-xs">
+                    <div className="truncate" title={entry.prompt}>{entry.prompt}</div>
+                    {entry.system && (
+                      <div className="truncate text-xs text-muted-foreground" title={entry.system}>
+                        System: {entry.system}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {entry.provider}
+                    {entry.model && <div className="text-xs text-muted-foreground">{entry.model}</div>}
+                  </TableCell>
+                  <TableCell>{entry.agent || "—"}</TableCell>
+                  <TableCell className="text-right">{formatAge(entry.createdAt)}</TableCell>
+                  <TableCell className="text-right">{entry.hits}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant={entry.pinned ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => pinMutation.mutate({ id: entry.id, pinned: !entry.pinned })}
+                      disabled={pinMutation.isPending}
+                    >
+                      {entry.pinned ? "Unpin" : "Pin"}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => invalidateMutation.mutate({ ids: [entry.id] })}
+                      disabled={invalidateMutation.isPending}
+                    >
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -10,15 +10,83 @@ import { Slider } from "@/components/ui/slider";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
+import { LLMCacheBrowser } from "@/components/LLMCacheBrowser";
+import { PromptTemplateEditor } from "@/components/PromptTemplateEditor";
+import { ExperimentsPanel } from "@/components/ExperimentsPanel";
 
-export enum LLMProvider {
-  GROQ = 'groq',
-  PHIDATA = 'phidata'
+interface LLMProviderInfo {
+  id: string;
+  name: string;
+  baseUrl: string;
+  model: string;
+  local: boolean;
+  builtIn: boolean;
+  configured: boolean;
+  contextWindow: number;
+  maxOutputTokens?: number;
+  pricing: {
+    inputPerMillion: number;
+    outputPerMillion: number;
+  };
+  capabilities: {
+    streaming: boolean;
+    tools: boolean;
+    jsonMode: boolean;
+  };
+}
+
+interface LLMProvidersResponse {
+  defaultProvider: string;
+  providers: LLMProviderInfo[];
+}
+
+interface LLMCircuitStatus {
+  provider: string;
+  state: "closed" | "open" | "half_open";
+  consecutiveFailures: number;
+  openedAt: number | null;
+  retryAt: number | null;
+  lastError: string | null;
+}
+
+interface LLMFallbackTarget {
+  provider: string;
+  model?: string;
+}
+
+interface LLMCircuitsResponse {
+  circuits: LLMCircuitStatus[];
+  fallbackChain: LLMFallbackTarget[];
+  retryPolicy: {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+  };
+}
+
+interface LLMProviderCacheStats {
+  provider: string;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  entries: number;
+  bytes: number;
+  hitRate: number;
 }
 
 interface LLMCacheStats {
+  store: string;
   size: number;
+  maxSize: number;
+  bytes: number;
+  maxBytes: number | null;
   hitRate: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  providers: LLMProviderCacheStats[];
 }
 
 interface LLMCacheSettings {
@@ -38,9 +106,17 @@ export const LLMCacheManager = () => {
     refetchInterval: 5000, // Refresh every 5 seconds
   });
 
-  // Fetch current LLM provider
-  const { data: providerData, isLoading: isLoadingProvider } = useQuery<{ provider: LLMProvider }>({
-    queryKey: ['/api/llm-provider'],
+  // Fetch registered LLM providers and the current default
+  const { data: providerData, isLoading: isLoadingProvider } = useQuery<LLMProvidersResponse>({
+    queryKey: ['/api/llm-providers'],
+  });
+  
+  const selectedProvider = providerData?.providers.find(p => p.id === providerData.defaultProvider);
+
+  // Fetch circuit breaker state and the fallback chain
+  const { data: circuitData, isLoading: isLoadingCircuits } = useQuery<LLMCircuitsResponse>({
+    queryKey: ['/api/llm-circuits'],
+    refetchInterval: 5000, // Refresh every 5 seconds
   });
 
   // Clear cache mutation
@@ -90,7 +166,7 @@ export const LLMCacheManager = () => {
 
   // Set LLM provider mutation
   const setProviderMutation = useMutation({
-    mutationFn: (provider: LLMProvider) => 
+    mutationFn: (provider: string) => 
       apiRequest('/api/llm-provider', {
         method: 'POST',
         data: { provider }
@@ -100,7 +176,7 @@ export const LLMCacheManager = () => {
         title: "Provider updated",
         description: "Default LLM provider has been updated successfully.",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/llm-provider'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/llm-providers'] });
     },
     onError: (error) => {
       toast({
@@ -111,6 +187,51 @@ export const LLMCacheManager = () => {
     },
   });
   
+  // Reset circuit breaker mutation
+  const resetCircuitMutation = useMutation({
+    mutationFn: (provider: string) => 
+      apiRequest(`/api/llm-circuits/${provider}/reset`, {
+        method: 'POST'
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Circuit reset",
+        description: "The provider will be tried again on the next request.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/llm-circuits'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error resetting circuit",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Update fallback chain mutation
+  const updateFallbackMutation = useMutation({
+    mutationFn: (chain: LLMFallbackTarget[]) => 
+      apiRequest('/api/llm-fallback', {
+        method: 'PUT',
+        data: { chain }
+      }),
+    onSuccess: () => {
+      toast({
+        title: "Fallback chain updated",
+        description: "LLM fallback order has been updated successfully.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/llm-circuits'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating fallback chain",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+  
   const handleClearCache = () => {
     clearCacheMutation.mutate();
   };
@@ -119,10 +240,35 @@ export const LLMCacheManager = () => {
     updateSettingsMutation.mutate({ ttlInSeconds: ttl, maxSize });
   };
   
-  const handleChangeProvider = (provider: LLMProvider) => {
+  const handleChangeProvider = (provider: string) => {
     setProviderMutation.mutate(provider);
   };
   
+  const fallbackChain = circuitData?.fallbackChain || [];
+  
+  const handleAddFallback = (provider: string) => {
+    updateFallbackMutation.mutate([...fallbackChain, { provider }]);
+  };
+  
+  const handleRemoveFallback = (index: number) => {
+    updateFallbackMutation.mutate(fallbackChain.filter((_, i) => i !== index));
+  };
+  
+  const getCircuitBadgeClasses = (state: LLMCircuitStatus['state']) => {
+    switch (state) {
+      case "closed":
+        return "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400";
+      case "half_open":
+        return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400";
+      case "open":
+        return "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400";
+    }
+  };
+  
+  const formatCircuitState = (state: LLMCircuitStatus['state']) => {
+    return state === "half_open" ? "Half-open" : state.charAt(0).toUpperCase() + state.slice(1);
+  };
+  
   // Format TTL as human-readable
   const formatTTL = (seconds: number) => {
     if (seconds < 60) return `${seconds} seconds`;
@@ -130,6 +276,24 @@ export const LLMCacheManager = () => {
     return `${Math.floor(seconds / 3600)} hours`;
   };
   
+  // Format context window as e.g. "128K tokens"
+  const formatContextWindow = (tokens: number) => {
+    return tokens >= 1000 ? `${Math.round(tokens / 1000)}K tokens` : `${tokens} tokens`;
+  };
+  
+  // Format per-million-token pricing
+  const formatPricing = (pricing: LLMProviderInfo['pricing']) => {
+    if (pricing.inputPerMillion === 0 && pricing.outputPerMillion === 0) return 'Free';
+    return `$${pricing.inputPerMillion} in / $${pricing.outputPerMillion} out per 1M`;
+  };
+  
+  // Format byte counts as B / KB / MB
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+  
   // Format hit rate as percentage
   const formatHitRate = (rate: number) => {
     return `${Math.round(rate * 100)}%`;
@@ -138,9 +302,13 @@ export const LLMCacheManager = () => {
   return (
     <div className="space-y-6">
       <Tabs defaultValue="cache" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="cache">Cache Settings</TabsTrigger>
+          <TabsTrigger value="entries">Cache Entries</TabsTrigger>
           <TabsTrigger value="provider">LLM Provider</TabsTrigger>
+          <TabsTrigger value="reliability">Reliability</TabsTrigger>
+          <TabsTrigger value="prompts">Prompts</TabsTrigger>
+          <TabsTrigger value="experiments">Experiments</TabsTrigger>
         </TabsList>
         
         <TabsContent value="cache" className="space-y-4">
@@ -162,9 +330,9 @@ export const LLMCacheManager = () => {
                   <div className="space-y-2">
                     <div className="flex justify-between">
                       <span>Cache Size</span>
-                      <span className="font-medium">{cacheStats?.size || 0} / {maxSize} entries</span>
+                      <span className="font-medium">{cacheStats?.size || 0} / {cacheStats?.maxSize || maxSize} entries</span>
                     </div>
-                    <Progress value={(cacheStats?.size || 0) / maxSize * 100} />
+                    <Progress value={(cacheStats?.size || 0) / (cacheStats?.maxSize || maxSize) * 100} />
                   </div>
                   
                   <div className="space-y-2">
@@ -174,6 +342,49 @@ export const LLMCacheManager = () => {
                     </div>
                     <Progress value={(cacheStats?.hitRate || 0) * 100} />
                   </div>
+                  
+                  <dl className="grid grid-cols-3 gap-2 text-sm">
+                    <div>
+                      <dt className="text-muted-foreground">Stored</dt>
+                      <dd className="font-medium">
+                        {formatBytes(cacheStats?.bytes || 0)}
+                        {cacheStats?.maxBytes ? ` / ${formatBytes(cacheStats.maxBytes)}` : ""}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Evictions</dt>
+                      <dd className="font-medium">{cacheStats?.evictions || 0}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Backend</dt>
+                      <dd className="font-medium capitalize">{cacheStats?.store || "memory"}</dd>
+                    </div>
+                  </dl>
+                  
+                  {cacheStats && cacheStats.providers.length > 0 && (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-muted-foreground">
+                          <th className="font-normal">Provider</th>
+                          <th className="font-normal text-right">Entries</th>
+                          <th className="font-normal text-right">Size</th>
+                          <th className="font-normal text-right">Evictions</th>
+                          <th className="font-normal text-right">Hit Rate</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {cacheStats.providers.map((provider) => (
+                          <tr key={provider.provider}>
+                            <td>{provider.provider}</td>
+                            <td className="text-right">{provider.entries}</td>
+                            <td className="text-right">{formatBytes(provider.bytes)}</td>
+                            <td className="text-right">{provider.evictions}</td>
+                            <td className="text-right">{formatHitRate(provider.hitRate)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
                 </>
               )}
               
@@ -259,6 +470,10 @@ export const LLMCacheManager = () => {
           </Card>
         </TabsContent>
         
+        <TabsContent value="entries">
+          <LLMCacheBrowser />
+        </TabsContent>
+        
         <TabsContent value="provider">
           <Card>
             <CardHeader>
@@ -272,52 +487,161 @@ export const LLMCacheManager = () => {
                 <div className="h-10 w-full animate-pulse rounded bg-gray-200 dark:bg-gray-700"></div>
               ) : (
                 <Select 
-                  value={providerData?.provider || LLMProvider.GROQ}
-                  onValueChange={(value) => handleChangeProvider(value as LLMProvider)}
+                  value={providerData?.defaultProvider}
+                  onValueChange={(value) => handleChangeProvider(value)}
                 >
                   <SelectTrigger className="w-full">
                     <SelectValue placeholder="Select LLM Provider" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value={LLMProvider.GROQ}>Groq (Llama-3.3-70b-versatile)</SelectItem>
-                    <SelectItem value={LLMProvider.PHIDATA}>Phidata</SelectItem>
+                    {providerData?.providers.map((provider) => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name} ({provider.model}){!provider.configured && " - not configured"}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               )}
               
-              <div className="rounded-lg border p-4">
-                <div className="text-sm font-medium mb-2">Provider Information</div>
-                <dl className="space-y-2 text-sm">
-                  {providerData?.provider === LLMProvider.GROQ && (
-                    <>
-                      <div className="flex justify-between">
-                        <dt className="text-muted-foreground">Model</dt>
-                        <dd>Llama-3.3-70b-versatile</dd>
-                      </div>
-                      <div className="flex justify-between">
-                        <dt className="text-muted-foreground">Strengths</dt>
-                        <dd>Fast inference, strong reasoning</dd>
-                      </div>
-                    </>
-                  )}
-                  
-                  {providerData?.provider === LLMProvider.PHIDATA && (
-                    <>
-                      <div className="flex justify-between">
-                        <dt className="text-muted-foreground">Alternative Provider</dt>
-                        <dd>Phidata</dd>
+              {selectedProvider && (
+                <div className="rounded-lg border p-4">
+                  <div className="text-sm font-medium mb-2">Provider Information</div>
+                  <dl className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">Model</dt>
+                      <dd>{selectedProvider.model}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">Endpoint</dt>
+                      <dd className="truncate ml-4">{selectedProvider.baseUrl}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">Type</dt>
+                      <dd>{selectedProvider.local ? "Local" : "Hosted"}{selectedProvider.builtIn && " (built-in)"}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">Context Window</dt>
+                      <dd>{formatContextWindow(selectedProvider.contextWindow)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">Pricing</dt>
+                      <dd>{formatPricing(selectedProvider.pricing)}</dd>
+                    </div>
+                    <div className="flex justify-between">
+                      <dt className="text-muted-foreground">Capabilities</dt>
+                      <dd>
+                        {[
+                          selectedProvider.capabilities.streaming && "Streaming",
+                          selectedProvider.capabilities.tools && "Tools",
+                          selectedProvider.capabilities.jsonMode && "JSON mode"
+                        ].filter(Boolean).join(", ") || "Basic completions"}
+                      </dd>
+                    </div>
+                  </dl>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        <TabsContent value="reliability" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Provider Health</CardTitle>
+              <CardDescription>
+                Providers are skipped while their circuit is open after repeated failures
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoadingCircuits ? (
+                <div className="space-y-2">
+                  <div className="h-4 w-1/2 animate-pulse rounded bg-gray-200 dark:bg-gray-700"></div>
+                  <div className="h-4 w-3/4 animate-pulse rounded bg-gray-200 dark:bg-gray-700"></div>
+                </div>
+              ) : (
+                circuitData?.circuits.map((circuit) => (
+                  <div key={circuit.provider} className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">{circuit.provider}</span>
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${getCircuitBadgeClasses(circuit.state)}`}>
+                          {formatCircuitState(circuit.state)}
+                        </span>
                       </div>
-                      <div className="flex justify-between">
-                        <dt className="text-muted-foreground">Strengths</dt>
-                        <dd>Focused on agent operations</dd>
+                      <div className="text-xs text-muted-foreground">
+                        {circuit.consecutiveFailures} consecutive failure{circuit.consecutiveFailures === 1 ? "" : "s"}
+                        {circuit.retryAt && ` · retry at ${new Date(circuit.retryAt).toLocaleTimeString()}`}
                       </div>
-                    </>
-                  )}
-                </dl>
-              </div>
+                      {circuit.lastError && (
+                        <div className="text-xs text-red-600 dark:text-red-400 truncate max-w-md">{circuit.lastError}</div>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resetCircuitMutation.mutate(circuit.provider)}
+                      disabled={circuit.state === "closed" && circuit.consecutiveFailures === 0}
+                    >
+                      Reset
+                    </Button>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle>Fallback Chain</CardTitle>
+              <CardDescription>
+                Tried in order when the requested provider fails
+                {circuitData && ` (up to ${circuitData.retryPolicy.maxRetries} retries per provider)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {fallbackChain.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No fallback providers configured.</div>
+              ) : (
+                <ol className="space-y-2">
+                  {fallbackChain.map((target, index) => (
+                    <li key={`${target.provider}-${target.model || ""}-${index}`} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                      <span>{index + 1}. {target.provider}{target.model && ` (${target.model})`}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveFallback(index)}
+                        disabled={updateFallbackMutation.isPending}
+                      >
+                        Remove
+                      </Button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              
+              <Select value="" onValueChange={(value) => handleAddFallback(value)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Add fallback provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {providerData?.providers.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.name} ({provider.model})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </CardContent>
           </Card>
         </TabsContent>
+        
+        <TabsContent value="prompts">
+          <PromptTemplateEditor />
+        </TabsContent>
+        
+        <TabsContent value="experiments">
+          <ExperimentsPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,113 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { usePipelines } from "@/hooks/usePipelines";
+import { useToast } from "@/hooks/use-toast";
+import { PipelineStatus, PipelineStep, PipelineStepStatus } from "@/types";
+
+const statusBadges: Record<PipelineStatus, string> = {
+  running: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
+  succeeded: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+  cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+};
+
+const stepColors: Record<PipelineStepStatus, string> = {
+  pending: 'border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800',
+  running: 'border-blue-400 bg-blue-50 dark:border-blue-600 dark:bg-blue-900/30 animate-pulse',
+  succeeded: 'border-green-400 bg-green-50 dark:border-green-600 dark:bg-green-900/30',
+  failed: 'border-red-400 bg-red-50 dark:border-red-600 dark:bg-red-900/30',
+  cancelled: 'border-gray-300 bg-gray-100 dark:border-gray-600 dark:bg-gray-700',
+  skipped: 'border-dashed border-gray-300 bg-gray-50 text-gray-400 dark:border-gray-600 dark:bg-gray-800'
+};
+
+// Steps grouped into columns by level, so each column only depends on the ones to its left
+const columnsOf = (steps: PipelineStep[]) => {
+  const columns: PipelineStep[][] = [];
+  steps.forEach(step => {
+    columns[step.level] = [...(columns[step.level] || []), step];
+  });
+  return columns.filter(Boolean);
+};
+
+function StepCard({ step }: { step: PipelineStep }) {
+  return (
+    <div
+      className={`w-44 p-2 rounded-md border text-xs ${stepColors[step.status]}`}
+      title={step.error || step.instruction}
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-medium truncate">{step.title}</span>
+        <span className="ml-2 text-gray-500 dark:text-gray-400">{step.status}</span>
+      </div>
+      <div className="mt-1 text-gray-500 dark:text-gray-400 truncate">
+        {step.agentType}{step.method ? `.${step.method}` : ''}
+        {step.dependsOn.length > 0 && ` ← ${step.dependsOn.join(', ')}`}
+      </div>
+      {step.error && <div className="mt-1 text-red-600 dark:text-red-400 truncate">{step.error}</div>}
+    </div>
+  );
+}
+
+// The latest multi-agent pipeline as a live graph of its steps; hidden until a pipeline has run
+export default function PipelineView() {
+  const { pipelines } = usePipelines();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/pipelines/${id}/cancel`, { method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pipelines'] });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Error cancelling pipeline",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pipeline = pipelines[0];
+  if (!pipeline) {
+    return null;
+  }
+
+  const finished = pipeline.steps.filter(step => step.status !== 'pending' && step.status !== 'running').length;
+
+  return (
+    <div className="flex-shrink-0 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+      <div className="p-4 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold">Pipeline</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{pipeline.goal}</p>
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0">
+          <span className="text-xs text-gray-500 dark:text-gray-400">{finished}/{pipeline.steps.length} steps</span>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusBadges[pipeline.status]}`}>
+            {pipeline.status}
+          </span>
+          {pipeline.status === 'running' && (
+            <button
+              className="px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              onClick={() => cancelMutation.mutate(pipeline.id)}
+              disabled={cancelMutation.isPending}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 overflow-x-auto">
+        <div className="flex items-start space-x-4">
+          {columnsOf(pipeline.steps).map((column, index) => (
+            <div key={index} className="flex flex-col space-y-2 flex-shrink-0">
+              {column.map(step => <StepCard key={step.id} step={step} />)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import type { Agent, UsageReport } from "@/types";
+
+interface PromptTemplateVersion {
+  id: number;
+  name: string;
+  version: number;
+  agentId: number | null;
+  content: string;
+  description: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface PromptTemplateSummary {
+  name: string;
+  description: string;
+  variables: string[];
+  content: string; // Built-in template
+  versions: PromptTemplateVersion[];
+}
+
+export const PromptTemplateEditor = () => {
+  const [selectedName, setSelectedName] = useState("");
+  const [draft, setDraft] = useState("");
+  const [description, setDescription] = useState("");
+  const [scope, setScope] = useState("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: prompts, isLoading } = useQuery<PromptTemplateSummary[]>({
+    queryKey: ['/api/prompts'],
+  });
+  const { data: agents } = useQuery<Agent[]>({
+    queryKey: ['/api/agents'],
+  });
+  const { data: usage } = useQuery<UsageReport>({
+    queryKey: ['/api/usage'],
+    refetchInterval: 30000,
+  });
+
+  const selected = prompts?.find(prompt => prompt.name === selectedName) || prompts?.[0];
+  const agentId = scope === "all" ? null : parseInt(scope);
+  const activeVersion = selected?.versions.find(version => version.isActive && version.agentId === agentId);
+
+  // Start editing from whatever is in use for the chosen scope
+  useEffect(() => {
+    if (selected) {
+      setDraft(activeVersion?.content ?? selected.content);
+      setDescription("");
+    }
+  }, [selected?.name, activeVersion?.id]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/prompts'] });
+  };
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unknown error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: ({ activate }: { activate: boolean }) =>
+      apiRequest(`/api/prompts/${selected!.name}/versions`, {
+        method: 'POST',
+        data: { content: draft, description: description || null, agentId, activate }
+      }),
+    onSuccess: (template: PromptTemplateVersion) => {
+      toast({
+        title: "Prompt version saved",
+        description: `${template.name} version ${template.version}${template.isActive ? " is now active" : " saved"}.`,
+      });
+      refresh();
+    },
+    onError: showError("Error saving prompt version"),
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: (version: number) =>
+      apiRequest(`/api/prompts/${selected!.name}/versions/${version}/activate`, { method: 'POST' }),
+    onSuccess: refresh,
+    onError: showError("Error activating prompt version"),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: (agentId: number | null) =>
+      apiRequest(`/api/prompts/${selected!.name}/reset`, {
+        method: 'POST',
+        data: { agentId }
+      }),
+    onSuccess: refresh,
+    onError: showError("Error resetting prompt"),
+  });
+
+  const agentName = (id: number | null) =>
+    id === null ? "All agents" : agents?.find(agent => agent.id === id)?.name || `Agent ${id}`;
+
+  // Calls made with each version, to compare versions by cost and length
+  const usageFor = (version: number) =>
+    usage?.prompts?.find(entry => entry.promptTemplate === selected?.name && entry.promptVersion === version);
+
+  const formatUsage = (version: number) => {
+    const entry = usageFor(version);
+    if (!entry || entry.calls === 0) return "—";
+    const charged = entry.calls - entry.cachedCalls;
+    const average = charged > 0 ? Math.round(entry.totalTokens / charged) : 0;
+    return `${entry.calls} calls, ${average} tokens avg`;
+  };
+
+  if (isLoading || !selected) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Prompt Templates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-4 w-1/2 animate-pulse rounded bg-gray-200 dark:bg-gray-700"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const builtInActive = !selected.versions.some(version => version.isActive && version.agentId === null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Prompt Templates</CardTitle>
+        <CardDescription>
+          Edit the agents' system prompts as new versions, activate them for all agents or one agent, and compare their usage
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Select value={selected.name} onValueChange={setSelectedName}>
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="Template" />
+            </SelectTrigger>
+            <SelectContent>
+              {prompts!.map((prompt) => (
+                <SelectItem key={prompt.name} value={prompt.name}>{prompt.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Scope" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All agents</SelectItem>
+              {(agents || []).map((agent) => (
+                <SelectItem key={agent.id} value={String(agent.id)}>{agent.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="text-sm text-muted-foreground">{selected.description}</p>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Scope</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Usage</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell>
+                Built-in {builtInActive && <Badge variant="secondary" className="ml-1">Active</Badge>}
+              </TableCell>
+              <TableCell>All agents</TableCell>
+              <TableCell className="text-muted-foreground">Shipped with the agent</TableCell>
+              <TableCell>{formatUsage(0)}</TableCell>
+              <TableCell className="text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => resetMutation.mutate(null)}
+                  disabled={builtInActive || resetMutation.isPending}
+                >
+                  Activate
+                </Button>
+              </TableCell>
+            </TableRow>
+            {selected.versions.map((version) => (
+              <TableRow key={version.id}>
+                <TableCell>
+                  v{version.version} {version.isActive && <Badge variant="secondary" className="ml-1">Active</Badge>}
+                </TableCell>
+                <TableCell>{agentName(version.agentId)}</TableCell>
+                <TableCell className="max-w-xs truncate" title={version.description || undefined}>
+                  {version.description || "—"}
+                </TableCell>
+                <TableCell>{formatUsage(version.version)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(version.content)}>
+                    Edit
+                  </Button>
+                  {version.isActive && version.agentId !== null ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => resetMutation.mutate(version.agentId)}
+                      disabled={resetMutation.isPending}
+                    >
+                      Remove override
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => activateMutation.mutate(version.version)}
+                      disabled={version.isActive || activateMutation.isPending}
+                    >
+                      Activate
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <Label htmlFor="prompt-draft">New version for {agentName(agentId)}</Label>
+          <Textarea
+            id="prompt-draft"
+            rows={12}
+            className="font-mono text-sm"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {selected.variables.length > 0
+              ? `Variables: ${selected.variables.map(variable => `{{${variable}}}`).join(", ")}`
+              : "This prompt has no variables."}
+          </p>
+          <Input
+            placeholder="What changed in this version?"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => createMutation.mutate({ activate: false })}
+              disabled={!draft.trim() || createMutation.isPending}
+            >
+              Save version
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate({ activate: true })}
+              disabled={!draft.trim() || createMutation.isPending}
+            >
+              Save and activate
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,8 +5,11 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { AgentType } from "@/types";
+import { useAgents } from "@/hooks/useAgents";
+import { apiRequest } from "@/lib/queryClient";
+import { Agent } from "@/types";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -24,13 +27,6 @@ interface SystemSettings {
   tokenBudget: number;
 }
 
-interface AgentSettings {
-  [AgentType.DESIGN]: boolean;
-  [AgentType.CODING]: boolean;
-  [AgentType.SUPERVISION]: boolean;
-  [AgentType.DEBUG]: boolean;
-}
-
 export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   // State for API keys (masked)
   const [apiKeys, setApiKeys] = useState<APIKeys>({
@@ -51,15 +47,11 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     tokenBudget: 2000,
   });
   
-  // Agent settings
-  const [agentSettings, setAgentSettings] = useState<AgentSettings>({
-    [AgentType.DESIGN]: true,
-    [AgentType.CODING]: true,
-    [AgentType.SUPERVISION]: true,
-    [AgentType.DEBUG]: true,
-  });
+  // Agents, built-in and from plugins; deactivated agents receive no requests
+  const { agents } = useAgents();
   
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   
   // Handle input changes
   const handleSystemSettingChange = (setting: keyof SystemSettings, value: number) => {
@@ -69,12 +61,25 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     }));
   };
   
-  const handleAgentSettingChange = (agent: AgentType, value: boolean) => {
-    setAgentSettings(prev => ({
-      ...prev,
-      [agent]: value
-    }));
-  };
+  const agentActiveMutation = useMutation({
+    mutationFn: ({ agent, isActive }: { agent: Agent; isActive: boolean }) =>
+      apiRequest(`/api/agents/${agent.id}/active`, { method: 'PATCH', data: { isActive } }),
+    onSuccess: (agent: Agent) => {
+      toast({
+        title: agent.isActive ? "Agent Activated" : "Agent Deactivated",
+        description: `${agent.name} ${agent.isActive ? "now receives" : "no longer receives"} requests`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/agents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/agent-types'] });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Error updating agent",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
   
   // Handle API key updates
   const handleUpdateGroqKey = () => {
@@ -261,37 +266,16 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
           <div>
             <h4 className="text-md font-medium mb-3">Agent Settings</h4>
             <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <Label className="text-sm font-medium">Design Agent</Label>
-                <Switch
-                  checked={agentSettings[AgentType.DESIGN]}
-                  onCheckedChange={(checked) => handleAgentSettingChange(AgentType.DESIGN, checked)}
-                />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <Label className="text-sm font-medium">Coding Agent</Label>
-                <Switch
-                  checked={agentSettings[AgentType.CODING]}
-                  onCheckedChange={(checked) => handleAgentSettingChange(AgentType.CODING, checked)}
-                />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <Label className="text-sm font-medium">Supervision Agent</Label>
-                <Switch
-                  checked={agentSettings[AgentType.SUPERVISION]}
-                  onCheckedChange={(checked) => handleAgentSettingChange(AgentType.SUPERVISION, checked)}
-                />
-              </div>
-              
-              <div className="flex items-center justify-between">
-                <Label className="text-sm font-medium">Debug Agent</Label>
-                <Switch
-                  checked={agentSettings[AgentType.DEBUG]}
-                  onCheckedChange={(checked) => handleAgentSettingChange(AgentType.DEBUG, checked)}
-                />
-              </div>
+              {agents.map(agent => (
+                <div key={agent.id} className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">{agent.name}</Label>
+                  <Switch
+                    checked={agent.isActive}
+                    disabled={agentActiveMutation.isPending}
+                    onCheckedChange={(checked) => agentActiveMutation.mutate({ agent, isActive: checked })}
+                  />
+                </div>
+              ))}
             </div>
           </div>
         </div>
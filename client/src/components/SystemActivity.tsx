@@ -75,6 +75,17 @@ function TimelineItem({ type, timestamp, title, description }: TimelineItemProps
           ),
           badge: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300'
         };
+      case 'tool_call':
+        return {
+          bgColor: 'bg-teal-500',
+          icon: (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          ),
+          badge: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-300'
+        };
       case 'system_error':
         return {
           bgColor: 'bg-red-500',
@@ -294,6 +305,7 @@ export default function SystemActivity() {
                   title={activity.type === 'api_call' ? 'API Call' : 
                          activity.type === 'thread_allocation' ? 'Thread Allocation' :
                          activity.type === 'system_error' ? 'System Error' :
+                         activity.type === 'tool_call' ? 'Tool Call' :
                          activity.type.charAt(0).toUpperCase() + activity.type.slice(1) + ' Agent'}
                   description={activity.description}
                 />
@@ -1,7 +1,10 @@
-import { useSystemStats } from "@/hooks/useSystemStats";
+import { useSystemStats, useThreadStats, useUsage } from "@/hooks/useSystemStats";
+import { UsageBudgetStatus } from "@/types";
 
 export default function SystemStats() {
   const { stats, isLoading, error } = useSystemStats();
+  const { usage } = useUsage();
+  const { threadStats } = useThreadStats();
 
   // Format numbers with commas
   const formatNumber = (num: number) => {
@@ -13,6 +16,31 @@ export default function SystemStats() {
     return (value / total) * 100;
   };
 
+  // Format a budget amount in its unit
+  const formatAmount = (amount: number, unit: UsageBudgetStatus['unit']) => {
+    return unit === 'usd' ? `$${amount.toFixed(2)}` : formatNumber(Math.round(amount));
+  };
+
+  // Describe a budget, e.g. "Project 3 · daily"
+  const formatBudgetLabel = (budget: UsageBudgetStatus) => {
+    if (budget.id === null) return 'API Tokens Used';
+    const owner = budget.scope === 'global'
+      ? 'Global'
+      : `${budget.scope.charAt(0).toUpperCase()}${budget.scope.slice(1)} ${budget.scopeId}`;
+    return budget.period === 'total' ? owner : `${owner} · ${budget.period}`;
+  };
+
+  const getBudgetBarClasses = (state: UsageBudgetStatus['state']) => {
+    switch (state) {
+      case 'exceeded':
+        return 'bg-red-500';
+      case 'warning':
+        return 'bg-amber-500';
+      default:
+        return 'bg-primary-600';
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="p-4 border-b border-gray-200 dark:border-gray-700">
@@ -40,28 +68,56 @@ export default function SystemStats() {
     );
   }
 
-  const apiTokenPercentage = calculatePercentage(stats.apiTokensUsed, stats.apiTokensLimit);
+  const budgets = usage?.budgets || [];
+  const today = usage?.days[usage.days.length - 1];
   const memoryPercentage = calculatePercentage(stats.memoryUsed, stats.memoryLimit);
-  const threadsPercentage = calculatePercentage(stats.activeThreads, stats.threadLimit);
+  const threadsPercentage = calculatePercentage(threadStats.activeThreads, threadStats.maxThreads);
+  const queuePercentage = threadStats.maxQueueSize > 0
+    ? Math.min(100, calculatePercentage(threadStats.queuedTasks, threadStats.maxQueueSize))
+    : 0;
 
   return (
     <div className="p-4 border-b border-gray-200 dark:border-gray-700">
       <h2 className="text-lg font-semibold mb-3">System Stats</h2>
       
-      {/* API Usage */}
-      <div className="mb-4">
-        <div className="flex justify-between items-center mb-1">
-          <span className="text-sm font-medium">API Tokens Used</span>
+      {/* LLM spend against budgets */}
+      <div className="mb-4 space-y-3">
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-medium">LLM Spend Today</span>
           <span className="text-xs text-gray-500 dark:text-gray-400">
-            {formatNumber(stats.apiTokensUsed)} / {formatNumber(stats.apiTokensLimit)}
+            ${(today?.cost || 0).toFixed(2)} · {formatNumber(today?.totalTokens || 0)} tokens
           </span>
         </div>
-        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-          <div 
-            className="bg-primary-600 h-2 rounded-full" 
-            style={{ width: `${apiTokenPercentage}%` }}
-          ></div>
-        </div>
+        
+        {budgets.map((budget) => {
+          const limit = budget.hardLimit ?? budget.softLimit ?? 0;
+          const percentage = limit > 0 ? Math.min(100, calculatePercentage(budget.spent, limit)) : 0;
+          
+          return (
+            <div key={budget.id ?? 'system'}>
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-sm">{formatBudgetLabel(budget)}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatAmount(budget.spent, budget.unit)} / {formatAmount(limit, budget.unit)}
+                  {budget.unit === 'tokens' && budget.id !== null ? ' tokens' : ''}
+                </span>
+              </div>
+              <div className="relative w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                <div 
+                  className={`${getBudgetBarClasses(budget.state)} h-2 rounded-full`} 
+                  style={{ width: `${percentage}%` }}
+                ></div>
+                {budget.softLimit !== null && budget.hardLimit !== null && (
+                  <div
+                    className="absolute top-0 h-2 w-0.5 bg-gray-500"
+                    style={{ left: `${calculatePercentage(budget.softLimit, budget.hardLimit)}%` }}
+                    title="Soft limit"
+                  ></div>
+                )}
+              </div>
+            </div>
+          );
+        })}
       </div>
       
       {/* Memory Usage */}
@@ -80,12 +136,12 @@ export default function SystemStats() {
         </div>
       </div>
       
-      {/* Active Threads */}
-      <div>
+      {/* Running Tasks */}
+      <div className="mb-4">
         <div className="flex justify-between items-center mb-1">
-          <span className="text-sm font-medium">Active Threads</span>
+          <span className="text-sm font-medium">Running Tasks</span>
           <span className="text-xs text-gray-500 dark:text-gray-400">
-            {stats.activeThreads} / {stats.threadLimit}
+            {threadStats.activeThreads} / {threadStats.maxThreads} threads
           </span>
         </div>
         <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
@@ -95,6 +151,30 @@ export default function SystemStats() {
           ></div>
         </div>
       </div>
+      
+      {/* Queued Tasks */}
+      <div>
+        <div className="flex justify-between items-center mb-1">
+          <span className="text-sm font-medium">Queued Tasks</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {threadStats.queuedTasks} / {threadStats.maxQueueSize}
+          </span>
+        </div>
+        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+          <div 
+            className="bg-sky-500 h-2 rounded-full" 
+            style={{ width: `${queuePercentage}%` }}
+          ></div>
+        </div>
+        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Avg wait {threadStats.averageWaitMs}ms · max {threadStats.maxWaitMs}ms
+          {threadStats.recycledWorkers > 0 && ` · ${threadStats.recycledWorkers} workers recycled`}
+        </div>
+        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Sandboxes {threadStats.sandboxes.active} / {threadStats.sandboxes.max}
+          {threadStats.sandboxes.queued > 0 && ` · ${threadStats.sandboxes.queued} queued`}
+        </div>
+      </div>
     </div>
   );
 }
@@ -1,18 +1,42 @@
 import { useState, useRef, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiStream } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useWebSocket } from "@/hooks/useWebSocket";
-import { Message, AgentType } from "@/types";
+import { useJob, isJobFinished } from "@/hooks/useJobs";
+import { Message, AgentType, Job, JobStatus } from "@/types";
 import { formatDistanceToNow } from "date-fns";
 
+// The job this page is waiting for, kept so a reload can pick up its result
+const PENDING_JOB_KEY = "pendingJobId";
+
+const savedJobId = () => {
+  const saved = localStorage.getItem(PENDING_JOB_KEY);
+  return saved ? parseInt(saved, 10) : null;
+};
+
+// What a finished job has to say
+const jobOutput = (job: Job) => {
+  if (job.status === JobStatus.CANCELLED) {
+    return job.result?.output || "Stopped.";
+  }
+  return job.result ? job.result.output : `Failed to process your message: ${job.error || "unknown error"}`;
+};
+
 export default function UserInteraction() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<number | null>(null);
   const socket = useWebSocket();
+  
+  // A job whose result is polled for rather than streamed: one left running by a reload or a dropped stream
+  const [polledJobId, setPolledJobId] = useState<number | null>(savedJobId);
+  const polledResponseIdRef = useRef<number | null>(null);
+  const { job: polledJob, error: pollError } = useJob(polledJobId);
 
   useEffect(() => {
     // Scroll to bottom when messages change
@@ -34,6 +58,50 @@ export default function UserInteraction() {
     }
   }, []);
 
+  const finishJob = () => {
+    localStorage.removeItem(PENDING_JOB_KEY);
+    jobIdRef.current = null;
+    setPolledJobId(null);
+    polledResponseIdRef.current = null;
+    setIsSubmitting(false);
+  };
+
+  useEffect(() => {
+    if (!polledJob) return;
+    
+    // After a reload, show the job's message and a placeholder for its answer
+    if (polledResponseIdRef.current === null) {
+      const responseId = Date.now();
+      polledResponseIdRef.current = responseId;
+      jobIdRef.current = polledJob.id;
+      setIsSubmitting(true);
+      setMessages(prev => [
+        ...prev,
+        { id: responseId - 1, role: "user", content: polledJob.input, timestamp: new Date(polledJob.createdAt), sender: "You" },
+        { id: responseId, role: "agent", content: "", timestamp: new Date(polledJob.createdAt), sender: "Supervision Agent", streaming: true }
+      ]);
+    }
+    
+    if (isJobFinished(polledJob)) {
+      const responseId = polledResponseIdRef.current;
+      setMessages(prev => prev.map(message => message.id === responseId
+        ? { ...message, content: jobOutput(polledJob), streaming: false }
+        : message));
+      finishJob();
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
+    }
+  }, [polledJob]);
+
+  // The job is gone, e.g. the server restarted without a database
+  useEffect(() => {
+    if (!pollError) return;
+    
+    const responseId = polledResponseIdRef.current;
+    setMessages(prev => prev.filter(message => message.id !== responseId || message.content));
+    finishJob();
+  }, [pollError]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -55,41 +123,92 @@ export default function UserInteraction() {
     setInputMessage("");
     setIsSubmitting(true);
     
+    // Placeholder bubble that fills in as tokens stream from the supervision agent
+    const responseId = Date.now() + 1;
+    setMessages(prev => [
+      ...prev,
+      {
+        id: responseId,
+        role: "agent",
+        content: "",
+        timestamp: new Date(),
+        sender: "Supervision Agent",
+        streaming: true
+      }
+    ]);
+    
+    const updateResponse = (update: (message: Message) => Message) => {
+      setMessages(prev => prev.map(message => message.id === responseId ? update(message) : message));
+    };
+    
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    
     try {
       // First, let's have the supervision agent analyze the task
-      const supervisionResponse = await apiRequest("POST", "/api/process", {
-        message: inputMessage,
-        agentType: AgentType.SUPERVISION
-      });
-      
-      const supervisionData = await supervisionResponse.json();
-      
-      // Add supervision agent response
-      setMessages(prev => [
-        ...prev,
-        {
-          id: Date.now(),
-          role: "agent",
-          content: supervisionData.output,
-          timestamp: new Date(),
-          sender: "Supervision Agent"
+      await apiStream("/api/process", {
+        data: {
+          message: inputMessage,
+          agentType: AgentType.SUPERVISION,
+          stream: true
+        },
+        signal: controller.signal,
+        onEvent: (event, data) => {
+          if (event === "job") {
+            jobIdRef.current = data.id;
+            localStorage.setItem(PENDING_JOB_KEY, String(data.id));
+          } else if (event === "token") {
+            updateResponse(message => ({ ...message, content: message.content + data.delta }));
+          } else if (event === "result") {
+            // The final result is authoritative (e.g. the agent's error message on failure)
+            updateResponse(message => ({ ...message, content: data.cancelled ? message.content || "Stopped." : data.output, streaming: false }));
+          } else if (event === "error") {
+            throw new Error(data.details || data.error);
+          }
         }
-      ]);
+      });
       
       // Trigger a refetch of system stats and activities
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
+      finishJob();
       
     } catch (error) {
+      if (controller.signal.aborted) {
+        updateResponse(message => ({ ...message, content: message.content || "Stopped.", streaming: false }));
+        finishJob();
+        return;
+      }
+      
+      // The stream dropped but the job runs on; wait for its result instead
+      if (error instanceof TypeError && jobIdRef.current !== null) {
+        polledResponseIdRef.current = responseId;
+        setPolledJobId(jobIdRef.current);
+        return;
+      }
+      
       console.error("Error processing message:", error);
+      setMessages(prev => prev.filter(message => message.id !== responseId || message.content));
+      updateResponse(message => ({ ...message, streaming: false }));
+      finishJob();
       toast({
         title: "Error",
         description: "Failed to process your message. Please try again.",
         variant: "destructive"
       });
     } finally {
-      setIsSubmitting(false);
+      abortControllerRef.current = null;
+    }
+  };
+  
+  const handleStop = () => {
+    // The job runs on without this page, so it is cancelled on the server too
+    const jobId = jobIdRef.current;
+    if (jobId !== null) {
+      apiRequest(`/api/jobs/${jobId}/cancel`, { method: "POST" })
+        .catch(error => console.error("Error cancelling job:", error));
     }
+    abortControllerRef.current?.abort();
   };
 
   const getMessageClasses = (role: string) => {
@@ -169,7 +288,12 @@ export default function UserInteraction() {
                 <span className={`font-semibold ${getSenderColor(message.role)}`}>{message.sender}</span>
                 <span className="text-xs text-gray-500 dark:text-gray-400">{formatTimestamp(message.timestamp)}</span>
               </div>
-              <div className="whitespace-pre-wrap">{message.content}</div>
+              <div className="whitespace-pre-wrap">
+                {message.content}
+                {message.streaming && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-blue-500 dark:bg-blue-400 animate-pulse" />
+                )}
+              </div>
             </div>
           </div>
         ))}
@@ -201,23 +325,34 @@ export default function UserInteraction() {
         </div>
         <div className="mt-3 flex justify-between items-center">
           <span className="text-xs text-gray-500 dark:text-gray-400">Press Enter to send, Shift+Enter for new line</span>
-          <button 
-            type="submit"
-            className="flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 dark:focus:ring-offset-gray-900"
-            disabled={isSubmitting || !inputMessage.trim()}
-          >
-            {isSubmitting ? (
-              <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-            ) : (
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
-              </svg>
+          <div className="flex items-center space-x-2">
+            {isSubmitting && (
+              <button 
+                type="button"
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md shadow-sm"
+                onClick={handleStop}
+              >
+                Stop
+              </button>
             )}
-            {isSubmitting ? "Processing..." : "Send"}
-          </button>
+            <button 
+              type="submit"
+              className="flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 dark:focus:ring-offset-gray-900"
+              disabled={isSubmitting || !inputMessage.trim()}
+            >
+              {isSubmitting ? (
+                <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+                </svg>
+              )}
+              {isSubmitting ? "Processing..." : "Send"}
+            </button>
+          </div>
         </div>
       </form>
     </div>
@@ -1,16 +1,12 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
 import { useSystemStats, useThreadStats } from '@/hooks/useSystemStats';
 import { useSystemActivities } from '@/hooks/useAgents';
-import { SystemStats, SystemActivity } from '@/types';
+import { SystemStats, SystemActivity, ThreadStats } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 
 interface SystemContextType {
   stats: SystemStats | undefined;
-  threadStats: {
-    activeThreads: number;
-    maxThreads: number;
-    availableThreads: number;
-  };
+  threadStats: ThreadStats;
   activities: SystemActivity[];
   isLoading: boolean;
   isInitialized: boolean;
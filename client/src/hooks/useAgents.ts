@@ -1,7 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { useEffect } from "react";
-import { Agent } from "@/types";
+import { Agent, AgentStatus } from "@/types";
 
 export const useAgents = () => {
   const { lastMessage, sendMessage } = useWebSocket();
@@ -31,7 +31,8 @@ export const useAgents = () => {
   };
   
   return {
-    agents: agents || [],
+    // Agents retired from their pool keep their records but no longer run
+    agents: (agents || []).filter(agent => agent.status !== AgentStatus.OFFLINE),
     error,
     isLoading,
     refreshAgents
@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { useEffect } from "react";
+import { Job, JobStatus } from "@/types";
+
+export const isJobFinished = (job: Job) =>
+  job.status === JobStatus.SUCCEEDED || job.status === JobStatus.FAILED || job.status === JobStatus.CANCELLED;
+
+// Hook for one job, polled until it has finished and refreshed whenever the server reports a change to it
+export const useJob = (id: number | null) => {
+  const { lastMessage } = useWebSocket();
+
+  const {
+    data: job,
+    error,
+    isLoading,
+    refetch
+  } = useQuery<Job>({
+    queryKey: [`/api/jobs/${id}`],
+    enabled: id !== null,
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      return data && isJobFinished(data) ? false : 2000;
+    },
+  });
+
+  useEffect(() => {
+    if (id !== null && lastMessage && lastMessage.type === 'JOB_UPDATE' && lastMessage.data?.id === id) {
+      refetch();
+    }
+  }, [id, lastMessage, refetch]);
+
+  return {
+    job,
+    error,
+    isLoading
+  };
+};
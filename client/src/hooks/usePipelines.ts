@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { useWebSocket } from "@/hooks/useWebSocket";
+import { useEffect } from "react";
+import { Pipeline } from "@/types";
+
+// Hook for the recent pipelines, newest first, refreshed whenever the server reports a change to one
+export const usePipelines = () => {
+  const { lastMessage } = useWebSocket();
+
+  const {
+    data: pipelines,
+    error,
+    isLoading,
+    refetch
+  } = useQuery<Pipeline[]>({
+    queryKey: ['/api/pipelines'],
+  });
+
+  useEffect(() => {
+    if (lastMessage && lastMessage.type === 'PIPELINE_UPDATE') {
+      refetch();
+    }
+  }, [lastMessage, refetch]);
+
+  return {
+    pipelines: pipelines || [],
+    error,
+    isLoading,
+    refetch
+  };
+};
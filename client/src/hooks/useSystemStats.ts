@@ -1,7 +1,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { useWebSocket } from "@/hooks/useWebSocket";
 import { useEffect } from "react";
-import { SystemStats } from "@/types";
+import { SystemStats, ThreadStats, UsageReport } from "@/types";
 
 export const useSystemStats = () => {
   const { lastMessage, sendMessage } = useWebSocket();
@@ -38,20 +38,74 @@ export const useSystemStats = () => {
   };
 };
 
-// Hook for thread stats
+// Hook for LLM usage and budget status, refreshed along with the system stats
+export const useUsage = () => {
+  const { lastMessage } = useWebSocket();
+  
+  const {
+    data: usage,
+    error,
+    isLoading,
+    refetch
+  } = useQuery<UsageReport>({
+    queryKey: ['/api/usage'],
+    staleTime: 30000, // 30 seconds
+  });
+  
+  useEffect(() => {
+    if (lastMessage && lastMessage.type === 'STATS_UPDATE') {
+      refetch();
+    }
+  }, [lastMessage, refetch]);
+  
+  return {
+    usage,
+    error,
+    isLoading,
+    refreshUsage: refetch
+  };
+};
+
+const emptyThreadStats: ThreadStats = {
+  activeThreads: 0,
+  maxThreads: 8,
+  availableThreads: 8,
+  queuedTasks: 0,
+  maxQueueSize: 100,
+  averageWaitMs: 0,
+  maxWaitMs: 0,
+  completedTasks: 0,
+  failedTasks: 0,
+  recycledWorkers: 0,
+  sandboxes: { active: 0, max: 4, queued: 0, completed: 0, failed: 0 }
+};
+
+// Hook for thread stats, polled while tasks are running or queued
 export const useThreadStats = () => {
+  const { lastMessage } = useWebSocket();
+  
   const {
     data: stats,
     error,
     isLoading,
     refetch
-  } = useQuery({
+  } = useQuery<ThreadStats>({
     queryKey: ['/api/thread-stats'],
     staleTime: 30000, // 30 seconds
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      return data && (data.activeThreads > 0 || data.queuedTasks > 0 || data.sandboxes.active > 0 || data.sandboxes.queued > 0) ? 2000 : false;
+    },
   });
   
+  useEffect(() => {
+    if (lastMessage && lastMessage.type === 'STATS_UPDATE') {
+      refetch();
+    }
+  }, [lastMessage, refetch]);
+  
   return {
-    threadStats: stats || { activeThreads: 0, maxThreads: 8, availableThreads: 8 },
+    threadStats: stats || emptyThreadStats,
     error,
     isLoading,
     refreshThreadStats: refetch
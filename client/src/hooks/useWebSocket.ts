@@ -6,6 +6,8 @@ type WebSocketMessageType =
   | 'AGENTS_UPDATE'
   | 'STATS_UPDATE'
   | 'ACTIVITIES_UPDATE'
+  | 'JOB_UPDATE'
+  | 'PIPELINE_UPDATE'
   | 'PONG';
 
 interface WebSocketMessage {
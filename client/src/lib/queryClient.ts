@@ -33,6 +33,65 @@ export async function apiRequest(
   return await res.json();
 }
 
+// POST to an endpoint that answers with server-sent events, calling onEvent for each one.
+// Aborting `signal` closes the connection, which also stops the work on the server.
+export async function apiStream(
+  url: string,
+  options: {
+    data?: unknown;
+    onEvent: (event: string, data: any) => void;
+    signal?: AbortSignal;
+  }
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream"
+    },
+    body: JSON.stringify(options.data),
+    credentials: "include",
+    signal: options.signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) {
+    throw new Error("Streaming responses are not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any partial event for the next read
+    const events = buffer.split("\n\n");
+    buffer = events.pop() || "";
+
+    events.forEach((raw) => {
+      let event = "message";
+      let data = "";
+
+      raw.split("\n").forEach((line) => {
+        if (line.startsWith("event:")) {
+          event = line.substring(6).trim();
+        } else if (line.startsWith("data:")) {
+          data += line.substring(5).trim();
+        }
+      });
+
+      if (data) {
+        options.onEvent(event, JSON.parse(data));
+      }
+    });
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -7,6 +7,7 @@ import UserInteraction from "@/components/UserInteraction";
 import SystemActivity from "@/components/SystemActivity";
 import NotificationToast from "@/components/NotificationToast";
 import AgentDecisionVisualization from "@/components/AgentDecisionVisualization";
+import PipelineView from "@/components/PipelineView";
 import { LLMCacheManager } from "@/components/LLMCacheManager";
 import { useSystemContext } from "@/contexts/SystemContext";
 import { useMobile } from "@/hooks/use-mobile";
@@ -183,6 +184,7 @@ export default function Dashboard() {
                 id="system-activity-panel"
               >
                 <div className="flex flex-col h-full">
+                  <PipelineView />
                   <div className="flex-1 overflow-auto">
                     <SystemActivity />
                   </div>
@@ -12,7 +12,10 @@ export enum AgentStatus {
   IDLE = 'idle',
   OBSERVING = 'observing',
   STANDBY = 'standby',
-  ERROR = 'error'
+  ERROR = 'error',
+  PAUSED = 'paused', // Takes no new work until resumed
+  DRAINING = 'draining', // Finishing its runs in progress, then paused
+  OFFLINE = 'offline' // Retired from its pool; the record is kept for its history
 }
 
 export interface Agent {
@@ -25,6 +28,30 @@ export interface Agent {
   updatedAt: string;
 }
 
+// A built-in or plugin agent type, as listed by /api/agent-types
+export interface AgentTypeInfo {
+  type: string;
+  name: string;
+  description: string;
+  source: 'builtin' | 'plugin';
+  isActive: boolean;
+  methods: string[];
+  pool: AgentPoolInfo | null;
+}
+
+// The agents running for one type, between min and max of them
+export interface AgentPoolInfo {
+  min: number;
+  max: number;
+  instances: {
+    id: number;
+    name: string;
+    status: AgentStatus;
+    isActive: boolean;
+    activeRuns: number;
+  }[];
+}
+
 // Project types
 export interface Project {
   id: number;
@@ -40,7 +67,8 @@ export enum TaskStatus {
   PENDING = 'pending',
   IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
-  FAILED = 'failed'
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
 }
 
 export interface Task {
@@ -65,6 +93,7 @@ export interface Message {
   content: string;
   timestamp: Date;
   sender: string;
+  streaming?: boolean; // True while tokens are still arriving
 }
 
 export interface ApiMessage {
@@ -83,7 +112,8 @@ export enum ActivityType {
   THREAD_ALLOCATION = 'thread_allocation',
   MEMORY_USAGE = 'memory_usage',
   AGENT_STATUS_CHANGE = 'agent_status_change',
-  SYSTEM_ERROR = 'system_error'
+  SYSTEM_ERROR = 'system_error',
+  TOOL_CALL = 'tool_call'
 }
 
 export interface SystemActivity {
@@ -105,6 +135,136 @@ export interface SystemStats {
   updatedAt: string;
 }
 
+// Worker thread pool usage; tasks beyond the pool size wait in the queue
+export interface ThreadStats {
+  activeThreads: number;
+  maxThreads: number;
+  availableThreads: number;
+  queuedTasks: number;
+  maxQueueSize: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  completedTasks: number;
+  failedTasks: number;
+  recycledWorkers: number;
+  // Sandboxed code runs in child processes, in slots of its own
+  sandboxes: {
+    active: number;
+    max: number;
+    queued: number;
+    completed: number;
+    failed: number;
+  };
+}
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+// The result an agent run ends with
+export interface AgentExecutionResult {
+  success: boolean;
+  output: string;
+  error?: string;
+  cancelled?: boolean;
+  needsClarification?: boolean;
+  data?: unknown;
+  metadata?: Record<string, any>;
+}
+
+// An agent run submitted through /api/process; progress is 0-100
+export interface Job {
+  id: number;
+  agentType: string;
+  status: JobStatus;
+  progress: number;
+  progressMessage: string | null;
+  input: string;
+  context: Record<string, any> | null;
+  taskId: number | null;
+  messageId: number | null;
+  resultMessageId: number | null;
+  agentId: number | null;
+  result: AgentExecutionResult | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  updatedAt: string;
+}
+
+export type PipelineStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type PipelineStepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'skipped';
+
+// A step of a pipeline; steps of the same level can run at the same time
+export interface PipelineStep {
+  id: string;
+  title: string;
+  agentType: string;
+  method?: string;
+  instruction: string;
+  dependsOn: string[];
+  level: number;
+  status: PipelineStepStatus;
+  taskId: number | null;
+  jobId: number | null;
+  output: string | null;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+// A multi-agent pipeline run from a supervision plan, see /api/pipelines
+export interface Pipeline {
+  id: number;
+  goal: string;
+  status: PipelineStatus;
+  projectId: number | null;
+  parentTaskId: number | null;
+  steps: PipelineStep[];
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// Usage budget with its current spend; id is null for the system-wide token limit
+export interface UsageBudgetStatus {
+  id: number | null;
+  scope: 'global' | 'project' | 'task' | 'agent';
+  scopeId: number | null;
+  unit: 'tokens' | 'usd';
+  period: 'total' | 'daily' | 'monthly';
+  softLimit: number | null;
+  hardLimit: number | null;
+  spent: number;
+  periodStart: string | null;
+  state: 'ok' | 'warning' | 'exceeded';
+}
+
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  days: Array<UsageTotals & { date: string }>;
+  providers: Array<UsageTotals & { provider: string }>;
+  agents: Array<UsageTotals & { agentId: number | null }>;
+  prompts: Array<UsageTotals & { promptTemplate: string; promptVersion: number }>;
+  budgets: UsageBudgetStatus[];
+}
+
 // API response types
 export interface ApiResponse<T> {
   success: boolean;
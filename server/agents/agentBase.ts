@@ -1,8 +1,46 @@
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
 import { storage } from '../storage';
-import { threadManager } from '../utils/threadManager';
-import { AgentType, AgentStatus, ActivityType } from '@shared/schema';
+import { threadManager, type TaskExecutionOptions } from '../utils/threadManager';
+import { TASK_PRIORITIES, type TaskPriority } from '../utils/taskScheduler';
+import { AgentStatus, ActivityType, TaskStatus } from '@shared/schema';
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { LLMRequestParams, LLMResponse, LLMStructuredResponse, LLMToolMessage } from '../services/llmService';
+import type { LLMUsageContext } from '../services/usageLedger';
+import { toolRegistry, type ToolInvocation } from './toolRegistry';
+import { promptRegistry } from './promptRegistry';
+import { buildTaskHistory } from '../services/conversationHistory';
+import { experimentManager, type ExperimentAssignment } from '../services/experimentManager';
+import { LLMStructuredOutputError } from '../services/llmErrors';
+import {
+  classifyByKeywords, clarificationQuestion, formatMethods, getIntentConfidenceThreshold, getIntentRouterMode, intentSchema,
+  type AgentMethodDescription, type IntentDecision
+} from './intentRouter';
+import { AgentMethodError, formatMethodInput } from './agentMethods';
+import { fieldErrors } from '../services/structuredOutput';
+import { abortable, isTimeout, withTimeout } from '../utils/abort';
+import { getSandboxNetwork } from '../utils/sandbox';
+import { formatSandboxResult } from './resultFormat';
+import { acceptsWork, canTransition, lifecycleTarget, AgentLifecycleError, type AgentLifecycleAction } from './agentLifecycle';
+
+// The code in the first fenced block of `input`, or all of it
+function codeFromInput(input: string): string {
+  const block = /```[\w-]*\n([\s\S]*?)```/.exec(input);
+  return block ? block[1] : input;
+}
+
+// Longest tool result fed back to the model, in characters
+const MAX_TOOL_RESULT_LENGTH = 8000;
+
+// Default time an agent may spend on one input before it is aborted
+const DEFAULT_AGENT_TIMEOUT_MS = 300000;
+
+// AGENT_TIMEOUT_<TYPE>_MS (e.g. AGENT_TIMEOUT_SELF_HEALING_MS) overrides AGENT_TIMEOUT_MS for one agent type
+export function getAgentTimeoutMs(type: string): number {
+  const value = process.env[`AGENT_TIMEOUT_${type.toUpperCase()}_MS`] || process.env.AGENT_TIMEOUT_MS;
+  const timeoutMs = value ? parseInt(value, 10) : NaN;
+  return isNaN(timeoutMs) ? DEFAULT_AGENT_TIMEOUT_MS : timeoutMs;
+}
 
 export interface AgentExecutionResult {
   success: boolean;
@@ -13,30 +51,198 @@ export interface AgentExecutionResult {
     total: number;
   };
   error?: string;
+  cancelled?: boolean; // Aborted by the caller rather than failed
+  needsClarification?: boolean; // The output is a question for the user rather than an answer
+  data?: unknown; // Machine-readable result, when the method produces one
   metadata?: Record<string, any>;
 }
 
+// Status a task is left in by an agent run for it
+export function taskStatusOf(result: AgentExecutionResult): TaskStatus {
+  if (result.cancelled) return TaskStatus.CANCELLED;
+  if (result.needsClarification) return TaskStatus.PENDING; // Waiting for the user's answer
+  return result.success ? TaskStatus.COMPLETED : TaskStatus.FAILED;
+}
+
 export abstract class AgentBase {
   id: number;
   name: string;
-  type: AgentType;
+  type: string; // An AgentType for the built-in agents, the manifest's type for plugins
   status: AgentStatus;
   isActive: boolean;
+  timeoutMs: number; // 0 disables the timeout
+  activeRuns: number; // Runs in progress; more than one when its pool is at its maximum size
+  private runControllers: Set<AbortController>; // Cancel the runs in progress
+  private retired: boolean; // Replaced by another instance, which now owns its agent record
 
-  constructor(id: number, name: string, type: AgentType) {
+  constructor(id: number, name: string, type: string) {
     this.id = id;
     this.name = name;
     this.type = type;
     this.status = AgentStatus.STANDBY;
     this.isActive = true;
+    this.timeoutMs = getAgentTimeoutMs(type);
+    this.activeRuns = 0;
+    this.runControllers = new Set();
+    this.retired = false;
   }
 
   // Abstract methods that must be implemented by derived classes
   abstract process(input: string, context?: Record<string, any>): Promise<AgentExecutionResult>;
-  abstract getMethods(): string[];
+  abstract getMethodDescriptions(): AgentMethodDescription[];
+
+  // Get the methods this agent can perform
+  getMethods(): string[] {
+    return this.getMethodDescriptions().map(method => method.name);
+  }
+
+  /**
+   * Process input until it completes, context.signal aborts or the agent's
+   * timeout (context.timeoutMs overrides it) elapses. The combined signal is
+   * handed to process as context.signal, which passes it on to LLM and thread
+   * calls. An aborted run resolves to a failed result: `cancelled` when the
+   * caller aborted, a timeout error otherwise.
+   *
+   * While an experiment runs for this agent type, the run is assigned one of its
+   * variants (context.experiment) and its outcome is recorded against it.
+   */
+  async run(input: string, context: Record<string, any> = {}): Promise<AgentExecutionResult> {
+    const controller = new AbortController();
+    const signal = context.signal ? AbortSignal.any([context.signal, controller.signal]) : controller.signal;
+    this.activeRuns++;
+    this.runControllers.add(controller);
+    try {
+      const experiment: ExperimentAssignment | undefined = context.experiment || await experimentManager.assign(this, context);
+      const result = await this.runWithTimeout(input, { ...context, signal, ...(experiment ? { experiment } : {}) });
+
+      if (experiment && !context.experiment) {
+        await experimentManager.recordOutcome(experiment, taskStatusOf(result), result.tokens?.total);
+      }
+
+      return result;
+    } finally {
+      this.activeRuns--;
+      this.runControllers.delete(controller);
+      if (this.activeRuns === 0 && this.status === AgentStatus.DRAINING) {
+        await this.writeStatus(AgentStatus.PAUSED)
+          .catch(error => logger.error(`Failed to pause ${this.name} after draining: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    }
+  }
+
+  /**
+   * Apply a lifecycle action (see agentLifecycle); throws AgentLifecycleError
+   * when the agent's status does not allow it. Draining an agent without runs
+   * in progress pauses it right away; restarting cancels its runs.
+   */
+  async control(action: AgentLifecycleAction): Promise<void> {
+    let status = lifecycleTarget(action, this.status);
+    if (action === 'restart') {
+      this.runControllers.forEach(controller => controller.abort());
+    }
+    if (status === AgentStatus.DRAINING && this.activeRuns === 0) {
+      status = AgentStatus.PAUSED;
+    }
+
+    await this.writeStatus(status);
+  }
+
+  // Leave the agent record to the instance replacing this one; status changes from its unfinished runs are dropped
+  retire(): void {
+    this.retired = true;
+  }
+
+  // Set the status an operator asked for; throws AgentLifecycleError when the state machine does not allow it
+  async changeStatus(status: AgentStatus): Promise<void> {
+    if (!canTransition(this.status, status)) {
+      throw new AgentLifecycleError(`Cannot change ${this.name} from ${this.status} to ${status}`);
+    }
+    await this.writeStatus(status);
+  }
+
+  // The parameters for `method` as its schema parses them; throws AgentMethodError for unknown methods and invalid parameters
+  parseParams(method: string, params: unknown): Record<string, any> {
+    const description = this.getMethodDescriptions().find(candidate => candidate.name === method);
+    if (!description) {
+      throw new AgentMethodError(`${this.name} has no method ${method}`);
+    }
+
+    const parsed = description.parameters.safeParse(params === undefined ? {} : params);
+    if (!parsed.success) {
+      throw new AgentMethodError(`Invalid parameters for ${this.name}.${method}`, fieldErrors(parsed.error));
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Run `method` with typed parameters, bypassing intent routing. The parsed
+   * parameters reach its handler both as the input text and merged into the
+   * context, where handlers look up their options.
+   */
+  async invoke(method: string, params: unknown, context: Record<string, any> = {}): Promise<AgentExecutionResult> {
+    const parsed = this.parseParams(method, params);
+    const description = this.getMethodDescriptions().find(candidate => candidate.name === method)!;
+    return this.run(formatMethodInput(description, parsed), { ...context, ...parsed, method, params: parsed });
+  }
+
+  private async runWithTimeout(input: string, context: Record<string, any>): Promise<AgentExecutionResult> {
+    const timeoutMs = typeof context.timeoutMs === 'number' ? context.timeoutMs : this.timeoutMs;
+    const signal = withTimeout(context.signal, timeoutMs);
+    const processing = this.process(input, { ...context, signal });
+
+    let result: AgentExecutionResult | undefined;
+    try {
+      result = await abortable(processing, signal);
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
+      }
+    }
+
+    if (result && !signal?.aborted) {
+      return result;
+    }
+
+    // The abandoned work may still report an error status on its way out
+    processing
+      .catch(() => undefined)
+      .then(() => this.activeRuns === 0 ? this.setStatus(AgentStatus.IDLE) : undefined)
+      .catch(error => logger.error(`Failed to reset status of ${this.name}: ${error instanceof Error ? error.message : 'Unknown error'}`));
 
-  // Set agent status
+    const timedOut = isTimeout(signal);
+    const error = timedOut ? `${this.name} timed out after ${timeoutMs}ms` : `${this.name} was cancelled`;
+    logger.warn(error);
+    await this.logActivity(timedOut ? `Timed out after ${timeoutMs}ms` : 'Processing cancelled', { cancelled: !timedOut });
+
+    return {
+      success: false,
+      output: '',
+      error,
+      cancelled: !timedOut,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        action: timedOut ? 'timeout' : 'cancelled'
+      }
+    };
+  }
+
+  // Set agent status as its runs progress; a paused, draining or retired agent keeps its status
   async setStatus(status: AgentStatus): Promise<void> {
+    if (!acceptsWork(this.status)) {
+      return;
+    }
+    // A run finishing while another is in progress leaves the agent active
+    if (status === AgentStatus.IDLE && this.activeRuns > 1) {
+      return;
+    }
+
+    await this.writeStatus(status);
+  }
+
+  private async writeStatus(status: AgentStatus): Promise<void> {
+    if (this.retired) {
+      return;
+    }
     const previousStatus = this.status;
     this.status = status;
 
@@ -69,12 +275,366 @@ export abstract class AgentBase {
     });
   }
 
+  // Agent, project and task that usage from this call is charged to
+  protected usageContextFor(context?: Record<string, any>): LLMUsageContext {
+    return {
+      agentId: this.id,
+      projectId: typeof context?.projectId === 'number' ? context.projectId : undefined,
+      taskId: typeof context?.taskId === 'number' ? context.taskId : undefined
+    };
+  }
+
+  // Record tokens reported by a worker-thread task in the usage ledger
+  protected async recordTokenUsage(tokens: NonNullable<AgentExecutionResult['tokens']>, context?: Record<string, any>): Promise<void> {
+    const { usageLedger } = await import('../services/usageLedger');
+    await usageLedger.record({
+      provider: 'worker',
+      inputTokens: tokens.input,
+      outputTokens: tokens.output,
+      totalTokens: tokens.total,
+      context: this.usageContextFor(context)
+    });
+  }
+
+  // Thread manager options for a task run on behalf of this agent; a
+  // `priority` in the context overrides the default
+  protected taskOptions(context?: Record<string, any>, priority: TaskPriority = 'interactive'): TaskExecutionOptions {
+    const requested = TASK_PRIORITIES.find(candidate => candidate === context?.priority);
+    return { signal: context?.signal, agentType: this.type, priority: requested || priority };
+  }
+
+  // System prompt from the prompt registry, as request params that also name its template version
+  protected async systemPrompt(
+    name: string,
+    variables: Record<string, string> = {},
+    context?: Record<string, any>
+  ): Promise<Pick<LLMRequestParams, 'system' | 'promptTemplate'>> {
+    // An experiment variant may pin the version to use
+    const experiment: ExperimentAssignment | undefined = context?.experiment;
+    const prompt = await promptRegistry.render(name, variables, this.id, experiment?.config.promptVersions?.[name]);
+    return { system: prompt.text, promptTemplate: { name: prompt.name, version: prompt.version } };
+  }
+
+  /**
+   * Attribute a request to this agent and, when it runs for a task, give it the
+   * task's conversation so far. Callers can pass their own `messages`, or set
+   * context.includeHistory to false to send the prompt on its own. The settings
+   * of an experiment variant the run was assigned to win over the caller's.
+   */
+  protected async prepareRequest<T extends LLMRequestParams>(params: T, context?: Record<string, any>): Promise<T> {
+    let messages = params.messages;
+    if (!messages && typeof context?.taskId === 'number' && context.includeHistory !== false) {
+      messages = await buildTaskHistory(context.taskId, params.prompt);
+    }
+
+    const variant: Partial<LLMRequestParams> = {};
+    const experiment: ExperimentAssignment | undefined = context?.experiment;
+    if (experiment) {
+      const { temperature, provider, model } = experiment.config;
+      if (temperature !== undefined) variant.temperature = temperature;
+      if (provider !== undefined) variant.provider = provider;
+      if (model !== undefined) variant.model = model;
+    }
+
+    return { agent: this.type, usageContext: this.usageContextFor(context), signal: context?.signal, ...params, ...variant, messages };
+  }
+
+  // Call the LLM, streaming deltas to context.onToken when the caller supplied one
+  protected async completeLLM(params: LLMRequestParams, context?: Record<string, any>): Promise<LLMResponse> {
+    const { llmService } = await import('../services/llmService');
+    const onToken = context?.onToken;
+    const request = await this.prepareRequest(params, context);
+
+    if (typeof onToken !== 'function') {
+      return llmService.callLLM(request);
+    }
+
+    let response: LLMResponse | undefined;
+    for await (const chunk of llmService.streamLLM(request)) {
+      if (chunk.delta) {
+        onToken(chunk.delta);
+      }
+      if (chunk.done) {
+        response = chunk.response;
+      }
+    }
+
+    return response!;
+  }
+
+  // Call the LLM for JSON matching `schema`; not streamed, since partial JSON is not readable
+  protected async completeStructured<T>(
+    params: LLMRequestParams & { schema: ZodType<T, ZodTypeDef, any> },
+    context?: Record<string, any>
+  ): Promise<LLMStructuredResponse<T>> {
+    const { llmService } = await import('../services/llmService');
+    const experiment: ExperimentAssignment | undefined = context?.experiment;
+    if (!experiment) {
+      return llmService.callStructured(await this.prepareRequest(params, context));
+    }
+
+    try {
+      const response = await llmService.callStructured(await this.prepareRequest(params, context));
+      await experimentManager.recordValidation(experiment, true);
+      return response;
+    } catch (error) {
+      if (error instanceof LLMStructuredOutputError) {
+        await experimentManager.recordValidation(experiment, false, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Call the LLM with the tools registered for this agent type, running the tools
+   * it asks for and feeding their results back until it answers. After maxRounds
+   * rounds of tool calls the model is made to answer without tools. Usage covers
+   * every round.
+   */
+  protected async completeWithTools(
+    params: LLMRequestParams,
+    context?: Record<string, any>,
+    options: { maxRounds?: number } = {}
+  ): Promise<LLMResponse & { toolInvocations: ToolInvocation[] }> {
+    const { llmService } = await import('../services/llmService');
+    const maxRounds = options.maxRounds ?? 5;
+    const tools = toolRegistry.getDefinitions(this.type);
+    const toolMessages: LLMToolMessage[] = [];
+    const toolInvocations: ToolInvocation[] = [];
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    const request = await this.prepareRequest(params, context);
+
+    for (let round = 0; ; round++) {
+      const lastRound = round >= maxRounds;
+      const response = await llmService.callLLM({
+        ...request,
+        ...(tools.length > 0 ? { tools, toolChoice: lastRound ? 'none' : params.toolChoice, toolMessages: toolMessages.slice() } : {})
+      });
+
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+      usage.totalTokens += response.usage.totalTokens;
+
+      if (!response.toolCalls || response.toolCalls.length === 0 || lastRound) {
+        return { ...response, usage, toolInvocations };
+      }
+
+      toolMessages.push({ role: 'assistant', content: response.text || null, toolCalls: response.toolCalls });
+
+      for (const call of response.toolCalls) {
+        const invocation = await toolRegistry.invoke(call, {
+          agentId: this.id,
+          agentName: this.name,
+          agentType: this.type,
+          context
+        });
+        toolInvocations.push(invocation);
+
+        const content = JSON.stringify(invocation.success ? invocation.result ?? null : { error: invocation.error });
+        toolMessages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          content: content.length > MAX_TOOL_RESULT_LENGTH ? `${content.substring(0, MAX_TOOL_RESULT_LENGTH)}...` : content
+        });
+      }
+    }
+  }
+
+  /**
+   * Pick the method that should handle `input`: context.method when the caller
+   * names one, else the LLM's classification against getMethodDescriptions().
+   * Keyword matching takes over when the LLM cannot be reached or returns
+   * nothing usable, and always with INTENT_ROUTER_MODE=keyword.
+   */
+  protected async routeIntent(input: string, context?: Record<string, any>): Promise<IntentDecision> {
+    const methods = this.getMethodDescriptions();
+    if (typeof context?.method === 'string' && methods.some(method => method.name === context.method)) {
+      return { method: context.method, confidence: 1, source: 'explicit', alternatives: [] };
+    }
+
+    if (getIntentRouterMode() === 'llm') {
+      try {
+        // Routing is not part of the experiment the run may be in
+        const response = await this.completeStructured({
+          prompt: input,
+          ...(await this.systemPrompt('router.classify', { agent: this.name, methods: formatMethods(methods) })),
+          schema: intentSchema(methods),
+          temperature: 0,
+          maxTokens: 300
+        }, { ...context, experiment: undefined });
+        return { ...response.data, source: 'llm' };
+      } catch (error) {
+        if (context?.signal?.aborted) {
+          throw error;
+        }
+        logger.warn(`Intent classification for ${this.name} failed, matching keywords instead: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return classifyByKeywords(input, methods);
+  }
+
+  /**
+   * Route `input` and run the handler of the chosen method, adding the method,
+   * the router's confidence and how it decided to the result metadata. Below the
+   * confidence threshold no handler runs: the result asks the user to clarify.
+   */
+  protected async dispatch(
+    input: string,
+    context: Record<string, any> | undefined,
+    handlers: Record<string, () => Promise<AgentExecutionResult>>
+  ): Promise<AgentExecutionResult> {
+    const decision = await this.routeIntent(input, context);
+    const routing = { method: decision.method, confidence: decision.confidence, routedBy: decision.source };
+
+    if (decision.confidence < getIntentConfidenceThreshold()) {
+      logger.info(`${this.name} is asking for clarification (best guess ${decision.method}, confidence ${decision.confidence})`);
+      return {
+        success: true,
+        output: clarificationQuestion(decision, this.getMethodDescriptions()),
+        needsClarification: true,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: 'clarify',
+          ...routing,
+          alternatives: decision.alternatives
+        }
+      };
+    }
+
+    const handler = handlers[decision.method];
+    if (!handler) {
+      throw new Error(`${this.name} has no handler for method ${decision.method}`);
+    }
+
+    const result = await handler();
+    return { ...result, metadata: { ...result.metadata, ...routing } };
+  }
+
+  /**
+   * Run a method that answers with structured output: the named system prompt
+   * and `input` go to the LLM, whose JSON matching `schema` is returned as data
+   * and rendered by `format` as the output. The agent is active while it works.
+   */
+  protected async runStructuredTask<T>(
+    input: string,
+    context: Record<string, any> | undefined,
+    task: {
+      prompt: string;
+      schema: ZodType<T, ZodTypeDef, any>;
+      format: (data: T) => string;
+      temperature?: number;
+      maxTokens?: number;
+    }
+  ): Promise<AgentExecutionResult> {
+    try {
+      await this.setStatus(AgentStatus.ACTIVE);
+
+      const llmResponse = await this.completeStructured({
+        prompt: input,
+        ...(await this.systemPrompt(task.prompt, {}, context)),
+        schema: task.schema,
+        temperature: task.temperature ?? 0.3,
+        maxTokens: task.maxTokens ?? 3000
+      }, context);
+
+      await this.setStatus(AgentStatus.IDLE);
+
+      return {
+        success: true,
+        output: task.format(llmResponse.data),
+        data: llmResponse.data,
+        tokens: {
+          input: llmResponse.usage.inputTokens,
+          output: llmResponse.usage.outputTokens,
+          total: llmResponse.usage.totalTokens
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: task.prompt
+        }
+      };
+    } catch (error) {
+      await this.setStatus(AgentStatus.ERROR);
+      logger.error(`Error in ${this.name} (${task.prompt}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+      return {
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: task.prompt,
+          errorType: error instanceof Error ? error.constructor.name : 'Unknown'
+        }
+      };
+    }
+  }
+
+  /**
+   * Run JavaScript the agent was given or wrote, and optional tests, in the
+   * sandbox. The code comes from the `code` parameter, else the first fenced
+   * code block of `input`, else all of it. Time, memory and permission
+   * violations fail the result with their ErrorType as metadata.errorType.
+   */
+  protected async runSandboxed(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    const code = typeof context?.code === 'string' ? context.code : codeFromInput(input);
+    const tests = typeof context?.tests === 'string' ? context.tests : undefined;
+
+    try {
+      await this.setStatus(AgentStatus.ACTIVE);
+
+      const result = await threadManager.executeSandboxed(code, `${this.name} running code`, {
+        ...this.taskOptions(context),
+        tests,
+        // Set per deployment: code that callers send must not decide whether it can reach the network
+        permissions: { network: getSandboxNetwork(this.type) }
+      });
+
+      await this.setStatus(AgentStatus.IDLE);
+
+      const failedTests = result.tests.filter(test => !test.passed).length;
+      return {
+        success: result.success,
+        output: formatSandboxResult(result),
+        error: result.error
+          ? `${result.error.name}: ${result.error.message}`
+          : failedTests > 0 ? `${failedTests} of ${result.tests.length} tests failed` : undefined,
+        data: result,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: 'sandbox',
+          errorType: result.error?.errorType,
+          violation: result.error?.violation
+        }
+      };
+    } catch (error) {
+      await this.setStatus(AgentStatus.ERROR);
+      logger.error(`Error in ${this.name} (sandbox): ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+      return {
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          timestamp: new Date().toISOString(),
+          action: 'sandbox',
+          errorType: error instanceof Error ? error.constructor.name : 'Unknown'
+        }
+      };
+    }
+  }
+
   // Execute the agent in a separate thread
   async executeInThread(
     input: string, 
     context?: Record<string, any>
   ): Promise<AgentExecutionResult> {
     try {
+      // Refuse to start if a hard usage budget is already used up
+      const { usageLedger } = await import('../services/usageLedger');
+      await usageLedger.enforce({ prompt: input, provider: 'worker', usageContext: this.usageContextFor(context) });
+      
       // First update status to active
       await this.setStatus(AgentStatus.ACTIVE);
       
@@ -110,17 +670,13 @@ export abstract class AgentBase {
       const result = await threadManager.executeTask<AgentExecutionResult>(
         taskFunction,
         { input, context },
-        `${this.name} processing: ${input.substring(0, 50)}${input.length > 50 ? '...' : ''}`
+        `${this.name} processing: ${input.substring(0, 50)}${input.length > 50 ? '...' : ''}`,
+        this.taskOptions(context)
       );
       
-      // Update API token usage in system stats
+      // Record token usage in the ledger (which also updates system stats)
       if (result.tokens) {
-        const currentStats = await storage.getSystemStats();
-        if (currentStats) {
-          await storage.updateSystemStats({
-            apiTokensUsed: (currentStats.apiTokensUsed || 0) + result.tokens.total
-          });
-        }
+        await this.recordTokenUsage(result.tokens, context);
       }
       
       // Set status back to idle
@@ -0,0 +1,67 @@
+import { AgentStatus } from '@shared/schema';
+
+/**
+ * The agent status state machine. Runs move an agent between the working
+ * statuses; the lifecycle actions take it out of them and back:
+ *
+ * - pause: stop taking new work at once, runs in progress still finish
+ * - drain: finish the runs in progress (DRAINING), then pause
+ * - resume: take new work again
+ * - restart: cancel the runs in progress and start over with a fresh agent
+ *
+ * Statuses set by runs that an agent is no longer allowed to enter, such as
+ * IDLE when a run finishes on a paused agent, are ignored.
+ */
+
+export type AgentLifecycleAction = 'pause' | 'drain' | 'resume' | 'restart';
+
+export const AGENT_LIFECYCLE_ACTIONS: AgentLifecycleAction[] = ['pause', 'drain', 'resume', 'restart'];
+
+// Statuses of agents that take new work
+const WORKING = [AgentStatus.ACTIVE, AgentStatus.IDLE, AgentStatus.OBSERVING, AgentStatus.STANDBY, AgentStatus.ERROR];
+
+const TRANSITIONS: Record<AgentStatus, AgentStatus[]> = {
+  [AgentStatus.ACTIVE]: [...WORKING, AgentStatus.PAUSED, AgentStatus.DRAINING, AgentStatus.OFFLINE],
+  [AgentStatus.IDLE]: [...WORKING, AgentStatus.PAUSED, AgentStatus.DRAINING, AgentStatus.OFFLINE],
+  [AgentStatus.OBSERVING]: [...WORKING, AgentStatus.PAUSED, AgentStatus.DRAINING, AgentStatus.OFFLINE],
+  [AgentStatus.STANDBY]: [...WORKING, AgentStatus.PAUSED, AgentStatus.DRAINING, AgentStatus.OFFLINE],
+  [AgentStatus.ERROR]: [...WORKING, AgentStatus.PAUSED, AgentStatus.DRAINING, AgentStatus.OFFLINE],
+  [AgentStatus.DRAINING]: [AgentStatus.DRAINING, AgentStatus.PAUSED, AgentStatus.IDLE, AgentStatus.OFFLINE],
+  [AgentStatus.PAUSED]: [AgentStatus.PAUSED, AgentStatus.IDLE, AgentStatus.OFFLINE],
+  [AgentStatus.OFFLINE]: [AgentStatus.OFFLINE, ...WORKING] // Reused when its pool grows
+};
+
+// Statuses each action may be taken from, and the status it moves the agent to
+const ACTIONS: Record<AgentLifecycleAction, { from: AgentStatus[]; to: AgentStatus }> = {
+  pause: { from: [...WORKING, AgentStatus.DRAINING], to: AgentStatus.PAUSED },
+  drain: { from: WORKING, to: AgentStatus.DRAINING },
+  resume: { from: [AgentStatus.PAUSED, AgentStatus.DRAINING], to: AgentStatus.IDLE },
+  restart: { from: [...WORKING, AgentStatus.PAUSED, AgentStatus.DRAINING], to: AgentStatus.IDLE }
+};
+
+// An action or status change the agent's current status does not allow; the message is meant for the user
+export class AgentLifecycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentLifecycleError';
+  }
+}
+
+export function canTransition(from: AgentStatus, to: AgentStatus): boolean {
+  const allowed = TRANSITIONS[from];
+  return !allowed || allowed.includes(to); // Unknown statuses from old records may go anywhere
+}
+
+// Whether requests may be routed to an agent in `status`
+export function acceptsWork(status: AgentStatus): boolean {
+  return WORKING.includes(status);
+}
+
+// The status `action` moves an agent in `from` to; throws AgentLifecycleError when it is not allowed
+export function lifecycleTarget(action: AgentLifecycleAction, from: AgentStatus): AgentStatus {
+  const { from: allowed, to } = ACTIONS[action];
+  if (!allowed.includes(from)) {
+    throw new AgentLifecycleError(`Cannot ${action} an agent that is ${from}`);
+  }
+  return to;
+}
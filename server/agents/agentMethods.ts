@@ -0,0 +1,56 @@
+import { toJsonSchema } from '../services/structuredOutput';
+import type { AgentMethodDescription } from './intentRouter';
+
+// A method as listed for API callers, with its parameters as JSON schema
+export interface AgentMethodInfo {
+  name: string;
+  description: string;
+  default: boolean;
+  parameters: Record<string, any>;
+}
+
+// An unknown method, or parameters that do not match its schema (`fieldErrors` set)
+export class AgentMethodError extends Error {
+  fieldErrors?: Record<string, string[]>;
+
+  constructor(message: string, fieldErrors?: Record<string, string[]>) {
+    super(message);
+    this.name = 'AgentMethodError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export function describeMethod(method: AgentMethodDescription): AgentMethodInfo {
+  return {
+    name: method.name,
+    description: method.description,
+    default: !!method.default,
+    parameters: toJsonSchema(method.parameters)
+  };
+}
+
+/**
+ * The text input an explicitly invoked method works on: its description
+ * followed by the parameters, one per line, with lists and multi-line values
+ * on the lines below their name.
+ */
+export function formatMethodInput(method: AgentMethodDescription, params: Record<string, any>): string {
+  const lines = [method.description];
+
+  Object.keys(params).forEach(key => {
+    const value = params[key];
+    if (value === undefined) {
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      lines.push(`${key}:`, ...value.map(item => `- ${typeof item === 'string' ? item : JSON.stringify(item)}`));
+    } else if (typeof value === 'string' && value.includes('\n')) {
+      lines.push(`${key}:`, value);
+    } else {
+      lines.push(`${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+    }
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,329 @@
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import type { IStorage } from '../storage';
+import { AgentStatus, type Agent } from '@shared/schema';
+import type { AgentBase } from './agentBase';
+import { acceptsWork, type AgentLifecycleAction } from './agentLifecycle';
+
+// Largest number of instances a pool may run
+export const MAX_AGENT_POOL_SIZE = 20;
+
+const DEFAULT_POOL_MIN = 1;
+const DEFAULT_POOL_MAX = 3;
+
+// Time an instance above its pool's minimum may stay idle before it is retired
+const DEFAULT_POOL_IDLE_MS = 60000;
+
+export interface AgentPoolSize {
+  min: number;
+  max: number;
+}
+
+export const agentPoolSizeSchema = z.object({
+  min: z.number().int().min(1).max(MAX_AGENT_POOL_SIZE),
+  max: z.number().int().min(1).max(MAX_AGENT_POOL_SIZE)
+}).refine(size => size.min <= size.max, { message: 'Must not be larger than max', path: ['min'] });
+
+// AGENT_POOL_<TYPE>_MIN and _MAX (e.g. AGENT_POOL_CODING_MAX) override AGENT_POOL_MIN and _MAX for one agent type
+export function getAgentPoolSize(type: string): AgentPoolSize {
+  const bound = (name: 'MIN' | 'MAX', fallback: number) => {
+    const value = process.env[`AGENT_POOL_${type.toUpperCase()}_${name}`] || process.env[`AGENT_POOL_${name}`];
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return isNaN(parsed) ? fallback : Math.min(Math.max(parsed, 1), MAX_AGENT_POOL_SIZE);
+  };
+
+  const min = bound('MIN', DEFAULT_POOL_MIN);
+  return { min, max: Math.max(min, bound('MAX', DEFAULT_POOL_MAX)) };
+}
+
+export function getAgentPoolIdleMs(): number {
+  const idleMs = process.env.AGENT_POOL_IDLE_MS ? parseInt(process.env.AGENT_POOL_IDLE_MS, 10) : NaN;
+  return isNaN(idleMs) ? DEFAULT_POOL_IDLE_MS : idleMs;
+}
+
+// One instance of a pool as listed for API callers
+export interface AgentInstanceInfo {
+  id: number;
+  name: string;
+  status: AgentStatus;
+  isActive: boolean;
+  activeRuns: number;
+}
+
+export interface AgentPoolInfo extends AgentPoolSize {
+  instances: AgentInstanceInfo[];
+}
+
+// An instance claimed for one run; release it once the run is done
+export interface AgentLease {
+  agent: AgentBase;
+  release(): void;
+}
+
+export interface AgentPoolOptions {
+  type: string;
+  name: string; // Name of the first instance; the others are numbered
+  initialStatus: AgentStatus;
+  create(id: number): AgentBase;
+  store: IStorage;
+  size?: AgentPoolSize;
+  idleMs?: number;
+  onChange?: () => void; // Called when instances are started or retired
+}
+
+/**
+ * AgentPool runs between `min` and `max` instances of one agent type, each
+ * backed by its own agent record, so that concurrent requests do not share an
+ * agent and its status. Work is leased to the active instance holding the
+ * fewest leases; when every one of them is busy another instance is started,
+ * up to `max`. Instances above `min` that stay idle for `idleMs` are retired:
+ * their record is set OFFLINE and reused when the pool grows again.
+ */
+export class AgentPool {
+  readonly type: string;
+  private options: AgentPoolOptions;
+  private size: AgentPoolSize;
+  private idleMs: number;
+  private instances: AgentBase[];
+  private leases: Map<number, number>; // By agent id
+  private idleTimers: Map<number, NodeJS.Timeout>;
+  private starting: number; // Instances being started
+  private growth: Promise<unknown>; // Starts run one at a time so they don't claim the same record
+
+  constructor(options: AgentPoolOptions) {
+    this.type = options.type;
+    this.options = options;
+    this.size = options.size || getAgentPoolSize(options.type);
+    this.idleMs = options.idleMs ?? getAgentPoolIdleMs();
+    this.instances = [];
+    this.leases = new Map();
+    this.idleTimers = new Map();
+    this.starting = 0;
+    this.growth = Promise.resolve();
+  }
+
+  // Start the instances recorded as running, up to max, and more if needed to reach min
+  async initialize(records: Agent[]): Promise<void> {
+    const running = records
+      .filter(record => record.type === this.type && record.status !== AgentStatus.OFFLINE)
+      .sort((a, b) => a.id - b.id);
+
+    for (const record of running.slice(0, this.size.max)) {
+      // Its runs ended with the previous process
+      if (record.status === AgentStatus.DRAINING) {
+        await this.options.store.updateAgentStatus(record.id, AgentStatus.PAUSED);
+        record.status = AgentStatus.PAUSED;
+      }
+      this.start(record);
+    }
+    for (const record of running.slice(this.size.max)) {
+      await this.options.store.updateAgentStatus(record.id, AgentStatus.OFFLINE);
+    }
+
+    await this.fill();
+  }
+
+  getInstances(): AgentBase[] {
+    return this.instances.slice();
+  }
+
+  // Any active instance, for callers that only describe the agent type
+  get(): AgentBase | undefined {
+    return this.instances.find(agent => agent.isActive);
+  }
+
+  find(id: number): AgentBase | undefined {
+    return this.instances.find(agent => agent.id === id);
+  }
+
+  /**
+   * Claim the least busy active instance that takes work, starting a new one
+   * when all are busy and the pool is below its maximum. Undefined when every
+   * instance is deactivated, paused or draining.
+   */
+  async acquire(): Promise<AgentLease | undefined> {
+    let agent = this.leastBusy();
+    if (!agent) {
+      return undefined;
+    }
+
+    if (this.load(agent) > 0 && this.instances.length + this.starting < this.size.max) {
+      this.starting++;
+      try {
+        agent = await this.grow();
+      } catch (error) {
+        logger.error(`Failed to start a ${this.type} agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        agent = this.leastBusy() || agent;
+      } finally {
+        this.starting--;
+      }
+    }
+
+    return this.lease(agent);
+  }
+
+  // Apply a lifecycle action to one instance; a restart replaces it with a fresh agent on the same record
+  async control(id: number, action: AgentLifecycleAction): Promise<AgentBase | undefined> {
+    const agent = this.find(id);
+    if (!agent) {
+      return undefined;
+    }
+
+    await agent.control(action);
+    if (action !== 'restart') {
+      return agent;
+    }
+
+    agent.retire();
+    const fresh = this.build({ id, name: agent.name, status: agent.status, isActive: agent.isActive });
+    this.instances = this.instances.map(instance => instance === agent ? fresh : instance);
+    logger.info(`Agent pool ${this.type} restarted ${agent.name}`);
+    return fresh;
+  }
+
+  // Change the pool's bounds, starting instances up to the new min and retiring idle ones above the new max
+  async resize(size: AgentPoolSize): Promise<void> {
+    this.size = { ...size };
+    await this.fill();
+
+    const idle = this.instances.filter(agent => this.load(agent) === 0 && agent.activeRuns === 0);
+    while (this.instances.length > this.size.max && idle.length > 0) {
+      await this.retire(idle.pop()!);
+    }
+
+    logger.info(`Agent pool ${this.type} resized to ${this.size.min}-${this.size.max} (${this.instances.length} running)`);
+  }
+
+  info(): AgentPoolInfo {
+    return {
+      ...this.size,
+      instances: this.instances.map(agent => ({
+        id: agent.id,
+        name: agent.name,
+        status: agent.status,
+        isActive: agent.isActive,
+        activeRuns: agent.activeRuns
+      }))
+    };
+  }
+
+  private load(agent: AgentBase): number {
+    return Math.max(this.leases.get(agent.id) || 0, agent.activeRuns);
+  }
+
+  private leastBusy(): AgentBase | undefined {
+    return this.instances
+      .filter(agent => agent.isActive && acceptsWork(agent.status))
+      .reduce<AgentBase | undefined>((best, agent) => !best || this.load(agent) < this.load(best) ? agent : best, undefined);
+  }
+
+  private lease(agent: AgentBase): AgentLease {
+    const timer = this.idleTimers.get(agent.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(agent.id);
+    }
+    this.leases.set(agent.id, (this.leases.get(agent.id) || 0) + 1);
+
+    let released = false;
+    return {
+      agent,
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+
+        const remaining = (this.leases.get(agent.id) || 1) - 1;
+        this.leases.set(agent.id, remaining);
+        if (remaining === 0) {
+          this.scheduleRetirement(agent);
+        }
+      }
+    };
+  }
+
+  private async fill(): Promise<void> {
+    while (this.instances.length < this.size.min) {
+      await this.grow();
+    }
+  }
+
+  private grow(): Promise<AgentBase> {
+    const started = this.growth.then(() => this.startNext());
+    this.growth = started.catch(() => undefined);
+    return started;
+  }
+
+  // Start an instance on a retired record of the type, or on a new one
+  private async startNext(): Promise<AgentBase> {
+    const { store, type, name, initialStatus } = this.options;
+    const records = (await store.getAllAgents()).filter(record => record.type === type);
+    const retired = records.find(record => record.status === AgentStatus.OFFLINE && record.isActive && !this.find(record.id));
+
+    const record = retired
+      ? await store.updateAgentStatus(retired.id, initialStatus)
+      : await store.createAgent({
+        name: records.length === 0 ? name : `${name} #${records.length + 1}`,
+        type,
+        status: initialStatus,
+        isActive: true
+      });
+    if (!record) {
+      throw new Error(`Agent record ${retired!.id} disappeared`);
+    }
+
+    const agent = this.start(record);
+    logger.info(`Agent pool ${type} started ${agent.name} (${this.instances.length} running)`);
+    this.options.onChange?.();
+    return agent;
+  }
+
+  private start(record: Agent): AgentBase {
+    const agent = this.build(record);
+    this.instances.push(agent);
+    return agent;
+  }
+
+  private build(record: Pick<Agent, 'id' | 'name' | 'status' | 'isActive'>): AgentBase {
+    const agent = this.options.create(record.id);
+    agent.name = record.name;
+    agent.status = record.status as AgentStatus;
+    agent.isActive = record.isActive;
+    return agent;
+  }
+
+  private scheduleRetirement(agent: AgentBase): void {
+    if (this.instances.length <= this.size.min || this.idleTimers.has(agent.id)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(agent.id);
+      // Paused instances stay until they are resumed or the pool is resized
+      if (this.load(agent) === 0 && acceptsWork(agent.status) && this.instances.length > this.size.min) {
+        this.retire(agent).catch(error =>
+          logger.error(`Failed to retire ${agent.name}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    }, this.idleMs);
+    timer.unref();
+    this.idleTimers.set(agent.id, timer);
+  }
+
+  private async retire(agent: AgentBase): Promise<void> {
+    const timer = this.idleTimers.get(agent.id);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(agent.id);
+    }
+
+    this.instances = this.instances.filter(instance => instance !== agent);
+    this.leases.delete(agent.id);
+    agent.retire();
+    agent.status = AgentStatus.OFFLINE;
+    await this.options.store.updateAgentStatus(agent.id, AgentStatus.OFFLINE);
+
+    logger.info(`Agent pool ${this.type} retired ${agent.name} (${this.instances.length} running)`);
+    this.options.onChange?.();
+  }
+}
@@ -0,0 +1,384 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { storage, type IStorage } from '../storage';
+import { ActivityType, AgentStatus, AgentType, type Agent } from '@shared/schema';
+import { fromJsonSchema, formatZodIssues } from '../services/structuredOutput';
+import type { AgentBase } from './agentBase';
+import { AgentPool, type AgentLease, type AgentPoolInfo, type AgentPoolSize } from './agentPool';
+import type { AgentLifecycleAction } from './agentLifecycle';
+import { DesignAgent } from './designAgent';
+import { CodingAgent } from './codingAgent';
+import { SupervisionAgent } from './supervisionAgent';
+import { DebugAgent } from './debugAgent';
+import { SelfHealingAgent } from './selfHealingAgent';
+
+// Where plugins are looked for when AGENT_PLUGINS_DIR is not set, relative to the working directory
+const DEFAULT_PLUGINS_DIR = 'plugins/agents';
+
+export function getAgentPluginsDir(): string {
+  return path.resolve(process.env.AGENT_PLUGINS_DIR || DEFAULT_PLUGINS_DIR);
+}
+
+// An agent type the registry can create an agent for
+export interface AgentDefinition {
+  type: string;
+  name: string; // Also the name of its agent record
+  description: string;
+  source: 'builtin' | 'plugin';
+  initialStatus?: AgentStatus; // Status of a newly created agent record
+  create(id: number): AgentBase; // One instance of the type's pool
+}
+
+// A registered agent type as listed for API callers
+export interface AgentTypeInfo {
+  type: string;
+  name: string;
+  description: string;
+  source: AgentDefinition['source'];
+  isActive: boolean; // Whether any instance receives requests
+  methods: string[];
+  pool: AgentPoolInfo | null; // Null until the registry is initialized
+}
+
+/**
+ * manifest.json of a plugin directory. `main` is the module, relative to the
+ * directory, whose default export is the AgentBase subclass; it is constructed
+ * with the agent record's id and the config, which `configSchema` (JSON schema)
+ * validates. Config comes from the manifest's `config`, overridden by the JSON
+ * in AGENT_PLUGIN_<TYPE>_CONFIG.
+ */
+export const agentPluginManifestSchema = z.object({
+  type: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Must be lower snake case'),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  version: z.string().optional(),
+  main: z.string().min(1),
+  methods: z.array(z.string().min(1)).min(1),
+  configSchema: z.record(z.any()).default({ type: 'object', properties: {} }),
+  config: z.record(z.any()).default({})
+});
+
+export type AgentPluginManifest = z.infer<typeof agentPluginManifestSchema>;
+
+// A plugin that cannot be loaded; the message is meant for the operator
+export class AgentPluginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentPluginError';
+  }
+}
+
+/**
+ * AgentRegistry holds the agent types the system knows - the built-in agents
+ * and those loaded from plugins - and a pool of agents for each, every one
+ * backed by its own agent record. Requests are only routed to active agents:
+ * setting an agent's isActive to false takes it out of routing until it is
+ * activated again.
+ */
+export class AgentRegistry {
+  private definitions: Map<string, AgentDefinition>;
+  private pools: Map<string, AgentPool>; // By type, once initialized
+  private store: IStorage;
+  private listeners: Array<() => void>;
+
+  constructor(store: IStorage = storage) {
+    this.definitions = new Map();
+    this.pools = new Map();
+    this.store = store;
+    this.listeners = [];
+  }
+
+  register(definition: AgentDefinition): void {
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`Agent type ${definition.type} is already registered`);
+    }
+
+    this.definitions.set(definition.type, definition);
+    logger.debug(`Agent type registered: ${definition.type} (${definition.source})`);
+  }
+
+  // Start the agent pools of registered types that have none yet, with their records
+  async initialize(): Promise<void> {
+    const records = await this.store.getAllAgents();
+
+    for (const definition of Array.from(this.definitions.values())) {
+      if (this.pools.has(definition.type)) {
+        continue;
+      }
+
+      const pool = new AgentPool({
+        type: definition.type,
+        name: definition.name,
+        initialStatus: definition.initialStatus || AgentStatus.STANDBY,
+        create: definition.create,
+        store: this.store,
+        onChange: () => this.notify()
+      });
+      await pool.initialize(records);
+      this.pools.set(definition.type, pool);
+    }
+
+    logger.info(`Agent registry initialized with ${this.getAll().length} agents`);
+  }
+
+  // Called when pool instances are started or retired
+  onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  // An active agent of `type` to describe the type with; undefined when unknown or inactive. Use acquire to run it.
+  get(type: string): AgentBase | undefined {
+    const pool = this.pools.get(type);
+    return pool ? pool.get() : undefined;
+  }
+
+  // Claim the least busy active agent of `type` for one run; undefined when unknown or inactive
+  async acquire(type: string): Promise<AgentLease | undefined> {
+    const pool = this.pools.get(type);
+    return pool ? pool.acquire() : undefined;
+  }
+
+  has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  // Active agents of all pools
+  getAll(): AgentBase[] {
+    return Array.from(this.pools.values())
+      .map(pool => pool.getInstances().filter(agent => agent.isActive))
+      .reduce((all, agents) => all.concat(agents), [] as AgentBase[]);
+  }
+
+  list(): AgentTypeInfo[] {
+    return Array.from(this.definitions.values()).map(definition => {
+      const pool = this.pools.get(definition.type);
+      const agent = pool ? pool.get() || pool.getInstances()[0] : undefined;
+      return {
+        type: definition.type,
+        name: definition.name,
+        description: definition.description,
+        source: definition.source,
+        isActive: !!(pool && pool.get()),
+        methods: agent ? agent.getMethods() : [],
+        pool: pool ? pool.info() : null
+      };
+    });
+  }
+
+  // Change the bounds of the pool of `type`; undefined when the type is unknown
+  async resize(type: string, size: AgentPoolSize): Promise<AgentPoolInfo | undefined> {
+    const pool = this.pools.get(type);
+    if (!pool) {
+      return undefined;
+    }
+
+    await pool.resize(size);
+    return pool.info();
+  }
+
+  /**
+   * Pause, drain, resume or restart an agent by record id; undefined when no
+   * pool runs it. Throws AgentLifecycleError when its status does not allow it.
+   */
+  async control(id: number, action: AgentLifecycleAction): Promise<Agent | undefined> {
+    const pool = this.poolOf(id);
+    if (!pool || !await pool.control(id, action)) {
+      return undefined;
+    }
+
+    await this.store.createSystemActivity({
+      type: ActivityType.AGENT_STATUS_CHANGE,
+      description: `Agent ${pool.find(id)!.name}: ${action}`,
+      metadata: { agentId: id, agentType: pool.type, action }
+    });
+    return this.store.getAgent(id);
+  }
+
+  // Set an agent's status by record id as the state machine allows; undefined when no pool runs it
+  async changeStatus(id: number, status: AgentStatus): Promise<Agent | undefined> {
+    const agent = this.poolOf(id)?.find(id);
+    if (!agent) {
+      return undefined;
+    }
+
+    await agent.changeStatus(status);
+    return this.store.getAgent(id);
+  }
+
+  // Activate or deactivate an agent by record id, taking it in or out of routing
+  async setActive(id: number, isActive: boolean): Promise<Agent | undefined> {
+    const record = await this.store.updateAgentActive(id, isActive);
+    if (!record) {
+      return undefined;
+    }
+
+    const pool = this.pools.get(record.type);
+    const agent = pool ? pool.find(id) : undefined;
+    if (agent) {
+      agent.isActive = isActive;
+    }
+
+    await this.store.createSystemActivity({
+      type: ActivityType.AGENT_STATUS_CHANGE,
+      description: `Agent ${record.name} ${isActive ? 'activated' : 'deactivated'}`,
+      metadata: { agentId: id, agentType: record.type, isActive }
+    });
+    logger.info(`Agent ${record.name} ${isActive ? 'activated' : 'deactivated'}`);
+    return record;
+  }
+
+  /**
+   * Register the plugin in each subdirectory of `dir` that has a manifest.json.
+   * A plugin that fails to load is logged and skipped; returns the types loaded.
+   * Call initialize() afterwards to create their agents.
+   */
+  async loadPlugins(dir: string = getAgentPluginsDir()): Promise<string[]> {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    const loaded: string[] = [];
+    const entries = fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && fs.existsSync(path.join(dir, entry.name, 'manifest.json')))
+      .map(entry => entry.name)
+      .sort();
+
+    for (const entry of entries) {
+      try {
+        loaded.push(await this.loadPlugin(path.join(dir, entry)));
+      } catch (error) {
+        logger.error(`Failed to load agent plugin ${entry}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return loaded;
+  }
+
+  // Register the plugin in `pluginDir`; returns its agent type
+  async loadPlugin(pluginDir: string): Promise<string> {
+    let rawManifest: unknown;
+    try {
+      rawManifest = JSON.parse(fs.readFileSync(path.join(pluginDir, 'manifest.json'), 'utf8'));
+    } catch (error) {
+      throw new AgentPluginError(`Unreadable manifest: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const parsedManifest = agentPluginManifestSchema.safeParse(rawManifest);
+    if (!parsedManifest.success) {
+      throw new AgentPluginError(`Invalid manifest: ${formatZodIssues(parsedManifest.error).join('; ')}`);
+    }
+    const manifest = parsedManifest.data;
+    if (this.has(manifest.type)) {
+      throw new AgentPluginError(`Agent type ${manifest.type} is already registered`);
+    }
+
+    const config = this.pluginConfig(manifest);
+    // Absolute paths only need to be file URLs on Windows; a plain path also resolves when imports compile to require
+    const entry = path.resolve(pluginDir, manifest.main);
+    const module = await import(process.platform === 'win32' ? pathToFileURL(entry).href : entry);
+    const AgentClass = module.default;
+    if (typeof AgentClass !== 'function') {
+      throw new AgentPluginError(`${manifest.main} has no default export of an agent class`);
+    }
+
+    const create = (id: number): AgentBase => new AgentClass(id, config);
+
+    // Check the agent against its manifest before it can receive requests
+    const probe = create(0);
+    if (typeof probe.run !== 'function' || typeof probe.getMethodDescriptions !== 'function') {
+      throw new AgentPluginError(`${manifest.main} does not export an AgentBase subclass`);
+    }
+    if (probe.type !== manifest.type) {
+      throw new AgentPluginError(`Agent type ${probe.type} does not match the manifest's ${manifest.type}`);
+    }
+    const methods = probe.getMethods();
+    const undeclared = methods.filter(method => !manifest.methods.includes(method));
+    const missing = manifest.methods.filter(method => !methods.includes(method));
+    if (undeclared.length > 0 || missing.length > 0) {
+      throw new AgentPluginError(`Methods do not match the manifest (missing: ${missing.join(', ') || 'none'}; undeclared: ${undeclared.join(', ') || 'none'})`);
+    }
+
+    this.register({
+      type: manifest.type,
+      name: manifest.name,
+      description: manifest.description,
+      source: 'plugin',
+      create
+    });
+    logger.info(`Agent plugin loaded: ${manifest.name} (${manifest.type}${manifest.version ? ` ${manifest.version}` : ''})`);
+    return manifest.type;
+  }
+
+  private poolOf(id: number): AgentPool | undefined {
+    return Array.from(this.pools.values()).find(pool => !!pool.find(id));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private pluginConfig(manifest: AgentPluginManifest): Record<string, any> {
+    const variable = `AGENT_PLUGIN_${manifest.type.toUpperCase()}_CONFIG`;
+    let overrides: Record<string, any> = {};
+    if (process.env[variable]) {
+      try {
+        overrides = JSON.parse(process.env[variable]!);
+      } catch (error) {
+        throw new AgentPluginError(`${variable} is not valid JSON`);
+      }
+    }
+
+    const parsed = fromJsonSchema(manifest.configSchema).safeParse({ ...manifest.config, ...overrides });
+    if (!parsed.success) {
+      throw new AgentPluginError(`Invalid config: ${formatZodIssues(parsed.error).join('; ')}`);
+    }
+    return parsed.data;
+  }
+}
+
+// Create singleton instance with the built-in agents
+export const agentRegistry = new AgentRegistry();
+
+agentRegistry.register({
+  type: AgentType.DESIGN,
+  name: 'Design Agent',
+  description: 'Designs user interfaces, architectures and workflows, and evaluates designs',
+  source: 'builtin',
+  initialStatus: AgentStatus.ACTIVE,
+  create: id => new DesignAgent(id)
+});
+agentRegistry.register({
+  type: AgentType.CODING,
+  name: 'Coding Agent',
+  description: 'Writes, refactors, optimizes, documents and reviews code',
+  source: 'builtin',
+  initialStatus: AgentStatus.IDLE,
+  create: id => new CodingAgent(id)
+});
+agentRegistry.register({
+  type: AgentType.SUPERVISION,
+  name: 'Supervision Agent',
+  description: 'Analyzes requirements, plans projects and coordinates the other agents',
+  source: 'builtin',
+  initialStatus: AgentStatus.OBSERVING,
+  create: id => new SupervisionAgent(id)
+});
+agentRegistry.register({
+  type: AgentType.DEBUG,
+  name: 'Debug Agent',
+  description: 'Finds syntax, runtime, logic, performance and security problems in code',
+  source: 'builtin',
+  initialStatus: AgentStatus.STANDBY,
+  create: id => new DebugAgent(id)
+});
+agentRegistry.register({
+  type: AgentType.SELF_HEALING,
+  name: 'Self-Healing Agent',
+  description: 'Detects, analyzes and fixes errors in the running system',
+  source: 'builtin',
+  initialStatus: AgentStatus.STANDBY,
+  create: id => new SelfHealingAgent(id)
+});
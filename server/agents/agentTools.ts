@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { ErrorType, type SystemErrorLog } from '@shared/schema';
+import { storage } from '../storage';
+import type { AgentTool } from './toolRegistry';
+
+const MAX_TEXT_LENGTH = 500;
+
+function truncate(text: string | null | undefined): string | null {
+  if (!text) return null;
+  return text.length > MAX_TEXT_LENGTH ? `${text.substring(0, MAX_TEXT_LENGTH)}...` : text;
+}
+
+const searchKnowledgeParameters = z.object({
+  query: z.string().min(1).describe('Words to look for in component names, descriptions and documentation'),
+  componentType: z.string().optional().describe('Only search components of this type'),
+  limit: z.number().int().positive().max(20).default(5)
+});
+
+// Full-text search over the self-healing knowledge base; every query word must match
+export const searchKnowledgeTool: AgentTool<z.infer<typeof searchKnowledgeParameters>> = {
+  name: 'searchKnowledge',
+  description: 'Search the system knowledge base for documentation, known error patterns and example code of components',
+  parameters: searchKnowledgeParameters,
+  async execute({ query, componentType, limit }) {
+    const knowledge = componentType
+      ? await storage.getSystemKnowledgeByType(componentType)
+      : await storage.getAllSystemKnowledge();
+    const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+
+    return knowledge
+      .filter(entry => {
+        const haystack = [entry.componentName, entry.componentType, entry.description, entry.documentation || '']
+          .join(' ')
+          .toLowerCase();
+        return words.every(word => haystack.indexOf(word) !== -1);
+      })
+      .slice(0, limit)
+      .map(entry => ({
+        componentName: entry.componentName,
+        componentType: entry.componentType,
+        description: entry.description,
+        documentation: truncate(entry.documentation),
+        errorPatterns: entry.errorPatterns,
+        exampleCode: truncate(entry.exampleCode)
+      }));
+  }
+};
+
+const getSystemErrorLogsParameters = z.object({
+  componentName: z.string().optional(),
+  errorType: z.nativeEnum(ErrorType).optional(),
+  unsolvedOnly: z.boolean().default(false),
+  limit: z.number().int().positive().max(50).default(10)
+});
+
+// Recent error logs, newest first; without filters only unsolved errors are returned
+export const getSystemErrorLogsTool: AgentTool<z.infer<typeof getSystemErrorLogsParameters>> = {
+  name: 'getSystemErrorLogs',
+  description: 'List recorded system errors with their messages, stack traces and solution notes. Without filters only unsolved errors are returned.',
+  parameters: getSystemErrorLogsParameters,
+  async execute({ componentName, errorType, unsolvedOnly, limit }) {
+    let logs: SystemErrorLog[];
+    if (componentName) {
+      logs = await storage.getSystemErrorLogsByComponent(componentName);
+    } else if (errorType) {
+      logs = await storage.getSystemErrorLogsByType(errorType);
+    } else {
+      logs = await storage.getUnsolvedSystemErrorLogs();
+    }
+
+    return logs
+      .filter(log => !errorType || log.errorType === errorType)
+      .filter(log => !unsolvedOnly || !log.isSolved)
+      .sort((a, b) => (b.timestamp?.getTime() || 0) - (a.timestamp?.getTime() || 0))
+      .slice(0, limit)
+      .map(log => ({
+        id: log.id,
+        componentName: log.componentName,
+        errorType: log.errorType,
+        errorMessage: log.errorMessage,
+        stackTrace: truncate(log.stackTrace),
+        isSolved: log.isSolved,
+        solutionNotes: log.solutionNotes,
+        timestamp: log.timestamp
+      }));
+  }
+};
@@ -1,28 +1,81 @@
 import { AgentBase, AgentExecutionResult } from './agentBase';
-import { AgentType, AgentStatus } from '@shared/schema';
+import type { AgentMethodDescription } from './intentRouter';
+import { AgentType, AgentStatus, codeResultSchema, codeReportSchema } from '@shared/schema';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
+import { formatCodeReport, formatCodeResult } from './resultFormat';
+import { z } from 'zod';
 
-interface CodeGenerationParams {
-  language: string;
-  framework?: string;
-  specifications: string[];
-  existingCode?: string;
-}
+// Parameters of generateCode
+const codeGenerationParamsSchema = z.object({
+  language: z.string().min(1).describe('Programming language to write in'),
+  framework: z.string().optional().describe('Framework or library to build on'),
+  specifications: z.array(z.string().min(1)).min(1).describe('What the code must do'),
+  existingCode: z.string().optional().describe('Code the new code extends')
+});
+
+// Parameters of the methods that work on existing code
+const existingCodeParamsSchema = z.object({
+  code: z.string().min(1).describe('The code to work on'),
+  language: z.string().min(1).describe('Programming language of the code'),
+  instructions: z.string().optional().describe('What to focus on')
+});
+
+// Parameters of runCode
+const runCodeParamsSchema = z.object({
+  code: z.string().min(1).describe('JavaScript to run; the value of its last expression is reported'),
+  tests: z.string().optional().describe('JavaScript that registers test cases with test(name, fn) and checks them with assert')
+});
+
+export type CodeGenerationParams = z.infer<typeof codeGenerationParamsSchema>;
+export type ExistingCodeParams = z.infer<typeof existingCodeParamsSchema>;
+export type RunCodeParams = z.infer<typeof runCodeParamsSchema>;
 
 export class CodingAgent extends AgentBase {
   constructor(id: number) {
     super(id, 'Coding Agent', AgentType.CODING);
   }
 
-  // Get the methods this agent can perform
-  getMethods(): string[] {
+  // Describe the methods this agent can perform
+  getMethodDescriptions(): AgentMethodDescription[] {
     return [
-      'generateCode',
-      'refactorCode',
-      'optimizeCode',
-      'documentCode',
-      'analyzeCodeQuality'
+      {
+        name: 'generateCode',
+        description: 'Write new code from a specification',
+        parameters: codeGenerationParamsSchema,
+        keywords: ['generate', 'create', 'write', 'implement', 'build']
+      },
+      {
+        name: 'refactorCode',
+        description: 'Restructure existing code without changing its behavior',
+        parameters: existingCodeParamsSchema,
+        keywords: ['refactor', 'restructure', 'clean up', 'simplify']
+      },
+      {
+        name: 'optimizeCode',
+        description: 'Make existing code faster or use fewer resources',
+        parameters: existingCodeParamsSchema,
+        keywords: ['optimiz', 'performance', 'faster', 'speed up']
+      },
+      {
+        name: 'documentCode',
+        description: 'Add documentation and comments to existing code',
+        parameters: existingCodeParamsSchema,
+        keywords: ['document', 'comment', 'docstring', 'readme']
+      },
+      {
+        name: 'analyzeCodeQuality',
+        description: 'Review code quality and point out problems',
+        parameters: existingCodeParamsSchema,
+        keywords: ['review', 'analyze', 'quality', 'lint'],
+        default: true
+      },
+      {
+        name: 'runCode',
+        description: 'Run JavaScript and its tests in a sandbox without file system or network access',
+        parameters: runCodeParamsSchema,
+        keywords: ['run this', 'run the code', 'run tests', 'execute', 'sandbox']
+      }
     ];
   }
 
@@ -31,19 +84,15 @@ export class CodingAgent extends AgentBase {
     try {
       await this.logActivity('Processing coding task', { input: input.substring(0, 100) });
       
-      // Parse the input to determine the coding task
-      if (input.includes('generate') || input.includes('create')) {
-        return this.generateCode(input, context);
-      } else if (input.includes('refactor')) {
-        return this.refactorCode(input, context);
-      } else if (input.includes('optimize') || input.includes('performance')) {
-        return this.optimizeCode(input, context);
-      } else if (input.includes('document') || input.includes('comments')) {
-        return this.documentCode(input, context);
-      } else {
-        // Default to code analysis
-        return this.analyzeCodeQuality(input, context);
-      }
+      // Route the input to the coding task it asks for
+      return await this.dispatch(input, context, {
+        generateCode: () => this.generateCode(input, context),
+        refactorCode: () => this.refactorCode(input, context),
+        optimizeCode: () => this.optimizeCode(input, context),
+        documentCode: () => this.documentCode(input, context),
+        analyzeCodeQuality: () => this.analyzeCodeQuality(input, context),
+        runCode: () => this.runCode(input, context)
+      });
     } catch (error) {
       logger.error(`Coding agent error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return {
@@ -57,45 +106,60 @@ export class CodingAgent extends AgentBase {
   // Generate code
   private async generateCode(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Generating code');
-    return this.executeInThread(input, {
-      ...context,
-      codeTask: 'generate'
+    return this.runStructuredTask(input, context, {
+      prompt: 'coding.generate',
+      schema: codeResultSchema,
+      format: formatCodeResult,
+      maxTokens: 4000
     });
   }
 
   // Refactor existing code
   private async refactorCode(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Refactoring code');
-    return this.executeInThread(input, {
-      ...context,
-      codeTask: 'refactor'
+    return this.runStructuredTask(input, context, {
+      prompt: 'coding.refactor',
+      schema: codeResultSchema,
+      format: formatCodeResult,
+      maxTokens: 4000
     });
   }
 
   // Optimize code for performance
   private async optimizeCode(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Optimizing code');
-    return this.executeInThread(input, {
-      ...context,
-      codeTask: 'optimize'
+    return this.runStructuredTask(input, context, {
+      prompt: 'coding.optimize',
+      schema: codeResultSchema,
+      format: formatCodeResult,
+      maxTokens: 4000
     });
   }
 
   // Document code
   private async documentCode(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Documenting code');
-    return this.executeInThread(input, {
-      ...context,
-      codeTask: 'document'
+    return this.runStructuredTask(input, context, {
+      prompt: 'coding.document',
+      schema: codeResultSchema,
+      format: formatCodeResult,
+      maxTokens: 4000
     });
   }
 
   // Analyze code quality
   private async analyzeCodeQuality(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Analyzing code quality');
-    return this.executeInThread(input, {
-      ...context,
-      codeTask: 'analyze'
+    return this.runStructuredTask(input, context, {
+      prompt: 'coding.analyze',
+      schema: codeReportSchema,
+      format: report => formatCodeReport(report, context?.language)
     });
   }
+
+  // Run code and its tests in the sandbox
+  private async runCode(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    await this.logActivity('Running code in the sandbox');
+    return this.runSandboxed(input, context);
+  }
 }
@@ -1,28 +1,74 @@
 import { AgentBase, AgentExecutionResult } from './agentBase';
-import { AgentType, AgentStatus } from '@shared/schema';
+import type { AgentMethodDescription } from './intentRouter';
+import { AgentType, AgentStatus, codeReportSchema } from '@shared/schema';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
+import { formatCodeReport } from './resultFormat';
+import type { SandboxResult } from '../utils/sandbox';
+import { z } from 'zod';
 
-interface DebugParams {
-  code: string;
-  language: string;
-  errorMessage?: string;
-  debugType: 'syntax' | 'runtime' | 'logic' | 'performance';
-}
+// Parameters of every debug method; the kind of debugging is the method itself
+const debugParamsSchema = z.object({
+  code: z.string().min(1).describe('The code to debug'),
+  language: z.string().min(1).describe('Programming language of the code'),
+  errorMessage: z.string().optional().describe('Error message or symptom observed, if any')
+});
+
+// Parameters of reproduceError
+const reproduceErrorParamsSchema = z.object({
+  code: z.string().min(1).describe('JavaScript that should raise the error'),
+  errorMessage: z.string().optional().describe('The error message expected'),
+  tests: z.string().optional().describe('JavaScript that registers test cases with test(name, fn) and checks them with assert')
+});
+
+export type DebugParams = z.infer<typeof debugParamsSchema>;
+export type ReproduceErrorParams = z.infer<typeof reproduceErrorParamsSchema>;
 
 export class DebugAgent extends AgentBase {
   constructor(id: number) {
     super(id, 'Debug Agent', AgentType.DEBUG);
   }
 
-  // Get the methods this agent can perform
-  getMethods(): string[] {
+  // Describe the methods this agent can perform
+  getMethodDescriptions(): AgentMethodDescription[] {
     return [
-      'findSyntaxErrors',
-      'debugRuntimeErrors',
-      'analyzeLogicIssues',
-      'optimizePerformance',
-      'securityAudit'
+      {
+        name: 'findSyntaxErrors',
+        description: 'Find syntax and compile errors in code',
+        parameters: debugParamsSchema,
+        keywords: ['syntax', 'compile', 'parse error', 'typo']
+      },
+      {
+        name: 'debugRuntimeErrors',
+        description: 'Debug errors and exceptions raised while code runs',
+        parameters: debugParamsSchema,
+        keywords: ['runtime', 'exception', 'crash', 'stack trace', 'debug'],
+        default: true
+      },
+      {
+        name: 'analyzeLogicIssues',
+        description: 'Find why code runs but gives wrong results',
+        parameters: debugParamsSchema,
+        keywords: ['logic', 'algorithm', 'wrong result', 'incorrect']
+      },
+      {
+        name: 'optimizePerformance',
+        description: 'Find the cause of slow code or high resource use',
+        parameters: debugParamsSchema,
+        keywords: ['performance', 'slow', 'memory leak', 'bottleneck']
+      },
+      {
+        name: 'securityAudit',
+        description: 'Audit code for security vulnerabilities',
+        parameters: debugParamsSchema,
+        keywords: ['security', 'vulnerab', 'injection', 'audit']
+      },
+      {
+        name: 'reproduceError',
+        description: 'Run JavaScript in a sandbox to reproduce an error and capture its output',
+        parameters: reproduceErrorParamsSchema,
+        keywords: ['reproduce', 'execute', 'sandbox']
+      }
     ];
   }
 
@@ -31,21 +77,15 @@ export class DebugAgent extends AgentBase {
     try {
       await this.logActivity('Processing debug task', { input: input.substring(0, 100) });
       
-      // Parse the input to determine the debug task
-      if (input.includes('syntax') || input.includes('compile')) {
-        return this.findSyntaxErrors(input, context);
-      } else if (input.includes('runtime') || input.includes('exception')) {
-        return this.debugRuntimeErrors(input, context);
-      } else if (input.includes('logic') || input.includes('algorithm')) {
-        return this.analyzeLogicIssues(input, context);
-      } else if (input.includes('performance') || input.includes('optimize')) {
-        return this.optimizePerformance(input, context);
-      } else if (input.includes('security') || input.includes('vulnerability')) {
-        return this.securityAudit(input, context);
-      } else {
-        // Default to general debug
-        return this.debugRuntimeErrors(input, context);
-      }
+      // Route the input to the debug task it asks for
+      return await this.dispatch(input, context, {
+        findSyntaxErrors: () => this.findSyntaxErrors(input, context),
+        debugRuntimeErrors: () => this.debugRuntimeErrors(input, context),
+        analyzeLogicIssues: () => this.analyzeLogicIssues(input, context),
+        optimizePerformance: () => this.optimizePerformance(input, context),
+        securityAudit: () => this.securityAudit(input, context),
+        reproduceError: () => this.reproduceError(input, context)
+      });
     } catch (error) {
       logger.error(`Debug agent error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return {
@@ -59,45 +99,77 @@ export class DebugAgent extends AgentBase {
   // Find syntax errors
   private async findSyntaxErrors(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Finding syntax errors');
-    return this.executeInThread(input, {
-      ...context,
-      debugTask: 'syntax'
+    return this.runStructuredTask(input, context, {
+      prompt: 'debug.syntax',
+      schema: codeReportSchema,
+      format: report => formatCodeReport(report, context?.language)
     });
   }
 
   // Debug runtime errors
   private async debugRuntimeErrors(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Debugging runtime errors');
-    return this.executeInThread(input, {
-      ...context,
-      debugTask: 'runtime'
+    return this.runStructuredTask(input, context, {
+      prompt: 'debug.runtime',
+      schema: codeReportSchema,
+      format: report => formatCodeReport(report, context?.language)
     });
   }
 
   // Analyze logic issues
   private async analyzeLogicIssues(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Analyzing logic issues');
-    return this.executeInThread(input, {
-      ...context,
-      debugTask: 'logic'
+    return this.runStructuredTask(input, context, {
+      prompt: 'debug.logic',
+      schema: codeReportSchema,
+      format: report => formatCodeReport(report, context?.language)
     });
   }
 
   // Optimize code performance
   private async optimizePerformance(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Optimizing code performance');
-    return this.executeInThread(input, {
-      ...context,
-      debugTask: 'performance'
+    return this.runStructuredTask(input, context, {
+      prompt: 'debug.performance',
+      schema: codeReportSchema,
+      format: report => formatCodeReport(report, context?.language)
     });
   }
 
   // Perform security audit
   private async securityAudit(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Performing security audit');
-    return this.executeInThread(input, {
-      ...context,
-      debugTask: 'security'
+    return this.runStructuredTask(input, context, {
+      prompt: 'debug.security',
+      schema: codeReportSchema,
+      format: report => formatCodeReport(report, context?.language)
     });
   }
+
+  // Run code in the sandbox and report whether it raises the expected error
+  private async reproduceError(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    await this.logActivity('Reproducing error in the sandbox');
+    const result = await this.runSandboxed(input, context);
+    const sandbox = result.data as SandboxResult | undefined;
+
+    // Violations and runs that never happened stay failures
+    if (!sandbox || sandbox.error?.violation) {
+      return result;
+    }
+
+    const errors = sandbox.tests.filter(test => !test.passed).map(test => test.error || test.name);
+    if (sandbox.error) {
+      errors.unshift(`${sandbox.error.name}: ${sandbox.error.message}`);
+    }
+    const expected = typeof context?.errorMessage === 'string' ? context.errorMessage : undefined;
+    const reproduced = expected ? errors.some(error => error.includes(expected)) : errors.length > 0;
+
+    return {
+      ...result,
+      success: true,
+      error: undefined,
+      output: `**${reproduced ? 'Reproduced' : 'Not reproduced'}**${expected ? `: ${expected}` : ''}\n\n${result.output}`,
+      metadata: { ...result.metadata, action: 'reproduce_error', reproduced }
+    };
+  }
 }
@@ -1,27 +1,63 @@
 import { AgentBase, AgentExecutionResult } from './agentBase';
-import { AgentType, AgentStatus } from '@shared/schema';
+import type { AgentMethodDescription } from './intentRouter';
+import {
+  AgentType, AgentStatus, designDocumentSchema, designEvaluationSchema,
+  type DesignDocument, type DesignEvaluation
+} from '@shared/schema';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
+import { formatFindings } from './resultFormat';
 import axios from 'axios';
+import { z } from 'zod';
 
-interface DesignParams {
-  type: 'ui' | 'architecture' | 'workflow';
-  requirements: string[];
-  constraints?: string[];
-}
+// Parameters of the methods that create a design; its type is the method itself
+const designParamsSchema = z.object({
+  requirements: z.array(z.string().min(1)).min(1).describe('What the design must achieve'),
+  constraints: z.array(z.string().min(1)).optional().describe('Limits the design must respect')
+});
+
+// Parameters of evaluateDesign
+const designEvaluationParamsSchema = z.object({
+  design: z.string().min(1).describe('The design to evaluate'),
+  requirements: z.array(z.string().min(1)).optional().describe('What the design should achieve')
+});
+
+export type DesignParams = z.infer<typeof designParamsSchema>;
+export type DesignEvaluationParams = z.infer<typeof designEvaluationParamsSchema>;
 
 export class DesignAgent extends AgentBase {
   constructor(id: number) {
     super(id, 'Design Agent', AgentType.DESIGN);
   }
 
-  // Get the methods this agent can perform
-  getMethods(): string[] {
+  // Describe the methods this agent can perform
+  getMethodDescriptions(): AgentMethodDescription[] {
     return [
-      'createUiDesign',
-      'createArchitectureDesign',
-      'createWorkflowDesign',
-      'evaluateDesign'
+      {
+        name: 'createUiDesign',
+        description: 'Design a user interface: screens, layout and components',
+        parameters: designParamsSchema,
+        keywords: ['ui', 'interface', 'layout', 'screen', 'mockup']
+      },
+      {
+        name: 'createArchitectureDesign',
+        description: 'Design the architecture of a system and its components',
+        parameters: designParamsSchema,
+        keywords: ['architecture', 'structure', 'component', 'system design']
+      },
+      {
+        name: 'createWorkflowDesign',
+        description: 'Design a workflow or process and its steps',
+        parameters: designParamsSchema,
+        keywords: ['workflow', 'process', 'pipeline']
+      },
+      {
+        name: 'evaluateDesign',
+        description: 'Evaluate an existing design and suggest improvements',
+        parameters: designEvaluationParamsSchema,
+        keywords: ['evaluate', 'review', 'critique', 'assess'],
+        default: true
+      }
     ];
   }
 
@@ -30,17 +66,13 @@ export class DesignAgent extends AgentBase {
     try {
       await this.logActivity('Processing design task', { input: input.substring(0, 100) });
       
-      // Parse the input to determine the design task
-      if (input.includes('UI') || input.includes('interface')) {
-        return this.createUiDesign(input, context);
-      } else if (input.includes('architecture') || input.includes('structure')) {
-        return this.createArchitectureDesign(input, context);
-      } else if (input.includes('workflow') || input.includes('process')) {
-        return this.createWorkflowDesign(input, context);
-      } else {
-        // Generic design evaluation
-        return this.evaluateDesign(input, context);
-      }
+      // Route the input to the design task it asks for
+      return await this.dispatch(input, context, {
+        createUiDesign: () => this.createUiDesign(input, context),
+        createArchitectureDesign: () => this.createArchitectureDesign(input, context),
+        createWorkflowDesign: () => this.createWorkflowDesign(input, context),
+        evaluateDesign: () => this.evaluateDesign(input, context)
+      });
     } catch (error) {
       logger.error(`Design agent error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return {
@@ -54,36 +86,70 @@ export class DesignAgent extends AgentBase {
   // Create UI design
   private async createUiDesign(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Creating UI design');
-    return this.executeInThread(input, {
-      ...context,
-      designType: 'ui'
+    return this.runStructuredTask(input, context, {
+      prompt: 'design.ui',
+      schema: designDocumentSchema,
+      format: design => this.formatDesign(design, 'Screens and Components'),
+      temperature: 0.7
     });
   }
 
   // Create architecture design
   private async createArchitectureDesign(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Creating architecture design');
-    return this.executeInThread(input, {
-      ...context,
-      designType: 'architecture'
+    return this.runStructuredTask(input, context, {
+      prompt: 'design.architecture',
+      schema: designDocumentSchema,
+      format: design => this.formatDesign(design, 'Components'),
+      temperature: 0.5
     });
   }
 
   // Create workflow design
   private async createWorkflowDesign(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Creating workflow design');
-    return this.executeInThread(input, {
-      ...context,
-      designType: 'workflow'
+    return this.runStructuredTask(input, context, {
+      prompt: 'design.workflow',
+      schema: designDocumentSchema,
+      format: design => this.formatDesign(design, 'Steps'),
+      temperature: 0.5
     });
   }
 
   // Evaluate existing design
   private async evaluateDesign(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     await this.logActivity('Evaluating design');
-    return this.executeInThread(input, {
-      ...context,
-      designType: 'evaluation'
+    return this.runStructuredTask(input, context, {
+      prompt: 'design.evaluate',
+      schema: designEvaluationSchema,
+      format: evaluation => this.formatEvaluation(evaluation)
+    });
+  }
+
+  // Render a design as markdown; `componentsTitle` names what its components are
+  private formatDesign(design: DesignDocument, componentsTitle: string): string {
+    const components = design.components.map(component => {
+      const dependencies = component.dependsOn.length > 0 ? ` (after: ${component.dependsOn.join(', ')})` : '';
+      return `- **${component.name}**${dependencies}: ${component.description}`;
     });
+    const sections = [`## Overview\n${design.overview}`, `## ${componentsTitle}\n${components.join('\n')}`];
+
+    if (design.decisions.length > 0) {
+      sections.push(`## Decisions\n${design.decisions.map(decision => `- ${decision}`).join('\n')}`);
+    }
+    if (design.openQuestions.length > 0) {
+      sections.push(`## Open Questions\n${design.openQuestions.map(question => `- ${question}`).join('\n')}`);
+    }
+    return sections.join('\n\n');
+  }
+
+  // Render a design evaluation as markdown
+  private formatEvaluation(evaluation: DesignEvaluation): string {
+    const sections = [`${evaluation.summary}\n\n**Score:** ${evaluation.score}/10`];
+    if (evaluation.strengths.length > 0) {
+      sections.push(`## Strengths\n${evaluation.strengths.map(strength => `- ${strength}`).join('\n')}`);
+    }
+    sections.push(`## Findings\n${formatFindings(evaluation.findings)}`);
+    return sections.join('\n\n');
   }
 }
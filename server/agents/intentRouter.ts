@@ -0,0 +1,105 @@
+import { z, type AnyZodObject } from 'zod';
+
+// Confidence at or above which a routed request is acted on without asking the user
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.5;
+
+// Confidence of the default method when no keyword matches
+const DEFAULT_METHOD_CONFIDENCE = 0.5;
+
+// Confidence when several methods match equally well
+const TIED_CONFIDENCE = 0.3;
+
+// A method an agent can perform, described for the router and for explicit invocation
+export interface AgentMethodDescription {
+  name: string;
+  description: string;
+  parameters: AnyZodObject; // What AgentBase.invoke accepts for the method
+  keywords: string[]; // Matched at word starts, case-insensitively, when the LLM is unavailable
+  default?: boolean; // Used when no keyword matches
+}
+
+export type IntentSource = 'explicit' | 'llm' | 'keyword';
+
+export interface IntentDecision {
+  method: string;
+  confidence: number; // 0-1
+  source: IntentSource;
+  alternatives: string[]; // Other plausible methods, best first
+  reasoning?: string;
+}
+
+// INTENT_CONFIDENCE_THRESHOLD: below it the agent asks for clarification instead of acting
+export function getIntentConfidenceThreshold(): number {
+  const threshold = parseFloat(process.env.INTENT_CONFIDENCE_THRESHOLD || '');
+  return isNaN(threshold) ? DEFAULT_CONFIDENCE_THRESHOLD : threshold;
+}
+
+// INTENT_ROUTER_MODE=keyword skips the LLM classification call
+export function getIntentRouterMode(): 'llm' | 'keyword' {
+  return process.env.INTENT_ROUTER_MODE === 'keyword' ? 'keyword' : 'llm';
+}
+
+// The methods as listed in the classification prompt
+export function formatMethods(methods: AgentMethodDescription[]): string {
+  return methods.map(method => `- ${method.name}: ${method.description}`).join('\n');
+}
+
+// What the LLM answers with; method names are limited to the agent's own
+export function intentSchema(methods: AgentMethodDescription[]) {
+  const names = methods.map(method => method.name) as [string, ...string[]];
+  return z.object({
+    method: z.enum(names),
+    confidence: z.number().min(0).max(1).describe('How sure you are that this is the method the user wants'),
+    alternatives: z.array(z.enum(names)).default([]).describe('Other methods that could fit, best first'),
+    reasoning: z.string().describe('One sentence on why')
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Score each method by how many of its keywords the input contains. A clear
+ * winner gets more confidence the further it leads; a tie gets too little to
+ * act on, and no match at all falls back to the default method.
+ */
+export function classifyByKeywords(input: string, methods: AgentMethodDescription[]): IntentDecision {
+  const scored = methods
+    .map(method => ({
+      name: method.name,
+      score: method.keywords.filter(keyword => new RegExp(`\\b${escapeRegExp(keyword)}`, 'i').test(input)).length
+    }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) {
+    const fallback = methods.find(method => method.default) || methods[0];
+    return { method: fallback.name, confidence: DEFAULT_METHOD_CONFIDENCE, source: 'keyword', alternatives: [] };
+  }
+
+  const [best, runnerUp] = scored;
+  const lead = best.score - (runnerUp ? runnerUp.score : 0);
+  return {
+    method: best.name,
+    confidence: lead === 0 ? TIED_CONFIDENCE : Math.min(0.9, DEFAULT_METHOD_CONFIDENCE + 0.2 * lead),
+    source: 'keyword',
+    alternatives: scored.slice(1).map(candidate => candidate.name)
+  };
+}
+
+// The question put to the user when the request cannot be routed confidently
+export function clarificationQuestion(decision: IntentDecision, methods: AgentMethodDescription[]): string {
+  const named = [decision.method, ...decision.alternatives]
+    .filter((name, index, names) => names.indexOf(name) === index)
+    .map(name => methods.find(method => method.name === name))
+    .filter((method): method is AgentMethodDescription => !!method);
+  const candidates = named.length > 1 ? named : methods;
+
+  return [
+    "I'm not sure which of these you would like me to do:",
+    ...candidates.map(method => `- ${method.description} (${method.name})`),
+    '',
+    'Could you clarify your request?'
+  ].join('\n');
+}
@@ -0,0 +1,213 @@
+import { logger } from '../utils/logger';
+import { storage, type IStorage } from '../storage';
+import type { PromptTemplate } from '@shared/schema';
+import { defaultPrompts } from './defaultPrompts';
+
+// Version reported for a built-in prompt that has no stored version active
+export const BUILT_IN_PROMPT_VERSION = 0;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w]*)\s*\}\}/g;
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  variables: string[]; // Placeholders the agent fills in; stored versions may use no others
+  content: string; // Built-in template
+}
+
+// The template an agent's prompt currently comes from
+export interface ResolvedPrompt {
+  name: string;
+  version: number;
+  templateId: number | null; // null for the built-in template
+  agentId: number | null; // Set when the agent's own override is in use
+  content: string;
+}
+
+export interface RenderedPrompt {
+  name: string;
+  version: number;
+  text: string;
+}
+
+export interface PromptTemplateSummary extends PromptDefinition {
+  versions: PromptTemplate[];
+}
+
+// Invalid template content or an unknown template or variable
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// Names of the {{placeholders}} in a template, in order of first use
+export function extractVariables(content: string): string[] {
+  const names: string[] = [];
+  content.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    if (names.indexOf(name) === -1) names.push(name);
+    return match;
+  });
+  return names;
+}
+
+export function renderTemplate(content: string, variables: Record<string, string>): string {
+  return content.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      throw new PromptTemplateError(`No value for prompt variable ${name}`);
+    }
+    return variables[name];
+  });
+}
+
+/**
+ * PromptRegistry holds the agents' system prompts. Each prompt has a built-in
+ * template in code; stored versions, numbered per name, replace it once
+ * activated, either for every agent or, with an agentId, for one agent. The
+ * name and version of the template are returned with each rendered prompt so
+ * LLM calls can be attributed to it.
+ */
+export class PromptRegistry {
+  private definitions: Map<string, PromptDefinition>;
+  private store: IStorage;
+
+  constructor(store: IStorage = storage) {
+    this.definitions = new Map();
+    this.store = store;
+  }
+
+  register(definition: PromptDefinition): void {
+    if (this.definitions.has(definition.name)) {
+      throw new Error(`Prompt template ${definition.name} is already registered`);
+    }
+
+    const unknown = extractVariables(definition.content).filter(name => definition.variables.indexOf(name) === -1);
+    if (unknown.length > 0) {
+      throw new Error(`Prompt template ${definition.name} uses undeclared variables: ${unknown.join(', ')}`);
+    }
+
+    this.definitions.set(definition.name, definition);
+  }
+
+  getDefinition(name: string): PromptDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  // Every registered prompt with its stored versions, oldest first
+  async list(): Promise<PromptTemplateSummary[]> {
+    const templates = await this.store.getAllPromptTemplates();
+
+    return Array.from(this.definitions.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(definition => ({
+        ...definition,
+        versions: templates.filter(template => template.name === definition.name)
+      }));
+  }
+
+  async createVersion(
+    name: string,
+    version: { content: string; description?: string | null; agentId?: number | null; activate?: boolean }
+  ): Promise<PromptTemplate> {
+    const definition = this.requireDefinition(name);
+
+    const unknown = extractVariables(version.content).filter(variable => definition.variables.indexOf(variable) === -1);
+    if (unknown.length > 0) {
+      const available = definition.variables.length > 0 ? definition.variables.join(', ') : 'none';
+      throw new PromptTemplateError(`Unknown variables in ${name}: ${unknown.join(', ')} (available: ${available})`);
+    }
+
+    const existing = await this.store.getPromptTemplatesByName(name);
+    const template = await this.store.createPromptTemplate({
+      name,
+      version: existing.reduce((latest, template) => Math.max(latest, template.version), BUILT_IN_PROMPT_VERSION) + 1,
+      agentId: version.agentId ?? null,
+      content: version.content,
+      description: version.description ?? null,
+      isActive: false
+    });
+    logger.info(`Prompt template ${name} version ${template.version} created${template.agentId !== null ? ` for agent ${template.agentId}` : ''}`);
+
+    return version.activate ? (await this.activate(name, template.version))! : template;
+  }
+
+  // Make a stored version the one in use for its agent (or for all agents)
+  async activate(name: string, version: number): Promise<PromptTemplate | undefined> {
+    const templates = await this.store.getPromptTemplatesByName(name);
+    const target = templates.find(template => template.version === version);
+    if (!target) {
+      return undefined;
+    }
+
+    await Promise.all(templates
+      .filter(template => template.isActive && template.agentId === target.agentId && template.id !== target.id)
+      .map(template => this.store.updatePromptTemplate(template.id, { isActive: false })));
+
+    const activated = await this.store.updatePromptTemplate(target.id, { isActive: true });
+    logger.info(`Prompt template ${name} version ${version} activated`);
+    return activated;
+  }
+
+  // Go back to the built-in template (or, for an agent, to the default for all agents)
+  async reset(name: string, agentId: number | null = null): Promise<number> {
+    this.requireDefinition(name);
+
+    const active = (await this.store.getPromptTemplatesByName(name))
+      .filter(template => template.isActive && template.agentId === agentId);
+    await Promise.all(active.map(template => this.store.updatePromptTemplate(template.id, { isActive: false })));
+
+    return active.length;
+  }
+
+  /**
+   * The template in use for `agentId`: its own active override, else the active
+   * default, else the built-in template. `version` pins a version whether or not
+   * it is active (experiments use this). A failing store must not keep agents
+   * from running, so the built-in template is used then too.
+   */
+  async resolve(name: string, agentId?: number, version?: number): Promise<ResolvedPrompt> {
+    const definition = this.requireDefinition(name);
+    if (version === BUILT_IN_PROMPT_VERSION) {
+      return { name, version, templateId: null, agentId: null, content: definition.content };
+    }
+
+    try {
+      const templates = await this.store.getPromptTemplatesByName(name);
+      const pinned = version !== undefined ? templates.find(template => template.version === version) : undefined;
+      if (version !== undefined && !pinned) {
+        logger.warn(`Prompt template ${name} has no version ${version}, using the active one`);
+      }
+
+      const active = templates.filter(template => template.isActive);
+      const template = pinned
+        || (agentId !== undefined && active.find(candidate => candidate.agentId === agentId))
+        || active.find(candidate => candidate.agentId === null);
+
+      if (template) {
+        return { name, version: template.version, templateId: template.id, agentId: template.agentId, content: template.content };
+      }
+    } catch (error) {
+      logger.error(`Failed to load prompt template ${name}, using the built-in one: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return { name, version: BUILT_IN_PROMPT_VERSION, templateId: null, agentId: null, content: definition.content };
+  }
+
+  async render(name: string, variables: Record<string, string> = {}, agentId?: number, version?: number): Promise<RenderedPrompt> {
+    const prompt = await this.resolve(name, agentId, version);
+    return { name, version: prompt.version, text: renderTemplate(prompt.content, variables) };
+  }
+
+  private requireDefinition(name: string): PromptDefinition {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new PromptTemplateError(`Unknown prompt template: ${name}`);
+    }
+    return definition;
+  }
+}
+
+// Create singleton instance with the built-in prompts
+export const promptRegistry = new PromptRegistry();
+defaultPrompts.forEach(definition => promptRegistry.register(definition));
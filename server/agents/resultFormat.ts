@@ -0,0 +1,70 @@
+import type { CodeReport, CodeResult, Finding } from '@shared/schema';
+import type { SandboxResult } from '../utils/sandbox';
+
+// Markdown renderings of the structured results agents produce, for the chat
+
+const SEVERITY_ORDER: Finding['severity'][] = ['critical', 'high', 'medium', 'low'];
+
+// Findings, most severe first
+export function formatFindings(findings: Finding[]): string {
+  if (findings.length === 0) {
+    return 'No issues found.';
+  }
+
+  return findings
+    .slice()
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+    .map(finding => {
+      const location = finding.line !== undefined ? ` (line ${finding.line})` : '';
+      return `- **${finding.severity}**${location}: ${finding.description}\n  ${finding.suggestion}`;
+    })
+    .join('\n');
+}
+
+export function formatCode(code: string, language: string): string {
+  return '```' + language.toLowerCase() + '\n' + code.replace(/\n$/, '') + '\n```';
+}
+
+export function formatCodeResult(result: CodeResult): string {
+  const sections = [result.explanation, formatCode(result.code, result.language)];
+  if (result.changes.length > 0) {
+    sections.push(`## Changes\n${result.changes.map(change => `- ${change}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+export function formatCodeReport(report: CodeReport, language = ''): string {
+  const score = report.score !== undefined ? `\n\n**Score:** ${report.score}/10` : '';
+  const sections = [`${report.summary}${score}`, `## Findings\n${formatFindings(report.findings)}`];
+  if (report.fixedCode) {
+    sections.push(`## Fixed Code\n${formatCode(report.fixedCode, language)}`);
+  }
+  return sections.join('\n\n');
+}
+
+export function formatSandboxResult(result: SandboxResult): string {
+  const sections: string[] = [];
+
+  if (result.error) {
+    const violation = result.error.violation ? ` (${result.error.violation} violation)` : '';
+    sections.push(`**Failed**${violation}: ${result.error.name}: ${result.error.message}`);
+  } else {
+    const passed = result.tests.filter(test => test.passed).length;
+    const tests = result.tests.length > 0 ? `, ${passed}/${result.tests.length} tests passed` : '';
+    sections.push(`**${result.success ? 'Passed' : 'Failed'}** in ${result.durationMs}ms${tests}`);
+  }
+
+  if (result.result !== undefined) {
+    sections.push(`## Result\n${formatCode(result.result, 'js')}`);
+  }
+  if (result.tests.length > 0) {
+    sections.push(`## Tests\n${result.tests.map(test => `- ${test.passed ? '✓' : '✗'} ${test.name}${test.error ? `: ${test.error}` : ''}`).join('\n')}`);
+  }
+  if (result.stdout) {
+    sections.push(`## Output\n${formatCode(result.stdout, 'text')}`);
+  }
+  if (result.stderr) {
+    sections.push(`## Errors\n${formatCode(result.stderr, 'text')}`);
+  }
+  return sections.join('\n\n');
+}
@@ -1,8 +1,10 @@
 import { AgentBase, AgentExecutionResult } from './agentBase';
+import type { AgentMethodDescription } from './intentRouter';
 import { AgentType, AgentStatus, ActivityType, ErrorType } from '@shared/schema';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
 import { threadManager } from '../utils/threadManager';
+import { z } from 'zod';
 
 interface SelfHealingParams {
   errorType?: ErrorType;
@@ -13,6 +15,47 @@ interface SelfHealingParams {
   attempted_fixes?: any[];
 }
 
+// The error a method works on, as read from the context
+const errorParamsSchema = z.object({
+  errorMessage: z.string().min(1).describe('The error message'),
+  errorType: z.nativeEnum(ErrorType).optional().describe('Kind of error, when known'),
+  componentName: z.string().optional().describe('Component that raised the error'),
+  stackTrace: z.string().optional()
+});
+
+const suggestFixParamsSchema = errorParamsSchema.extend({
+  componentType: z.string().optional().describe('Type of component, to search the knowledge base by'),
+  apply: z.boolean().optional().describe('Apply the suggested fix right away')
+});
+
+const applyFixParamsSchema = z.object({
+  suggestion: z.string().min(1).describe('The fix to apply'),
+  errorParams: errorParamsSchema.optional().describe('The error being fixed')
+});
+
+const validateFixParamsSchema = z.object({
+  fix: z.string().min(1).describe('The fix that was applied'),
+  errorParams: errorParamsSchema.optional().describe('The error it should have fixed')
+});
+
+const searchKnowledgeParamsSchema = z.object({
+  componentName: z.string().optional(),
+  componentType: z.string().optional()
+});
+
+const searchOnlineParamsSchema = z.object({
+  query: z.string().min(1).describe('What to search for')
+});
+
+const addSystemKnowledgeParamsSchema = z.object({
+  componentName: z.string().min(1),
+  componentType: z.string().min(1),
+  knowledge: z.string().min(1).describe('The information to store')
+});
+
+// Methods that take no parameters
+const noParamsSchema = z.object({});
+
 /**
  * Helper functions for the SelfHealingAgent
  */
@@ -129,24 +172,75 @@ export class SelfHealingAgent extends AgentBase {
     this.status = AgentStatus.STANDBY;
   }
 
-  getMethods(): string[] {
+  getMethodDescriptions(): AgentMethodDescription[] {
     return [
-      'detectErrors',
-      'analyzeError',
-      'suggestFix',
-      'applyFix',
-      'validateFix',
-      'monitorSystem',
-      'searchKnowledge',
-      'searchOnline',
-      'addSystemKnowledge',
-      'learnFromExperience'
+      {
+        name: 'detectErrors',
+        description: 'Scan the system for errors and issues',
+        parameters: noParamsSchema,
+        keywords: ['detect', 'scan', 'find error'],
+        default: true
+      },
+      {
+        name: 'analyzeError',
+        description: 'Find the root cause of a known error',
+        parameters: errorParamsSchema,
+        keywords: ['analyz', 'root cause', 'diagnose']
+      },
+      {
+        name: 'suggestFix',
+        description: 'Suggest a fix for an error, applying it when `apply` is set',
+        parameters: suggestFixParamsSchema,
+        keywords: ['fix', 'solve', 'repair', 'suggest']
+      },
+      {
+        name: 'applyFix',
+        description: 'Apply a fix that was already suggested',
+        parameters: applyFixParamsSchema,
+        keywords: ['apply']
+      },
+      {
+        name: 'validateFix',
+        description: 'Check that an applied fix resolved the error',
+        parameters: validateFixParamsSchema,
+        keywords: ['validate', 'verify']
+      },
+      {
+        name: 'monitorSystem',
+        description: 'Report on the health of the system and its threads',
+        parameters: noParamsSchema,
+        keywords: ['monitor', 'health']
+      },
+      {
+        name: 'searchKnowledge',
+        description: 'Look up what the knowledge base says about a component',
+        parameters: searchKnowledgeParamsSchema,
+        keywords: ['search knowledge', 'knowledge base', 'database', 'look up']
+      },
+      {
+        name: 'searchOnline',
+        description: 'Search online for information about an error',
+        parameters: searchOnlineParamsSchema,
+        keywords: ['search online', 'internet', 'web']
+      },
+      {
+        name: 'addSystemKnowledge',
+        description: 'Store new information about a component in the knowledge base',
+        parameters: addSystemKnowledgeParamsSchema,
+        keywords: ['add knowledge', 'store information', 'remember']
+      },
+      {
+        name: 'learnFromExperience',
+        description: 'Learn from past errors and fixes to improve future healing',
+        parameters: noParamsSchema,
+        keywords: ['learn', 'improve']
+      }
     ];
   }
 
   async process(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     // Update agent status
-    await storage.updateAgentStatus(this.id, AgentStatus.OBSERVING);
+    await this.setStatus(AgentStatus.OBSERVING);
     
     // Log system activity
     await storage.createSystemActivity({
@@ -156,34 +250,19 @@ export class SelfHealingAgent extends AgentBase {
     });
     
     // Determine what operation to perform based on the input
-    if (input.includes('detect') && (input.includes('error') || input.includes('issue'))) {
-      return this.detectErrors(input, context);
-    } else if (input.includes('analyze') && (input.includes('error') || input.includes('issue'))) {
-      return this.analyzeError(input, context);
-    } else if (input.includes('fix') || input.includes('solve') || input.includes('repair')) {
+    return this.dispatch(input, context, {
+      detectErrors: () => this.detectErrors(input, context),
+      analyzeError: () => this.analyzeError(input, context),
       // If context.apply is true, we'll apply the fix after suggesting it
-      if (context?.apply) {
-        const suggestResult = await this.suggestAndApplyFix(input, context);
-        return suggestResult;
-      } else {
-        return this.suggestFix(input, context);
-      }
-    } else if (input.includes('validate') || input.includes('verify')) {
-      return this.validateFix(input, context);
-    } else if (input.includes('monitor')) {
-      return this.monitorSystem(input, context);
-    } else if (input.includes('search knowledge') || input.includes('database')) {
-      return this.searchKnowledge(input, context);
-    } else if (input.includes('search online') || input.includes('internet')) {
-      return this.searchOnline(input, context);
-    } else if (input.includes('add knowledge') || input.includes('store information')) {
-      return this.addSystemKnowledge(input, context);
-    } else if (input.includes('learn') || input.includes('improve')) {
-      return this.learnFromExperience(input, context);
-    } else {
-      // Default to detecting errors if we can't determine a specific action
-      return this.detectErrors(input, context);
-    }
+      suggestFix: () => context?.apply ? this.suggestAndApplyFix(input, context) : this.suggestFix(input, context),
+      applyFix: () => this.applyFix(input, context),
+      validateFix: () => this.validateFix(input, context),
+      monitorSystem: () => this.monitorSystem(input, context),
+      searchKnowledge: () => this.searchKnowledge(input, context),
+      searchOnline: () => this.searchOnline(input, context),
+      addSystemKnowledge: () => this.addSystemKnowledge(input, context),
+      learnFromExperience: () => this.learnFromExperience(input, context)
+    });
   }
 
   private async detectErrors(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
@@ -209,14 +288,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type,
         }
       },
-      'Detecting system errors and issues'
+      'Detecting system errors and issues',
+      this.taskOptions(context, 'background')
     );
     
     // Track token usage for LLM
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     // Log activity
@@ -266,35 +344,23 @@ export class SelfHealingAgent extends AgentBase {
       logger.info(`Classified error as: ${errorParams.errorType}`);
     }
     
-    // Execute analysis in a worker thread
-    const result = await threadManager.executeTask(
-      async (data) => {
-        // In a real implementation, this would perform deep analysis of the error
-        // trace error origins, dependency issues, pattern matching with known issues, etc.
-        return {
-          success: true,
-          output: "Error analysis complete. Root cause identified: [Root cause details]"
-        };
-      },
-      { 
-        input, 
-        errorParams,
-        context: {
-          ...context,
-          action: 'analyze_error',
-          agentId: this.id,
-          agentType: this.type,
-        }
-      },
-      'Analyzing system error root cause'
-    );
-    
-    // Track token usage
-    if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
-    }
+    // Let the LLM investigate with the knowledge base and error log tools
+    const llmResponse = await this.completeWithTools({
+      prompt: input,
+      ...(await this.systemPrompt('self_healing.analyze_error', { errorDetails: JSON.stringify(errorParams, null, 2) }, context)),
+      temperature: 0.3,
+      maxTokens: 1500
+    }, context);
+    
+    const result = {
+      success: true,
+      output: llmResponse.text,
+      tokens: {
+        input: llmResponse.usage.inputTokens,
+        output: llmResponse.usage.outputTokens,
+        total: llmResponse.usage.totalTokens
+      }
+    };
     
     // Log activity
     await storage.createSystemActivity({
@@ -310,6 +376,11 @@ export class SelfHealingAgent extends AgentBase {
         timestamp: new Date().toISOString(),
         action: 'analyze_error',
         errorParams,
+        toolCalls: llmResponse.toolInvocations.map(invocation => ({
+          name: invocation.name,
+          success: invocation.success,
+          error: invocation.error
+        })),
         tokens: result.tokens
       }
     };
@@ -366,14 +437,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type,
         }
       },
-      'Generating error fix suggestion'
+      'Generating error fix suggestion',
+      this.taskOptions(context, 'background')
     );
     
     // Track token usage
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     // If we have a componentName, document this error and solution in the error logs
@@ -502,14 +572,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type
         }
       },
-      'Applying error fix'
+      'Applying error fix',
+      this.taskOptions(context, 'background')
     );
     
     // Track token usage
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     // Log activity
@@ -560,14 +629,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type
         }
       },
-      'Validating applied fix'
+      'Validating applied fix',
+      this.taskOptions(context, 'background')
     );
     
     // Track token usage
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     // Log activity
@@ -593,21 +661,22 @@ export class SelfHealingAgent extends AgentBase {
   private async monitorSystem(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     logger.info(`SelfHealingAgent (ID: ${this.id}) monitoring system`);
     
-    // Execute the system monitoring in a worker thread
+    // Execute the system monitoring in a worker thread, which cannot reach the
+    // thread manager itself, so the thread stats are passed in
     const result = await threadManager.executeTask(
       async (data) => {
-        // Get thread stats for real data
-        const threadStats = threadManager.getThreadStats();
+        const { threadStats } = data;
         
         // In a real implementation, this would retrieve performance metrics,
         // scan logs, check resource usage, etc.
         return {
           success: true,
-          output: `System monitoring complete. Thread usage: ${threadStats.activeThreads}/${threadStats.maxThreads}. CPU/Memory: [metrics]`
+          output: `System monitoring complete. Thread usage: ${threadStats.activeThreads}/${threadStats.maxThreads}, ${threadStats.queuedTasks} queued. CPU/Memory: [metrics]`
         };
       },
       { 
         input, 
+        threadStats: threadManager.getThreadStats(),
         context: {
           ...context,
           action: 'monitor_system',
@@ -615,14 +684,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type
         }
       },
-      'Monitoring system health'
+      'Monitoring system health',
+      this.taskOptions(context, 'maintenance')
     );
     
     // Track token usage
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     // Update system stats with thread usage info
@@ -687,14 +755,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type
         }
       },
-      'Searching system knowledge base'
+      'Searching system knowledge base',
+      this.taskOptions(context, 'background')
     );
     
     // Track token usage
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     return {
@@ -731,14 +798,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type
         }
       },
-      'Searching online resources for solutions'
+      'Searching online resources for solutions',
+      this.taskOptions(context, 'background')
     );
     
     // Track token usage
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     return {
@@ -790,14 +856,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type
         }
       },
-      'Processing and storing system knowledge'
+      'Processing and storing system knowledge',
+      this.taskOptions(context, 'maintenance')
     );
     
     // Track token usage
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     // Store the structured knowledge
@@ -861,14 +926,13 @@ export class SelfHealingAgent extends AgentBase {
           agentType: this.type
         }
       },
-      'Learning from past experiences'
+      'Learning from past experiences',
+      this.taskOptions(context, 'maintenance')
     );
     
     // Track token usage
     if (result.tokens) {
-      await storage.updateSystemStats({
-        apiTokensUsed: (await storage.getSystemStats())!.apiTokensUsed + result.tokens.total
-      });
+      await this.recordTokenUsage(result.tokens, context);
     }
     
     // Log activity
@@ -1,26 +1,60 @@
 import { AgentBase, AgentExecutionResult } from './agentBase';
-import { AgentType, AgentStatus } from '@shared/schema';
+import type { AgentMethodDescription } from './intentRouter';
+import { AgentType, AgentStatus, projectPlanSchema, pipelinePlanSchema, type ProjectPlan } from '@shared/schema';
+import type { PipelineInfo } from '../services/pipelineOrchestrator';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
+import { z } from 'zod';
 
-interface SupervisionParams {
-  taskId?: number;
-  projectId?: number;
-  analysisType: 'requirements' | 'coordination' | 'review' | 'planning';
-}
+// Agent types a pipeline's steps can run on
+const PIPELINE_AGENT_TYPES = [AgentType.DESIGN, AgentType.CODING, AgentType.DEBUG];
+
+// Parameters of the methods that work on a request; the task and project come with the call
+const supervisionParamsSchema = z.object({
+  request: z.string().min(1).describe('The software request or project to work on')
+});
+
+// Parameters of reviewProgress
+const progressReviewParamsSchema = z.object({
+  focus: z.string().optional().describe('Part of the project to concentrate on')
+});
+
+export type SupervisionParams = z.infer<typeof supervisionParamsSchema>;
+export type ProgressReviewParams = z.infer<typeof progressReviewParamsSchema>;
 
 export class SupervisionAgent extends AgentBase {
   constructor(id: number) {
     super(id, 'Supervision Agent', AgentType.SUPERVISION);
   }
 
-  // Get the methods this agent can perform
-  getMethods(): string[] {
+  // Describe the methods this agent can perform
+  getMethodDescriptions(): AgentMethodDescription[] {
     return [
-      'analyzeRequirements',
-      'coordinateAgents',
-      'reviewProgress',
-      'createProjectPlan'
+      {
+        name: 'analyzeRequirements',
+        description: 'Analyze the requirements of a software request and list open questions',
+        parameters: supervisionParamsSchema,
+        keywords: ['requirement', 'analyze', 'clarify', 'scope']
+      },
+      {
+        name: 'coordinateAgents',
+        description: 'Plan a pipeline of design, coding and debug steps for a request and run it across the agents',
+        parameters: supervisionParamsSchema,
+        keywords: ['coordinate', 'manage', 'assign', 'delegate', 'orchestrat', 'pipeline']
+      },
+      {
+        name: 'reviewProgress',
+        description: 'Assess project progress from recent system activity',
+        parameters: progressReviewParamsSchema,
+        keywords: ['review', 'evaluate', 'progress', 'status']
+      },
+      {
+        name: 'createProjectPlan',
+        description: 'Break a project down into a plan of milestones and tasks',
+        parameters: supervisionParamsSchema,
+        keywords: ['plan', 'build', 'roadmap', 'milestone'],
+        default: true
+      }
     ];
   }
 
@@ -29,17 +63,13 @@ export class SupervisionAgent extends AgentBase {
     try {
       await this.logActivity('Processing supervision task', { input: input.substring(0, 100) });
       
-      // Parse the input to determine the supervision task
-      if (input.includes('requirements') || input.includes('analyze')) {
-        return this.analyzeRequirements(input, context);
-      } else if (input.includes('coordinate') || input.includes('manage')) {
-        return this.coordinateAgents(input, context);
-      } else if (input.includes('review') || input.includes('evaluate')) {
-        return this.reviewProgress(input, context);
-      } else {
-        // Default to project planning
-        return this.createProjectPlan(input, context);
-      }
+      // Route the input to the supervision task it asks for
+      return await this.dispatch(input, context, {
+        analyzeRequirements: () => this.analyzeRequirements(input, context),
+        coordinateAgents: () => this.coordinateAgents(input, context),
+        reviewProgress: () => this.reviewProgress(input, context),
+        createProjectPlan: () => this.createProjectPlan(input, context)
+      });
     } catch (error) {
       logger.error(`Supervision agent error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return {
@@ -58,27 +88,13 @@ export class SupervisionAgent extends AgentBase {
       // Set status to observing since we're analyzing
       await this.setStatus(AgentStatus.OBSERVING);
       
-      // Import the LLM service
-      const { llmService } = await import('../services/llmService');
-      
-      // Create a system prompt for the LLM
-      const systemPrompt = `You are a requirements analysis AI assistant that helps identify and clarify software requirements.
-      Analyze the user's request and identify:
-      1. Functional requirements
-      2. Non-functional requirements
-      3. Technical constraints
-      4. Potential ambiguities or missing information
-      5. Recommended clarifying questions
-      
-      Provide a comprehensive analysis in a structured format.`;
-      
       // Call the LLM service
-      const llmResponse = await llmService.callLLM({
+      const llmResponse = await this.completeLLM({
         prompt: input,
-        system: systemPrompt,
+        ...(await this.systemPrompt('supervision.requirements', {}, context)),
         temperature: 0.5,
         maxTokens: 1500
-      });
+      }, context);
       
       // Return the result
       return {
@@ -106,38 +122,51 @@ export class SupervisionAgent extends AgentBase {
     }
   }
 
-  // Coordinate other agents
+  // Plan a pipeline of design, coding and debug steps for the request and run it
   private async coordinateAgents(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
     try {
       await this.logActivity('Coordinating agents');
       
-      // Get all agents to coordinate
-      const agents = await storage.getAllAgents();
+      // The orchestrator runs agents through the registry, which creates this agent, so both are loaded on use
+      const { agentRegistry } = await import('./agentRegistry');
+      const { pipelineOrchestrator, withReviewStep } = await import('../services/pipelineOrchestrator');
       
-      // Import the LLM service
-      const { llmService } = await import('../services/llmService');
+      // Get all agents to coordinate, and what the ones a pipeline can use are able to do
+      const agents = await storage.getAllAgents();
+      const methods = PIPELINE_AGENT_TYPES.map(type => {
+        const agent = agentRegistry.get(type);
+        return agent ? agent.getMethodDescriptions().map(method => `- ${type}.${method.name}: ${method.description}`).join('\n') : '';
+      }).filter(Boolean);
       
       // Create a system prompt for the LLM
-      const systemPrompt = `You are a coordination AI assistant that helps orchestrate multiple specialized agents.
-      The following agents are available:
-      ${agents.map(a => `- ${a.name} (${a.type}): Status=${a.status}`).join('\n')}
-      
-      Based on the user's request, determine which agents should be activated and in what sequence.
-      Consider dependencies between tasks and the current status of each agent.
-      Provide a detailed coordination plan with clear reasoning.`;
+      const systemPrompt = await this.systemPrompt('supervision.coordination', {
+        agents: agents.map(a => `- ${a.name} (${a.type}): Status=${a.status}`).join('\n'),
+        methods: methods.join('\n')
+      }, context);
       
-      // Call the LLM service
-      const llmResponse = await llmService.callLLM({
+      // Call the LLM service for a plan matching pipelinePlanSchema
+      const llmResponse = await this.completeStructured({
         prompt: input,
-        system: systemPrompt,
+        ...systemPrompt,
+        schema: pipelinePlanSchema,
         temperature: 0.4,
-        maxTokens: 1000
+        maxTokens: 2000
+      }, context);
+      
+      // Run the pipeline, ending in a review of its code, to the end; cancelling this run cancels it
+      await this.setStatus(AgentStatus.OBSERVING);
+      const pipeline = await pipelineOrchestrator.run(withReviewStep(llmResponse.data), {
+        projectId: typeof context?.projectId === 'number' ? context.projectId : undefined,
+        parentTaskId: typeof context?.taskId === 'number' ? context.taskId : undefined,
+        signal: context?.signal
       });
       
-      // Return the result
+      // Return the outcome of every step
       return {
-        success: true,
-        output: llmResponse.text,
+        success: pipeline.status === 'succeeded',
+        output: this.formatPipeline(pipeline),
+        data: pipeline,
+        error: pipeline.status === 'succeeded' ? undefined : `Pipeline ${pipeline.status}`,
         tokens: {
           input: llmResponse.usage.inputTokens,
           output: llmResponse.usage.outputTokens,
@@ -168,28 +197,18 @@ export class SupervisionAgent extends AgentBase {
       // Get the latest system activities to review progress
       const recentActivities = await storage.getRecentSystemActivities(20);
       
-      // Import the LLM service
-      const { llmService } = await import('../services/llmService');
-      
       // Create a system prompt for the LLM
-      const systemPrompt = `You are a progress monitoring AI assistant that helps track and evaluate project progress.
-      The following are the most recent system activities:
-      ${recentActivities.map(a => `- ${new Date(a.createdAt || new Date()).toISOString()}: ${a.description}`).join('\n')}
-      
-      Based on these activities and the user's input, provide an assessment of:
-      1. Current progress status
-      2. Potential bottlenecks or issues
-      3. Recommendations for next steps
-      
-      Be objective and provide actionable insights.`;
+      const systemPrompt = await this.systemPrompt('supervision.review', {
+        activities: recentActivities.map(a => `- ${new Date(a.createdAt || new Date()).toISOString()}: ${a.description}`).join('\n')
+      }, context);
       
       // Call the LLM service
-      const llmResponse = await llmService.callLLM({
+      const llmResponse = await this.completeLLM({
         prompt: input,
-        system: systemPrompt,
+        ...systemPrompt,
         temperature: 0.3,
         maxTokens: 1200
-      });
+      }, context);
       
       // Return the result
       return {
@@ -222,33 +241,20 @@ export class SupervisionAgent extends AgentBase {
     try {
       await this.logActivity('Creating project plan');
       
-      // Import the LLM service
-      const { llmService } = await import('../services/llmService');
-      
-      // Create a system prompt for the LLM
-      const systemPrompt = `You are a project management AI assistant that helps create detailed project plans for software development. 
-      Analyze the user's request and break it down into well-defined tasks, milestones, and implementation details.
-      Structure your response in a clear, organized manner with sections for:
-      1. Project Overview
-      2. Requirements Analysis
-      3. Technical Architecture
-      4. Implementation Plan
-      5. Timeline and Milestones
-      
-      Be specific and detailed in your recommendations.`;
-      
-      // Call the LLM service
-      const llmResponse = await llmService.callLLM({
+      // Call the LLM service for a plan matching projectPlanSchema
+      const llmResponse = await this.completeStructured({
         prompt: input,
-        system: systemPrompt,
+        ...(await this.systemPrompt('supervision.planning', {}, context)),
+        schema: projectPlanSchema,
         temperature: 0.7,
         maxTokens: 2000
-      });
+      }, context);
       
-      // Return the result
+      // Return the plan, rendered as markdown for the chat
       return {
         success: true,
-        output: llmResponse.text,
+        output: this.formatProjectPlan(llmResponse.data),
+        data: llmResponse.data,
         tokens: {
           input: llmResponse.usage.inputTokens,
           output: llmResponse.usage.outputTokens,
@@ -270,4 +276,39 @@ export class SupervisionAgent extends AgentBase {
       await this.setStatus(AgentStatus.IDLE);
     }
   }
+
+  // Render a finished pipeline as markdown, step by step in the order they could run
+  private formatPipeline(pipeline: PipelineInfo): string {
+    const steps = pipeline.steps
+      .slice()
+      .sort((a, b) => a.level - b.level)
+      .map(step => {
+        const dependencies = step.dependsOn.length > 0 ? ` (after: ${step.dependsOn.join(', ')})` : '';
+        const outcome = step.status === 'succeeded' ? step.output || '' : `_${step.status}${step.error ? `: ${step.error}` : ''}_`;
+        return `### ${step.title} [${step.agentType}, ${step.status}]${dependencies}\n${outcome}`;
+      });
+    
+    return [`## Pipeline ${pipeline.id}: ${pipeline.goal}\nStatus: ${pipeline.status}`, ...steps].join('\n\n');
+  }
+
+  // Render a project plan as markdown
+  private formatProjectPlan(plan: ProjectPlan): string {
+    const sections = [
+      `## Project Overview\n${plan.overview}`,
+      `## Requirements\n${plan.requirements.map(requirement => `- ${requirement}`).join('\n')}`,
+      `## Technical Architecture\n${plan.architecture}`,
+      ...plan.milestones.map((milestone, index) => {
+        const tasks = milestone.tasks.map(task => {
+          const details = [task.agentType, task.estimateHours ? `${task.estimateHours}h` : null]
+            .filter(Boolean)
+            .join(', ');
+          const dependencies = task.dependsOn.length > 0 ? ` (after: ${task.dependsOn.join(', ')})` : '';
+          return `- **${task.title}** [${details}]${dependencies}: ${task.description}`;
+        });
+        return `## Milestone ${index + 1}: ${milestone.name}\n${milestone.description}\n\n${tasks.join('\n')}`;
+      })
+    ];
+    
+    return sections.join('\n\n');
+  }
 }
@@ -0,0 +1,148 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import { logger } from '../utils/logger';
+import { storage, type IStorage } from '../storage';
+import { ActivityType, AgentType } from '@shared/schema';
+import { toJsonSchema, formatZodIssues } from '../services/structuredOutput';
+import type { LLMToolCall, LLMToolDefinition } from '../services/llmService';
+import { getSystemErrorLogsTool, searchKnowledgeTool } from './agentTools';
+
+// The agent on whose behalf a tool runs
+export interface AgentToolContext {
+  agentId: number;
+  agentName: string;
+  agentType: string;
+  context?: Record<string, any>;
+}
+
+export interface AgentTool<TArgs = any> {
+  name: string;
+  description: string;
+  parameters: ZodType<TArgs, ZodTypeDef, any>; // Validates the model's arguments; also sent as JSON schema
+  execute(args: TArgs, toolContext: AgentToolContext): Promise<unknown>;
+}
+
+export interface ToolInvocation {
+  toolCallId: string;
+  name: string;
+  arguments: unknown;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * ToolRegistry holds the tools each agent type may call during an LLM exchange
+ * (see AgentBase.completeWithTools). Invalid arguments and failing tools are
+ * reported back to the model as errors rather than thrown, and every invocation
+ * is recorded as a system activity.
+ */
+export class ToolRegistry {
+  private tools: Map<string, Map<string, AgentTool>>; // By agent type
+  private store: IStorage;
+
+  constructor(store: IStorage = storage) {
+    this.tools = new Map();
+    this.store = store;
+  }
+
+  register(agentTypes: string | string[], tool: AgentTool): void {
+    (Array.isArray(agentTypes) ? agentTypes : [agentTypes]).forEach(agentType => {
+      let tools = this.tools.get(agentType);
+      if (!tools) {
+        tools = new Map();
+        this.tools.set(agentType, tools);
+      }
+
+      if (tools.has(tool.name)) {
+        throw new Error(`Tool ${tool.name} is already registered for ${agentType} agents`);
+      }
+
+      tools.set(tool.name, tool);
+      logger.debug(`Tool registered for ${agentType} agents: ${tool.name}`);
+    });
+  }
+
+  unregister(agentType: string, name: string): boolean {
+    return this.tools.get(agentType)?.delete(name) || false;
+  }
+
+  getTools(agentType: string): AgentTool[] {
+    const tools = this.tools.get(agentType);
+    return tools ? Array.from(tools.values()) : [];
+  }
+
+  getTool(agentType: string, name: string): AgentTool | undefined {
+    return this.tools.get(agentType)?.get(name);
+  }
+
+  // Tool definitions in the form sent to the provider
+  getDefinitions(agentType: string): LLMToolDefinition[] {
+    return this.getTools(agentType).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: toJsonSchema(tool.parameters)
+    }));
+  }
+
+  async invoke(call: LLMToolCall, toolContext: AgentToolContext): Promise<ToolInvocation> {
+    const startedAt = Date.now();
+    const invocation: ToolInvocation = { toolCallId: call.id, name: call.name, arguments: call.arguments, success: false, durationMs: 0 };
+
+    try {
+      const tool = this.getTool(toolContext.agentType, call.name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${call.name}`);
+      }
+
+      try {
+        invocation.arguments = call.arguments ? JSON.parse(call.arguments) : {};
+      } catch (error) {
+        throw new Error(`Arguments are not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      const parsed = tool.parameters.safeParse(invocation.arguments);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments: ${formatZodIssues(parsed.error).join('; ')}`);
+      }
+
+      invocation.result = await tool.execute(parsed.data, toolContext);
+      invocation.success = true;
+    } catch (error) {
+      invocation.error = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`Tool ${call.name} failed for ${toolContext.agentName}: ${invocation.error}`);
+    }
+
+    invocation.durationMs = Date.now() - startedAt;
+    await this.recordInvocation(invocation, toolContext);
+    return invocation;
+  }
+
+  // A failing activity log must not fail the exchange that used the tool
+  private async recordInvocation(invocation: ToolInvocation, toolContext: AgentToolContext): Promise<void> {
+    try {
+      await this.store.createSystemActivity({
+        type: ActivityType.TOOL_CALL,
+        description: invocation.success
+          ? `[${toolContext.agentName}] called ${invocation.name}`
+          : `[${toolContext.agentName}] call to ${invocation.name} failed: ${invocation.error}`,
+        metadata: {
+          agentId: toolContext.agentId,
+          agentType: toolContext.agentType,
+          tool: invocation.name,
+          arguments: invocation.arguments,
+          success: invocation.success,
+          error: invocation.error,
+          durationMs: invocation.durationMs
+        }
+      });
+    } catch (error) {
+      logger.error(`Failed to record tool call activity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+// Create singleton instance with the built-in tools
+export const toolRegistry = new ToolRegistry();
+toolRegistry.register([AgentType.SELF_HEALING, AgentType.DEBUG], searchKnowledgeTool);
+toolRegistry.register([AgentType.SELF_HEALING, AgentType.DEBUG], getSystemErrorLogsTool);
@@ -11,11 +11,17 @@ import {
   componentRelationships, type ComponentRelationship, type InsertComponentRelationship,
   systemKnowledgeBase, type SystemKnowledge, type InsertSystemKnowledge,
   systemErrorLogs, type SystemErrorLog, type InsertSystemErrorLog,
-  AgentType, AgentStatus, TaskStatus, MessageType, ActivityType, MemoryType, ComponentType, ErrorType
+  llmUsage, type LLMUsage, type InsertLLMUsage,
+  usageBudgets, type UsageBudget, type InsertUsageBudget,
+  promptTemplates, type PromptTemplate, type InsertPromptTemplate,
+  experiments, type Experiment, type InsertExperiment,
+  jobs, type Job, type InsertJob,
+  AgentType, AgentStatus, TaskStatus, MessageType, ActivityType, MemoryType, ComponentType, ErrorType,
+  ExperimentStatus
 } from "@shared/schema";
-import { IStorage } from "./storage";
+import { IStorage, type LLMUsageFilter, type JobFilter, type JobUpdate } from "./storage";
 import { db } from "./db";
-import { eq, and, gt, lt, desc, asc, isNull, isNotNull } from "drizzle-orm";
+import { eq, and, gt, gte, lt, desc, asc, isNull, isNotNull, inArray } from "drizzle-orm";
 import { logger } from "./utils/logger";
 
 export class DatabaseStorage implements IStorage {
@@ -67,6 +73,14 @@ export class DatabaseStorage implements IStorage {
     return agent || undefined;
   }
 
+  async updateAgentActive(id: number, isActive: boolean): Promise<Agent | undefined> {
+    const [agent] = await db.update(agents)
+      .set({ isActive, updatedAt: new Date() })
+      .where(eq(agents.id, id))
+      .returning();
+    return agent || undefined;
+  }
+
   // Project operations
   async getProject(id: number): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
@@ -134,6 +148,12 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getSystemActivitiesByType(type: string): Promise<SystemActivity[]> {
+    return await db.select().from(systemActivities)
+      .where(eq(systemActivities.type, type))
+      .orderBy(asc(systemActivities.id));
+  }
+
   async createSystemActivity(insertActivity: InsertSystemActivity): Promise<SystemActivity> {
     const [activity] = await db.insert(systemActivities).values(insertActivity).returning();
     return activity;
@@ -165,6 +185,140 @@ export class DatabaseStorage implements IStorage {
     return updatedStats || undefined;
   }
 
+  // LLM Usage ledger operations
+  async createLLMUsage(insertUsage: InsertLLMUsage): Promise<LLMUsage> {
+    const [usage] = await db.insert(llmUsage).values(insertUsage).returning();
+    return usage;
+  }
+
+  async getLLMUsage(filter: LLMUsageFilter): Promise<LLMUsage[]> {
+    const conditions = [];
+    if (filter.from) conditions.push(gte(llmUsage.createdAt, filter.from));
+    if (filter.to) conditions.push(lt(llmUsage.createdAt, filter.to));
+    if (filter.agentId !== undefined) conditions.push(eq(llmUsage.agentId, filter.agentId));
+    if (filter.projectId !== undefined) conditions.push(eq(llmUsage.projectId, filter.projectId));
+    if (filter.taskId !== undefined) conditions.push(eq(llmUsage.taskId, filter.taskId));
+
+    return await db.select().from(llmUsage)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(llmUsage.createdAt));
+  }
+
+  // Usage Budget operations
+  async getUsageBudget(id: number): Promise<UsageBudget | undefined> {
+    const [budget] = await db.select().from(usageBudgets).where(eq(usageBudgets.id, id));
+    return budget || undefined;
+  }
+
+  async getAllUsageBudgets(): Promise<UsageBudget[]> {
+    return await db.select().from(usageBudgets).orderBy(asc(usageBudgets.id));
+  }
+
+  async createUsageBudget(insertBudget: InsertUsageBudget): Promise<UsageBudget> {
+    const [budget] = await db.insert(usageBudgets).values(insertBudget).returning();
+    return budget;
+  }
+
+  async updateUsageBudget(id: number, partialBudget: Partial<InsertUsageBudget>): Promise<UsageBudget | undefined> {
+    const [budget] = await db.update(usageBudgets)
+      .set({ ...partialBudget, updatedAt: new Date() })
+      .where(eq(usageBudgets.id, id))
+      .returning();
+    return budget || undefined;
+  }
+
+  async deleteUsageBudget(id: number): Promise<boolean> {
+    const deleted = await db.delete(usageBudgets).where(eq(usageBudgets.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Prompt Template operations
+  async getPromptTemplate(id: number): Promise<PromptTemplate | undefined> {
+    const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return template || undefined;
+  }
+
+  async getPromptTemplatesByName(name: string): Promise<PromptTemplate[]> {
+    return await db.select().from(promptTemplates)
+      .where(eq(promptTemplates.name, name))
+      .orderBy(asc(promptTemplates.version));
+  }
+
+  async getAllPromptTemplates(): Promise<PromptTemplate[]> {
+    return await db.select().from(promptTemplates)
+      .orderBy(asc(promptTemplates.name), asc(promptTemplates.version));
+  }
+
+  async createPromptTemplate(insertTemplate: InsertPromptTemplate): Promise<PromptTemplate> {
+    const [template] = await db.insert(promptTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updatePromptTemplate(id: number, partialTemplate: Partial<InsertPromptTemplate>): Promise<PromptTemplate | undefined> {
+    const [template] = await db.update(promptTemplates)
+      .set(partialTemplate)
+      .where(eq(promptTemplates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  // Experiment operations
+  async getExperiment(id: number): Promise<Experiment | undefined> {
+    const [experiment] = await db.select().from(experiments).where(eq(experiments.id, id));
+    return experiment || undefined;
+  }
+
+  async getAllExperiments(): Promise<Experiment[]> {
+    return await db.select().from(experiments).orderBy(asc(experiments.id));
+  }
+
+  async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
+    const [experiment] = await db.insert(experiments).values(insertExperiment).returning();
+    return experiment;
+  }
+
+  async updateExperimentStatus(id: number, status: ExperimentStatus): Promise<Experiment | undefined> {
+    const [experiment] = await db.update(experiments)
+      .set({
+        status,
+        ...(status === ExperimentStatus.RUNNING ? { startedAt: new Date() } : {}),
+        ...(status === ExperimentStatus.STOPPED ? { stoppedAt: new Date() } : {})
+      })
+      .where(eq(experiments.id, id))
+      .returning();
+    return experiment || undefined;
+  }
+
+  // Job operations
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  async getJobs(filter: JobFilter = {}): Promise<Job[]> {
+    const conditions = [];
+    if (filter.statuses) conditions.push(inArray(jobs.status, filter.statuses));
+    if (filter.taskId !== undefined) conditions.push(eq(jobs.taskId, filter.taskId));
+
+    const query = db.select().from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.id));
+    return filter.limit !== undefined ? await query.limit(filter.limit) : await query;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateJob(id: number, update: JobUpdate): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
   // Agent Memory operations
   async getAgentMemory(id: number): Promise<AgentMemory | undefined> {
     const [memory] = await db.select().from(agentMemories).where(eq(agentMemories.id, id));
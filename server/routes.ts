@@ -4,58 +4,49 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { storage } from "./storage";
 import { dbStorage } from "./databaseStorage";
 import { logger, loggerStream } from "./utils/logger";
-import { llmService, LLMProvider } from "./services/llmService";
+import { llmService } from "./services/llmService";
+import { providerRegistry } from "./services/providerRegistry";
+import { apiProviderConfigSchema } from "./services/providerConfig";
+import { usageLedger } from "./services/usageLedger";
+import { experimentManager, ExperimentError } from "./services/experimentManager";
+import { jobManager, JobError, isJobFinished, type JobEvent } from "./services/jobManager";
+import { trackRun, cancelRuns } from "./services/runTracker";
+import { pipelineOrchestrator, PipelineError } from "./services/pipelineOrchestrator";
 import { z } from "zod";
 import {
   insertMessageSchema,
   insertTaskSchema,
   ErrorType,
   insertProjectSchema,
-  AgentType,
   AgentStatus,
   MessageType,
   TaskStatus,
-  ActivityType
+  ActivityType,
+  BudgetScope,
+  BudgetUnit,
+  BudgetPeriod,
+  JobStatus,
+  experimentVariantSchema,
+  pipelinePlanSchema
 } from "@shared/schema";
 import { threadManager } from "./utils/threadManager";
-import { DesignAgent } from "./agents/designAgent";
-import { CodingAgent } from "./agents/codingAgent";
-import { SupervisionAgent } from "./agents/supervisionAgent";
-import { DebugAgent } from "./agents/debugAgent";
-import { SelfHealingAgent } from "./agents/selfHealingAgent";
+import { taskSchedulerConfigSchema } from "./utils/taskScheduler";
+import { agentRegistry } from "./agents/agentRegistry";
+import { agentPoolSizeSchema } from "./agents/agentPool";
+import { AgentLifecycleError, type AgentLifecycleAction } from "./agents/agentLifecycle";
+import { promptRegistry, PromptTemplateError } from "./agents/promptRegistry";
+import { taskStatusOf } from "./agents/agentBase";
+import { AgentMethodError, describeMethod } from "./agents/agentMethods";
 import { agentTester } from "./tests/agentTester";
 import { v4 as uuidv4 } from 'uuid';
 
-// Initialize agent instances
-let agents: {
-  [AgentType.DESIGN]: DesignAgent;
-  [AgentType.CODING]: CodingAgent;
-  [AgentType.SUPERVISION]: SupervisionAgent;
-  [AgentType.DEBUG]: DebugAgent;
-  [AgentType.SELF_HEALING]: SelfHealingAgent;
-} | null = null;
-
-// Function to initialize agents
+// Register the agent plugins and create the agents of every registered type
 async function initializeAgents() {
-  const allAgents = await storage.getAllAgents();
-  
-  // Find agent IDs by type
-  const designAgentId = allAgents.find(a => a.type === AgentType.DESIGN)?.id || 1;
-  const codingAgentId = allAgents.find(a => a.type === AgentType.CODING)?.id || 2;
-  const supervisionAgentId = allAgents.find(a => a.type === AgentType.SUPERVISION)?.id || 3;
-  const debugAgentId = allAgents.find(a => a.type === AgentType.DEBUG)?.id || 4;
-  const selfHealingAgentId = allAgents.find(a => a.type === AgentType.SELF_HEALING)?.id || 5;
-  
-  // Create agent instances
-  agents = {
-    [AgentType.DESIGN]: new DesignAgent(designAgentId),
-    [AgentType.CODING]: new CodingAgent(codingAgentId),
-    [AgentType.SUPERVISION]: new SupervisionAgent(supervisionAgentId),
-    [AgentType.DEBUG]: new DebugAgent(debugAgentId),
-    [AgentType.SELF_HEALING]: new SelfHealingAgent(selfHealingAgentId)
-  };
-  
-  logger.info('All agents initialized successfully');
+  const plugins = await agentRegistry.loadPlugins();
+  if (plugins.length > 0) {
+    logger.info(`Agent plugins loaded: ${plugins.join(', ')}`);
+  }
+  await agentRegistry.initialize();
 }
 
 // Websocket clients
@@ -67,6 +58,23 @@ interface WebSocketClient {
 // Store connected websocket clients
 const webSocketClients: WebSocketClient[] = [];
 
+// Answer a request no agent of `type` can take: 404 when none is active, 503 while the active ones take no work
+function sendAgentUnavailable(res: Response, type: string) {
+  const instances = agentRegistry.list().find(info => info.type === type)?.pool?.instances || [];
+  if (!instances.some(instance => instance.isActive)) {
+    return res.status(404).json({ error: `No active agent of type ${type}` });
+  }
+
+  // e.g. "2 paused, 1 deactivated"
+  const counts: Record<string, number> = {};
+  instances.forEach(instance => {
+    const state = instance.isActive ? instance.status : 'deactivated';
+    counts[state] = (counts[state] || 0) + 1;
+  });
+  const states = Object.keys(counts).map(state => `${counts[state]} ${state}`).join(', ');
+  return res.status(503).json({ error: `No ${type} agent is taking requests (${states})` });
+}
+
 // Broadcast message to all connected clients
 function broadcastMessage(type: string, data: any) {
   const message = JSON.stringify({ type, data });
@@ -90,6 +98,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize agents
   await initializeAgents();
   
+  // Jobs the previous server process left unfinished will never finish
+  await jobManager.recover();
+  
+  // Job changes go to every client; a finished job also changed the activities, agents and stats
+  jobManager.onChange(job => {
+    broadcastMessage('JOB_UPDATE', job);
+    if (isJobFinished(job)) {
+      Promise.all([storage.getRecentSystemActivities(10), storage.getAllAgents(), storage.getSystemStats()])
+        .then(([activities, agents, stats]) => {
+          broadcastMessage('ACTIVITIES_UPDATE', activities);
+          broadcastMessage('AGENTS_UPDATE', agents);
+          broadcastMessage('STATS_UPDATE', stats);
+        })
+        .catch(error => logger.error(`Error broadcasting job results: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+  
+  // Pipeline steps starting and finishing are shown live on the dashboard
+  pipelineOrchestrator.onChange(pipeline => broadcastMessage('PIPELINE_UPDATE', pipeline));
+  
+  // Pool instances being started and retired change the agent list
+  agentRegistry.onChange(() => {
+    storage.getAllAgents()
+      .then(agents => broadcastMessage('AGENTS_UPDATE', agents))
+      .catch(error => logger.error(`Error broadcasting agents: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  });
+  
   // WebSocket connection handler
   wss.on('connection', (socket: WebSocket) => {
     const clientId = uuidv4();
@@ -215,64 +250,729 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ])
       });
       
-      const validationResult = statusSchema.safeParse(req.body);
-      if (!validationResult.success) {
-        return res.status(400).json({ error: 'Invalid status value' });
+      const validationResult = statusSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid status value' });
+      }
+      
+      const { status } = validationResult.data;
+      
+      // Agents retired from their pool only come back when the pool grows
+      const agent = await storage.getAgent(id);
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      if (agent.status === AgentStatus.OFFLINE) {
+        return res.status(409).json({ error: `${agent.name} is retired from its pool` });
+      }
+      
+      const updatedAgent = await agentRegistry.changeStatus(id, status);
+      if (!updatedAgent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      
+      // Broadcast agent update
+      broadcastMessage('AGENT_STATUS_UPDATE', updatedAgent);
+      
+      res.json(updatedAgent);
+    } catch (error) {
+      if (error instanceof AgentLifecycleError) {
+        return res.status(409).json({ error: error.message });
+      }
+      logger.error(`Error updating agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to update agent status' });
+    }
+  });
+  
+  // Pause, drain, resume or restart an agent
+  app.post('/api/agents/:id/:action(pause|drain|resume|restart)', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid agent ID' });
+      }
+      
+      const agent = await agentRegistry.control(id, req.params.action as AgentLifecycleAction);
+      if (!agent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      
+      broadcastMessage('AGENTS_UPDATE', await storage.getAllAgents());
+      
+      res.json(agent);
+    } catch (error) {
+      if (error instanceof AgentLifecycleError) {
+        return res.status(409).json({ error: error.message });
+      }
+      logger.error(`Error controlling agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: `Failed to ${req.params.action} agent` });
+    }
+  });
+  
+  // Activate or deactivate an agent; requests are only routed to active agents
+  app.patch('/api/agents/:id/active', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid agent ID' });
+      }
+      
+      const validationResult = z.object({ isActive: z.boolean() }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid request data', details: validationResult.error });
+      }
+      
+      const updatedAgent = await agentRegistry.setActive(id, validationResult.data.isActive);
+      if (!updatedAgent) {
+        return res.status(404).json({ error: 'Agent not found' });
+      }
+      
+      broadcastMessage('AGENTS_UPDATE', await storage.getAllAgents());
+      
+      res.json(updatedAgent);
+    } catch (error) {
+      logger.error(`Error updating agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to update agent' });
+    }
+  });
+  
+  // List the registered agent types, built-in and from plugins
+  app.get('/api/agent-types', (req: Request, res: Response) => {
+    res.json(agentRegistry.list());
+  });
+  
+  // Change the minimum and maximum number of agents in a type's pool
+  app.patch('/api/agent-types/:type/pool', async (req: Request, res: Response) => {
+    try {
+      const validationResult = agentPoolSizeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid request data', details: validationResult.error });
+      }
+      
+      const pool = await agentRegistry.resize(req.params.type, validationResult.data);
+      if (!pool) {
+        return res.status(404).json({ error: `Unknown agent type ${req.params.type}` });
+      }
+      
+      broadcastMessage('AGENTS_UPDATE', await storage.getAllAgents());
+      
+      res.json(pool);
+    } catch (error) {
+      logger.error(`Error resizing agent pool: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to resize agent pool' });
+    }
+  });
+  
+  // Get system stats
+  app.get('/api/stats', async (req: Request, res: Response) => {
+    try {
+      const stats = await storage.getSystemStats();
+      res.json(stats);
+    } catch (error) {
+      logger.error(`Error getting stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch system stats' });
+    }
+  });
+  
+  // Usage budgets: global budgets have no scopeId, the others name a project, task or agent
+  const usageBudgetSchema = z.object({
+    scope: z.nativeEnum(BudgetScope),
+    scopeId: z.number().int().nullable().optional(),
+    unit: z.nativeEnum(BudgetUnit).optional(),
+    period: z.nativeEnum(BudgetPeriod).optional(),
+    softLimit: z.number().positive().nullable().optional(),
+    hardLimit: z.number().positive().nullable().optional()
+  });
+  
+  const checkUsageBudget = (budget: z.infer<typeof usageBudgetSchema>): string | null => {
+    if ((budget.scope === BudgetScope.GLOBAL) !== (budget.scopeId === undefined || budget.scopeId === null)) {
+      return 'scopeId is required for project, task and agent budgets and not allowed for global ones';
+    }
+    if (!budget.softLimit && !budget.hardLimit) {
+      return 'A soft or hard limit is required';
+    }
+    if (budget.softLimit && budget.hardLimit && budget.softLimit > budget.hardLimit) {
+      return 'softLimit cannot be above hardLimit';
+    }
+    return null;
+  };
+  
+  // Get LLM usage aggregated by day, provider and agent, with budget status
+  app.get('/api/usage', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        from: z.string().date().optional(),
+        to: z.string().date().optional(), // Inclusive
+        agentId: z.coerce.number().int().optional(),
+        projectId: z.coerce.number().int().optional(),
+        taskId: z.coerce.number().int().optional()
+      });
+      
+      const validationResult = schema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid usage query', details: validationResult.error });
+      }
+      
+      const { from, to, ...scope } = validationResult.data;
+      const report = await usageLedger.getReport({
+        ...scope,
+        from: from ? new Date(`${from}T00:00:00.000Z`) : undefined,
+        to: to ? new Date(new Date(`${to}T00:00:00.000Z`).getTime() + 24 * 60 * 60 * 1000) : undefined
+      });
+      const budgets = await usageLedger.getBudgetStatuses();
+      
+      res.json({ ...report, budgets });
+    } catch (error) {
+      logger.error(`Error getting LLM usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch LLM usage' });
+    }
+  });
+  
+  // Get usage budgets with their current spend
+  app.get('/api/usage/budgets', async (req: Request, res: Response) => {
+    try {
+      const budgets = await usageLedger.getBudgetStatuses();
+      res.json(budgets);
+    } catch (error) {
+      logger.error(`Error getting usage budgets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch usage budgets' });
+    }
+  });
+  
+  // Create a usage budget
+  app.post('/api/usage/budgets', async (req: Request, res: Response) => {
+    try {
+      const validationResult = usageBudgetSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid usage budget', details: validationResult.error });
+      }
+      
+      const problem = checkUsageBudget(validationResult.data);
+      if (problem) {
+        return res.status(400).json({ error: 'Invalid usage budget', details: problem });
+      }
+      
+      const budget = await storage.createUsageBudget(validationResult.data);
+      res.status(201).json(budget);
+    } catch (error) {
+      logger.error(`Error creating usage budget: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to create usage budget' });
+    }
+  });
+  
+  // Update a usage budget
+  app.put('/api/usage/budgets/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getUsageBudget(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Usage budget not found' });
+      }
+      
+      const validationResult = usageBudgetSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid usage budget', details: validationResult.error });
+      }
+      
+      const problem = checkUsageBudget({
+        scope: existing.scope as BudgetScope,
+        scopeId: existing.scopeId,
+        softLimit: existing.softLimit,
+        hardLimit: existing.hardLimit,
+        ...validationResult.data
+      });
+      if (problem) {
+        return res.status(400).json({ error: 'Invalid usage budget', details: problem });
+      }
+      
+      const budget = await storage.updateUsageBudget(id, validationResult.data);
+      res.json(budget);
+    } catch (error) {
+      logger.error(`Error updating usage budget: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to update usage budget' });
+    }
+  });
+  
+  // Delete a usage budget
+  app.delete('/api/usage/budgets/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteUsageBudget(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ error: 'Usage budget not found' });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      logger.error(`Error deleting usage budget: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to delete usage budget' });
+    }
+  });
+  
+  // Set the system-wide API token limit (the lifetime global hard token budget)
+  app.put('/api/usage/token-limit', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        apiTokensLimit: z.number().int().min(0)
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid token limit', details: validationResult.error });
+      }
+      
+      const stats = await storage.updateSystemStats(validationResult.data);
+      broadcastMessage('STATS_UPDATE', stats);
+      
+      res.json(stats);
+    } catch (error) {
+      logger.error(`Error updating token limit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to update token limit' });
+    }
+  });
+  
+  // List the agents' prompt templates with their stored versions
+  app.get('/api/prompts', async (req: Request, res: Response) => {
+    try {
+      const prompts = await promptRegistry.list();
+      res.json(prompts);
+    } catch (error) {
+      logger.error(`Error listing prompt templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch prompt templates' });
+    }
+  });
+  
+  // Store a new version of a prompt template, optionally as an override for one agent
+  app.post('/api/prompts/:name/versions', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        content: z.string().min(1),
+        description: z.string().nullable().optional(),
+        agentId: z.number().int().nullable().optional(),
+        activate: z.boolean().optional()
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid prompt template', details: validationResult.error });
+      }
+      
+      if (!promptRegistry.getDefinition(req.params.name)) {
+        return res.status(404).json({ error: 'Prompt template not found' });
+      }
+      
+      const { agentId } = validationResult.data;
+      if (agentId !== undefined && agentId !== null && !(await storage.getAgent(agentId))) {
+        return res.status(400).json({ error: `Agent ${agentId} not found` });
+      }
+      
+      const template = await promptRegistry.createVersion(req.params.name, validationResult.data);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof PromptTemplateError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error(`Error creating prompt template version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to create prompt template version' });
+    }
+  });
+  
+  // Make a stored version the one in use
+  app.post('/api/prompts/:name/versions/:version/activate', async (req: Request, res: Response) => {
+    try {
+      const version = parseInt(req.params.version);
+      if (isNaN(version)) {
+        return res.status(400).json({ error: 'Invalid prompt template version' });
+      }
+      
+      const template = await promptRegistry.activate(req.params.name, version);
+      if (!template) {
+        return res.status(404).json({ error: 'Prompt template version not found' });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      logger.error(`Error activating prompt template version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to activate prompt template version' });
+    }
+  });
+  
+  // Go back to the built-in prompt, or for an agent to the default for all agents
+  app.post('/api/prompts/:name/reset', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        agentId: z.number().int().nullable().optional()
+      });
+      
+      const validationResult = schema.safeParse(req.body || {});
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid reset request', details: validationResult.error });
+      }
+      
+      if (!promptRegistry.getDefinition(req.params.name)) {
+        return res.status(404).json({ error: 'Prompt template not found' });
+      }
+      
+      const deactivated = await promptRegistry.reset(req.params.name, validationResult.data.agentId ?? null);
+      res.json({ success: true, deactivated });
+    } catch (error) {
+      logger.error(`Error resetting prompt template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to reset prompt template' });
+    }
+  });
+  
+  // List prompt/model experiments
+  app.get('/api/experiments', async (req: Request, res: Response) => {
+    try {
+      const experiments = await storage.getAllExperiments();
+      res.json(experiments);
+    } catch (error) {
+      logger.error(`Error getting experiments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch experiments' });
+    }
+  });
+  
+  // Create an experiment, starting it right away when asked to
+  app.post('/api/experiments', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        name: z.string().min(1),
+        description: z.string().nullable().optional(),
+        agentType: z.string().refine(type => agentRegistry.has(type), 'Unknown agent type'),
+        trafficPercent: z.number().int().min(0).max(100).optional(),
+        variantA: experimentVariantSchema.default({}),
+        variantB: experimentVariantSchema,
+        start: z.boolean().optional()
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid experiment', details: validationResult.error });
+      }
+      
+      const { start, ...data } = validationResult.data;
+      const experiment = await experimentManager.create(data, { start });
+      res.status(201).json(experiment);
+    } catch (error) {
+      if (error instanceof ExperimentError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error(`Error creating experiment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to create experiment' });
+    }
+  });
+  
+  // Start or stop assigning runs to an experiment
+  app.post('/api/experiments/:id/:action(start|stop)', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid experiment ID' });
+      }
+      
+      const experiment = req.params.action === 'start'
+        ? await experimentManager.start(id)
+        : await experimentManager.stop(id);
+      if (!experiment) {
+        return res.status(404).json({ error: 'Experiment not found' });
+      }
+      
+      res.json(experiment);
+    } catch (error) {
+      if (error instanceof ExperimentError) {
+        return res.status(409).json({ error: error.message });
+      }
+      logger.error(`Error updating experiment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to update experiment' });
+    }
+  });
+  
+  // Compare an experiment's variants by outcome, rating, validation and tokens
+  app.get('/api/experiments/:id/report', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid experiment ID' });
+      }
+      
+      const report = await experimentManager.getReport(id);
+      if (!report) {
+        return res.status(404).json({ error: 'Experiment not found' });
+      }
+      
+      res.json(report);
+    } catch (error) {
+      logger.error(`Error getting experiment report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch experiment report' });
+    }
+  });
+  
+  // Get recent system activities
+  app.get('/api/activities', async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string || '10');
+      const activities = await storage.getRecentSystemActivities(limit);
+      res.json(activities);
+    } catch (error) {
+      logger.error(`Error getting activities: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch system activities' });
+    }
+  });
+  
+  // Submit a message for an agent to process as a job. The response is 202
+  // with the job, whose progress and result are read from /api/jobs/:id.
+  // With `stream: true` the response is instead a server-sent event stream of
+  // a `job` event, `token` events and a single `result` (or `error`) event;
+  // the job keeps running if the client disconnects.
+  app.post('/api/process', async (req: Request, res: Response) => {
+    const writeEvent = (event: string, data: any) => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+    
+    try {
+      // Validate request body
+      const schema = z.object({
+        message: z.string().min(1),
+        agentType: z.string().min(1),
+        taskId: z.number().optional(),
+        projectId: z.number().optional(),
+        context: z.record(z.any()).optional(),
+        stream: z.boolean().optional()
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid request data', details: validationResult.error });
+      }
+      
+      const request = validationResult.data;
+      
+      // Refuse jobs no agent could take now rather than fail them later
+      if (!agentRegistry.get(request.agentType)) {
+        return sendAgentUnavailable(res, request.agentType);
+      }
+      
+      if (!request.stream) {
+        const job = await jobManager.submit(request);
+        return res.status(202).location(`/api/jobs/${job.id}`).json(job);
+      }
+      
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      });
+      res.flushHeaders();
+      
+      // The job is announced by its first update, which comes before any of its tokens
+      let announced = false;
+      const forward = (event: JobEvent) => {
+        if (event.type === 'token') {
+          writeEvent('token', { delta: event.delta });
+          return;
+        }
+        if (!announced) {
+          announced = true;
+          writeEvent('job', event.job);
+        }
+        if (!isJobFinished(event.job)) {
+          return;
+        }
+        
+        // There is no result when the job failed before its agent ran
+        if (event.job.result) {
+          writeEvent('result', { jobId: event.job.id, ...(event.job.result as Record<string, unknown>) });
+        } else {
+          writeEvent('error', { jobId: event.job.id, error: 'Failed to process message', details: event.job.error ?? `Job ${event.job.status}` });
+        }
+        res.end();
+      };
+      
+      const job = await jobManager.submit(request, forward);
+      res.on('close', () => jobManager.unsubscribe(job.id, forward));
+    } catch (error) {
+      logger.error(`Error processing message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      
+      if (res.headersSent) {
+        writeEvent('error', { error: 'Failed to process message', details: error instanceof Error ? error.message : 'Unknown error' });
+        res.end();
+        return;
+      }
+      
+      res.status(500).json({ error: 'Failed to process message', details: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+  
+  // List recent jobs, optionally only those in some statuses or for a task
+  app.get('/api/jobs', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        status: z.string().optional()
+          .transform(value => value ? value.split(',') : undefined)
+          .pipe(z.array(z.nativeEnum(JobStatus)).optional()),
+        taskId: z.coerce.number().int().optional(),
+        limit: z.coerce.number().int().min(1).max(100).default(20)
+      });
+      
+      const validationResult = schema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid query', details: validationResult.error });
+      }
+      
+      const { status, taskId, limit } = validationResult.data;
+      res.json(await jobManager.list({ statuses: status, taskId, limit }));
+    } catch (error) {
+      logger.error(`Error getting jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch jobs' });
+    }
+  });
+  
+  // A job's status and progress, and its result once it has finished
+  app.get('/api/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
+      
+      const job = await jobManager.get(id);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      
+      res.json(job);
+    } catch (error) {
+      logger.error(`Error getting job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch job' });
+    }
+  });
+  
+  // Cancel a queued or running job, answering with the job once it has stopped
+  app.post('/api/jobs/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid job ID' });
+      }
+      
+      const job = await jobManager.cancel(id);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+      
+      res.json(job);
+    } catch (error) {
+      if (error instanceof JobError) {
+        return res.status(409).json({ error: error.message });
+      }
+      logger.error(`Error cancelling job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to cancel job' });
+    }
+  });
+  
+  // Recent multi-agent pipelines, newest first
+  app.get('/api/pipelines', (req: Request, res: Response) => {
+    try {
+      res.json(pipelineOrchestrator.list());
+    } catch (error) {
+      logger.error(`Error getting pipelines: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch pipelines' });
+    }
+  });
+  
+  app.get('/api/pipelines/:id', (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid pipeline ID' });
+      }
+      
+      const pipeline = pipelineOrchestrator.get(id);
+      if (!pipeline) {
+        return res.status(404).json({ error: 'Pipeline not found' });
       }
       
-      const { status } = validationResult.data;
+      res.json(pipeline);
+    } catch (error) {
+      logger.error(`Error getting pipeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch pipeline' });
+    }
+  });
+  
+  // Run a pipeline plan; the response is 202 with the pipeline, which runs on in the background
+  app.post('/api/pipelines', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        plan: pipelinePlanSchema,
+        projectId: z.number().optional()
+      });
       
-      const updatedAgent = await storage.updateAgentStatus(id, status);
-      if (!updatedAgent) {
-        return res.status(404).json({ error: 'Agent not found' });
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid pipeline plan', details: validationResult.error });
       }
       
-      // Broadcast agent update
-      broadcastMessage('AGENT_STATUS_UPDATE', updatedAgent);
-      
-      res.json(updatedAgent);
+      const { plan, projectId } = validationResult.data;
+      const pipeline = await pipelineOrchestrator.start(plan, { projectId });
+      res.status(202).location(`/api/pipelines/${pipeline.id}`).json(pipeline);
     } catch (error) {
-      logger.error(`Error updating agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      res.status(500).json({ error: 'Failed to update agent status' });
+      if (error instanceof PipelineError) {
+        return res.status(400).json({ error: error.message });
+      }
+      logger.error(`Error starting pipeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to start pipeline' });
     }
   });
   
-  // Get system stats
-  app.get('/api/stats', async (req: Request, res: Response) => {
+  // Cancel a running pipeline, answering with it once its running steps have stopped
+  app.post('/api/pipelines/:id/cancel', async (req: Request, res: Response) => {
     try {
-      const stats = await storage.getSystemStats();
-      res.json(stats);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid pipeline ID' });
+      }
+      
+      const pipeline = await pipelineOrchestrator.cancel(id);
+      if (!pipeline) {
+        return res.status(404).json({ error: 'Pipeline not found' });
+      }
+      
+      res.json(pipeline);
     } catch (error) {
-      logger.error(`Error getting stats: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      res.status(500).json({ error: 'Failed to fetch system stats' });
+      if (error instanceof PipelineError) {
+        return res.status(409).json({ error: error.message });
+      }
+      logger.error(`Error cancelling pipeline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to cancel pipeline' });
     }
   });
   
-  // Get recent system activities
-  app.get('/api/activities', async (req: Request, res: Response) => {
+  // List the methods an agent type can be invoked with and the JSON schema of their parameters
+  app.get('/api/agents/:type/methods', async (req: Request, res: Response) => {
     try {
-      const limit = parseInt(req.query.limit as string || '10');
-      const activities = await storage.getRecentSystemActivities(limit);
-      res.json(activities);
+      const agent = agentRegistry.get(req.params.type);
+      if (!agent) {
+        return res.status(404).json({ error: `No active agent of type ${req.params.type}` });
+      }
+      
+      res.json(agent.getMethodDescriptions().map(describeMethod));
     } catch (error) {
-      logger.error(`Error getting activities: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      res.status(500).json({ error: 'Failed to fetch system activities' });
+      logger.error(`Error getting agent methods: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to fetch agent methods' });
     }
   });
   
-  // Process a message with an agent
-  app.post('/api/process', async (req: Request, res: Response) => {
+  // Run one agent method with typed parameters, skipping intent routing
+  app.post('/api/agents/:type/methods/:method', async (req: Request, res: Response) => {
     try {
-      // Validate request body
+      const described = agentRegistry.get(req.params.type);
+      if (!described) {
+        return res.status(404).json({ error: `No active agent of type ${req.params.type}` });
+      }
+      
       const schema = z.object({
-        message: z.string().min(1),
-        agentType: z.enum([
-          AgentType.DESIGN, 
-          AgentType.CODING, 
-          AgentType.SUPERVISION, 
-          AgentType.DEBUG,
-          AgentType.SELF_HEALING
-        ]),
+        params: z.record(z.any()).optional(),
         taskId: z.number().optional(),
         projectId: z.number().optional(),
         context: z.record(z.any()).optional()
@@ -283,78 +983,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Invalid request data', details: validationResult.error });
       }
       
-      const { message, agentType, taskId, projectId, context } = validationResult.data;
+      const { params, taskId, projectId, context } = validationResult.data;
+      const method = req.params.method;
+      
+      // Check the method and its parameters before any task is touched
+      try {
+        described.parseParams(method, params);
+      } catch (error) {
+        if (error instanceof AgentMethodError) {
+          return error.fieldErrors
+            ? res.status(400).json({ error: error.message, details: error.fieldErrors })
+            : res.status(404).json({ error: error.message });
+        }
+        throw error;
+      }
+      
+      // Run it on the least busy active agent of the type's pool, claimed until the response is done
+      const lease = await agentRegistry.acquire(req.params.type);
+      if (!lease) {
+        return sendAgentUnavailable(res, req.params.type);
+      }
+      res.on('close', () => lease.release());
+      const agent = lease.agent;
       
-      // Create task if needed
       let task = taskId ? await storage.getTask(taskId) : null;
       if (!task && projectId) {
         task = await storage.createTask({
           projectId,
-          description: message.substring(0, 100) + (message.length > 100 ? '...' : ''),
+          description: `${agent.name}: ${method}`,
           status: TaskStatus.PENDING
         });
       }
       
-      // Create message
-      await storage.createMessage({
-        taskId: task?.id,
-        agentId: null,
-        userId: 1, // Assuming default user
-        content: message,
-        type: MessageType.USER
-      });
-      
-      // Get the agent
-      if (!agents) {
-        await initializeAgents();
-      }
-      
-      // Process with agent
-      const agent = agents![agentType];
-      if (!agent) {
-        return res.status(500).json({ error: `Agent of type ${agentType} not found` });
-      }
-      
-      // Update task status
       if (task) {
         await storage.updateTaskStatus(task.id, TaskStatus.IN_PROGRESS);
       }
       
-      // Process the message
-      const result = await agent.process(message, context);
+      // The run is aborted when the client disconnects or the task is cancelled
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          controller.abort();
+        }
+      });
       
-      // If task exists, update its status based on result
-      if (task) {
-        await storage.updateTaskStatus(
-          task.id, 
-          result.success ? TaskStatus.COMPLETED : TaskStatus.FAILED
-        );
+      const untrack = trackRun(task?.id, controller);
+      let result;
+      try {
+        result = await agent.invoke(method, params, {
+          ...context,
+          taskId: task?.id,
+          projectId: projectId ?? task?.projectId ?? undefined,
+          signal: controller.signal
+        });
+      } finally {
+        untrack();
       }
       
-      // Create agent response message
       if (task) {
-        await storage.createMessage({
-          taskId: task.id,
-          agentId: agent.id,
-          userId: null,
-          content: result.output,
-          type: MessageType.AGENT
-        });
+        await storage.updateTaskStatus(task.id, taskStatusOf(result));
+        if (!result.cancelled) {
+          await storage.createMessage({
+            taskId: task.id,
+            agentId: agent.id,
+            userId: null,
+            content: result.output,
+            type: MessageType.AGENT
+          });
+        }
       }
       
-      // Broadcast activity update
-      const activities = await storage.getRecentSystemActivities(10);
-      broadcastMessage('ACTIVITIES_UPDATE', activities);
-      
-      // Broadcast stats update
-      const stats = await storage.getSystemStats();
-      broadcastMessage('STATS_UPDATE', stats);
+      broadcastMessage('ACTIVITIES_UPDATE', await storage.getRecentSystemActivities(10));
+      broadcastMessage('AGENTS_UPDATE', await storage.getAllAgents());
+      broadcastMessage('STATS_UPDATE', await storage.getSystemStats());
       
-      // Return the result
-      res.json(result);
+      if (!res.destroyed) {
+        res.json(result);
+      }
     } catch (error) {
-      logger.error(`Error processing message: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      res.status(500).json({ error: 'Failed to process message', details: error instanceof Error ? error.message : 'Unknown error' });
+      logger.error(`Error invoking agent method: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to invoke agent method', details: error instanceof Error ? error.message : 'Unknown error' });
     }
   });
   
@@ -447,6 +1155,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Cancel the agent runs processing a task; the task is then marked cancelled
+  app.post('/api/tasks/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid task ID' });
+      }
+      
+      const task = await storage.getTask(id);
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      
+      const cancelled = cancelRuns(id);
+      if (cancelled === 0) {
+        return res.status(409).json({ error: 'Task is not being processed' });
+      }
+      
+      logger.info(`Cancelled processing of task ${id}`);
+      
+      res.json({ success: true, cancelled });
+    } catch (error) {
+      logger.error(`Error cancelling task: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to cancel task' });
+    }
+  });
+  
+  // Rate the answers given for a task from 1 to 5; the rating counts towards any experiments its runs were part of
+  app.post('/api/tasks/:id/rating', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid task ID' });
+      }
+      
+      const schema = z.object({
+        rating: z.number().int().min(1).max(5)
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid rating', details: validationResult.error });
+      }
+      
+      const task = await storage.getTask(id);
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      
+      const runs = await experimentManager.recordRating(id, validationResult.data.rating);
+      res.json({ success: true, runs });
+    } catch (error) {
+      logger.error(`Error rating task: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to rate task' });
+    }
+  });
+  
   // Get thread manager stats
   app.get('/api/thread-stats', (req: Request, res: Response) => {
     try {
@@ -458,6 +1223,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Change thread scheduling at runtime, e.g. { "limits": { "self_healing": 2 }, "agingMs": 5000 }
+  app.patch('/api/thread-scheduler', (req: Request, res: Response) => {
+    try {
+      const validationResult = taskSchedulerConfigSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid request data', details: validationResult.error });
+      }
+      
+      res.json(threadManager.configureScheduler(validationResult.data));
+    } catch (error) {
+      logger.error(`Error configuring thread scheduler: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to configure thread scheduler' });
+    }
+  });
+  
   // System Knowledge Base API
   
   // Get all system knowledge
@@ -880,9 +1660,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Clear LLM cache
-  app.post('/api/llm-cache/clear', (req: Request, res: Response) => {
+  app.post('/api/llm-cache/clear', async (req: Request, res: Response) => {
     try {
-      llmService.clearCache();
+      await llmService.clearCache();
       res.json({ success: true, message: 'LLM cache cleared successfully' });
     } catch (error) {
       logger.error(`Error clearing LLM cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -895,7 +1675,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const schema = z.object({
         ttlInSeconds: z.number().min(1).max(86400), // 1 second to 24 hours
-        maxSize: z.number().min(10).max(10000).optional() // 10 to 10,000 entries
+        maxSize: z.number().min(10).max(10000).optional(), // 10 to 10,000 entries
+        maxBytes: z.number().int().min(1024).nullable().optional() // null removes the byte limit
       });
       
       const validationResult = schema.safeParse(req.body);
@@ -903,13 +1684,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Invalid cache settings', details: validationResult.error });
       }
       
-      const { ttlInSeconds, maxSize } = validationResult.data;
-      llmService.setCacheSettings(ttlInSeconds, maxSize);
+      const { ttlInSeconds, maxSize, maxBytes } = validationResult.data;
+      llmService.setCacheSettings(ttlInSeconds, maxSize, maxBytes);
       
       res.json({ 
         success: true, 
         message: 'LLM cache settings updated successfully',
-        settings: { ttlInSeconds, maxSize }
+        settings: { ttlInSeconds, maxSize, maxBytes }
       });
     } catch (error) {
       logger.error(`Error updating LLM cache settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -917,6 +1698,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // List LLM cache entries, most recently used first
+  app.get('/api/llm-cache/entries', (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        search: z.string().optional(),
+        provider: z.string().optional(),
+        agent: z.string().optional()
+      });
+      
+      const validationResult = schema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid cache entry filter', details: validationResult.error });
+      }
+      
+      const entries = llmService.listCacheEntries(validationResult.data);
+      res.json({ entries, total: entries.length });
+    } catch (error) {
+      logger.error(`Error listing LLM cache entries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to list LLM cache entries' });
+    }
+  });
+  
+  // Delete a single LLM cache entry
+  app.delete('/api/llm-cache/entries/:id', async (req: Request, res: Response) => {
+    try {
+      const deleted = await llmService.invalidateCache({ ids: [req.params.id] });
+      if (deleted === 0) {
+        return res.status(404).json({ error: 'Cache entry not found' });
+      }
+      
+      res.json({ success: true, deleted });
+    } catch (error) {
+      logger.error(`Error deleting LLM cache entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to delete LLM cache entry' });
+    }
+  });
+  
+  // Pin or unpin an LLM cache entry
+  app.put('/api/llm-cache/entries/:id/pin', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        pinned: z.boolean()
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid pin request', details: validationResult.error });
+      }
+      
+      const entry = await llmService.pinCacheEntry(req.params.id, validationResult.data.pinned);
+      if (!entry) {
+        return res.status(404).json({ error: 'Cache entry not found' });
+      }
+      
+      res.json({ success: true, entry });
+    } catch (error) {
+      logger.error(`Error pinning LLM cache entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to update LLM cache entry' });
+    }
+  });
+  
+  // Invalidate LLM cache entries matching a filter
+  app.post('/api/llm-cache/invalidate', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        ids: z.array(z.string()).min(1).optional(),
+        promptPrefix: z.string().min(1).optional(),
+        system: z.string().optional(),
+        agent: z.string().min(1).optional(),
+        provider: z.string().min(1).optional()
+      }).refine(filter => Object.values(filter).some(value => value !== undefined), {
+        message: 'At least one filter is required; use /api/llm-cache/clear to remove everything'
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid cache filter', details: validationResult.error });
+      }
+      
+      const deleted = await llmService.invalidateCache(validationResult.data);
+      res.json({ success: true, deleted });
+    } catch (error) {
+      logger.error(`Error invalidating LLM cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to invalidate LLM cache' });
+    }
+  });
+  
+  // Export the LLM cache as a JSON bundle
+  app.get('/api/llm-cache/export', async (req: Request, res: Response) => {
+    try {
+      const bundle = await llmService.exportCache();
+      res.setHeader('Content-Disposition', `attachment; filename="llm-cache-${Date.now()}.json"`);
+      res.json(bundle);
+    } catch (error) {
+      logger.error(`Error exporting LLM cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to export LLM cache' });
+    }
+  });
+  
+  // Import a JSON bundle produced by /api/llm-cache/export
+  app.post('/api/llm-cache/import', async (req: Request, res: Response) => {
+    try {
+      const entrySchema = z.object({
+        key: z.string().min(1),
+        provider: z.string().min(1),
+        agent: z.string().optional(),
+        response: z.object({
+          text: z.string(),
+          usage: z.object({
+            inputTokens: z.number(),
+            outputTokens: z.number(),
+            totalTokens: z.number()
+          })
+        }),
+        createdAt: z.number(),
+        expiresAt: z.number(),
+        lastAccessedAt: z.number().optional().default(0),
+        hits: z.number().int().min(0).optional().default(0),
+        pinned: z.boolean().optional().default(false),
+        sizeBytes: z.number().optional().default(0)
+      });
+      
+      const schema = z.object({
+        bundle: z.object({
+          version: z.literal(1),
+          exportedAt: z.string(),
+          entries: z.array(entrySchema)
+        }),
+        replace: z.boolean().optional()
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid cache bundle', details: validationResult.error });
+      }
+      
+      const { bundle, replace } = validationResult.data;
+      const result = await llmService.importCache(bundle, { replace });
+      
+      res.json({ success: true, ...result });
+    } catch (error) {
+      logger.error(`Error importing LLM cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to import LLM cache' });
+    }
+  });
+  
   // Get default LLM provider
   app.get('/api/llm-provider', (req: Request, res: Response) => {
     try {
@@ -932,7 +1859,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/llm-provider', (req: Request, res: Response) => {
     try {
       const schema = z.object({
-        provider: z.enum([LLMProvider.GROQ, LLMProvider.PHIDATA])
+        provider: z.string().min(1)
       });
       
       const validationResult = schema.safeParse(req.body);
@@ -941,6 +1868,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const { provider } = validationResult.data;
+      if (!providerRegistry.has(provider)) {
+        return res.status(400).json({ error: `Unknown provider: ${provider}` });
+      }
+      
       llmService.setDefaultProvider(provider);
       
       res.json({ 
@@ -953,6 +1884,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // List registered LLM providers
+  app.get('/api/llm-providers', (req: Request, res: Response) => {
+    try {
+      res.json({
+        defaultProvider: llmService.getDefaultProvider(),
+        providers: providerRegistry.list()
+      });
+    } catch (error) {
+      logger.error(`Error listing LLM providers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to list LLM providers' });
+    }
+  });
+  
+  // Register an OpenAI-compatible or local LLM provider; only providers declared in the environment or config file can name an apiKeyEnv
+  app.post('/api/llm-providers', (req: Request, res: Response) => {
+    try {
+      const validationResult = apiProviderConfigSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid provider config', details: validationResult.error });
+      }
+      
+      if (providerRegistry.has(validationResult.data.id)) {
+        return res.status(409).json({ error: `Provider ${validationResult.data.id} is already registered` });
+      }
+      
+      providerRegistry.register(validationResult.data);
+      const provider = providerRegistry.list().find(p => p.id === validationResult.data.id);
+      
+      res.status(201).json(provider);
+    } catch (error) {
+      logger.error(`Error registering LLM provider: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to register LLM provider' });
+    }
+  });
+  
+  // Remove a registered LLM provider
+  app.delete('/api/llm-providers/:id', (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      if (id === llmService.getDefaultProvider()) {
+        return res.status(400).json({ error: 'Cannot remove the default LLM provider' });
+      }
+      
+      const provider = providerRegistry.list().find(p => p.id === id);
+      if (!provider) {
+        return res.status(404).json({ error: 'Provider not found' });
+      }
+      if (provider.builtIn) {
+        return res.status(400).json({ error: 'Built-in providers cannot be removed' });
+      }
+      
+      providerRegistry.unregister(id);
+      res.json({ success: true, message: `Provider ${id} removed` });
+    } catch (error) {
+      logger.error(`Error removing LLM provider: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to remove LLM provider' });
+    }
+  });
+  
+  // Get circuit breaker state per provider along with the fallback and retry configuration
+  app.get('/api/llm-circuits', (req: Request, res: Response) => {
+    try {
+      res.json({
+        circuits: llmService.getCircuitStatuses(),
+        fallbackChain: llmService.getFallbackChain(),
+        retryPolicy: llmService.getRetryPolicy()
+      });
+    } catch (error) {
+      logger.error(`Error getting LLM circuit state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to get LLM circuit state' });
+    }
+  });
+  
+  // Close a provider's circuit so it is tried again immediately
+  app.post('/api/llm-circuits/:provider/reset', (req: Request, res: Response) => {
+    try {
+      const { provider } = req.params;
+      if (!providerRegistry.has(provider)) {
+        return res.status(404).json({ error: 'Provider not found' });
+      }
+      
+      llmService.resetCircuit(provider);
+      res.json({ success: true, message: `Circuit for ${provider} reset` });
+    } catch (error) {
+      logger.error(`Error resetting LLM circuit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to reset LLM circuit' });
+    }
+  });
+  
+  // Update the fallback chain and retry policy
+  app.put('/api/llm-fallback', (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        chain: z.array(z.object({
+          provider: z.string().min(1),
+          model: z.string().min(1).optional()
+        })),
+        retry: z.object({
+          maxRetries: z.number().int().min(0).max(10),
+          baseDelayMs: z.number().int().min(0),
+          maxDelayMs: z.number().int().min(0)
+        }).partial().optional()
+      });
+      
+      const validationResult = schema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: 'Invalid fallback configuration', details: validationResult.error });
+      }
+      
+      const { chain, retry } = validationResult.data;
+      const unknown = chain.find(target => !providerRegistry.has(target.provider));
+      if (unknown) {
+        return res.status(400).json({ error: `Unknown LLM provider: ${unknown.provider}` });
+      }
+      
+      llmService.setFallbackChain(chain);
+      if (retry) {
+        llmService.setRetryPolicy(retry);
+      }
+      
+      res.json({
+        success: true,
+        fallbackChain: llmService.getFallbackChain(),
+        retryPolicy: llmService.getRetryPolicy()
+      });
+    } catch (error) {
+      logger.error(`Error updating LLM fallback chain: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      res.status(500).json({ error: 'Failed to update LLM fallback chain' });
+    }
+  });
+  
   // Run comprehensive agent tests
   app.post('/api/run-tests', async (req: Request, res: Response) => {
     try {
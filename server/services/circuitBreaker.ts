@@ -0,0 +1,113 @@
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half_open'
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  resetTimeoutMs: number; // How long the circuit stays open before a trial request
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  retryAt: number | null;
+  lastError: string | null;
+}
+
+export const DEFAULT_CIRCUIT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  resetTimeoutMs: parseInt(process.env.LLM_CIRCUIT_RESET_MS || '30000', 10)
+};
+
+/**
+ * Per-provider circuit breaker. After `failureThreshold` consecutive failures the
+ * circuit opens and requests are rejected without contacting the provider; once
+ * `resetTimeoutMs` has passed a single trial request is let through (half-open),
+ * closing the circuit on success or re-opening it on failure.
+ */
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private state: CircuitState;
+  private consecutiveFailures: number;
+  private openedAt: number | null;
+  private trialInFlight: boolean;
+  private lastError: string | null;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_OPTIONS, ...options };
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.lastError = null;
+  }
+
+  // Moves an open circuit whose reset timeout has passed to half-open
+  private advance(now: number): void {
+    if (this.state === CircuitState.OPEN && this.openedAt !== null && now - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = CircuitState.HALF_OPEN;
+      this.trialInFlight = false;
+    }
+  }
+
+  // Whether a request may be sent now; a half-open circuit admits one trial at a time
+  allowRequest(now = Date.now()): boolean {
+    this.advance(now);
+
+    if (this.state === CircuitState.CLOSED) {
+      return true;
+    }
+
+    if (this.state === CircuitState.HALF_OPEN && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.lastError = null;
+  }
+
+  recordFailure(reason: string, now = Date.now()): void {
+    this.consecutiveFailures++;
+    this.lastError = reason;
+    this.trialInFlight = false;
+
+    if (this.state === CircuitState.HALF_OPEN || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = now;
+    }
+  }
+
+  // End a half-open trial without counting it either way (e.g. the request was invalid)
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  reset(): void {
+    this.recordSuccess();
+  }
+
+  getSnapshot(now = Date.now()): CircuitSnapshot {
+    this.advance(now);
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      retryAt: this.state === CircuitState.OPEN && this.openedAt !== null
+        ? this.openedAt + this.options.resetTimeoutMs
+        : null,
+      lastError: this.lastError
+    };
+  }
+}
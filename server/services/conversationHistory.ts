@@ -0,0 +1,99 @@
+import { MessageType, type Message } from '@shared/schema';
+import { storage, type IStorage } from '../storage';
+import type { LLMMessage, LLMRequestParams } from './llmService';
+
+// Room left for the summary that replaces truncated history
+export const SUMMARY_TOKEN_RESERVE = 512;
+
+// Rough token count: ~4 characters per token
+export function estimateTokens(text: string | null | undefined): number {
+  return Math.ceil((text || '').length / 4);
+}
+
+function messageText(message: LLMMessage): string {
+  if (message.role === 'assistant' && message.toolCalls) {
+    return (message.content || '') + message.toolCalls.map(call => call.name + call.arguments).join('');
+  }
+  return message.content || '';
+}
+
+// Each message also costs a few tokens of role framing
+function estimateMessageTokens(message: LLMMessage): number {
+  return estimateTokens(messageText(message)) + 4;
+}
+
+// Estimated prompt tokens of a request: system prompt, history, prompt and tool exchange
+export function estimatePromptTokens(params: LLMRequestParams): number {
+  const history = (params.messages || []).reduce((total, message) => total + estimateMessageTokens(message), 0);
+  const toolTurns = (params.toolMessages || []).reduce((total, message) => total + estimateMessageTokens(message), 0);
+  return estimateTokens(params.system) + history + estimateTokens(params.prompt) + toolTurns;
+}
+
+/**
+ * Drops the oldest history messages until the request, including the completion
+ * it asks for, fits in `contextWindow` tokens. System messages in the history are
+ * kept, as are the prompt and any tool exchange; a tool result is never kept
+ * without the assistant turn that requested it.
+ */
+export function truncateHistory(
+  params: LLMRequestParams,
+  contextWindow: number,
+  reserve = 0
+): { messages: LLMMessage[]; dropped: LLMMessage[] } {
+  const messages = (params.messages || []).slice();
+  const dropped: LLMMessage[] = [];
+  const budget = contextWindow - (params.maxTokens || 0) - reserve;
+  let tokens = estimatePromptTokens(params);
+
+  for (let i = 0; i < messages.length && tokens > budget; ) {
+    if (messages[i].role === 'system') {
+      i++;
+      continue;
+    }
+
+    const [message] = messages.splice(i, 1);
+    dropped.push(message);
+    tokens -= estimateMessageTokens(message);
+
+    // Tool results belong to the assistant turn that was just dropped
+    while (i < messages.length && messages[i].role === 'tool') {
+      const [orphan] = messages.splice(i, 1);
+      dropped.push(orphan);
+      tokens -= estimateMessageTokens(orphan);
+    }
+  }
+
+  return { messages, dropped };
+}
+
+// Plain-text transcript of messages, e.g. for summarizing them
+export function formatTranscript(messages: LLMMessage[]): string {
+  return messages.map(message => `${message.role}: ${messageText(message)}`).join('\n\n');
+}
+
+function toLLMMessage(message: Message): LLMMessage {
+  switch (message.type) {
+    case MessageType.AGENT:
+      return { role: 'assistant', content: message.content };
+    case MessageType.SYSTEM:
+      return { role: 'system', content: message.content };
+    default:
+      return { role: 'user', content: message.content };
+  }
+}
+
+/**
+ * Conversation history of a task from the messages table, oldest first. The
+ * latest user message is left out when it is the prompt being answered, since
+ * /api/process stores the message before the agent runs.
+ */
+export async function buildTaskHistory(taskId: number, prompt?: string, store: IStorage = storage): Promise<LLMMessage[]> {
+  const history = (await store.getMessagesByTask(taskId)).map(toLLMMessage);
+  const last = history[history.length - 1];
+
+  if (last && last.role === 'user' && last.content === prompt) {
+    history.pop();
+  }
+
+  return history;
+}
@@ -0,0 +1,270 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { storage, type IStorage } from '../storage';
+import {
+  ActivityType, ExperimentStatus, ExperimentVariant, TaskStatus,
+  type Experiment, type ExperimentVariantConfig, type InsertExperiment, type SystemActivity
+} from '@shared/schema';
+import { providerRegistry, ProviderRegistry } from './providerRegistry';
+import { promptRegistry, PromptRegistry, BUILT_IN_PROMPT_VERSION } from '../agents/promptRegistry';
+
+// The variant one agent run was assigned to
+export interface ExperimentAssignment {
+  experimentId: number;
+  runId: string;
+  variant: ExperimentVariant;
+  config: ExperimentVariantConfig;
+}
+
+// Outcome signals recorded against an assignment, as `event` in the activity metadata
+type ExperimentEvent = 'assigned' | 'outcome' | 'validation' | 'rating';
+
+export interface ExperimentVariantReport {
+  variant: ExperimentVariant;
+  config: ExperimentVariantConfig;
+  runs: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  successRate: number | null; // Completed share of finished, not cancelled, runs
+  ratings: number;
+  averageRating: number | null;
+  validations: number;
+  validationPassRate: number | null;
+  totalTokens: number;
+  averageTokens: number | null; // Per finished run
+}
+
+export interface ExperimentReport {
+  experiment: Experiment;
+  variants: ExperimentVariantReport[];
+}
+
+// Lifecycle or configuration problems; the message is meant for the user
+export class ExperimentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExperimentError';
+  }
+}
+
+// Stable bucket 0-99, so every run for one task lands in the same variant
+function bucketOf(experimentId: number, key: string): number {
+  const hash = createHash('sha1').update(`${experimentId}:${key}`).digest('hex');
+  return parseInt(hash.substring(0, 8), 16) % 100;
+}
+
+function rate(part: number, whole: number): number | null {
+  return whole > 0 ? part / whole : null;
+}
+
+/**
+ * Runs prompt and model experiments. While an experiment is running, each run
+ * of its agent type is assigned variant A or B (trafficPercent of them B), and
+ * the variant's settings override the agent's own in its LLM requests. The
+ * assignment and the outcome signals for it - the run's task status, structured
+ * output validation and user ratings - are logged as experiment activities,
+ * from which the comparison report is built.
+ */
+export class ExperimentManager {
+  private store: IStorage;
+  private providers: ProviderRegistry;
+  private prompts: PromptRegistry;
+
+  constructor(store: IStorage = storage, providers: ProviderRegistry = providerRegistry, prompts: PromptRegistry = promptRegistry) {
+    this.store = store;
+    this.providers = providers;
+    this.prompts = prompts;
+  }
+
+  // Store an experiment as a draft, or with `start` running, without leaving a draft behind if it cannot start
+  async create(experiment: InsertExperiment, options: { start?: boolean } = {}): Promise<Experiment> {
+    await this.checkVariant(experiment.variantA as ExperimentVariantConfig);
+    await this.checkVariant(experiment.variantB as ExperimentVariantConfig);
+    if (options.start) {
+      await this.checkNoneRunning(experiment.agentType);
+    }
+
+    const created = await this.store.createExperiment(experiment);
+    logger.info(`Experiment ${created.name} created for ${created.agentType} agents`);
+    return options.start ? (await this.start(created.id))! : created;
+  }
+
+  // Start assigning runs; one experiment per agent type runs at a time
+  async start(id: number): Promise<Experiment | undefined> {
+    const experiment = await this.store.getExperiment(id);
+    if (!experiment) {
+      return undefined;
+    }
+
+    await this.checkNoneRunning(experiment.agentType, id);
+    logger.info(`Experiment ${experiment.name} started`);
+    return this.store.updateExperimentStatus(id, ExperimentStatus.RUNNING);
+  }
+
+  async stop(id: number): Promise<Experiment | undefined> {
+    const experiment = await this.store.getExperiment(id);
+    if (!experiment) {
+      return undefined;
+    }
+    if (experiment.status !== ExperimentStatus.RUNNING) {
+      throw new ExperimentError(`Experiment ${experiment.name} is not running`);
+    }
+
+    logger.info(`Experiment ${experiment.name} stopped`);
+    return this.store.updateExperimentStatus(id, ExperimentStatus.STOPPED);
+  }
+
+  /**
+   * Assign a run of `agent` to a variant of the experiment running for its type,
+   * if any. Experiments must not keep agents from running, so failures are
+   * logged and the run goes ahead without one.
+   */
+  async assign(agent: { id: number; type: string }, context: Record<string, any> = {}): Promise<ExperimentAssignment | undefined> {
+    try {
+      const experiment = (await this.store.getAllExperiments())
+        .find(candidate => candidate.status === ExperimentStatus.RUNNING && candidate.agentType === agent.type);
+      if (!experiment) {
+        return undefined;
+      }
+
+      const runId = uuidv4();
+      const taskId = typeof context.taskId === 'number' ? context.taskId : undefined;
+      const variant = bucketOf(experiment.id, taskId !== undefined ? `task:${taskId}` : runId) < experiment.trafficPercent
+        ? ExperimentVariant.B
+        : ExperimentVariant.A;
+      const assignment: ExperimentAssignment = {
+        experimentId: experiment.id,
+        runId,
+        variant,
+        config: (variant === ExperimentVariant.B ? experiment.variantB : experiment.variantA) as ExperimentVariantConfig
+      };
+
+      await this.logEvent(assignment, 'assigned', `Run assigned to variant ${variant} of experiment ${experiment.name}`, {
+        agentId: agent.id,
+        taskId
+      });
+      return assignment;
+    } catch (error) {
+      logger.error(`Failed to assign an experiment variant: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
+  // How the run ended, as the task status it leads to
+  async recordOutcome(assignment: ExperimentAssignment, status: TaskStatus, totalTokens?: number): Promise<void> {
+    await this.logEvent(assignment, 'outcome', `Variant ${assignment.variant} run ${status}`, { status, totalTokens });
+  }
+
+  // Whether the run's structured output passed schema validation
+  async recordValidation(assignment: ExperimentAssignment, passed: boolean, error?: string): Promise<void> {
+    await this.logEvent(assignment, 'validation', `Variant ${assignment.variant} output ${passed ? 'passed' : 'failed'} validation`, {
+      passed,
+      error
+    });
+  }
+
+  // A user's 1-5 rating of a task, applied to every experiment run made for it; returns the runs rated
+  async recordRating(taskId: number, rating: number): Promise<number> {
+    const runs = (await this.store.getSystemActivitiesByType(ActivityType.EXPERIMENT))
+      .filter(activity => this.eventOf(activity) === 'assigned' && (activity.metadata as Record<string, any>).taskId === taskId);
+
+    for (const run of runs) {
+      const metadata = run.metadata as Record<string, any>;
+      const assignment: ExperimentAssignment = { experimentId: metadata.experimentId, runId: metadata.runId, variant: metadata.variant, config: {} };
+      await this.logEvent(assignment, 'rating', `Variant ${assignment.variant} run rated ${rating}/5`, { taskId, rating });
+    }
+
+    return runs.length;
+  }
+
+  async getReport(id: number): Promise<ExperimentReport | undefined> {
+    const experiment = await this.store.getExperiment(id);
+    if (!experiment) {
+      return undefined;
+    }
+
+    const events = (await this.store.getSystemActivitiesByType(ActivityType.EXPERIMENT))
+      .map(activity => activity.metadata as Record<string, any>)
+      .filter(metadata => metadata && metadata.experimentId === id);
+
+    const variants = [ExperimentVariant.A, ExperimentVariant.B].map(variant => {
+      const ofVariant = events.filter(event => event.variant === variant);
+      const outcomes = ofVariant.filter(event => event.event === 'outcome');
+      const validations = ofVariant.filter(event => event.event === 'validation');
+
+      // A task rated again replaces its earlier rating
+      const ratings = new Map<string, number>();
+      ofVariant.filter(event => event.event === 'rating').forEach(event => ratings.set(event.runId, event.rating));
+      const ratingValues = Array.from(ratings.values());
+
+      const completed = outcomes.filter(event => event.status === TaskStatus.COMPLETED).length;
+      const failed = outcomes.filter(event => event.status === TaskStatus.FAILED).length;
+      const totalTokens = outcomes.reduce((total, event) => total + (event.totalTokens || 0), 0);
+
+      return {
+        variant,
+        config: (variant === ExperimentVariant.B ? experiment.variantB : experiment.variantA) as ExperimentVariantConfig,
+        runs: ofVariant.filter(event => event.event === 'assigned').length,
+        completed,
+        failed,
+        cancelled: outcomes.filter(event => event.status === TaskStatus.CANCELLED).length,
+        successRate: rate(completed, completed + failed),
+        ratings: ratingValues.length,
+        averageRating: rate(ratingValues.reduce((total, value) => total + value, 0), ratingValues.length),
+        validations: validations.length,
+        validationPassRate: rate(validations.filter(event => event.passed).length, validations.length),
+        totalTokens,
+        averageTokens: rate(totalTokens, completed + failed)
+      };
+    });
+
+    return { experiment, variants };
+  }
+
+  private eventOf(activity: SystemActivity): ExperimentEvent | undefined {
+    return (activity.metadata as Record<string, any> | null)?.event;
+  }
+
+  private async logEvent(
+    assignment: ExperimentAssignment,
+    event: ExperimentEvent,
+    description: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    await this.store.createSystemActivity({
+      type: ActivityType.EXPERIMENT,
+      description,
+      metadata: { experimentId: assignment.experimentId, runId: assignment.runId, variant: assignment.variant, event, ...details }
+    });
+  }
+
+  private async checkNoneRunning(agentType: string, exceptId?: number): Promise<void> {
+    const running = (await this.store.getAllExperiments())
+      .find(other => other.status === ExperimentStatus.RUNNING && other.agentType === agentType && other.id !== exceptId);
+    if (running) {
+      throw new ExperimentError(`Experiment ${running.name} is already running for ${agentType} agents`);
+    }
+  }
+
+  private async checkVariant(config: ExperimentVariantConfig): Promise<void> {
+    if (config.provider && !this.providers.has(config.provider)) {
+      throw new ExperimentError(`Unknown provider: ${config.provider}`);
+    }
+
+    const pinned = config.promptVersions || {};
+    for (const name of Object.keys(pinned)) {
+      if (!this.prompts.getDefinition(name)) {
+        throw new ExperimentError(`Unknown prompt template: ${name}`);
+      }
+      const version = pinned[name];
+      if (version !== BUILT_IN_PROMPT_VERSION && !(await this.store.getPromptTemplatesByName(name)).some(template => template.version === version)) {
+        throw new ExperimentError(`Prompt template ${name} has no version ${version}`);
+      }
+    }
+  }
+}
+
+// Create singleton instance
+export const experimentManager = new ExperimentManager();
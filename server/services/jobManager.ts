@@ -0,0 +1,322 @@
+import { logger } from '../utils/logger';
+import { storage, type IStorage, type JobFilter, type JobUpdate } from '../storage';
+import { JobStatus, MessageType, TaskStatus, type Job } from '@shared/schema';
+import { agentRegistry, AgentRegistry } from '../agents/agentRegistry';
+import { taskStatusOf, type AgentExecutionResult } from '../agents/agentBase';
+import type { AgentLease } from '../agents/agentPool';
+import { trackRun } from './runTracker';
+
+// An agent run to process asynchronously
+export interface JobRequest {
+  agentType: string;
+  message: string;
+  taskId?: number;
+  projectId?: number; // A task is created in the project when no taskId is given
+  context?: Record<string, any>;
+  stream?: boolean; // Generate the answer token by token, as `token` events to the job's subscribers
+}
+
+// What a job's subscribers are told: every change to it, and tokens while it streams
+export type JobEvent =
+  | { type: 'update'; job: Job }
+  | { type: 'token'; delta: string };
+
+export type JobListener = (event: JobEvent) => void;
+
+// The job cannot do what was asked, e.g. cancelling a finished job; the message is meant for the user
+export class JobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
+
+const FINISHED_STATUSES = [JobStatus.SUCCEEDED, JobStatus.FAILED, JobStatus.CANCELLED];
+
+export function isJobFinished(job: Job): boolean {
+  return FINISHED_STATUSES.indexOf(job.status as JobStatus) !== -1;
+}
+
+// Progress is reported by stage; how far along an agent is within its run is not known
+const PROGRESS_STARTED = 10;
+const PROGRESS_GENERATING = 50;
+const PROGRESS_SAVING = 90;
+const PROGRESS_DONE = 100;
+
+// Streamed tokens update the job's progress message at most this often
+const PROGRESS_INTERVAL_MS = 1000;
+
+// How an agent run's result ends its job
+function jobStatusOf(result: AgentExecutionResult): JobStatus {
+  if (result.cancelled) return JobStatus.CANCELLED;
+  return result.success || result.needsClarification ? JobStatus.SUCCEEDED : JobStatus.FAILED;
+}
+
+/**
+ * Runs agent requests as jobs, so a request does not have to stay open while
+ * an agent works. A job is stored as soon as it is submitted, together with
+ * the user's message and task, and is then run in the background on an agent
+ * of its type: queued until an instance is claimed, then running, then
+ * succeeded, failed or cancelled. Its result and the agent's message are
+ * stored with it, so they can be read back after the client that submitted
+ * it has gone.
+ */
+export class JobManager {
+  private store: IStorage;
+  private registry: AgentRegistry;
+  private runs = new Map<number, { controller: AbortController; done: Promise<void> }>();
+  private subscribers = new Map<number, Set<JobListener>>();
+  private listeners: Array<(job: Job) => void> = [];
+
+  constructor(store: IStorage = storage, registry: AgentRegistry = agentRegistry) {
+    this.store = store;
+    this.registry = registry;
+  }
+
+  // Called with the job whenever one is submitted or changes
+  onChange(listener: (job: Job) => void): void {
+    this.listeners.push(listener);
+  }
+
+  // Store the job with its message and task and start running it; `listener` hears of it from the start
+  async submit(request: JobRequest, listener?: JobListener): Promise<Job> {
+    const { agentType, message, taskId, projectId, context } = request;
+
+    let task = taskId ? await this.store.getTask(taskId) : undefined;
+    if (!task && projectId) {
+      task = await this.store.createTask({
+        projectId,
+        description: message.substring(0, 100) + (message.length > 100 ? '...' : ''),
+        status: TaskStatus.PENDING
+      });
+    }
+
+    const userMessage = await this.store.createMessage({
+      taskId: task?.id,
+      agentId: null,
+      userId: 1, // Assuming default user
+      content: message,
+      type: MessageType.USER
+    });
+
+    const job = await this.store.createJob({
+      agentType,
+      input: message,
+      context: projectId !== undefined ? { ...context, projectId } : context ?? null,
+      taskId: task?.id ?? null,
+      messageId: userMessage.id
+    });
+
+    if (listener) {
+      this.subscribe(job.id, listener);
+    }
+    const controller = new AbortController();
+    this.runs.set(job.id, { controller, done: this.execute(job, controller, !!request.stream) });
+
+    logger.info(`Job ${job.id} submitted for a ${agentType} agent`);
+    this.notify(job);
+    return job;
+  }
+
+  async get(id: number): Promise<Job | undefined> {
+    return this.store.getJob(id);
+  }
+
+  async list(filter: JobFilter = {}): Promise<Job[]> {
+    return this.store.getJobs(filter);
+  }
+
+  // Listen to one job until it finishes
+  subscribe(id: number, listener: JobListener): void {
+    const listeners = this.subscribers.get(id) || new Set<JobListener>();
+    listeners.add(listener);
+    this.subscribers.set(id, listeners);
+  }
+
+  unsubscribe(id: number, listener: JobListener): void {
+    const listeners = this.subscribers.get(id);
+    if (listeners) {
+      listeners.delete(listener);
+    }
+  }
+
+  // The job once it has finished
+  async wait(id: number): Promise<Job | undefined> {
+    const run = this.runs.get(id);
+    if (run) {
+      await run.done;
+    }
+    return this.store.getJob(id);
+  }
+
+  // Stop a queued or running job; undefined when there is no such job
+  async cancel(id: number): Promise<Job | undefined> {
+    // Looked up first: a run is only forgotten once its job is stored as finished
+    const run = this.runs.get(id);
+    const job = await this.store.getJob(id);
+    if (!job) {
+      return undefined;
+    }
+    if (isJobFinished(job)) {
+      throw new JobError(`Job ${id} has already ${job.status}`);
+    }
+
+    if (!run) {
+      // Left over from before a restart, so nothing is running it
+      return this.finish(job, { status: JobStatus.CANCELLED });
+    }
+
+    logger.info(`Cancelling job ${id}`);
+    run.controller.abort();
+    await run.done;
+    return this.store.getJob(id);
+  }
+
+  // Fail the jobs a previous server process left unfinished; returns how many there were
+  async recover(): Promise<number> {
+    const unfinished = (await this.store.getJobs({ statuses: [JobStatus.QUEUED, JobStatus.RUNNING] }))
+      .filter(job => !this.runs.has(job.id));
+
+    for (const job of unfinished) {
+      await this.finish(job, { status: JobStatus.FAILED, error: 'The server restarted before the job finished' });
+      if (job.taskId !== null) {
+        await this.store.updateTaskStatus(job.taskId, TaskStatus.FAILED);
+      }
+    }
+
+    if (unfinished.length > 0) {
+      logger.warn(`Marked ${unfinished.length} interrupted jobs as failed`);
+    }
+    return unfinished.length;
+  }
+
+  private async execute(job: Job, controller: AbortController, stream: boolean): Promise<void> {
+    const taskId = job.taskId ?? undefined;
+    const untrack = trackRun(taskId, controller);
+    let lease: AgentLease | undefined;
+
+    try {
+      lease = await this.registry.acquire(job.agentType);
+      if (controller.signal.aborted || !lease) {
+        const status = controller.signal.aborted ? JobStatus.CANCELLED : JobStatus.FAILED;
+        if (taskId !== undefined) {
+          await this.store.updateTaskStatus(taskId, status === JobStatus.CANCELLED ? TaskStatus.CANCELLED : TaskStatus.FAILED);
+        }
+        await this.finish(job, { status, error: status === JobStatus.CANCELLED ? null : `No active agent of type ${job.agentType}` });
+        return;
+      }
+
+      const agent = lease.agent;
+      const context = (job.context || {}) as Record<string, any>;
+      const task = taskId !== undefined ? await this.store.getTask(taskId) : undefined;
+      if (task) {
+        await this.store.updateTaskStatus(task.id, TaskStatus.IN_PROGRESS);
+      }
+
+      await this.update(job.id, {
+        status: JobStatus.RUNNING,
+        agentId: agent.id,
+        startedAt: new Date(),
+        progress: PROGRESS_STARTED,
+        progressMessage: `${agent.name} is working on it`
+      });
+
+      // Streamed tokens go to the subscribers as they come, the progress message is only updated now and then
+      let tokens = 0;
+      let reportedAt = 0;
+      let progressUpdate: Promise<unknown> = Promise.resolve();
+      const onToken = (delta: string) => {
+        tokens++;
+        this.emit(job.id, { type: 'token', delta });
+        if (Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+          reportedAt = Date.now();
+          progressUpdate = this.update(job.id, { progress: PROGRESS_GENERATING, progressMessage: `Generating the answer (${tokens} tokens so far)` })
+            .catch(error => logger.error(`Error updating job ${job.id} progress: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+      };
+
+      // LLM usage is charged to the task and project
+      const result = await agent.run(job.input, {
+        ...context,
+        taskId,
+        projectId: context.projectId ?? task?.projectId ?? undefined,
+        signal: controller.signal,
+        ...(stream ? { onToken } : {})
+      });
+
+      // A late progress update must not land after the job has finished
+      await progressUpdate;
+      await this.update(job.id, { progress: PROGRESS_SAVING, progressMessage: 'Saving the result' });
+
+      // A clarifying question leaves the task pending
+      if (task) {
+        await this.store.updateTaskStatus(task.id, taskStatusOf(result));
+      }
+
+      // A cancelled run has nothing to say
+      const resultMessage = result.cancelled ? undefined : await this.store.createMessage({
+        taskId: taskId ?? null,
+        agentId: agent.id,
+        userId: null,
+        content: result.output,
+        type: MessageType.AGENT
+      });
+
+      await this.finish(job, {
+        status: jobStatusOf(result),
+        result: result as unknown as Record<string, unknown>,
+        error: result.success ? null : result.error ?? null,
+        resultMessageId: resultMessage?.id ?? null
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Error running job ${job.id}: ${message}`);
+      try {
+        if (taskId !== undefined) {
+          await this.store.updateTaskStatus(taskId, TaskStatus.FAILED);
+        }
+        await this.finish(job, { status: JobStatus.FAILED, error: message });
+      } catch (finishError) {
+        logger.error(`Error failing job ${job.id}: ${finishError instanceof Error ? finishError.message : 'Unknown error'}`);
+      }
+    } finally {
+      untrack();
+      lease?.release();
+      this.runs.delete(job.id);
+      this.subscribers.delete(job.id);
+    }
+  }
+
+  private async finish(job: Job, update: JobUpdate): Promise<Job | undefined> {
+    const finished = await this.update(job.id, {
+      ...update,
+      progress: PROGRESS_DONE,
+      progressMessage: null,
+      completedAt: new Date()
+    });
+    logger.info(`Job ${job.id} ${update.status}`);
+    return finished;
+  }
+
+  private async update(id: number, update: JobUpdate): Promise<Job | undefined> {
+    const job = await this.store.updateJob(id, update);
+    if (job) {
+      this.notify(job);
+    }
+    return job;
+  }
+
+  private notify(job: Job) {
+    this.emit(job.id, { type: 'update', job });
+    this.listeners.forEach(listener => listener(job));
+  }
+
+  private emit(id: number, event: JobEvent) {
+    const listeners = this.subscribers.get(id);
+    if (listeners) {
+      listeners.forEach(listener => listener(event));
+    }
+  }
+}
+
+export const jobManager = new JobManager();
@@ -0,0 +1,336 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import type { LLMResponse } from './llmService';
+
+export interface LLMCacheEntry {
+  key: string;
+  provider: string;
+  agent?: string; // Agent type that made the request, when known
+  response: LLMResponse;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+  hits: number;
+  pinned: boolean; // Pinned entries never expire and are never evicted
+  sizeBytes: number;
+}
+
+// Fields that can change after an entry is written
+export type LLMCacheEntryChanges = Partial<Pick<LLMCacheEntry, 'hits' | 'lastAccessedAt' | 'pinned' | 'expiresAt'>>;
+
+// Entry metadata without the response body, for listing and eviction
+export type LLMCacheEntryInfo = Omit<LLMCacheEntry, 'response'>;
+
+export interface LLMCacheLimits {
+  maxEntries: number;
+  maxBytes?: number;
+}
+
+export interface LLMCacheEvictions {
+  expired: LLMCacheEntryInfo[];
+  evicted: LLMCacheEntryInfo[]; // Least recently used entries removed to stay within limits
+}
+
+/**
+ * Backend for the LLM response cache. Stores keep entries in least-recently-used
+ * order: `get` marks an entry as used, and `evict` removes from the cold end.
+ */
+export interface LLMCacheStore {
+  readonly kind: string;
+  readonly size: number;
+  readonly bytes: number;
+  get(key: string): Promise<LLMCacheEntry | undefined>;
+  peek(key: string): Promise<LLMCacheEntry | undefined>; // Like get, without marking the entry as used
+  set(entry: LLMCacheEntry): Promise<void>;
+  update(key: string, changes: LLMCacheEntryChanges): Promise<LLMCacheEntry | undefined>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  evict(now: number, limits: LLMCacheLimits): Promise<LLMCacheEvictions>;
+  list(): LLMCacheEntryInfo[]; // Oldest (least recently used) first
+}
+
+// Short stable identifier for an entry, since keys are long request JSON
+export function cacheEntryId(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex').substring(0, 16);
+}
+
+export function measureEntry(key: string, response: LLMResponse): number {
+  return Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(response));
+}
+
+function toInfo(entry: LLMCacheEntry): LLMCacheEntryInfo {
+  const { response, ...info } = entry;
+  return info;
+}
+
+/**
+ * Collects expired entries, then the least recently used ones until the limits
+ * hold. `entries` must be in LRU order; the caller removes what is returned.
+ */
+function planEvictions(entries: LLMCacheEntryInfo[], now: number, limits: LLMCacheLimits): LLMCacheEvictions {
+  const expired = entries.filter(entry => !entry.pinned && entry.expiresAt <= now);
+  const live = entries.filter(entry => entry.pinned || entry.expiresAt > now);
+  const remaining = live.filter(entry => !entry.pinned);
+
+  // Pinned entries still count towards the limits
+  let count = live.length;
+  let bytes = live.reduce((total, entry) => total + entry.sizeBytes, 0);
+  const evicted: LLMCacheEntryInfo[] = [];
+
+  for (let i = 0; i < remaining.length; i++) {
+    const overCount = count > limits.maxEntries;
+    const overBytes = limits.maxBytes !== undefined && bytes > limits.maxBytes;
+    if (!overCount && !overBytes) break;
+
+    evicted.push(remaining[i]);
+    count--;
+    bytes -= remaining[i].sizeBytes;
+  }
+
+  return { expired, evicted };
+}
+
+/**
+ * In-process store. A Map iterates in insertion order, so re-inserting on
+ * access keeps it in LRU order without sorting.
+ */
+export class MemoryCacheStore implements LLMCacheStore {
+  readonly kind = 'memory';
+  private entries: Map<string, LLMCacheEntry>;
+  private totalBytes: number;
+
+  constructor() {
+    this.entries = new Map();
+    this.totalBytes = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  async get(key: string): Promise<LLMCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async peek(key: string): Promise<LLMCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    await this.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    this.totalBytes += entry.sizeBytes;
+  }
+
+  async update(key: string, changes: LLMCacheEntryChanges): Promise<LLMCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      Object.assign(entry, changes);
+    }
+    return entry;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existing = this.entries.get(key);
+    if (!existing) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.totalBytes -= existing.sizeBytes;
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  async evict(now: number, limits: LLMCacheLimits): Promise<LLMCacheEvictions> {
+    const plan = planEvictions(this.list(), now, limits);
+    plan.expired.concat(plan.evicted).forEach(entry => {
+      const existing = this.entries.get(entry.key);
+      if (existing) {
+        this.entries.delete(entry.key);
+        this.totalBytes -= existing.sizeBytes;
+      }
+    });
+    return plan;
+  }
+
+  list(): LLMCacheEntryInfo[] {
+    return Array.from(this.entries.values()).map(toInfo);
+  }
+}
+
+/**
+ * Stores one JSON file per entry in a directory, so the cache survives restarts
+ * and can be shared by several server instances pointing at the same directory.
+ * An in-memory index holds metadata in LRU order; file modification times carry
+ * recency across restarts and between instances.
+ */
+export class FileCacheStore implements LLMCacheStore {
+  readonly kind = 'file';
+  readonly directory: string;
+  private index: Map<string, LLMCacheEntryInfo>;
+  private totalBytes: number;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+    this.index = new Map();
+    this.totalBytes = 0;
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.loadIndex();
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${crypto.createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  // Rebuild the index from disk, oldest modification time first
+  private loadIndex(): void {
+    const loaded: Array<{ info: LLMCacheEntryInfo; mtime: number }> = [];
+
+    fs.readdirSync(this.directory)
+      .filter(name => name.endsWith('.json'))
+      .forEach(name => {
+        const file = path.join(this.directory, name);
+        try {
+          const entry = JSON.parse(fs.readFileSync(file, 'utf8')) as LLMCacheEntry;
+          loaded.push({ info: toInfo(entry), mtime: fs.statSync(file).mtimeMs });
+        } catch (error) {
+          logger.warn(`Skipping unreadable LLM cache file ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      });
+
+    loaded
+      .sort((a, b) => a.mtime - b.mtime)
+      .forEach(({ info }) => this.track(info));
+
+    logger.info(`LLM file cache loaded ${this.index.size} entries from ${this.directory}`);
+  }
+
+  private track(info: LLMCacheEntryInfo): void {
+    this.untrack(info.key);
+    this.index.set(info.key, info);
+    this.totalBytes += info.sizeBytes;
+  }
+
+  private untrack(key: string): void {
+    const existing = this.index.get(key);
+    if (existing) {
+      this.index.delete(key);
+      this.totalBytes -= existing.sizeBytes;
+    }
+  }
+
+  private async read(key: string): Promise<LLMCacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.fileFor(key), 'utf8')) as LLMCacheEntry;
+    } catch (error) {
+      // Missing (or removed by another instance) is a miss
+      this.untrack(key);
+      return undefined;
+    }
+  }
+
+  async get(key: string): Promise<LLMCacheEntry | undefined> {
+    const entry = await this.read(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Entries written by another instance are picked up here as well
+    this.track(toInfo(entry));
+    const now = new Date();
+    await fs.promises.utimes(this.fileFor(key), now, now).catch(() => undefined);
+
+    return entry;
+  }
+
+  async peek(key: string): Promise<LLMCacheEntry | undefined> {
+    return this.read(key);
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    const file = this.fileFor(entry.key);
+    const temp = `${file}.${process.pid}.tmp`;
+
+    // Write then rename so concurrent readers never see a partial file
+    await fs.promises.writeFile(temp, JSON.stringify(entry));
+    await fs.promises.rename(temp, file);
+    this.track(toInfo(entry));
+  }
+
+  async update(key: string, changes: LLMCacheEntryChanges): Promise<LLMCacheEntry | undefined> {
+    const entry = await this.read(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const updated = { ...entry, ...changes };
+    await this.set(updated);
+    return updated;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const tracked = this.index.has(key);
+    this.untrack(key);
+
+    try {
+      await fs.promises.unlink(this.fileFor(key));
+      return true;
+    } catch (error) {
+      return tracked;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const names = await fs.promises.readdir(this.directory);
+    await Promise.all(names
+      .filter(name => name.endsWith('.json'))
+      .map(name => fs.promises.unlink(path.join(this.directory, name)).catch(() => undefined)));
+
+    this.index.clear();
+    this.totalBytes = 0;
+  }
+
+  async evict(now: number, limits: LLMCacheLimits): Promise<LLMCacheEvictions> {
+    const plan = planEvictions(this.list(), now, limits);
+    await Promise.all(plan.expired.concat(plan.evicted).map(entry => this.delete(entry.key)));
+    return plan;
+  }
+
+  list(): LLMCacheEntryInfo[] {
+    return Array.from(this.index.values());
+  }
+}
+
+// LLM_CACHE_STORE=file (with LLM_CACHE_DIR) persists the cache; anything else keeps it in memory
+export function createCacheStoreFromEnvironment(): LLMCacheStore {
+  if (process.env.LLM_CACHE_STORE === 'file') {
+    return new FileCacheStore(process.env.LLM_CACHE_DIR || path.join(process.cwd(), '.cache', 'llm'));
+  }
+
+  return new MemoryCacheStore();
+}
@@ -0,0 +1,174 @@
+import axios from 'axios';
+
+/**
+ * Base class for every failure raised while talking to an LLM provider.
+ * Callers can branch on the subclass (or on `retryable`) instead of parsing
+ * axios errors or message strings.
+ */
+export class LLMProviderError extends Error {
+  provider: string;
+  statusCode?: number;
+  retryable: boolean;
+  details?: unknown;
+
+  constructor(
+    message: string,
+    provider: string,
+    options: { statusCode?: number; retryable?: boolean; details?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.statusCode = options.statusCode;
+    this.retryable = options.retryable ?? false;
+    this.details = options.details;
+  }
+}
+
+// Provider is not configured (missing API key, unknown provider id, ...)
+export class LLMConfigurationError extends LLMProviderError {
+  constructor(message: string, provider: string) {
+    super(message, provider, { retryable: false });
+    this.name = 'LLMConfigurationError';
+  }
+}
+
+// Provider rejected our credentials (401/403)
+export class LLMAuthenticationError extends LLMProviderError {
+  constructor(message: string, provider: string, statusCode: number, details?: unknown) {
+    super(message, provider, { statusCode, retryable: false, details });
+    this.name = 'LLMAuthenticationError';
+  }
+}
+
+// Provider is throttling us (429)
+export class LLMRateLimitError extends LLMProviderError {
+  retryAfterMs?: number;
+
+  constructor(message: string, provider: string, retryAfterMs?: number, details?: unknown) {
+    super(message, provider, { statusCode: 429, retryable: true, details });
+    this.name = 'LLMRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Request did not complete within the configured timeout
+export class LLMTimeoutError extends LLMProviderError {
+  constructor(message: string, provider: string) {
+    super(message, provider, { retryable: true });
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+// Provider could not be reached at all (DNS, refused connection, reset, ...)
+export class LLMNetworkError extends LLMProviderError {
+  constructor(message: string, provider: string) {
+    super(message, provider, { retryable: true });
+    this.name = 'LLMNetworkError';
+  }
+}
+
+// Provider answered, but with a server error or a body we cannot use
+export class LLMResponseError extends LLMProviderError {
+  constructor(message: string, provider: string, statusCode?: number, details?: unknown) {
+    super(message, provider, {
+      statusCode,
+      retryable: statusCode !== undefined && statusCode >= 500,
+      details
+    });
+    this.name = 'LLMResponseError';
+  }
+}
+
+// Provider's circuit breaker is open after repeated failures; no request was sent
+export class LLMCircuitOpenError extends LLMProviderError {
+  retryAt?: number;
+
+  constructor(provider: string, retryAt?: number) {
+    super(`Circuit breaker for ${provider} is open after repeated failures`, provider, { retryable: false });
+    this.name = 'LLMCircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+// A hard usage budget would be exceeded by the call; no request was sent
+export class LLMBudgetExceededError extends LLMProviderError {
+  budget: { scope: string; scopeId: number | null; unit: string; period: string; hardLimit: number; spent: number };
+
+  constructor(message: string, provider: string, budget: LLMBudgetExceededError['budget']) {
+    super(message, provider, { statusCode: 402, retryable: false });
+    this.name = 'LLMBudgetExceededError';
+    this.budget = budget;
+  }
+}
+
+// The completion could not be parsed into the requested schema, even after re-asking
+export class LLMStructuredOutputError extends LLMProviderError {
+  issues: string[];
+  text: string;
+
+  constructor(message: string, provider: string, issues: string[], text: string) {
+    super(message, provider, { retryable: false, details: { issues, text } });
+    this.name = 'LLMStructuredOutputError';
+    this.issues = issues;
+    this.text = text;
+  }
+}
+
+// The caller aborted the request (client went away, task cancelled or timed out)
+export class LLMCancelledError extends LLMProviderError {
+  constructor(message: string, provider: string) {
+    super(message, provider, { retryable: false });
+    this.name = 'LLMCancelledError';
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Convert anything thrown by an HTTP call into the matching LLMProviderError subclass
+ */
+export function toProviderError(provider: string, error: unknown): LLMProviderError {
+  if (error instanceof LLMProviderError) {
+    return error;
+  }
+
+  if (axios.isCancel(error) || (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError'))) {
+    return new LLMCancelledError(`${provider} request was cancelled`, provider);
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const data = error.response?.data;
+    const apiMessage = (data && typeof data === 'object' && (data as any).error?.message) || error.message;
+
+    if (status === 401 || status === 403) {
+      return new LLMAuthenticationError(`${provider} rejected credentials: ${apiMessage}`, provider, status, data);
+    }
+    if (status === 429) {
+      const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after']);
+      return new LLMRateLimitError(`${provider} rate limit exceeded: ${apiMessage}`, provider, retryAfterMs, data);
+    }
+    if (status !== undefined) {
+      return new LLMResponseError(`${provider} returned status ${status}: ${apiMessage}`, provider, status, data);
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new LLMTimeoutError(`${provider} request timed out: ${error.message}`, provider);
+    }
+    return new LLMNetworkError(`${provider} is unreachable: ${error.message}`, provider);
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new LLMProviderError(`${provider} request failed: ${message}`, provider);
+}
@@ -1,11 +1,56 @@
 import { logger } from '../utils/logger';
-import axios from 'axios';
+import { storage } from '../storage';
+import { ActivityType } from '@shared/schema';
+import { providerRegistry, ProviderRegistry } from './providerRegistry';
+import type { ZodType, ZodTypeAny, ZodTypeDef } from 'zod';
+import { LLMCancelledError, LLMCircuitOpenError, LLMConfigurationError, LLMProviderError, LLMStructuredOutputError, toProviderError } from './llmErrors';
+import { FixtureStore, RecordingProvider, ReplayProvider, type FixtureMode } from './recordReplayProvider';
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitSnapshot } from './circuitBreaker';
+import { DEFAULT_RETRY_POLICY, computeBackoff, sleep, type RetryPolicy } from './retryPolicy';
+import { abortable } from '../utils/abort';
+import { usageLedger as defaultUsageLedger, UsageLedger, type LLMUsageContext } from './usageLedger';
+import { parseStructuredOutput, repairPrompt, structuredSystemPrompt } from './structuredOutput';
+import { SUMMARY_TOKEN_RESERVE, estimateTokens, formatTranscript, truncateHistory } from './conversationHistory';
+import { cacheEntryId, createCacheStoreFromEnvironment, measureEntry, type LLMCacheEntry, type LLMCacheEntryInfo, type LLMCacheStore } from './llmCacheStore';
 
+// Built-in providers; additional ones are registered by id in the provider registry
 export enum LLMProvider {
   GROQ = 'groq',
   PHIDATA = 'phidata'
 }
 
+export type LLMProviderId = LLMProvider | string;
+
+// Template a system prompt was rendered from (see PromptRegistry)
+export interface LLMPromptTemplateRef {
+  name: string;
+  version: number;
+}
+
+// A function the model may call, sent in the OpenAI tools format
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema of the arguments object
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON text, as produced by the model
+}
+
+// Turns that follow the prompt in a tool-calling exchange
+export type LLMToolMessage =
+  | { role: 'assistant'; content: string | null; toolCalls: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+// One turn of the conversation that precedes the prompt
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
 export interface LLMRequestParams {
   prompt: string;
   temperature?: number;
@@ -13,8 +58,21 @@ export interface LLMRequestParams {
   topP?: number;
   stopSequences?: string[];
   system?: string;
-  provider?: LLMProvider;
+  messages?: LLMMessage[]; // Earlier turns, sent between the system prompt and the prompt
+  // What to do with history that does not fit the context window (default 'truncate')
+  historyStrategy?: 'truncate' | 'summarize';
+  provider?: LLMProviderId;
+  model?: string; // Overrides the provider's configured model
+  agent?: string; // Agent type making the request; recorded on cache entries, not part of the key
+  usageContext?: LLMUsageContext; // Agent, project and task the call is charged to
+  promptTemplate?: LLMPromptTemplateRef; // Recorded with the usage; not part of the cache key
+  responseFormat?: 'text' | 'json'; // 'json' enables the provider's JSON mode where supported
+  schema?: ZodTypeAny; // Validate the completion as JSON against this schema (see callStructured)
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'none' | 'required';
+  toolMessages?: LLMToolMessage[]; // Earlier tool calls and their results, in order
   skipCache?: boolean; // Optional parameter to skip cache for this request
+  signal?: AbortSignal; // Cancels the request, including retries and fallbacks; not part of the cache key
 }
 
 export interface LLMResponse {
@@ -25,226 +83,1120 @@ export interface LLMResponse {
     totalTokens: number;
   };
   cached?: boolean; // Flag to indicate if response was from cache
+  provider?: string; // Provider that produced the response, after any fallback
+  model?: string;
+  data?: unknown; // Parsed and validated output of a schema request
+  toolCalls?: LLMToolCall[]; // Set when the model wants tools run before it answers
+}
+
+export interface LLMStructuredResponse<T> extends LLMResponse {
+  data: T;
 }
 
-interface CacheEntry {
-  response: LLMResponse;
-  timestamp: number;
+// One increment of a streamed completion; the final chunk carries the assembled response
+export interface LLMStreamChunk {
+  delta: string;
+  done: boolean;
+  response?: LLMResponse;
+}
+
+// Anything that can turn a request into a completion (GroqService, PhidataService, test doubles)
+export interface LLMProviderClient {
+  callLLM(params: LLMRequestParams): Promise<LLMResponse>;
+  // Optional; clients without it are streamed as a single chunk
+  streamLLM?(params: LLMRequestParams): AsyncIterable<LLMStreamChunk>;
+}
+
+export interface LLMServiceOptions {
+  registry?: ProviderRegistry;
+  // Per-provider client overrides, mainly for tests
+  clients?: Partial<Record<LLMProviderId, LLMProviderClient>>;
+  // Record completions to, or replay them from, a fixture file (see recordReplayProvider)
+  fixtures?: { mode: FixtureMode; filePath: string };
+  // Providers tried in order after the requested one fails
+  fallbackChain?: LLMFallbackTarget[];
+  retry?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  // Response cache backend; defaults to LLM_CACHE_STORE (in-memory unless set to "file")
+  cacheStore?: LLMCacheStore;
+  // Usage recording and budget enforcement; defaults to the shared ledger
+  usageLedger?: UsageLedger;
+  // How often a schema request is re-asked after an invalid answer (default 2)
+  maxRepairAttempts?: number;
+}
+
+export interface LLMFallbackTarget {
+  provider: LLMProviderId;
+  model?: string;
+}
+
+export interface LLMCircuitStatus extends CircuitSnapshot {
+  provider: LLMProviderId;
+}
+
+// Parses LLM_FALLBACK_CHAIN, e.g. "groq:llama-3.1-8b-instant,phidata,local"
+function parseFallbackChain(value: string | undefined): LLMFallbackTarget[] {
+  if (!value) {
+    return [];
+  }
+  
+  return value.split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      return separator === -1
+        ? { provider: entry }
+        : { provider: entry.substring(0, separator), model: entry.substring(separator + 1) };
+    });
+}
+
+interface ProviderCacheCounters {
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+}
+
+export interface LLMProviderCacheMetrics extends ProviderCacheCounters {
+  provider: string;
+  entries: number;
+  bytes: number;
+  hitRate: number;
+}
+
+export interface LLMCacheMetrics {
+  store: string;
+  size: number;
+  maxSize: number;
+  bytes: number;
+  maxBytes: number | null;
+  hitRate: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  providers: LLMProviderCacheMetrics[];
+}
+
+// A cache entry as listed in the cache browser; entries are addressed by id rather than by key
+export interface LLMCacheEntrySummary {
+  id: string;
+  provider: string;
+  model?: string;
+  agent?: string;
+  prompt: string;
+  system?: string;
+  createdAt: number;
   expiresAt: number;
+  lastAccessedAt: number;
+  hits: number;
+  pinned: boolean;
+  sizeBytes: number;
+}
+
+// Criteria for listing or invalidating cache entries; all given criteria must match
+export interface LLMCacheFilter {
+  ids?: string[];
+  search?: string; // Case-insensitive match on prompt, system prompt, agent or provider
+  promptPrefix?: string;
+  system?: string;
+  agent?: string;
+  provider?: string;
+}
+
+// Portable snapshot of the cache, for reproducing a session elsewhere
+export interface LLMCacheBundle {
+  version: 1;
+  exportedAt: string;
+  entries: LLMCacheEntry[];
+}
+
+const PREVIEW_LENGTH = 200;
+
+function preview(text: string): string {
+  return text.length > PREVIEW_LENGTH ? `${text.substring(0, PREVIEW_LENGTH)}...` : text;
+}
+
+// Cache keys are the JSON of the request fields (see generateCacheKey)
+function parseCacheKey(key: string): { prompt: string; system?: string; model?: string } {
+  try {
+    const parsed = JSON.parse(key);
+    return { prompt: String(parsed.prompt ?? ''), system: parsed.system, model: parsed.model };
+  } catch (error) {
+    return { prompt: key };
+  }
+}
+
+function matchesCacheFilter(entry: LLMCacheEntryInfo, filter: LLMCacheFilter): boolean {
+  const request = parseCacheKey(entry.key);
+  
+  if (filter.ids && filter.ids.indexOf(cacheEntryId(entry.key)) === -1) return false;
+  if (filter.promptPrefix !== undefined && !request.prompt.startsWith(filter.promptPrefix)) return false;
+  if (filter.system !== undefined && (request.system || '') !== filter.system) return false;
+  if (filter.agent !== undefined && entry.agent !== filter.agent) return false;
+  if (filter.provider !== undefined && entry.provider !== filter.provider) return false;
+  
+  if (filter.search) {
+    const needle = filter.search.toLowerCase();
+    const haystack = [request.prompt, request.system || '', entry.agent || '', entry.provider];
+    if (!haystack.some(value => value.toLowerCase().indexOf(needle) !== -1)) return false;
+  }
+  
+  return true;
 }
 
 export class LLMService {
-  private defaultProvider: LLMProvider;
-  private cache: Map<string, CacheEntry>;
+  private defaultProvider: LLMProviderId;
+  private cacheStore: LLMCacheStore;
   private cacheTTL: number; // Time-to-live in milliseconds
   private maxCacheSize: number;
-  private cacheHits: number;
-  private cacheMisses: number;
+  private maxCacheBytes?: number;
+  private cacheCounters: Map<string, ProviderCacheCounters>;
   private requestsInFlight: Map<string, Promise<LLMResponse>>;
+  private registry: ProviderRegistry;
+  private clientOverrides: Partial<Record<LLMProviderId, LLMProviderClient>>;
+  private fixtureMode?: FixtureMode;
+  private fixtureStore?: FixtureStore;
+  private fallbackChain: LLMFallbackTarget[];
+  private retryPolicy: RetryPolicy;
+  private circuitOptions: Partial<CircuitBreakerOptions>;
+  private circuits: Map<string, CircuitBreaker>;
+  private usageLedger: UsageLedger;
+  private maxRepairAttempts: number;
 
-  constructor() {
-    this.defaultProvider = process.env.GROQ_API_KEY 
-      ? LLMProvider.GROQ 
-      : (process.env.PHIDATA_API_KEY ? LLMProvider.PHIDATA : LLMProvider.GROQ);
-    this.cache = new Map();
+  constructor(options: LLMServiceOptions = {}) {
+    this.registry = options.registry || providerRegistry;
+    this.clientOverrides = options.clients || {};
+    this.defaultProvider = this.selectInitialProvider();
+    this.cacheStore = options.cacheStore || createCacheStoreFromEnvironment();
     this.cacheTTL = 5 * 60 * 1000; // Default 5 minutes
     this.maxCacheSize = 100; // Default 100 entries
-    this.cacheHits = 0;
-    this.cacheMisses = 0;
+    this.maxCacheBytes = process.env.LLM_CACHE_MAX_BYTES ? parseInt(process.env.LLM_CACHE_MAX_BYTES, 10) : undefined;
+    this.cacheCounters = new Map();
     this.requestsInFlight = new Map();
+    this.fallbackChain = options.fallbackChain || parseFallbackChain(process.env.LLM_FALLBACK_CHAIN);
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.circuitOptions = options.circuitBreaker || {};
+    this.circuits = new Map();
+    this.usageLedger = options.usageLedger || defaultUsageLedger;
+    this.maxRepairAttempts = options.maxRepairAttempts ?? 2;
+    
+    const fixtureMode = process.env.LLM_FIXTURE_MODE;
+    const fixtures = options.fixtures || (
+      (fixtureMode === 'record' || fixtureMode === 'replay') && process.env.LLM_FIXTURE_FILE
+        ? { mode: fixtureMode, filePath: process.env.LLM_FIXTURE_FILE }
+        : undefined
+    );
+    if (fixtures) {
+      this.useFixtures(fixtures.mode, fixtures.filePath);
+    }
     
     // Run periodic cache cleanup
-    setInterval(() => this.pruneCache(), 60000); // Clean every minute
+    setInterval(() => this.schedulePrune(), 60000).unref(); // Clean every minute
     
     logger.info(`LLM Service initialized with default provider: ${this.defaultProvider}`);
   }
 
+  // DEFAULT_LLM_PROVIDER wins if registered, then the first provider that is usable as configured
+  private selectInitialProvider(): LLMProviderId {
+    const requested = process.env.DEFAULT_LLM_PROVIDER;
+    if (requested && this.registry.has(requested)) {
+      return requested;
+    }
+    
+    const configured = this.registry.list().find(provider => provider.configured);
+    return configured ? configured.id : LLMProvider.GROQ;
+  }
+
+  private getClient(provider: LLMProviderId): LLMProviderClient | undefined {
+    return this.clientOverrides[provider] || this.registry.getClient(provider);
+  }
+
+  // Resolves the client for a request, routing through the fixture store when enabled
+  private resolveClient(provider: LLMProviderId): LLMProviderClient | undefined {
+    if (this.fixtureStore && this.fixtureMode === 'replay') {
+      return new ReplayProvider(this.fixtureStore);
+    }
+    
+    const client = this.getClient(provider);
+    if (client && this.fixtureStore && this.fixtureMode === 'record') {
+      return new RecordingProvider(client, this.fixtureStore);
+    }
+    
+    return client;
+  }
+
   private generateCacheKey(params: LLMRequestParams): string {
     // Create a deterministic key based on request parameters
-    const { prompt, temperature = 0.7, maxTokens, topP, stopSequences, system, provider } = params;
+    const {
+      prompt, temperature = 0.7, maxTokens, topP, stopSequences, system, messages, historyStrategy,
+      provider, model, responseFormat, tools, toolChoice, toolMessages
+    } = params;
     
+    // The full history is part of the key, before any truncation
     const key = JSON.stringify({
+      messages,
+      historyStrategy,
       prompt,
       temperature,
       maxTokens,
       topP,
       stopSequences,
       system,
-      provider: provider || this.defaultProvider
+      provider: provider || this.defaultProvider,
+      model,
+      responseFormat,
+      tools,
+      toolChoice,
+      toolMessages
     });
     
     return key;
   }
 
-  private pruneCache(): void {
-    const now = Date.now();
-    let expiredCount = 0;
+  private counters(provider: string): ProviderCacheCounters {
+    let counters = this.cacheCounters.get(provider);
+    if (!counters) {
+      counters = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+      this.cacheCounters.set(provider, counters);
+    }
+    return counters;
+  }
+
+  // Removes expired entries, then least recently used ones beyond the size limits
+  private async pruneCache(): Promise<void> {
+    const { expired, evicted } = await this.cacheStore.evict(Date.now(), {
+      maxEntries: this.maxCacheSize,
+      maxBytes: this.maxCacheBytes
+    });
     
-    // Remove expired entries
-    for (const [key, entry] of this.cache.entries()) {
-      if (entry.expiresAt < now) {
-        this.cache.delete(key);
-        expiredCount++;
-      }
+    expired.forEach(entry => this.counters(entry.provider).expirations++);
+    evicted.forEach(entry => this.counters(entry.provider).evictions++);
+    
+    if (expired.length > 0 || evicted.length > 0) {
+      logger.debug(`Pruned cache: ${expired.length} expired entries and ${evicted.length} least recently used entries removed`);
     }
+  }
+
+  private schedulePrune(): void {
+    this.pruneCache().catch(error => {
+      logger.error(`Error pruning LLM cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+
+  private async readCache(cacheKey: string, provider: string, params: LLMRequestParams): Promise<LLMResponse | undefined> {
+    const entry = await this.cacheStore.get(cacheKey);
     
-    // If still over max size, remove oldest entries
-    if (this.cache.size > this.maxCacheSize) {
-      const entriesToDelete = this.cache.size - this.maxCacheSize;
-      const entries = Array.from(this.cache.entries())
-        .sort((a, b) => a[1].timestamp - b[1].timestamp)
-        .slice(0, entriesToDelete);
+    if (entry && (entry.pinned || entry.expiresAt > Date.now())) {
+      this.counters(provider).hits++;
+      logger.debug(`LLM cache hit: ${params.prompt.substring(0, 30)}...`);
       
-      for (const [key] of entries) {
-        this.cache.delete(key);
-      }
+      await this.cacheStore.update(cacheKey, { hits: (entry.hits || 0) + 1, lastAccessedAt: Date.now() })
+        .catch(error => logger.warn(`Failed to record LLM cache hit: ${error instanceof Error ? error.message : 'Unknown error'}`));
       
-      logger.debug(`Pruned cache: ${expiredCount} expired entries and ${entriesToDelete} oldest entries removed`);
-    } else if (expiredCount > 0) {
-      logger.debug(`Pruned cache: ${expiredCount} expired entries removed`);
+      // Return cached response with cached flag
+      return {
+        ...entry.response,
+        cached: true
+      };
+    }
+    
+    if (entry) {
+      await this.cacheStore.delete(cacheKey);
+      this.counters(provider).expirations++;
+    }
+    
+    this.counters(provider).misses++;
+    return undefined;
+  }
+
+  // A failing cache backend must not fail the request that produced the response
+  private async writeCache(cacheKey: string, provider: string, params: LLMRequestParams, response: LLMResponse): Promise<void> {
+    try {
+      const now = Date.now();
+      await this.cacheStore.set({
+        key: cacheKey,
+        provider,
+        agent: params.agent,
+        response,
+        createdAt: now,
+        expiresAt: now + this.cacheTTL,
+        lastAccessedAt: now,
+        hits: 0,
+        pinned: false,
+        sizeBytes: measureEntry(cacheKey, response)
+      });
+      
+      // Prune cache if needed
+      const overBytes = this.maxCacheBytes !== undefined && this.cacheStore.bytes > this.maxCacheBytes;
+      if (this.cacheStore.size > this.maxCacheSize || overBytes) {
+        await this.pruneCache();
+      }
+    } catch (error) {
+      logger.warn(`Failed to cache LLM response: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   async callLLM(params: LLMRequestParams): Promise<LLMResponse> {
+    if (params.schema) {
+      return this.callStructured({ ...params, schema: params.schema });
+    }
+    this.throwIfCancelled(params);
+    
     // Skip cache if explicitly requested
     if (params.skipCache) {
-      return this._fetchFromProvider(params);
+      const request = await this.fitToContextWindow(params);
+      await this.enforceBudget(request);
+      const response = await this._fetchFromProvider(request);
+      await this.recordUsage(params, response);
+      return response;
     }
     
     const cacheKey = this.generateCacheKey(params);
+    const provider = String(params.provider || this.defaultProvider);
     
-    // Check if we have a cached response
-    const cachedEntry = this.cache.get(cacheKey);
-    if (cachedEntry && cachedEntry.expiresAt > Date.now()) {
-      this.cacheHits++;
-      logger.debug(`LLM cache hit: ${params.prompt.substring(0, 30)}...`);
+    // If there's already a request in flight for this key, wait for it
+    const inFlight = this.requestsInFlight.get(cacheKey);
+    if (inFlight) {
+      logger.debug(`Reusing in-flight LLM request: ${params.prompt.substring(0, 30)}...`);
+      return this.untilCancelled(inFlight, params);
+    }
+    
+    // Registered before the (possibly remote) cache lookup so concurrent callers share it
+    const requestPromise = (async () => {
+      const cached = await this.readCache(cacheKey, provider, params);
+      if (cached) {
+        await this.recordUsage(params, cached);
+        return cached;
+      }
       
-      // Return cached response with cached flag
-      return {
-        ...cachedEntry.response,
-        cached: true
-      };
+      const request = await this.fitToContextWindow(params);
+      await this.enforceBudget(request);
+      const response = await this._fetchFromProvider(request);
+      await this.writeCache(cacheKey, provider, params, response);
+      await this.recordUsage(params, response);
+      return response;
+    })().finally(() => {
+      // Remove from in-flight requests whether it succeeded or not
+      if (this.requestsInFlight.get(cacheKey) === requestPromise) {
+        this.requestsInFlight.delete(cacheKey);
+      }
+    });
+    
+    // Store the promise for potential reuse; a cancellable request is not shared,
+    // since aborting it would fail every caller waiting on it
+    if (!params.signal) {
+      this.requestsInFlight.set(cacheKey, requestPromise);
     }
     
-    // If there's already a request in flight for this key, wait for it
-    if (this.requestsInFlight.has(cacheKey)) {
-      logger.debug(`Reusing in-flight LLM request: ${params.prompt.substring(0, 30)}...`);
-      return this.requestsInFlight.get(cacheKey)!;
-    }
-    
-    // Record cache miss
-    this.cacheMisses++;
-    
-    // Create a new request and store the promise
-    const requestPromise = this._fetchFromProvider(params)
-      .then(response => {
-        // Cache the response
-        const now = Date.now();
-        this.cache.set(cacheKey, {
-          response,
-          timestamp: now,
-          expiresAt: now + this.cacheTTL
-        });
+    return requestPromise;
+  }
+
+  /**
+   * Streaming variant of callLLM. Cache hits and requests already in flight are
+   * replayed as a single chunk; a fresh request is registered in requestsInFlight
+   * so concurrent callers share it, and is cached once the stream completes.
+   */
+  async *streamLLM(params: LLMRequestParams): AsyncGenerator<LLMStreamChunk> {
+    // Partial JSON is of no use to the caller, so schema requests arrive in one piece
+    if (params.schema) {
+      const response = await this.callStructured({ ...params, schema: params.schema });
+      yield { delta: response.text, done: true, response };
+      return;
+    }
+    this.throwIfCancelled(params);
+    
+    const cacheKey = params.skipCache ? null : this.generateCacheKey(params);
+    const provider = String(params.provider || this.defaultProvider);
+    
+    if (cacheKey) {
+      const inFlight = this.requestsInFlight.get(cacheKey);
+      if (inFlight) {
+        logger.debug(`Reusing in-flight LLM request (stream): ${params.prompt.substring(0, 30)}...`);
         
-        // Prune cache if needed
-        if (this.cache.size > this.maxCacheSize) {
-          this.pruneCache();
+        const response = await this.untilCancelled(inFlight, params);
+        yield { delta: response.text, done: true, response };
+        return;
+      }
+    }
+    
+    // Expose the stream's eventual result to concurrent callLLM/streamLLM callers
+    let settle: { resolve: (response: LLMResponse) => void; reject: (error: unknown) => void } | undefined;
+    const completion = new Promise<LLMResponse>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+    completion.catch(() => undefined); // Waiters see the rejection; no waiters is not an error
+    
+    if (cacheKey && !params.signal) {
+      this.requestsInFlight.set(cacheKey, completion);
+    }
+    
+    let settled = false;
+    try {
+      if (cacheKey) {
+        const cached = await this.readCache(cacheKey, provider, params);
+        if (cached) {
+          await this.recordUsage(params, cached);
+          settled = true;
+          settle!.resolve(cached);
+          yield { delta: cached.text, done: true, response: cached };
+          return;
         }
+      }
+      
+      const request = await this.fitToContextWindow(params);
+      await this.enforceBudget(request);
+      
+      let text = '';
+      let response: LLMResponse | undefined;
+      
+      for await (const chunk of this._streamFromProvider(request)) {
+        if (chunk.done) {
+          response = chunk.response;
+        }
+        text += chunk.delta;
         
-        // Remove from in-flight requests
-        this.requestsInFlight.delete(cacheKey);
-        
-        return response;
-      })
-      .catch(error => {
-        // Remove from in-flight requests on error too
-        this.requestsInFlight.delete(cacheKey);
-        throw error;
+        if (!chunk.done) {
+          yield chunk;
+        }
+      }
+      
+      const finalResponse = this.normalizeResponse(response || {
+        text,
+        usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 }
       });
+      
+      if (cacheKey) {
+        await this.writeCache(cacheKey, provider, params, finalResponse);
+      }
+      await this.recordUsage(params, finalResponse);
+      
+      settled = true;
+      settle!.resolve(finalResponse);
+      yield { delta: '', done: true, response: finalResponse };
+    } catch (error) {
+      settled = true;
+      settle!.reject(error);
+      throw error;
+    } finally {
+      if (cacheKey && this.requestsInFlight.get(cacheKey) === completion) {
+        this.requestsInFlight.delete(cacheKey);
+      }
+      
+      // The consumer stopped iterating before the provider finished
+      if (!settled) {
+        settle!.reject(new LLMProviderError('LLM stream was closed before completion', String(params.provider || this.defaultProvider)));
+      }
+    }
+  }
+
+  /**
+   * Requests JSON matching `schema` and returns it parsed and validated as `data`.
+   * The schema is described in the system prompt and the provider's JSON mode is
+   * used where available. Answers that still fail validation are dropped from the
+   * cache and re-asked with the validation errors, up to maxRepairAttempts times;
+   * token usage covers every attempt.
+   */
+  async callStructured<T>(params: LLMRequestParams & { schema: ZodType<T, ZodTypeDef, any> }): Promise<LLMStructuredResponse<T>> {
+    const { schema, ...rest } = params;
+    const request: LLMRequestParams = {
+      ...rest,
+      system: structuredSystemPrompt(schema, params.system),
+      responseFormat: 'json'
+    };
+    const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
     
-    // Store the promise for potential reuse
-    this.requestsInFlight.set(cacheKey, requestPromise);
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.callLLM(request);
+      usage.inputTokens += response.usage.inputTokens;
+      usage.outputTokens += response.usage.outputTokens;
+      usage.totalTokens += response.usage.totalTokens;
+      
+      const result = parseStructuredOutput(response.text, schema);
+      if (result.success) {
+        return { ...response, usage, data: result.data };
+      }
+      
+      const provider = response.provider || String(request.provider || this.defaultProvider);
+      if (!request.skipCache) {
+        await this.cacheStore.delete(this.generateCacheKey(request));
+      }
+      
+      if (attempt >= this.maxRepairAttempts) {
+        throw new LLMStructuredOutputError(
+          `${provider} did not return valid structured output after ${attempt + 1} attempts: ${result.issues[0]}`,
+          provider,
+          result.issues,
+          response.text
+        );
+      }
+      
+      logger.warn(`Re-asking ${provider} for valid structured output (attempt ${attempt + 2}/${this.maxRepairAttempts + 1}): ${result.issues.join('; ')}`);
+      request.prompt = repairPrompt(params.prompt, response.text, result.issues);
+    }
+  }
+
+  private async *_streamFromProvider(params: LLMRequestParams): AsyncGenerator<LLMStreamChunk> {
+    // Fallback and retries only apply until the first chunk arrives; tokens
+    // already forwarded to the caller cannot be taken back
+    const { target, model, iterator, first } = await this.runWithFallback(params, async (attemptParams) => {
+      const iterator = this.streamFromTarget(attemptParams)[Symbol.asyncIterator]();
+      const first = await iterator.next();
+      return { target: attemptParams.provider!, model: this.resolveModel(attemptParams), iterator, first };
+    });
     
-    return requestPromise;
+    try {
+      let next = first;
+      while (!next.done) {
+        const chunk = next.value;
+        yield chunk.done && chunk.response
+          ? { ...chunk, response: { ...chunk.response, provider: target, model } }
+          : chunk;
+        this.throwIfCancelled(params);
+        next = await iterator.next();
+      }
+    } catch (error) {
+      const providerError = params.signal?.aborted ? this.cancelledError(target) : toProviderError(target, error);
+      if (providerError.retryable) {
+        this.getCircuit(target).recordFailure(providerError.message);
+      }
+      throw providerError;
+    } finally {
+      if (iterator.return) {
+        await iterator.return(undefined);
+      }
+    }
   }
 
-  private async _fetchFromProvider(params: LLMRequestParams): Promise<LLMResponse> {
-    const provider = params.provider || this.defaultProvider;
+  private async *streamFromTarget(params: LLMRequestParams): AsyncGenerator<LLMStreamChunk> {
+    const provider = params.provider!;
     
     try {
-      logger.debug(`Fetching LLM response from ${provider}: ${params.prompt.substring(0, 30)}...`);
-      
-      // Choose the appropriate provider
-      switch (provider) {
-        case LLMProvider.GROQ:
-          // TODO: Implement Groq API
-          // Use Groq's client to make the request
-          return {
-            text: `Response from Groq (${params.prompt.substring(0, 20)}...)`,
-            usage: {
-              inputTokens: params.prompt.length / 4,  // Approximation
-              outputTokens: 50,  // Placeholder
-              totalTokens: params.prompt.length / 4 + 50
-            }
-          };
+      logger.debug(`Streaming LLM response from ${provider}: ${params.prompt.substring(0, 30)}...`);
+      
+      const client = this.resolveClient(provider);
+      if (!client) {
+        throw new LLMConfigurationError(`Unsupported LLM provider: ${provider}`, provider);
+      }
+      
+      if (!client.streamLLM) {
+        const response = await client.callLLM(params);
+        yield { delta: response.text, done: false };
+        yield { delta: '', done: true, response };
+        return;
+      }
+      
+      yield* client.streamLLM(params);
+    } catch (error) {
+      logger.error(`Error streaming from LLM provider ${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toProviderError(provider, error);
+    }
+  }
+
+  // The requested provider followed by the configured fallback chain, without duplicates
+  private getFallbackTargets(params: LLMRequestParams): LLMFallbackTarget[] {
+    const targets: LLMFallbackTarget[] = [{ provider: params.provider || this.defaultProvider, model: params.model }];
+    
+    this.fallbackChain.forEach(candidate => {
+      if (!targets.some(target => target.provider === candidate.provider && target.model === candidate.model)) {
+        targets.push(candidate);
+      }
+    });
+    
+    return targets;
+  }
+
+  private getCircuit(provider: LLMProviderId): CircuitBreaker {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = new CircuitBreaker(this.circuitOptions);
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * Runs `attempt` against each fallback target in turn. Each target is guarded by its
+   * circuit breaker and retried with backoff while its failures are retryable.
+   */
+  private async runWithFallback<T>(
+    params: LLMRequestParams,
+    attempt: (params: LLMRequestParams) => Promise<T>
+  ): Promise<T> {
+    const targets = this.getFallbackTargets(params);
+    let lastError: LLMProviderError | undefined;
+    
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+      
+      try {
+        return await this.runWithRetries(target, () => attempt({ ...params, provider: target.provider, model: target.model }), params.signal);
+      } catch (error) {
+        lastError = toProviderError(target.provider, error);
+        
+        // A cancelled request is not retried elsewhere
+        if (lastError instanceof LLMCancelledError) {
+          throw lastError;
+        }
         
-        case LLMProvider.PHIDATA:
-          // TODO: Implement Phidata API
-          // Use Phidata's client to make the request
-          return {
-            text: `Response from Phidata (${params.prompt.substring(0, 20)}...)`,
-            usage: {
-              inputTokens: params.prompt.length / 4,  // Approximation
-              outputTokens: 50,  // Placeholder
-              totalTokens: params.prompt.length / 4 + 50
-            }
-          };
-          
-        default:
-          throw new Error(`Unsupported LLM provider: ${provider}`);
+        if (i < targets.length - 1) {
+          await this.logFallback(target, targets[i + 1], lastError);
+        }
       }
+    }
+    
+    throw lastError!;
+  }
+
+  private async runWithRetries<T>(target: LLMFallbackTarget, attempt: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const circuit = this.getCircuit(target.provider);
+    
+    for (let retry = 0; ; retry++) {
+      if (signal?.aborted) {
+        throw this.cancelledError(target.provider);
+      }
+      if (!circuit.allowRequest()) {
+        throw new LLMCircuitOpenError(target.provider, circuit.getSnapshot().retryAt ?? undefined);
+      }
+      
+      try {
+        const result = await attempt();
+        circuit.recordSuccess();
+        return result;
+      } catch (error) {
+        // Whatever the abort surfaced as (a reset socket, a cancelled axios request), it was ours
+        const providerError = signal?.aborted ? this.cancelledError(target.provider) : toProviderError(target.provider, error);
+        
+        // Only transient failures say anything about the provider's health
+        if (providerError.retryable) {
+          circuit.recordFailure(providerError.message);
+        } else {
+          circuit.release();
+        }
+        
+        if (!providerError.retryable || retry >= this.retryPolicy.maxRetries) {
+          throw providerError;
+        }
+        
+        const delay = computeBackoff(retry, this.retryPolicy, providerError);
+        logger.warn(`Retrying ${target.provider} in ${delay}ms (attempt ${retry + 2}/${this.retryPolicy.maxRetries + 1}): ${providerError.message}`);
+        try {
+          await sleep(delay, signal);
+        } catch (abortError) {
+          throw this.cancelledError(target.provider);
+        }
+      }
+    }
+  }
+
+  private async logFallback(from: LLMFallbackTarget, to: LLMFallbackTarget, error: LLMProviderError): Promise<void> {
+    const describe = (target: LLMFallbackTarget) => target.model ? `${target.provider} (${target.model})` : target.provider;
+    const description = `LLM fallback from ${describe(from)} to ${describe(to)}: ${error.message}`;
+    
+    logger.warn(description);
+    
+    try {
+      await storage.createSystemActivity({
+        type: ActivityType.API_CALL,
+        description,
+        metadata: {
+          from,
+          to,
+          reason: error.name,
+          statusCode: error.statusCode,
+          retryable: error.retryable
+        }
+      });
+    } catch (activityError) {
+      logger.error(`Failed to record LLM fallback activity: ${activityError instanceof Error ? activityError.message : 'Unknown error'}`);
+    }
+  }
+
+  // Some OpenAI-compatible servers omit the total, so derive it from the parts
+  private normalizeResponse(response: LLMResponse): LLMResponse {
+    return {
+      text: response.text,
+      usage: {
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        totalTokens: response.usage.totalTokens || response.usage.inputTokens + response.usage.outputTokens
+      },
+      provider: response.provider,
+      model: response.model,
+      data: response.data,
+      toolCalls: response.toolCalls
+    };
+  }
+
+  private resolveModel(params: LLMRequestParams): string | undefined {
+    return params.model || this.registry.get(String(params.provider || this.defaultProvider))?.model;
+  }
+
+  /**
+   * Shortens the history of a request that would not fit the smallest context
+   * window among its fallback targets. Dropped turns are either discarded or,
+   * with historyStrategy 'summarize', replaced by an LLM-written summary.
+   */
+  private async fitToContextWindow(params: LLMRequestParams): Promise<LLMRequestParams> {
+    if (!params.messages || params.messages.length === 0) {
+      return params;
+    }
+    
+    const windows = this.getFallbackTargets(params)
+      .map(target => this.registry.get(String(target.provider))?.contextWindow)
+      .filter((window): window is number => window !== undefined);
+    if (windows.length === 0) {
+      return params;
+    }
+    
+    const contextWindow = Math.min.apply(null, windows);
+    const summarize = params.historyStrategy === 'summarize';
+    const { messages, dropped } = truncateHistory(params, contextWindow, summarize ? SUMMARY_TOKEN_RESERVE : 0);
+    if (dropped.length === 0) {
+      return params;
+    }
+    
+    logger.debug(`Dropped ${dropped.length} history messages to fit a context window of ${contextWindow} tokens`);
+    if (!summarize) {
+      return { ...params, messages };
+    }
+    
+    const summary = await this.summarizeHistory(dropped, params, contextWindow);
+    return {
+      ...params,
+      messages: [{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` }, ...messages]
+    };
+  }
+  
+  private async summarizeHistory(dropped: LLMMessage[], params: LLMRequestParams, contextWindow: number): Promise<string> {
+    // Keep the most recent part of very long histories so the summary request fits too
+    const maxLength = (contextWindow - SUMMARY_TOKEN_RESERVE - estimateTokens(params.system)) * 3;
+    const transcript = formatTranscript(dropped);
+    
+    const response = await this.callLLM({
+      prompt: transcript.length > maxLength ? transcript.substring(transcript.length - maxLength) : transcript,
+      system: 'Summarize this conversation in a few short paragraphs. Keep decisions, facts, requirements and open questions; leave out pleasantries.',
+      provider: params.provider,
+      model: params.model,
+      temperature: 0.2,
+      maxTokens: SUMMARY_TOKEN_RESERVE,
+      agent: params.agent,
+      usageContext: params.usageContext,
+      signal: params.signal
+    });
+    
+    return response.text;
+  }
+
+  private cancelledError(provider: LLMProviderId): LLMCancelledError {
+    return new LLMCancelledError(`${provider} request was cancelled`, String(provider));
+  }
+  
+  private throwIfCancelled(params: LLMRequestParams): void {
+    if (params.signal?.aborted) {
+      throw this.cancelledError(params.provider || this.defaultProvider);
+    }
+  }
+  
+  // Waits for a shared request unless this caller's signal aborts first
+  private async untilCancelled<T>(promise: Promise<T>, params: LLMRequestParams): Promise<T> {
+    try {
+      return await abortable(promise, params.signal);
     } catch (error) {
-      logger.error(`Error calling LLM provider ${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+      throw params.signal?.aborted ? this.cancelledError(params.provider || this.defaultProvider) : error;
     }
   }
 
-  clearCache(): void {
-    this.cache.clear();
-    this.cacheHits = 0;
-    this.cacheMisses = 0;
+  // Rejects with LLMBudgetExceededError before any provider is contacted
+  private async enforceBudget(params: LLMRequestParams): Promise<void> {
+    await this.usageLedger.enforce({ ...params, provider: String(params.provider || this.defaultProvider) });
+  }
+
+  // A failing ledger must not fail the request that produced the response
+  private async recordUsage(params: LLMRequestParams, response: LLMResponse): Promise<void> {
+    try {
+      await this.usageLedger.record({
+        provider: response.provider || String(params.provider || this.defaultProvider),
+        model: response.model,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        totalTokens: response.usage.totalTokens,
+        cached: response.cached,
+        context: params.usageContext,
+        promptTemplate: params.promptTemplate
+      });
+    } catch (error) {
+      logger.warn(`Failed to record LLM usage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async _fetchFromProvider(params: LLMRequestParams): Promise<LLMResponse> {
+    return this.runWithFallback(params, async (attemptParams) => {
+      const provider = attemptParams.provider!;
+      
+      try {
+        logger.debug(`Fetching LLM response from ${provider}: ${params.prompt.substring(0, 30)}...`);
+        
+        // Choose the appropriate provider client
+        const client = this.resolveClient(provider);
+        if (!client) {
+          throw new LLMConfigurationError(`Unsupported LLM provider: ${provider}`, provider);
+        }
+        
+        // Clients that ignore the signal are still abandoned when it aborts
+        const response = await abortable(client.callLLM(attemptParams), attemptParams.signal);
+        return this.normalizeResponse({ ...response, provider, model: this.resolveModel(attemptParams) });
+      } catch (error) {
+        logger.error(`Error calling LLM provider ${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        throw toProviderError(provider, error);
+      }
+    });
+  }
+
+  setFallbackChain(chain: LLMFallbackTarget[]): void {
+    chain.forEach(target => {
+      if (!this.getClient(target.provider)) {
+        throw new LLMConfigurationError(`Unknown LLM provider: ${target.provider}`, target.provider);
+      }
+    });
+    
+    this.fallbackChain = chain;
+    logger.info(`LLM fallback chain set to: ${chain.map(target => target.model ? `${target.provider}:${target.model}` : target.provider).join(', ') || '(none)'}`);
+  }
+  
+  getFallbackChain(): LLMFallbackTarget[] {
+    return this.fallbackChain.slice();
+  }
+  
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+  
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
+  }
+  
+  // Circuit state for every registered provider and any provider that has been called
+  getCircuitStatuses(): LLMCircuitStatus[] {
+    const providers = this.registry.list().map(provider => provider.id);
+    Array.from(this.circuits.keys()).forEach(provider => {
+      if (providers.indexOf(provider) === -1) {
+        providers.push(provider);
+      }
+    });
+    
+    return providers.map(provider => ({
+      provider,
+      ...this.getCircuit(provider).getSnapshot()
+    }));
+  }
+  
+  resetCircuit(provider: LLMProviderId): void {
+    this.getCircuit(provider).reset();
+    logger.info(`Circuit breaker reset for LLM provider: ${provider}`);
+  }
+
+  useFixtures(mode: FixtureMode, filePath: string): void {
+    this.fixtureMode = mode;
+    this.fixtureStore = new FixtureStore(filePath);
+    
+    // Cached responses would bypass the fixture store entirely
+    this.clearCache().catch(error => {
+      logger.error(`Error clearing LLM cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+    logger.info(`LLM fixtures enabled: ${mode} ${this.fixtureStore.filePath} (${this.fixtureStore.size} recorded)`);
+  }
+  
+  disableFixtures(): void {
+    this.fixtureMode = undefined;
+    this.fixtureStore = undefined;
+    this.clearCache().catch(error => {
+      logger.error(`Error clearing LLM cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+  
+  getFixtureMode(): FixtureMode | undefined {
+    return this.fixtureMode;
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cacheStore.clear();
+    this.cacheCounters.clear();
     logger.info('LLM cache cleared');
   }
   
-  setCacheSettings(ttlInSeconds: number, maxSize?: number): void {
+  private summarizeCacheEntry(entry: LLMCacheEntryInfo): LLMCacheEntrySummary {
+    const request = parseCacheKey(entry.key);
+    
+    return {
+      id: cacheEntryId(entry.key),
+      provider: entry.provider,
+      model: request.model,
+      agent: entry.agent,
+      prompt: preview(request.prompt),
+      system: request.system !== undefined ? preview(request.system) : undefined,
+      createdAt: entry.createdAt,
+      expiresAt: entry.expiresAt,
+      lastAccessedAt: entry.lastAccessedAt || entry.createdAt,
+      hits: entry.hits || 0,
+      pinned: !!entry.pinned,
+      sizeBytes: entry.sizeBytes
+    };
+  }
+  
+  // Most recently used first
+  listCacheEntries(filter: LLMCacheFilter = {}): LLMCacheEntrySummary[] {
+    return this.cacheStore.list()
+      .filter(entry => matchesCacheFilter(entry, filter))
+      .reverse()
+      .map(entry => this.summarizeCacheEntry(entry));
+  }
+  
+  // Returns the number of entries removed
+  async invalidateCache(filter: LLMCacheFilter): Promise<number> {
+    const matching = this.cacheStore.list().filter(entry => matchesCacheFilter(entry, filter));
+    const deleted = await Promise.all(matching.map(entry => this.cacheStore.delete(entry.key)));
+    const count = deleted.filter(Boolean).length;
+    
+    logger.info(`LLM cache invalidated: ${count} entries removed`);
+    return count;
+  }
+  
+  // Pinned entries never expire and are skipped by LRU eviction
+  async pinCacheEntry(id: string, pinned: boolean): Promise<LLMCacheEntrySummary | undefined> {
+    const entry = this.cacheStore.list().find(info => cacheEntryId(info.key) === id);
+    if (!entry) {
+      return undefined;
+    }
+    
+    // An unpinned entry gets a fresh TTL rather than expiring immediately
+    const updated = await this.cacheStore.update(entry.key, pinned
+      ? { pinned }
+      : { pinned, expiresAt: Math.max(entry.expiresAt, Date.now() + this.cacheTTL) });
+    
+    return updated ? this.summarizeCacheEntry(updated) : undefined;
+  }
+  
+  async exportCache(): Promise<LLMCacheBundle> {
+    const entries: LLMCacheEntry[] = [];
+    
+    for (const info of this.cacheStore.list()) {
+      const entry = await this.cacheStore.peek(info.key);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    
+    return { version: 1, exportedAt: new Date().toISOString(), entries };
+  }
+  
+  /**
+   * Loads entries from an exported bundle, keeping their LRU order. Unpinned
+   * entries get a fresh TTL so a replayed session is not lost to expiry.
+   */
+  async importCache(bundle: LLMCacheBundle, options: { replace?: boolean } = {}): Promise<{ imported: number; skipped: number }> {
+    if (options.replace) {
+      await this.clearCache();
+    }
+    
+    const now = Date.now();
+    let imported = 0;
+    let skipped = 0;
+    
+    for (const entry of bundle.entries) {
+      if (!options.replace && await this.cacheStore.peek(entry.key)) {
+        skipped++;
+        continue;
+      }
+      
+      await this.cacheStore.set({
+        ...entry,
+        expiresAt: entry.pinned ? entry.expiresAt : now + this.cacheTTL,
+        lastAccessedAt: entry.lastAccessedAt || entry.createdAt,
+        hits: entry.hits || 0,
+        pinned: !!entry.pinned,
+        sizeBytes: measureEntry(entry.key, entry.response)
+      });
+      imported++;
+    }
+    
+    await this.pruneCache();
+    logger.info(`LLM cache import: ${imported} entries imported, ${skipped} skipped`);
+    
+    return { imported, skipped };
+  }
+  
+  setCacheSettings(ttlInSeconds: number, maxSize?: number, maxBytes?: number | null): void {
     this.cacheTTL = ttlInSeconds * 1000;
     
     if (maxSize !== undefined) {
       this.maxCacheSize = maxSize;
     }
     
-    logger.info(`LLM cache settings updated: TTL=${ttlInSeconds}s, maxSize=${this.maxCacheSize}`);
+    // null removes the byte limit
+    if (maxBytes !== undefined) {
+      this.maxCacheBytes = maxBytes === null ? undefined : maxBytes;
+    }
+    
+    logger.info(`LLM cache settings updated: TTL=${ttlInSeconds}s, maxSize=${this.maxCacheSize}, maxBytes=${this.maxCacheBytes ?? 'unlimited'}`);
     
     // Prune cache with new settings
-    this.pruneCache();
+    this.schedulePrune();
   }
   
-  getCacheMetrics(): { size: number, hitRate: number } {
-    const totalRequests = this.cacheHits + this.cacheMisses;
-    const hitRate = totalRequests > 0 ? this.cacheHits / totalRequests : 0;
+  getCacheMetrics(): LLMCacheMetrics {
+    const entries = this.cacheStore.list();
+    const providers = Array.from(this.cacheCounters.keys());
+    entries.forEach(entry => {
+      if (providers.indexOf(entry.provider) === -1) {
+        providers.push(entry.provider);
+      }
+    });
+    
+    const hitRate = (hits: number, misses: number) => hits + misses > 0 ? hits / (hits + misses) : 0;
+    const totals = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+    
+    const providerMetrics = providers.map(provider => {
+      const counters = this.counters(provider);
+      const providerEntries = entries.filter((entry: LLMCacheEntryInfo) => entry.provider === provider);
+      
+      totals.hits += counters.hits;
+      totals.misses += counters.misses;
+      totals.evictions += counters.evictions;
+      totals.expirations += counters.expirations;
+      
+      return {
+        provider,
+        ...counters,
+        entries: providerEntries.length,
+        bytes: providerEntries.reduce((total, entry) => total + entry.sizeBytes, 0),
+        hitRate: hitRate(counters.hits, counters.misses)
+      };
+    });
     
     return {
-      size: this.cache.size,
-      hitRate
+      store: this.cacheStore.kind,
+      size: this.cacheStore.size,
+      maxSize: this.maxCacheSize,
+      bytes: this.cacheStore.bytes,
+      maxBytes: this.maxCacheBytes ?? null,
+      hitRate: hitRate(totals.hits, totals.misses),
+      ...totals,
+      providers: providerMetrics
     };
   }
   
-  setDefaultProvider(provider: LLMProvider) {
+  setDefaultProvider(provider: LLMProviderId) {
+    if (!this.getClient(provider)) {
+      throw new LLMConfigurationError(`Unknown LLM provider: ${provider}`, provider);
+    }
+    
     this.defaultProvider = provider;
     logger.info(`Default LLM provider set to: ${provider}`);
   }
   
-  getDefaultProvider(): LLMProvider {
+  getDefaultProvider(): LLMProviderId {
     return this.defaultProvider;
   }
 }
@@ -0,0 +1,277 @@
+import axios from 'axios';
+import { logger } from '../utils/logger';
+import type { LLMMessage, LLMProviderClient, LLMRequestParams, LLMResponse, LLMStreamChunk, LLMToolCall } from './llmService';
+import { resolveProviderApiKey, type ProviderConfig } from './providerConfig';
+import { LLMConfigurationError, LLMResponseError, toProviderError } from './llmErrors';
+
+/**
+ * Client for any server exposing an OpenAI-style chat completions endpoint:
+ * hosted APIs (Groq, Phidata) as well as self-hosted llama.cpp, vLLM or Ollama.
+ */
+export class OpenAICompatibleService implements LLMProviderClient {
+  readonly config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+
+    if (!config.local && !this.apiKey) {
+      logger.warn(`${config.apiKeyEnv || 'API key'} is not set. ${config.name} LLM service will not work.`);
+    } else {
+      logger.info(`${config.name} LLM service initialized`);
+    }
+  }
+
+  protected get apiKey(): string | undefined {
+    return resolveProviderApiKey(this.config);
+  }
+
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers
+    };
+
+    const apiKey = this.apiKey;
+    if (apiKey) {
+      headers[this.config.authHeader] = this.config.authScheme ? `${this.config.authScheme} ${apiKey}` : apiKey;
+    }
+
+    return headers;
+  }
+
+  protected buildMessages(params: LLMRequestParams): Array<Record<string, any>> {
+    const messages: Array<Record<string, any>> = [];
+
+    // Add system message if provided
+    if (params.system) {
+      messages.push({
+        role: 'system',
+        content: params.system
+      });
+    }
+
+    // Earlier turns of the conversation
+    (params.messages || []).forEach(message => messages.push(this.toChatMessage(message)));
+
+    // Add user message (the prompt)
+    messages.push({
+      role: 'user',
+      content: params.prompt
+    });
+
+    // Tool calls made so far and their results
+    (params.toolMessages || []).forEach(message => messages.push(this.toChatMessage(message)));
+
+    return messages;
+  }
+
+  private toChatMessage(message: LLMMessage): Record<string, any> {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+
+    if (message.role !== 'assistant' || !message.toolCalls || message.toolCalls.length === 0) {
+      return { role: message.role, content: message.content };
+    }
+
+    return {
+      role: 'assistant',
+      content: message.content,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    };
+  }
+
+  protected buildRequestBody(params: LLMRequestParams): Record<string, any> {
+    const body: Record<string, any> = {
+      model: params.model || this.config.model,
+      messages: this.buildMessages(params),
+      temperature: params.temperature ?? 0.7,
+      max_tokens: params.maxTokens || this.config.maxOutputTokens || 1024,
+      top_p: params.topP ?? 1.0,
+      stop: params.stopSequences || null
+    };
+
+    // Providers without JSON mode rely on the prompt alone
+    if (params.responseFormat === 'json' && this.config.capabilities.jsonMode) {
+      body.response_format = { type: 'json_object' };
+    }
+
+    if (params.tools && params.tools.length > 0 && this.config.capabilities.tools) {
+      body.tools = params.tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      }));
+      body.tool_choice = params.toolChoice || 'auto';
+    }
+
+    return body;
+  }
+
+  private get endpoint(): string {
+    return `${this.config.baseUrl}${this.config.completionsPath}`;
+  }
+
+  private get timeout(): number {
+    return this.config.timeoutMs || parseInt(process.env.LLM_REQUEST_TIMEOUT_MS || '60000', 10);
+  }
+
+  private assertConfigured(): void {
+    if (!this.config.local && !this.apiKey) {
+      throw new LLMConfigurationError(
+        `${this.config.apiKeyEnv || 'API key'} is not set. Please set it to use ${this.config.name} services.`,
+        this.config.id
+      );
+    }
+  }
+
+  async callLLM(params: LLMRequestParams): Promise<LLMResponse> {
+    const { id, name } = this.config;
+
+    try {
+      this.assertConfigured();
+
+      const response = await axios.post(this.endpoint, this.buildRequestBody(params), {
+        headers: this.buildHeaders(),
+        timeout: this.timeout,
+        signal: params.signal
+      });
+
+      // Extract and format the response
+      const result = response.data;
+      const message = result?.choices?.[0]?.message;
+      const toolCalls = this.parseToolCalls(message?.tool_calls);
+      if (typeof message?.content !== 'string' && !toolCalls) {
+        throw new LLMResponseError(`${name} response did not contain a completion`, id, response.status, result);
+      }
+
+      return {
+        text: message.content || '',
+        toolCalls,
+        usage: {
+          inputTokens: result.usage?.prompt_tokens || 0,
+          outputTokens: result.usage?.completion_tokens || 0,
+          totalTokens: result.usage?.total_tokens || 0
+        }
+      };
+    } catch (error) {
+      this.logError(error, true);
+
+      // Rethrow as a typed provider error for handling upstream
+      throw toProviderError(id, error);
+    }
+  }
+
+  /**
+   * Streams a completion using server-sent events (`stream: true`). Providers
+   * without streaming support are served as a single chunk from callLLM.
+   */
+  async *streamLLM(params: LLMRequestParams): AsyncGenerator<LLMStreamChunk> {
+    const { id } = this.config;
+
+    // Tool calls arrive as fragmented deltas, so tool requests are not streamed
+    if (!this.config.capabilities.streaming || (params.tools && params.tools.length > 0)) {
+      const response = await this.callLLM(params);
+      yield { delta: response.text, done: false };
+      yield { delta: '', done: true, response };
+      return;
+    }
+
+    try {
+      this.assertConfigured();
+
+      const response = await axios.post(
+        this.endpoint,
+        {
+          ...this.buildRequestBody(params),
+          stream: true,
+          stream_options: { include_usage: true }
+        },
+        {
+          headers: this.buildHeaders(),
+          timeout: this.timeout,
+          responseType: 'stream',
+          signal: params.signal
+        }
+      );
+
+      let text = '';
+      let usage: any = null;
+      let buffer = '';
+
+      for await (const data of response.data as AsyncIterable<Buffer>) {
+        buffer += data.toString('utf8');
+
+        // Events are newline delimited; keep any partial line for the next read
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.substring(5).trim();
+          if (payload === '[DONE]') continue;
+
+          const event = JSON.parse(payload);
+          // Groq reports usage under x_groq, OpenAI-style servers in a final usage event
+          usage = event.usage || event.x_groq?.usage || usage;
+
+          const delta = event.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta.length > 0) {
+            text += delta;
+            yield { delta, done: false };
+          }
+        }
+      }
+
+      yield {
+        delta: '',
+        done: true,
+        response: {
+          text,
+          usage: {
+            inputTokens: usage?.prompt_tokens || 0,
+            outputTokens: usage?.completion_tokens || 0,
+            totalTokens: usage?.total_tokens || 0
+          }
+        }
+      };
+    } catch (error) {
+      // Streamed error bodies are unread sockets, so only log the status
+      this.logError(error, false);
+      throw toProviderError(id, error);
+    }
+  }
+
+  private parseToolCalls(toolCalls: unknown): LLMToolCall[] | undefined {
+    if (!Array.isArray(toolCalls) || toolCalls.length === 0) {
+      return undefined;
+    }
+
+    return toolCalls.map((call: any) => ({
+      id: String(call.id),
+      name: String(call.function?.name),
+      arguments: typeof call.function?.arguments === 'string' ? call.function.arguments : JSON.stringify(call.function?.arguments ?? {})
+    }));
+  }
+
+  private logError(error: unknown, includeBody: boolean): void {
+    const { name } = this.config;
+
+    if (axios.isAxiosError(error)) {
+      logger.error(`${name} API error: ${error.message}`);
+      if (error.response) {
+        logger.error(`Response status: ${error.response.status}`);
+        if (includeBody) {
+          logger.error(`Response data: ${JSON.stringify(error.response.data)}`);
+        }
+      }
+    } else {
+      logger.error(`${name} service error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -1,94 +1,37 @@
-import axios from 'axios';
-import { logger } from '../utils/logger';
-import { LLMRequestParams, LLMResponse } from './llmService';
-
-class PhiDataService {
-  private apiKey: string | undefined;
-  private baseUrl: string = 'https://api.phidata.com/v1';
-  private model: string = 'claude-3-5-sonnet';
-
-  constructor() {
-    // Get API key from environment variables
-    this.apiKey = process.env.PHIDATA_API_KEY;
-    
-    if (!this.apiKey) {
-      logger.warn('PHIDATA_API_KEY environment variable is not set. Phidata LLM service will not work.');
-    } else {
-      logger.info('Phidata LLM service initialized');
-    }
-  }
-
-  async callLLM(params: LLMRequestParams): Promise<LLMResponse> {
-    try {
-      if (!this.apiKey) {
-        throw new Error('PHIDATA_API_KEY environment variable is not set. Please set it to use Phidata services.');
-      }
-
-      // Prepare messages array
-      const messages = [];
-      
-      // Add system message if provided
-      if (params.system) {
-        messages.push({
-          role: 'system',
-          content: params.system
-        });
-      }
-      
-      // Add user message (the prompt)
-      messages.push({
-        role: 'user',
-        content: params.prompt
-      });
-
-      // Make request to Phidata API
-      const response = await axios.post(
-        `${this.baseUrl}/completions`,
-        {
-          model: this.model,
-          messages: messages,
-          temperature: params.temperature || 0.7,
-          max_tokens: params.maxTokens || 1024,
-          top_p: params.topP || 1.0,
-          stop: params.stopSequences || null
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-
-      // Extract and format the response
-      const result = response.data;
-      const llmResponse: LLMResponse = {
-        text: result.choices[0].message.content,
-        usage: {
-          inputTokens: result.usage.prompt_tokens || 0,
-          outputTokens: result.usage.completion_tokens || 0,
-          totalTokens: result.usage.total_tokens || 0
-        }
-      };
+import { OpenAICompatibleService } from './openAICompatibleService';
+import { providerConfigSchema, type ProviderConfig } from './providerConfig';
+
+export interface PhidataServiceOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  timeoutMs?: number;
+}
 
-      return llmResponse;
-    } catch (error) {
-      // Log the error details
-      if (axios.isAxiosError(error)) {
-        logger.error(`Phidata API error: ${error.message}`);
-        if (error.response) {
-          logger.error(`Response status: ${error.response.status}`);
-          logger.error(`Response data: ${JSON.stringify(error.response.data)}`);
-        }
-      } else {
-        logger.error(`Phidata service error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-      
-      // Rethrow for handling upstream
-      throw error;
-    }
+export const PHIDATA_PROVIDER_CONFIG: ProviderConfig = providerConfigSchema.parse({
+  id: 'phidata',
+  name: 'Phidata',
+  baseUrl: process.env.PHIDATA_BASE_URL || 'https://api.phidata.com/v1',
+  model: process.env.PHIDATA_MODEL || 'claude-3-5-sonnet',
+  completionsPath: '/completions',
+  apiKeyEnv: 'PHIDATA_API_KEY',
+  contextWindow: 200000,
+  maxOutputTokens: 8192,
+  pricing: { inputPerMillion: 3, outputPerMillion: 15 },
+  capabilities: { streaming: false, tools: true, jsonMode: false }
+});
+
+export class PhidataService extends OpenAICompatibleService {
+  constructor(options: PhidataServiceOptions = {}) {
+    super({
+      ...PHIDATA_PROVIDER_CONFIG,
+      apiKey: options.apiKey,
+      baseUrl: options.baseUrl ?? PHIDATA_PROVIDER_CONFIG.baseUrl,
+      model: options.model ?? PHIDATA_PROVIDER_CONFIG.model,
+      timeoutMs: options.timeoutMs
+    });
   }
 }
 
 // Create singleton instance
-export const phidataService = new PhiDataService();
\ No newline at end of file
+export const phidataService = new PhidataService();
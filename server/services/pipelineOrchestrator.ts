@@ -0,0 +1,426 @@
+import { logger } from '../utils/logger';
+import { storage, type IStorage } from '../storage';
+import { AgentType, JobStatus, TaskStatus, type Job, type PipelinePlan, type PipelineStep } from '@shared/schema';
+import { jobManager, JobManager, JobError } from './jobManager';
+
+/**
+ * Runs a pipeline plan across the agents. The plan's steps form a DAG through
+ * their dependencies: a step starts as soon as every step it depends on has
+ * succeeded, so independent steps run in parallel, and it gets their outputs
+ * as part of its input. Each step is recorded as a task and run as a job on
+ * its agent type. A failed step skips the steps that depend on it while the
+ * rest of the pipeline carries on.
+ */
+
+export type PipelineStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type PipelineStepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'skipped';
+
+export interface PipelineStepInfo extends PipelineStep {
+  level: number; // Length of the longest chain of dependencies leading to the step; steps of one level can run together
+  status: PipelineStepStatus;
+  taskId: number | null;
+  jobId: number | null;
+  output: string | null;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface PipelineInfo {
+  id: number;
+  goal: string;
+  status: PipelineStatus;
+  projectId: number | null;
+  parentTaskId: number | null; // The task the pipeline was planned for, if any
+  steps: PipelineStepInfo[];
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface PipelineOptions {
+  projectId?: number;
+  parentTaskId?: number;
+  signal?: AbortSignal; // Cancels the pipeline
+}
+
+// The plan cannot be run or the pipeline cannot do what was asked; the message is meant for the user
+export class PipelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineError';
+  }
+}
+
+const DEFAULT_MAX_PARALLEL_STEPS = 3;
+
+// Finished pipelines kept for the dashboard
+const PIPELINE_HISTORY = 20;
+
+// Longest output of an earlier step included in the input of the next
+const MAX_DEPENDENCY_OUTPUT = 8000;
+
+// PIPELINE_MAX_PARALLEL sets how many steps of one pipeline run at once
+export function getMaxParallelSteps(): number {
+  const value = process.env.PIPELINE_MAX_PARALLEL ? parseInt(process.env.PIPELINE_MAX_PARALLEL, 10) : NaN;
+  return isNaN(value) || value < 1 ? DEFAULT_MAX_PARALLEL_STEPS : value;
+}
+
+// The level of every step, after checking that step ids are unique, dependencies exist and there are no cycles
+export function planLevels(plan: PipelinePlan): Map<string, number> {
+  const steps = new Map<string, PipelineStep>();
+  plan.steps.forEach(step => {
+    if (steps.has(step.id)) {
+      throw new PipelineError(`Step ${step.id} appears more than once`);
+    }
+    steps.set(step.id, step);
+  });
+
+  const levels = new Map<string, number>();
+  const visiting: string[] = [];
+  const levelOf = (step: PipelineStep): number => {
+    if (levels.has(step.id)) {
+      return levels.get(step.id)!;
+    }
+    if (visiting.indexOf(step.id) !== -1) {
+      throw new PipelineError(`Steps ${visiting.slice(visiting.indexOf(step.id)).concat(step.id).join(' -> ')} depend on each other`);
+    }
+
+    visiting.push(step.id);
+    const level = step.dependsOn.reduce((max, id) => {
+      const dependency = steps.get(id);
+      if (!dependency) {
+        throw new PipelineError(`Step ${step.id} depends on unknown step ${id}`);
+      }
+      return Math.max(max, levelOf(dependency) + 1);
+    }, 0);
+    visiting.pop();
+
+    levels.set(step.id, level);
+    return level;
+  };
+
+  plan.steps.forEach(levelOf);
+  return levels;
+}
+
+// Method of the coding agent that carries out a pipeline's review stage
+export const REVIEW_METHOD = 'analyzeCodeQuality';
+
+// The plan ending in a review of its code by the coding agent, which is added after the last steps when the plan writes code without one
+export function withReviewStep(plan: PipelinePlan): PipelinePlan {
+  const writesCode = plan.steps.some(step => step.agentType === AgentType.CODING);
+  const reviewed = plan.steps.some(step => step.agentType === AgentType.CODING && step.method === REVIEW_METHOD);
+  if (!writesCode || reviewed) {
+    return plan;
+  }
+
+  let id = 'review';
+  for (let n = 2; plan.steps.some(step => step.id === id); n++) {
+    id = `review-${n}`;
+  }
+  const dependedOn = plan.steps.reduce<string[]>((ids, step) => ids.concat(step.dependsOn), []);
+
+  return {
+    ...plan,
+    steps: plan.steps.concat({
+      id,
+      title: 'Review the result',
+      agentType: AgentType.CODING,
+      method: REVIEW_METHOD,
+      instruction: 'Review the code produced by the earlier steps for correctness, readability and error handling, and point out any problems left.',
+      dependsOn: plan.steps.filter(step => dependedOn.indexOf(step.id) === -1).map(step => step.id)
+    })
+  };
+}
+
+// What a step is asked to do: its instruction, the pipeline's goal and the outputs of the steps it depends on
+function stepInput(goal: string, step: PipelineStepInfo, dependencies: PipelineStepInfo[]): string {
+  const sections = [step.instruction, `Overall goal: ${goal}`];
+  if (dependencies.length > 0) {
+    sections.push('Results of the steps this one builds on:');
+    dependencies.forEach(dependency => {
+      const output = dependency.output || '';
+      sections.push(`### ${dependency.title} (${dependency.agentType} agent)\n${output.length > MAX_DEPENDENCY_OUTPUT ? `${output.substring(0, MAX_DEPENDENCY_OUTPUT)}...` : output}`);
+    });
+  }
+  return sections.join('\n\n');
+}
+
+// Code produced by earlier steps, for methods that work on context.code, e.g. running it in the sandbox
+function codeFrom(jobs: Job[]): { code?: string; language?: string } {
+  for (let index = jobs.length - 1; index >= 0; index--) {
+    const data = (jobs[index].result as { data?: Record<string, unknown> } | null)?.data;
+    const code = data && (typeof data.fixedCode === 'string' ? data.fixedCode : data.code);
+    if (typeof code === 'string') {
+      return { code, language: typeof data!.language === 'string' ? data!.language : undefined };
+    }
+  }
+  return {};
+}
+
+interface PipelineRun {
+  info: PipelineInfo;
+  cancelled: boolean;
+  jobs: Map<string, Job>; // Finished jobs by step id
+  done: Promise<void>;
+}
+
+export class PipelineOrchestrator {
+  private store: IStorage;
+  private jobs: JobManager;
+  private pipelines = new Map<number, PipelineRun>();
+  private listeners: Array<(pipeline: PipelineInfo) => void> = [];
+  private nextId = 1;
+
+  constructor(store: IStorage = storage, jobs: JobManager = jobManager) {
+    this.store = store;
+    this.jobs = jobs;
+  }
+
+  // Called with the pipeline whenever it or one of its steps changes
+  onChange(listener: (pipeline: PipelineInfo) => void): void {
+    this.listeners.push(listener);
+  }
+
+  // Record every step of the plan as a task and start running it; throws PipelineError for plans that are not a DAG
+  async start(plan: PipelinePlan, options: PipelineOptions = {}): Promise<PipelineInfo> {
+    const levels = planLevels(plan);
+    if (options.signal?.aborted) {
+      throw new PipelineError('The pipeline was cancelled before it started');
+    }
+
+    const steps: PipelineStepInfo[] = [];
+    for (const step of plan.steps) {
+      const task = await this.store.createTask({
+        projectId: options.projectId ?? null,
+        description: `${plan.goal.substring(0, 60)}: ${step.title}`,
+        status: TaskStatus.PENDING
+      });
+      steps.push({
+        ...step,
+        level: levels.get(step.id)!,
+        status: 'pending',
+        taskId: task.id,
+        jobId: null,
+        output: null,
+        error: null,
+        startedAt: null,
+        completedAt: null
+      });
+    }
+
+    const info: PipelineInfo = {
+      id: this.nextId++,
+      goal: plan.goal,
+      status: 'running',
+      projectId: options.projectId ?? null,
+      parentTaskId: options.parentTaskId ?? null,
+      steps,
+      createdAt: new Date().toISOString(),
+      completedAt: null
+    };
+    const run: PipelineRun = { info, cancelled: false, jobs: new Map(), done: Promise.resolve() };
+    this.pipelines.set(info.id, run);
+
+    const onAbort = () => {
+      this.cancel(info.id).catch(error => logger.error(`Error cancelling pipeline ${info.id}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    run.done = this.execute(run).finally(() => options.signal?.removeEventListener('abort', onAbort));
+
+    logger.info(`Pipeline ${info.id} started with ${steps.length} steps: ${plan.goal}`);
+    this.notify(run);
+    return this.snapshot(run);
+  }
+
+  // Run the plan and return the pipeline once it has finished
+  async run(plan: PipelinePlan, options: PipelineOptions = {}): Promise<PipelineInfo> {
+    const started = await this.start(plan, options);
+    return (await this.wait(started.id))!;
+  }
+
+  get(id: number): PipelineInfo | undefined {
+    const run = this.pipelines.get(id);
+    return run ? this.snapshot(run) : undefined;
+  }
+
+  // Newest first
+  list(): PipelineInfo[] {
+    return Array.from(this.pipelines.values())
+      .map(run => this.snapshot(run))
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async wait(id: number): Promise<PipelineInfo | undefined> {
+    const run = this.pipelines.get(id);
+    if (!run) {
+      return undefined;
+    }
+    await run.done;
+    return this.snapshot(run);
+  }
+
+  // Stop starting steps and cancel the running ones; undefined when there is no such pipeline
+  async cancel(id: number): Promise<PipelineInfo | undefined> {
+    const run = this.pipelines.get(id);
+    if (!run) {
+      return undefined;
+    }
+    if (run.info.status !== 'running') {
+      throw new PipelineError(`Pipeline ${id} has already ${run.info.status}`);
+    }
+
+    if (!run.cancelled) {
+      logger.info(`Cancelling pipeline ${id}`);
+      run.cancelled = true;
+      await Promise.all(run.info.steps
+        .filter(step => step.status === 'running' && step.jobId !== null)
+        .map(step => this.cancelJob(step.jobId!)));
+    }
+
+    await run.done;
+    return this.snapshot(run);
+  }
+
+  private async execute(run: PipelineRun): Promise<void> {
+    const { info } = run;
+    const maxParallel = getMaxParallelSteps();
+    const running = new Map<string, Promise<void>>();
+
+    while (true) {
+      const settled = this.settlePending(run);
+
+      const ready = run.cancelled ? [] : info.steps.filter(step =>
+        step.status === 'pending' && step.dependsOn.every(id => this.stepOf(info, id).status === 'succeeded'));
+      const starting = ready.slice(0, Math.max(0, maxParallel - running.size));
+      starting.forEach(step => {
+        step.status = 'running';
+        step.startedAt = new Date().toISOString();
+        running.set(step.id, this.runStep(run, step).then(() => {
+          running.delete(step.id);
+        }));
+      });
+      if (settled || starting.length > 0) {
+        this.notify(run);
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(Array.from(running.values()));
+    }
+
+    const statuses = info.steps.map(step => step.status);
+    info.status = run.cancelled ? 'cancelled' : statuses.every(status => status === 'succeeded') ? 'succeeded' : 'failed';
+    info.completedAt = new Date().toISOString();
+    logger.info(`Pipeline ${info.id} ${info.status}`);
+    this.notify(run);
+    this.prune();
+  }
+
+  // Skip steps whose dependencies failed, and cancel those that will not start once the pipeline is cancelled;
+  // returns whether any were
+  private settlePending(run: PipelineRun): boolean {
+    let settled = false;
+    let changed = true;
+    while (changed) {
+      changed = false;
+      run.info.steps.filter(step => step.status === 'pending').forEach(step => {
+        const blocked = step.dependsOn.some(id => {
+          const status = this.stepOf(run.info, id).status;
+          return status === 'failed' || status === 'skipped' || status === 'cancelled';
+        });
+        if (run.cancelled || blocked) {
+          step.status = run.cancelled ? 'cancelled' : 'skipped';
+          step.completedAt = new Date().toISOString();
+          changed = true;
+          settled = true;
+          this.store.updateTaskStatus(step.taskId!, TaskStatus.CANCELLED)
+            .catch(error => logger.error(`Error updating task of pipeline step ${step.id}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        }
+      });
+    }
+    return settled;
+  }
+
+  private async runStep(run: PipelineRun, step: PipelineStepInfo): Promise<void> {
+    const dependencies = step.dependsOn.map(id => this.stepOf(run.info, id));
+    const dependencyJobs = step.dependsOn.map(id => run.jobs.get(id)).filter((job): job is Job => !!job);
+
+    try {
+      const job = await this.jobs.submit({
+        agentType: step.agentType,
+        message: stepInput(run.info.goal, step, dependencies),
+        taskId: step.taskId ?? undefined,
+        context: {
+          ...codeFrom(dependencyJobs),
+          method: step.method,
+          pipelineId: run.info.id,
+          pipelineStep: step.id
+        }
+      });
+      step.jobId = job.id;
+      this.notify(run);
+
+      if (run.cancelled) {
+        await this.cancelJob(job.id);
+      }
+
+      const finished = (await this.jobs.wait(job.id))!;
+      run.jobs.set(step.id, finished);
+
+      const result = finished.result as { output?: string; needsClarification?: boolean } | null;
+      step.output = result?.output ?? null;
+      if (finished.status === JobStatus.SUCCEEDED && result?.needsClarification) {
+        // Nobody is there to answer a question in the middle of a pipeline
+        step.status = 'failed';
+        step.error = 'The agent asked for clarification instead of carrying out the step';
+      } else {
+        step.status = finished.status === JobStatus.SUCCEEDED ? 'succeeded' : finished.status === JobStatus.CANCELLED ? 'cancelled' : 'failed';
+        step.error = finished.error;
+      }
+    } catch (error) {
+      logger.error(`Error running pipeline step ${step.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      step.status = 'failed';
+      step.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    step.completedAt = new Date().toISOString();
+    this.notify(run);
+  }
+
+  private async cancelJob(jobId: number): Promise<void> {
+    try {
+      await this.jobs.cancel(jobId);
+    } catch (error) {
+      // Finished in the meantime
+      if (!(error instanceof JobError)) {
+        throw error;
+      }
+    }
+  }
+
+  private stepOf(info: PipelineInfo, id: string): PipelineStepInfo {
+    return info.steps.find(step => step.id === id)!;
+  }
+
+  // Forget the oldest finished pipelines beyond the history
+  private prune() {
+    const finished = Array.from(this.pipelines.values())
+      .filter(run => run.info.status !== 'running')
+      .sort((a, b) => a.info.id - b.info.id);
+    finished.slice(0, Math.max(0, finished.length - PIPELINE_HISTORY)).forEach(run => this.pipelines.delete(run.info.id));
+  }
+
+  private snapshot(run: PipelineRun): PipelineInfo {
+    return { ...run.info, steps: run.info.steps.map(step => ({ ...step, dependsOn: step.dependsOn.slice() })) };
+  }
+
+  private notify(run: PipelineRun) {
+    const pipeline = this.snapshot(run);
+    this.listeners.forEach(listener => listener(pipeline));
+  }
+}
+
+export const pipelineOrchestrator = new PipelineOrchestrator();
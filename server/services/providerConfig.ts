@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+// Declarative description of an OpenAI-compatible provider (hosted or self-hosted)
+export const providerConfigSchema = z.object({
+  id: z.string().min(1).regex(/^[a-z0-9][a-z0-9_-]*$/, 'Provider id must be lowercase alphanumeric, "-" or "_"'),
+  name: z.string().min(1),
+  baseUrl: z.string().url(),
+  model: z.string().min(1),
+  completionsPath: z.string().default('/chat/completions'),
+  // Either an inline key or the name of the environment variable holding it
+  apiKey: z.string().optional(),
+  apiKeyEnv: z.string().optional(),
+  authHeader: z.string().default('Authorization'),
+  authScheme: z.string().default('Bearer'),
+  headers: z.record(z.string()).optional(),
+  // Local servers (llama.cpp, vLLM, Ollama) usually run without authentication
+  local: z.boolean().default(false),
+  contextWindow: z.number().int().positive(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  pricing: z.object({
+    inputPerMillion: z.number().min(0),
+    outputPerMillion: z.number().min(0)
+  }).default({ inputPerMillion: 0, outputPerMillion: 0 }),
+  capabilities: z.object({
+    streaming: z.boolean().default(false),
+    tools: z.boolean().default(false),
+    jsonMode: z.boolean().default(false)
+  }).default({}),
+  timeoutMs: z.number().int().positive().optional()
+});
+
+// Rejects a field that would let an API caller send a server environment variable, or any header, to a host of their choosing
+const declaredOnly = (field: string) =>
+  z.undefined({ invalid_type_error: `${field} can only be set for providers declared in the environment or config file` });
+
+// A provider registered through the API, whose key can only be given inline
+export const apiProviderConfigSchema = z.object({
+  apiKeyEnv: declaredOnly('apiKeyEnv'),
+  headers: declaredOnly('headers'),
+  authHeader: declaredOnly('authHeader')
+}).passthrough().pipe(providerConfigSchema);
+
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+export type ProviderConfigInput = z.input<typeof providerConfigSchema>;
+
+/**
+ * Resolve the API key for a provider config; an explicit key (even empty) wins over the environment
+ */
+export function resolveProviderApiKey(config: ProviderConfig): string | undefined {
+  if (config.apiKey !== undefined) return config.apiKey;
+  return config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+}
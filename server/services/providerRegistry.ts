@@ -0,0 +1,185 @@
+import fs from 'fs';
+import { logger } from '../utils/logger';
+import type { LLMProviderClient } from './llmService';
+import { OpenAICompatibleService } from './openAICompatibleService';
+import {
+  providerConfigSchema,
+  resolveProviderApiKey,
+  type ProviderConfig,
+  type ProviderConfigInput
+} from './providerConfig';
+import { groqService, GROQ_PROVIDER_CONFIG } from './groqService';
+import { phidataService, PHIDATA_PROVIDER_CONFIG } from './phidataService';
+import { LLMConfigurationError } from './llmErrors';
+
+// What the API exposes about a provider; secrets are never included
+export interface ProviderSummary {
+  id: string;
+  name: string;
+  baseUrl: string;
+  model: string;
+  local: boolean;
+  builtIn: boolean;
+  configured: boolean;
+  contextWindow: number;
+  maxOutputTokens?: number;
+  pricing: ProviderConfig['pricing'];
+  capabilities: ProviderConfig['capabilities'];
+}
+
+interface RegisteredProvider {
+  config: ProviderConfig;
+  client: LLMProviderClient;
+  builtIn: boolean;
+}
+
+/**
+ * ProviderRegistry keeps track of every LLM provider the service can dispatch to.
+ * Built-in providers (Groq, Phidata) are registered at startup; additional
+ * OpenAI-compatible or local providers are declared through configuration
+ * (LLM_PROVIDERS / LLM_PROVIDERS_FILE / LOCAL_LLM_BASE_URL) or the API.
+ */
+export class ProviderRegistry {
+  private providers: Map<string, RegisteredProvider>;
+
+  constructor() {
+    this.providers = new Map();
+  }
+
+  register(
+    input: ProviderConfigInput,
+    options: { client?: LLMProviderClient; builtIn?: boolean } = {}
+  ): ProviderConfig {
+    const config = providerConfigSchema.parse(input);
+    const existing = this.providers.get(config.id);
+
+    if (existing?.builtIn && !options.builtIn) {
+      throw new LLMConfigurationError(`Provider ${config.id} is built in and cannot be replaced`, config.id);
+    }
+
+    this.providers.set(config.id, {
+      config,
+      client: options.client || new OpenAICompatibleService(config),
+      builtIn: options.builtIn || false
+    });
+
+    logger.info(`LLM provider registered: ${config.id} (${config.model} @ ${config.baseUrl})`);
+    return config;
+  }
+
+  unregister(id: string): boolean {
+    const provider = this.providers.get(id);
+    if (!provider) return false;
+
+    if (provider.builtIn) {
+      throw new LLMConfigurationError(`Provider ${id} is built in and cannot be removed`, id);
+    }
+
+    this.providers.delete(id);
+    logger.info(`LLM provider unregistered: ${id}`);
+    return true;
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  get(id: string): ProviderConfig | undefined {
+    return this.providers.get(id)?.config;
+  }
+
+  getClient(id: string): LLMProviderClient | undefined {
+    return this.providers.get(id)?.client;
+  }
+
+  isConfigured(id: string): boolean {
+    const config = this.get(id);
+    if (!config) return false;
+    return config.local || !!resolveProviderApiKey(config);
+  }
+
+  list(): ProviderSummary[] {
+    return Array.from(this.providers.values()).map(({ config, builtIn }) => ({
+      id: config.id,
+      name: config.name,
+      baseUrl: config.baseUrl,
+      model: config.model,
+      local: config.local,
+      builtIn,
+      configured: this.isConfigured(config.id),
+      contextWindow: config.contextWindow,
+      maxOutputTokens: config.maxOutputTokens,
+      pricing: config.pricing,
+      capabilities: config.capabilities
+    }));
+  }
+
+  // Cost in USD for the given token counts, based on the provider's declared pricing
+  estimateCost(id: string, inputTokens: number, outputTokens: number): number {
+    const config = this.get(id);
+    if (!config) return 0;
+
+    return (inputTokens * config.pricing.inputPerMillion + outputTokens * config.pricing.outputPerMillion) / 1_000_000;
+  }
+
+  /**
+   * Register providers declared in the environment:
+   * - LLM_PROVIDERS: JSON array of provider configs
+   * - LLM_PROVIDERS_FILE: path to a JSON file containing the same array
+   * - LOCAL_LLM_BASE_URL / LOCAL_LLM_MODEL: shorthand for a single local server
+   */
+  loadFromEnvironment(): number {
+    const declared: unknown[] = [];
+
+    if (process.env.LLM_PROVIDERS_FILE) {
+      try {
+        declared.push(...JSON.parse(fs.readFileSync(process.env.LLM_PROVIDERS_FILE, 'utf8')));
+      } catch (error) {
+        logger.error(`Failed to read LLM_PROVIDERS_FILE: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (process.env.LLM_PROVIDERS) {
+      try {
+        declared.push(...JSON.parse(process.env.LLM_PROVIDERS));
+      } catch (error) {
+        logger.error(`Failed to parse LLM_PROVIDERS: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (process.env.LOCAL_LLM_BASE_URL) {
+      declared.push({
+        id: 'local',
+        name: 'Local model',
+        baseUrl: process.env.LOCAL_LLM_BASE_URL,
+        model: process.env.LOCAL_LLM_MODEL || 'llama3',
+        local: true,
+        contextWindow: parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '8192', 10)
+      });
+    }
+
+    let registered = 0;
+    for (const entry of declared) {
+      const result = providerConfigSchema.safeParse(entry);
+      if (!result.success) {
+        logger.error(`Ignoring invalid LLM provider config: ${result.error.message}`);
+        continue;
+      }
+
+      try {
+        this.register(result.data);
+        registered++;
+      } catch (error) {
+        logger.error(`Failed to register LLM provider ${result.data.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return registered;
+  }
+}
+
+// Create singleton instance with the built-in providers and any configured ones
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register(GROQ_PROVIDER_CONFIG, { client: groqService, builtIn: true });
+providerRegistry.register(PHIDATA_PROVIDER_CONFIG, { client: phidataService, builtIn: true });
+providerRegistry.loadFromEnvironment();
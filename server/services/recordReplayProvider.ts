@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import type { LLMMessage, LLMProviderClient, LLMRequestParams, LLMResponse, LLMToolMessage } from './llmService';
+import { LLMProviderError } from './llmErrors';
+
+export type FixtureMode = 'record' | 'replay';
+
+// The parts of a request that determine its completion. The provider is
+// deliberately excluded so fixtures recorded against one provider replay on any.
+export interface NormalizedRequest {
+  prompt: string;
+  system?: string;
+  messages?: LLMMessage[];
+  temperature: number;
+  maxTokens?: number;
+  topP?: number;
+  stopSequences?: string[];
+  toolMessages?: LLMToolMessage[]; // Distinguishes the rounds of a tool-calling exchange
+}
+
+interface FixtureEntry {
+  request: NormalizedRequest;
+  response: LLMResponse;
+  recordedAt: string;
+}
+
+interface FixtureFile {
+  version: 1;
+  entries: Record<string, FixtureEntry>;
+}
+
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g;
+
+// Collapse indentation/whitespace differences and volatile timestamps
+function normalizeText(text: string): string {
+  return text.replace(ISO_TIMESTAMP, '<timestamp>').replace(/\s+/g, ' ').trim();
+}
+
+export function normalizeRequest(params: LLMRequestParams): NormalizedRequest {
+  return {
+    prompt: normalizeText(params.prompt),
+    system: params.system ? normalizeText(params.system) : undefined,
+    messages: params.messages?.map(message => ({ ...message, content: message.content && normalizeText(message.content) }) as LLMMessage),
+    temperature: params.temperature ?? 0.7,
+    maxTokens: params.maxTokens,
+    topP: params.topP,
+    stopSequences: params.stopSequences,
+    toolMessages: params.toolMessages
+  };
+}
+
+export function hashRequest(params: LLMRequestParams): string {
+  return crypto.createHash('sha256').update(JSON.stringify(normalizeRequest(params))).digest('hex');
+}
+
+// Raised in replay mode when a request has no recorded response
+export class LLMFixtureMissingError extends LLMProviderError {
+  hash: string;
+
+  constructor(hash: string, prompt: string, filePath: string) {
+    super(
+      `No recorded LLM response for request ${hash.substring(0, 12)} ("${prompt.substring(0, 60)}") in ${filePath}. ` +
+      'Re-record the fixture with LLM_FIXTURE_MODE=record.',
+      'replay'
+    );
+    this.name = 'LLMFixtureMissingError';
+    this.hash = hash;
+  }
+}
+
+/**
+ * FixtureStore persists request/response pairs to a single JSON file keyed by request hash.
+ * Entries are written sorted by hash so re-recording produces minimal diffs.
+ */
+export class FixtureStore {
+  readonly filePath: string;
+  private entries: Record<string, FixtureEntry>;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.entries = {};
+
+    if (fs.existsSync(this.filePath)) {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as FixtureFile;
+      this.entries = file.entries || {};
+    }
+  }
+
+  get size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  get(hash: string): FixtureEntry | undefined {
+    return this.entries[hash];
+  }
+
+  set(hash: string, entry: FixtureEntry): void {
+    this.entries[hash] = entry;
+    this.save();
+  }
+
+  save(): void {
+    const sorted: Record<string, FixtureEntry> = {};
+    Object.keys(this.entries).sort().forEach(hash => {
+      sorted[hash] = this.entries[hash];
+    });
+
+    const file: FixtureFile = { version: 1, entries: sorted };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n');
+  }
+}
+
+/**
+ * Wraps a real provider client and records every completion it returns
+ */
+export class RecordingProvider implements LLMProviderClient {
+  private inner: LLMProviderClient;
+  private store: FixtureStore;
+
+  constructor(inner: LLMProviderClient, store: FixtureStore) {
+    this.inner = inner;
+    this.store = store;
+  }
+
+  async callLLM(params: LLMRequestParams): Promise<LLMResponse> {
+    const response = await this.inner.callLLM(params);
+    const hash = hashRequest(params);
+
+    this.store.set(hash, {
+      request: normalizeRequest(params),
+      response: { text: response.text, toolCalls: response.toolCalls, usage: { ...response.usage } },
+      recordedAt: new Date().toISOString()
+    });
+
+    logger.debug(`Recorded LLM fixture ${hash.substring(0, 12)}`);
+    return response;
+  }
+}
+
+/**
+ * Serves recorded completions without any network access
+ */
+export class ReplayProvider implements LLMProviderClient {
+  private store: FixtureStore;
+
+  constructor(store: FixtureStore) {
+    this.store = store;
+  }
+
+  async callLLM(params: LLMRequestParams): Promise<LLMResponse> {
+    const hash = hashRequest(params);
+    const entry = this.store.get(hash);
+
+    if (!entry) {
+      throw new LLMFixtureMissingError(hash, params.prompt, this.store.filePath);
+    }
+
+    return {
+      text: entry.response.text,
+      toolCalls: entry.response.toolCalls,
+      usage: { ...entry.response.usage }
+    };
+  }
+}
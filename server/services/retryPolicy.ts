@@ -0,0 +1,50 @@
+import { LLMProviderError, LLMRateLimitError } from './llmErrors';
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries per provider, on top of the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10),
+  baseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500', 10),
+  maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '8000', 10)
+};
+
+export function isRetryable(error: unknown): boolean {
+  return error instanceof LLMProviderError && error.retryable;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half of the capped exponential delay
+ * is fixed and the other half random, so concurrent callers spread out without
+ * ever retrying immediately. A provider's Retry-After is honoured as a minimum.
+ */
+export function computeBackoff(attempt: number, policy: RetryPolicy, error?: unknown, random = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  const delay = exponential / 2 + random() * (exponential / 2);
+
+  const retryAfterMs = error instanceof LLMRateLimitError ? error.retryAfterMs : undefined;
+  return Math.round(retryAfterMs !== undefined ? Math.max(delay, retryAfterMs) : delay);
+}
+
+// Resolves after `ms`, or rejects with the signal's reason when it aborts first
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
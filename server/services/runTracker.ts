@@ -0,0 +1,32 @@
+// Aborts the agent runs currently processing each task, by task id
+const runningTasks = new Map<number, Set<AbortController>>();
+
+// Register a run for its task, so cancelling the task aborts it; returns the function that unregisters it
+export function trackRun(taskId: number | undefined, controller: AbortController): () => void {
+  if (taskId === undefined) {
+    return () => undefined;
+  }
+
+  const controllers = runningTasks.get(taskId) || new Set<AbortController>();
+  controllers.add(controller);
+  runningTasks.set(taskId, controllers);
+
+  return () => {
+    controllers.delete(controller);
+    if (controllers.size === 0 && runningTasks.get(taskId) === controllers) {
+      runningTasks.delete(taskId);
+    }
+  };
+}
+
+// Abort every run processing a task; returns how many there were
+export function cancelRuns(taskId: number): number {
+  const controllers = runningTasks.get(taskId);
+  if (!controllers) {
+    return 0;
+  }
+
+  const count = controllers.size;
+  controllers.forEach(controller => controller.abort());
+  return count;
+}
@@ -0,0 +1,250 @@
+import { z, type ZodError, type ZodTypeAny } from 'zod';
+
+/**
+ * Helpers for asking an LLM for JSON that matches a zod schema: describing the
+ * schema in the prompt, pulling JSON out of a completion and turning validation
+ * failures into feedback the model can act on when it is re-asked.
+ */
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+// Compact TypeScript-like rendering of a schema, e.g. `{ name: string; tags?: string[] }`
+export function describeSchema(schema: ZodTypeAny, indent = ''): string {
+  const nested = `${indent}  `;
+  const withDescription = (shape: string, type: ZodTypeAny) =>
+    type.description ? `${shape} // ${type.description}` : shape;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    const inner = describeSchema(schema.unwrap(), indent);
+    return schema instanceof z.ZodNullable ? `${inner} | null` : inner;
+  }
+  if (schema instanceof z.ZodDefault) {
+    return describeSchema(schema._def.innerType, indent);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return describeSchema(schema.innerType(), indent);
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const fields = Object.keys(shape).map(key => {
+      const field = shape[key];
+      const optional = field.isOptional() ? '?' : '';
+      return withDescription(`${nested}${key}${optional}: ${describeSchema(field, nested)};`, field);
+    });
+    return `{\n${fields.join('\n')}\n${indent}}`;
+  }
+  if (schema instanceof z.ZodArray) {
+    const element = describeSchema(schema.element, indent);
+    return /^[\w"]+$/.test(element) ? `${element}[]` : `Array<${element}>`;
+  }
+  if (schema instanceof z.ZodEnum) {
+    return (schema.options as string[]).map(option => JSON.stringify(option)).join(' | ');
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.keys(schema.enum)
+      .filter(key => isNaN(Number(key)))
+      .map(key => JSON.stringify(schema.enum[key]));
+    return values.join(' | ');
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return JSON.stringify(schema.value);
+  }
+  if (schema instanceof z.ZodUnion) {
+    return (schema.options as ZodTypeAny[]).map(option => describeSchema(option, indent)).join(' | ');
+  }
+  if (schema instanceof z.ZodRecord) {
+    return `Record<string, ${describeSchema(schema.valueSchema, indent)}>`;
+  }
+  if (schema instanceof z.ZodString) return 'string';
+  if (schema instanceof z.ZodNumber) return 'number';
+  if (schema instanceof z.ZodBoolean) return 'boolean';
+  if (schema instanceof z.ZodNull) return 'null';
+
+  return 'any';
+}
+
+// JSON schema for a zod schema, as expected for tool parameters
+export function toJsonSchema(schema: ZodTypeAny): Record<string, any> {
+  const withDescription = (json: Record<string, any>) =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  if (schema instanceof z.ZodOptional) {
+    return withDescription(toJsonSchema(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodNullable) {
+    return withDescription({ anyOf: [toJsonSchema(schema.unwrap()), { type: 'null' }] });
+  }
+  if (schema instanceof z.ZodDefault) {
+    return withDescription({ ...toJsonSchema(schema._def.innerType), default: schema._def.defaultValue() });
+  }
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(toJsonSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    Object.keys(shape).forEach(key => {
+      properties[key] = toJsonSchema(shape[key]);
+      if (!shape[key].isOptional()) {
+        required.push(key);
+      }
+    });
+
+    return withDescription({ type: 'object', properties, ...(required.length > 0 ? { required } : {}) });
+  }
+  if (schema instanceof z.ZodArray) {
+    return withDescription({ type: 'array', items: toJsonSchema(schema.element) });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: 'string', enum: schema.options });
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.keys(schema.enum)
+      .filter(key => isNaN(Number(key)))
+      .map(key => schema.enum[key]);
+    return withDescription({ enum: values });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return withDescription({ const: schema.value });
+  }
+  if (schema instanceof z.ZodUnion) {
+    return withDescription({ anyOf: (schema.options as ZodTypeAny[]).map(option => toJsonSchema(option)) });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return withDescription({ type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) });
+  }
+  if (schema instanceof z.ZodString) return withDescription({ type: 'string' });
+  if (schema instanceof z.ZodNumber) {
+    return withDescription({ type: schema.isInt ? 'integer' : 'number' });
+  }
+  if (schema instanceof z.ZodBoolean) return withDescription({ type: 'boolean' });
+  if (schema instanceof z.ZodNull) return withDescription({ type: 'null' });
+
+  return withDescription({});
+}
+
+/**
+ * Zod schema for a JSON schema, the inverse of toJsonSchema for the keywords
+ * it produces. Anything else is accepted as is.
+ */
+export function fromJsonSchema(json: Record<string, any>): ZodTypeAny {
+  let schema: ZodTypeAny;
+
+  if (Array.isArray(json.enum) && json.enum.length > 0 && json.enum.every((value: unknown) => typeof value === 'string')) {
+    schema = z.enum(json.enum as [string, ...string[]]);
+  } else if (Array.isArray(json.anyOf) && json.anyOf.length >= 2) {
+    schema = z.union(json.anyOf.map(fromJsonSchema) as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]);
+  } else if (json.type === 'object' && json.properties) {
+    const required: string[] = json.required || [];
+    const shape: Record<string, ZodTypeAny> = {};
+    Object.keys(json.properties).forEach(key => {
+      const property = fromJsonSchema(json.properties[key]);
+      shape[key] = required.includes(key) || json.properties[key].default !== undefined ? property : property.optional();
+    });
+    schema = z.object(shape);
+  } else if (json.type === 'object') {
+    schema = z.record(json.additionalProperties ? fromJsonSchema(json.additionalProperties) : z.any());
+  } else if (json.type === 'array') {
+    schema = z.array(json.items ? fromJsonSchema(json.items) : z.any());
+  } else if (json.type === 'string') {
+    schema = z.string();
+  } else if (json.type === 'integer') {
+    schema = z.number().int();
+  } else if (json.type === 'number') {
+    schema = z.number();
+  } else if (json.type === 'boolean') {
+    schema = z.boolean();
+  } else if (json.type === 'null') {
+    schema = z.null();
+  } else if (json.const !== undefined) {
+    schema = z.literal(json.const);
+  } else {
+    schema = z.any();
+  }
+
+  if (json.default !== undefined) {
+    schema = schema.default(json.default);
+  }
+  return json.description ? schema.describe(json.description) : schema;
+}
+
+// System prompt asking for a single JSON value of the given shape
+export function structuredSystemPrompt(schema: ZodTypeAny, system?: string): string {
+  const instructions = `Respond only with a JSON value matching this TypeScript type, without markdown fences or any other text:\n${describeSchema(schema)}`;
+  return system ? `${system}\n\n${instructions}` : instructions;
+}
+
+// Follow-up prompt that shows the model its invalid answer and what was wrong with it
+export function repairPrompt(prompt: string, invalidText: string, issues: string[]): string {
+  return `${prompt}
+
+Your previous answer was not valid:
+${invalidText}
+
+Problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Answer again with corrected JSON only.`;
+}
+
+export function formatZodIssues(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+// The issue messages grouped by field path, as returned to API callers
+export function fieldErrors(error: ZodError): Record<string, string[]> {
+  const fields: Record<string, string[]> = {};
+  error.issues.forEach(issue => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    (fields[path] = fields[path] || []).push(issue.message);
+  });
+  return fields;
+}
+
+/**
+ * Extracts the JSON value from a completion. Models often wrap JSON in markdown
+ * fences or surround it with prose, and sometimes leave trailing commas; those
+ * are repaired locally before the model is re-asked.
+ */
+export function extractJson(text: string): unknown {
+  let candidate = text.trim();
+
+  const fenced = candidate.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    candidate = fenced[1].trim();
+  }
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    // Fall through to the outermost object or array in the text
+  }
+
+  const start = candidate.search(/[{[]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    throw new SyntaxError('No JSON object or array found in the response');
+  }
+
+  const body = candidate.substring(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+  return JSON.parse(body);
+}
+
+// Parse and validate a completion, collecting the problems instead of throwing
+export function parseStructuredOutput<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, any>): StructuredParseResult<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return { success: false, issues: [`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: formatZodIssues(result.error) };
+}
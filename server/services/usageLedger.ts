@@ -0,0 +1,336 @@
+import { logger } from '../utils/logger';
+import { storage, type IStorage, type LLMUsageFilter } from '../storage';
+import { ActivityType, BudgetPeriod, BudgetScope, BudgetUnit, type LLMUsage, type UsageBudget } from '@shared/schema';
+import { providerRegistry, ProviderRegistry } from './providerRegistry';
+import { LLMBudgetExceededError } from './llmErrors';
+import { estimatePromptTokens } from './conversationHistory';
+import type { LLMPromptTemplateRef, LLMRequestParams } from './llmService';
+
+// Who an LLM call is charged to
+export interface LLMUsageContext {
+  agentId?: number;
+  projectId?: number;
+  taskId?: number;
+}
+
+export interface UsageRecordInput {
+  provider: string;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens?: number;
+  cached?: boolean;
+  context?: LLMUsageContext;
+  promptTemplate?: LLMPromptTemplateRef;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  id: number | null; // null for the system-wide token limit kept in system stats
+  scope: string;
+  scopeId: number | null;
+  unit: string;
+  period: string;
+  softLimit: number | null;
+  hardLimit: number | null;
+  spent: number;
+  periodStart: string | null;
+  state: BudgetState;
+}
+
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  days: Array<UsageTotals & { date: string }>;
+  providers: Array<UsageTotals & { provider: string }>;
+  agents: Array<UsageTotals & { agentId: number | null }>;
+  prompts: Array<UsageTotals & { promptTemplate: string; promptVersion: number }>; // Calls made with a prompt template
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the budget's current period in UTC; undefined for lifetime budgets
+function periodStart(period: string, now: Date): Date | undefined {
+  if (period === BudgetPeriod.DAILY) {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+  if (period === BudgetPeriod.MONTHLY) {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  return undefined;
+}
+
+function appliesTo(budget: UsageBudget, context: LLMUsageContext): boolean {
+  switch (budget.scope) {
+    case BudgetScope.GLOBAL:
+      return true;
+    case BudgetScope.PROJECT:
+      return context.projectId !== undefined && budget.scopeId === context.projectId;
+    case BudgetScope.TASK:
+      return context.taskId !== undefined && budget.scopeId === context.taskId;
+    case BudgetScope.AGENT:
+      return context.agentId !== undefined && budget.scopeId === context.agentId;
+    default:
+      return false;
+  }
+}
+
+function describeBudget(budget: Pick<BudgetStatus, 'scope' | 'scopeId' | 'unit' | 'period'>): string {
+  const owner = budget.scope === BudgetScope.GLOBAL ? 'global' : `${budget.scope} ${budget.scopeId}`;
+  return `${owner} ${budget.period} ${budget.unit === BudgetUnit.USD ? 'cost' : 'token'} budget`;
+}
+
+function formatAmount(amount: number, unit: string): string {
+  return unit === BudgetUnit.USD ? `$${amount.toFixed(4)}` : `${Math.round(amount)} tokens`;
+}
+
+function stateOf(spent: number, softLimit: number | null, hardLimit: number | null): BudgetState {
+  if (hardLimit !== null && spent >= hardLimit) return 'exceeded';
+  if (softLimit !== null && spent >= softLimit) return 'warning';
+  return 'ok';
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addUsage(totals: UsageTotals, usage: LLMUsage): void {
+  totals.calls++;
+  if (usage.cached) {
+    // Cache hits are listed but not charged
+    totals.cachedCalls++;
+    return;
+  }
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.cost += usage.cost;
+}
+
+/**
+ * Records every LLM call with its cost and enforces usage budgets. Budgets
+ * apply at the global, project, task and agent level: crossing a soft limit logs
+ * a warning activity once per period, and a call that would cross a hard limit
+ * is rejected with LLMBudgetExceededError before it reaches the provider.
+ * `systemStats.apiTokensLimit` acts as a lifetime global hard token limit.
+ */
+export class UsageLedger {
+  private store: IStorage;
+  private registry: ProviderRegistry;
+  private warned: Set<string>; // Soft-limit warnings already issued, per budget and period
+
+  constructor(store: IStorage = storage, registry: ProviderRegistry = providerRegistry) {
+    this.store = store;
+    this.registry = registry;
+    this.warned = new Set();
+  }
+
+  // Rough pre-call estimate: the prompt, including any history, plus the requested completion length
+  estimateTokens(params: LLMRequestParams): number {
+    return estimatePromptTokens(params) + (params.maxTokens || 0);
+  }
+
+  private async spent(budget: Pick<UsageBudget, 'scope' | 'scopeId' | 'unit' | 'period'>, now: Date): Promise<number> {
+    const filter: LLMUsageFilter = { from: periodStart(budget.period, now) };
+    const scopeId = budget.scopeId ?? undefined;
+    if (budget.scope === BudgetScope.PROJECT) filter.projectId = scopeId;
+    if (budget.scope === BudgetScope.TASK) filter.taskId = scopeId;
+    if (budget.scope === BudgetScope.AGENT) filter.agentId = scopeId;
+
+    const usage = await this.store.getLLMUsage(filter);
+    return usage
+      .filter(entry => !entry.cached)
+      .reduce((total, entry) => total + (budget.unit === BudgetUnit.USD ? entry.cost : entry.totalTokens), 0);
+  }
+
+  // Budgets with their current spend; with a context, only the budgets that apply to it
+  async getBudgetStatuses(context?: LLMUsageContext, now = new Date()): Promise<BudgetStatus[]> {
+    const budgets = (await this.store.getAllUsageBudgets())
+      .filter(budget => !context || appliesTo(budget, context));
+
+    const statuses = await Promise.all(budgets.map(async (budget): Promise<BudgetStatus> => {
+      const spent = await this.spent(budget, now);
+      const start = periodStart(budget.period, now);
+
+      return {
+        id: budget.id,
+        scope: budget.scope,
+        scopeId: budget.scopeId,
+        unit: budget.unit,
+        period: budget.period,
+        softLimit: budget.softLimit,
+        hardLimit: budget.hardLimit,
+        spent,
+        periodStart: start ? start.toISOString() : null,
+        state: stateOf(spent, budget.softLimit, budget.hardLimit)
+      };
+    }));
+
+    const stats = await this.store.getSystemStats();
+    if (stats) {
+      statuses.unshift({
+        id: null,
+        scope: BudgetScope.GLOBAL,
+        scopeId: null,
+        unit: BudgetUnit.TOKENS,
+        period: BudgetPeriod.TOTAL,
+        softLimit: null,
+        hardLimit: stats.apiTokensLimit,
+        spent: stats.apiTokensUsed,
+        periodStart: null,
+        state: stateOf(stats.apiTokensUsed, null, stats.apiTokensLimit)
+      });
+    }
+
+    return statuses;
+  }
+
+  // Throws LLMBudgetExceededError if the call would cross a hard limit; warns on soft limits
+  async enforce(params: LLMRequestParams & { provider: string }): Promise<void> {
+    const now = new Date();
+    const estimatedTokens = this.estimateTokens(params);
+    const estimatedCost = this.registry.estimateCost(
+      params.provider,
+      estimatedTokens - (params.maxTokens || 0),
+      params.maxTokens || 0
+    );
+
+    const statuses = await this.getBudgetStatuses(params.usageContext || {}, now);
+
+    for (const status of statuses) {
+      const projected = status.spent + (status.unit === BudgetUnit.USD ? estimatedCost : estimatedTokens);
+
+      if (status.hardLimit !== null && projected > status.hardLimit) {
+        const description = describeBudget(status);
+        logger.warn(`LLM call blocked by ${description}: ${formatAmount(status.spent, status.unit)} of ${formatAmount(status.hardLimit, status.unit)} used`);
+
+        throw new LLMBudgetExceededError(
+          `The ${description} of ${formatAmount(status.hardLimit, status.unit)} would be exceeded (${formatAmount(status.spent, status.unit)} used)`,
+          params.provider,
+          {
+            scope: status.scope,
+            scopeId: status.scopeId,
+            unit: status.unit,
+            period: status.period,
+            hardLimit: status.hardLimit,
+            spent: status.spent
+          }
+        );
+      }
+
+      if (status.softLimit !== null && projected >= status.softLimit) {
+        await this.warnOnce(status);
+      }
+    }
+  }
+
+  private async warnOnce(status: BudgetStatus): Promise<void> {
+    const key = `${status.id}:${status.periodStart}`;
+    if (this.warned.has(key)) {
+      return;
+    }
+    this.warned.add(key);
+
+    const description = `LLM ${describeBudget(status)} soft limit reached: ${formatAmount(status.spent, status.unit)} of ${formatAmount(status.softLimit!, status.unit)}`;
+    logger.warn(description);
+
+    await this.store.createSystemActivity({
+      type: ActivityType.API_CALL,
+      description,
+      metadata: { budgetId: status.id, scope: status.scope, scopeId: status.scopeId, spent: status.spent, softLimit: status.softLimit }
+    });
+  }
+
+  async record(input: UsageRecordInput): Promise<LLMUsage> {
+    const totalTokens = input.totalTokens || input.inputTokens + input.outputTokens;
+    const cached = !!input.cached;
+
+    const usage = await this.store.createLLMUsage({
+      provider: input.provider,
+      model: input.model ?? null,
+      inputTokens: input.inputTokens,
+      outputTokens: input.outputTokens,
+      totalTokens,
+      cost: cached ? 0 : this.registry.estimateCost(input.provider, input.inputTokens, input.outputTokens),
+      cached,
+      agentId: input.context?.agentId ?? null,
+      projectId: input.context?.projectId ?? null,
+      taskId: input.context?.taskId ?? null,
+      promptTemplate: input.promptTemplate?.name ?? null,
+      promptVersion: input.promptTemplate?.version ?? null
+    });
+
+    // Keep the global counter that backs apiTokensLimit in step with the ledger
+    if (!cached) {
+      const stats = await this.store.getSystemStats();
+      if (stats) {
+        await this.store.updateSystemStats({ apiTokensUsed: (stats.apiTokensUsed || 0) + totalTokens });
+      }
+    }
+
+    return usage;
+  }
+
+  // Usage aggregated per UTC day (every day in the range is present), provider, agent and prompt version
+  async getReport(filter: LLMUsageFilter = {}): Promise<UsageReport> {
+    const to = filter.to || new Date(periodStart(BudgetPeriod.DAILY, new Date())!.getTime() + DAY_MS);
+    const from = filter.from || new Date(to.getTime() - 30 * DAY_MS);
+    const usage = await this.store.getLLMUsage({ ...filter, from, to });
+
+    const totals = emptyTotals();
+    const days = new Map<string, UsageTotals & { date: string }>();
+    const providers = new Map<string, UsageTotals & { provider: string }>();
+    const agents = new Map<string, UsageTotals & { agentId: number | null }>();
+    const prompts = new Map<string, UsageTotals & { promptTemplate: string; promptVersion: number }>();
+
+    for (let day = periodStart(BudgetPeriod.DAILY, from)!.getTime(); day < to.getTime(); day += DAY_MS) {
+      const date = new Date(day).toISOString().substring(0, 10);
+      days.set(date, { date, ...emptyTotals() });
+    }
+
+    usage.forEach(entry => {
+      const date = (entry.createdAt || new Date()).toISOString().substring(0, 10);
+      const agentKey = String(entry.agentId);
+
+      if (!days.has(date)) days.set(date, { date, ...emptyTotals() });
+      if (!providers.has(entry.provider)) providers.set(entry.provider, { provider: entry.provider, ...emptyTotals() });
+      if (!agents.has(agentKey)) agents.set(agentKey, { agentId: entry.agentId, ...emptyTotals() });
+
+      addUsage(totals, entry);
+      addUsage(days.get(date)!, entry);
+      addUsage(providers.get(entry.provider)!, entry);
+      addUsage(agents.get(agentKey)!, entry);
+
+      if (entry.promptTemplate) {
+        const promptKey = `${entry.promptTemplate}@${entry.promptVersion}`;
+        if (!prompts.has(promptKey)) {
+          prompts.set(promptKey, { promptTemplate: entry.promptTemplate, promptVersion: entry.promptVersion ?? 0, ...emptyTotals() });
+        }
+        addUsage(prompts.get(promptKey)!, entry);
+      }
+    });
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totals,
+      days: Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date)),
+      providers: Array.from(providers.values()).sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens),
+      agents: Array.from(agents.values()).sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens),
+      prompts: Array.from(prompts.values()).sort((a, b) => a.promptTemplate.localeCompare(b.promptTemplate) || a.promptVersion - b.promptVersion)
+    };
+  }
+}
+
+export const usageLedger = new UsageLedger();
@@ -11,9 +11,34 @@ import {
   componentRelationships, type ComponentRelationship, type InsertComponentRelationship,
   systemKnowledgeBase, type SystemKnowledge, type InsertSystemKnowledge,
   systemErrorLogs, type SystemErrorLog, type InsertSystemErrorLog,
-  AgentType, AgentStatus, TaskStatus, MessageType, ActivityType, MemoryType, ComponentType, ErrorType
+  llmUsage, type LLMUsage, type InsertLLMUsage,
+  usageBudgets, type UsageBudget, type InsertUsageBudget,
+  promptTemplates, type PromptTemplate, type InsertPromptTemplate,
+  experiments, type Experiment, type InsertExperiment,
+  jobs, type Job, type InsertJob,
+  AgentType, AgentStatus, TaskStatus, MessageType, ActivityType, MemoryType, ComponentType, ErrorType,
+  ExperimentStatus, JobStatus
 } from "@shared/schema";
 
+// Criteria for reading the LLM usage ledger; `from` is inclusive, `to` exclusive
+export interface LLMUsageFilter {
+  from?: Date;
+  to?: Date;
+  agentId?: number;
+  projectId?: number;
+  taskId?: number;
+}
+
+// Criteria for listing jobs, newest first
+export interface JobFilter {
+  statuses?: JobStatus[];
+  taskId?: number;
+  limit?: number;
+}
+
+// What a job's run changes about it
+export type JobUpdate = Partial<Omit<Job, 'id' | 'agentType' | 'input' | 'context' | 'createdAt' | 'updatedAt'>>;
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
@@ -27,6 +52,7 @@ export interface IStorage {
   getAllAgents(): Promise<Agent[]>;
   createAgent(agent: InsertAgent): Promise<Agent>;
   updateAgentStatus(id: number, status: AgentStatus): Promise<Agent | undefined>;
+  updateAgentActive(id: number, isActive: boolean): Promise<Agent | undefined>;
 
   // Project operations
   getProject(id: number): Promise<Project | undefined>;
@@ -47,12 +73,43 @@ export interface IStorage {
   // System Activity operations
   getSystemActivity(id: number): Promise<SystemActivity | undefined>;
   getRecentSystemActivities(limit: number): Promise<SystemActivity[]>;
+  getSystemActivitiesByType(type: string): Promise<SystemActivity[]>; // Oldest first
   createSystemActivity(activity: InsertSystemActivity): Promise<SystemActivity>;
 
   // System Stats operations
   getSystemStats(): Promise<SystemStats | undefined>;
   updateSystemStats(stats: Partial<InsertSystemStats>): Promise<SystemStats | undefined>;
   
+  // LLM Usage ledger operations
+  createLLMUsage(usage: InsertLLMUsage): Promise<LLMUsage>;
+  getLLMUsage(filter: LLMUsageFilter): Promise<LLMUsage[]>;
+  
+  // Usage Budget operations
+  getUsageBudget(id: number): Promise<UsageBudget | undefined>;
+  getAllUsageBudgets(): Promise<UsageBudget[]>;
+  createUsageBudget(budget: InsertUsageBudget): Promise<UsageBudget>;
+  updateUsageBudget(id: number, budget: Partial<InsertUsageBudget>): Promise<UsageBudget | undefined>;
+  deleteUsageBudget(id: number): Promise<boolean>;
+  
+  // Prompt Template operations
+  getPromptTemplate(id: number): Promise<PromptTemplate | undefined>;
+  getPromptTemplatesByName(name: string): Promise<PromptTemplate[]>;
+  getAllPromptTemplates(): Promise<PromptTemplate[]>;
+  createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate>;
+  updatePromptTemplate(id: number, template: Partial<InsertPromptTemplate>): Promise<PromptTemplate | undefined>;
+  
+  // Experiment operations
+  getExperiment(id: number): Promise<Experiment | undefined>;
+  getAllExperiments(): Promise<Experiment[]>;
+  createExperiment(experiment: InsertExperiment): Promise<Experiment>;
+  updateExperimentStatus(id: number, status: ExperimentStatus): Promise<Experiment | undefined>;
+  
+  // Job operations
+  getJob(id: number): Promise<Job | undefined>;
+  getJobs(filter?: JobFilter): Promise<Job[]>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: number, update: JobUpdate): Promise<Job | undefined>;
+  
   // Agent Memory operations
   getAgentMemory(id: number): Promise<AgentMemory | undefined>;
   getAgentMemoriesByAgent(agentId: number): Promise<AgentMemory[]>;
@@ -110,6 +167,11 @@ export class MemStorage implements IStorage {
   private agentMemories: Map<number, AgentMemory>;
   private projectComponents: Map<number, ProjectComponent>;
   private componentRelationships: Map<number, ComponentRelationship>;
+  private llmUsage: Map<number, LLMUsage>;
+  private usageBudgets: Map<number, UsageBudget>;
+  private promptTemplates: Map<number, PromptTemplate>;
+  private experiments: Map<number, Experiment>;
+  private jobs: Map<number, Job>;
 
   private userIdCounter: number;
   private agentIdCounter: number;
@@ -122,6 +184,11 @@ export class MemStorage implements IStorage {
   private agentMemoryIdCounter: number;
   private projectComponentIdCounter: number;
   private componentRelationshipIdCounter: number;
+  private llmUsageIdCounter: number;
+  private usageBudgetIdCounter: number;
+  private promptTemplateIdCounter: number;
+  private experimentIdCounter: number;
+  private jobIdCounter: number;
 
   constructor() {
     this.users = new Map();
@@ -135,6 +202,11 @@ export class MemStorage implements IStorage {
     this.agentMemories = new Map();
     this.projectComponents = new Map();
     this.componentRelationships = new Map();
+    this.llmUsage = new Map();
+    this.usageBudgets = new Map();
+    this.promptTemplates = new Map();
+    this.experiments = new Map();
+    this.jobs = new Map();
 
     this.userIdCounter = 1;
     this.agentIdCounter = 1;
@@ -147,6 +219,11 @@ export class MemStorage implements IStorage {
     this.agentMemoryIdCounter = 1;
     this.projectComponentIdCounter = 1;
     this.componentRelationshipIdCounter = 1;
+    this.llmUsageIdCounter = 1;
+    this.usageBudgetIdCounter = 1;
+    this.promptTemplateIdCounter = 1;
+    this.experimentIdCounter = 1;
+    this.jobIdCounter = 1;
 
     // Initialize default system stats
     this.systemStats = {
@@ -235,6 +312,19 @@ export class MemStorage implements IStorage {
     return updatedAgent;
   }
 
+  async updateAgentActive(id: number, isActive: boolean): Promise<Agent | undefined> {
+    const agent = this.agents.get(id);
+    if (!agent) return undefined;
+
+    const updatedAgent: Agent = {
+      ...agent,
+      isActive,
+      updatedAt: new Date()
+    };
+    this.agents.set(id, updatedAgent);
+    return updatedAgent;
+  }
+
   // Project operations
   async getProject(id: number): Promise<Project | undefined> {
     return this.projects.get(id);
@@ -325,6 +415,12 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async getSystemActivitiesByType(type: string): Promise<SystemActivity[]> {
+    return Array.from(this.systemActivities.values())
+      .filter(activity => activity.type === type)
+      .sort((a, b) => a.id - b.id);
+  }
+
   async createSystemActivity(insertActivity: InsertSystemActivity): Promise<SystemActivity> {
     const id = this.systemActivityIdCounter++;
     const activity: SystemActivity = {
@@ -353,6 +449,216 @@ export class MemStorage implements IStorage {
     return this.systemStats;
   }
   
+  // LLM Usage ledger operations
+  async createLLMUsage(insertUsage: InsertLLMUsage): Promise<LLMUsage> {
+    const id = this.llmUsageIdCounter++;
+    const usage: LLMUsage = {
+      id,
+      provider: insertUsage.provider,
+      model: insertUsage.model ?? null,
+      inputTokens: insertUsage.inputTokens ?? 0,
+      outputTokens: insertUsage.outputTokens ?? 0,
+      totalTokens: insertUsage.totalTokens ?? 0,
+      cost: insertUsage.cost ?? 0,
+      cached: insertUsage.cached ?? false,
+      agentId: insertUsage.agentId ?? null,
+      projectId: insertUsage.projectId ?? null,
+      taskId: insertUsage.taskId ?? null,
+      promptTemplate: insertUsage.promptTemplate ?? null,
+      promptVersion: insertUsage.promptVersion ?? null,
+      createdAt: new Date()
+    };
+    this.llmUsage.set(id, usage);
+    return usage;
+  }
+  
+  async getLLMUsage(filter: LLMUsageFilter): Promise<LLMUsage[]> {
+    return Array.from(this.llmUsage.values()).filter(usage => {
+      const createdAt = usage.createdAt ? usage.createdAt.getTime() : 0;
+      if (filter.from && createdAt < filter.from.getTime()) return false;
+      if (filter.to && createdAt >= filter.to.getTime()) return false;
+      if (filter.agentId !== undefined && usage.agentId !== filter.agentId) return false;
+      if (filter.projectId !== undefined && usage.projectId !== filter.projectId) return false;
+      if (filter.taskId !== undefined && usage.taskId !== filter.taskId) return false;
+      return true;
+    });
+  }
+  
+  // Usage Budget operations
+  async getUsageBudget(id: number): Promise<UsageBudget | undefined> {
+    return this.usageBudgets.get(id);
+  }
+  
+  async getAllUsageBudgets(): Promise<UsageBudget[]> {
+    return Array.from(this.usageBudgets.values());
+  }
+  
+  async createUsageBudget(insertBudget: InsertUsageBudget): Promise<UsageBudget> {
+    const id = this.usageBudgetIdCounter++;
+    const now = new Date();
+    const budget: UsageBudget = {
+      id,
+      scope: insertBudget.scope,
+      scopeId: insertBudget.scopeId ?? null,
+      unit: insertBudget.unit ?? 'tokens',
+      period: insertBudget.period ?? 'total',
+      softLimit: insertBudget.softLimit ?? null,
+      hardLimit: insertBudget.hardLimit ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.usageBudgets.set(id, budget);
+    return budget;
+  }
+  
+  async updateUsageBudget(id: number, partialBudget: Partial<InsertUsageBudget>): Promise<UsageBudget | undefined> {
+    const budget = this.usageBudgets.get(id);
+    if (!budget) return undefined;
+    
+    const updatedBudget: UsageBudget = {
+      ...budget,
+      ...partialBudget,
+      updatedAt: new Date()
+    };
+    this.usageBudgets.set(id, updatedBudget);
+    return updatedBudget;
+  }
+  
+  async deleteUsageBudget(id: number): Promise<boolean> {
+    return this.usageBudgets.delete(id);
+  }
+  
+  // Prompt Template operations
+  async getPromptTemplate(id: number): Promise<PromptTemplate | undefined> {
+    return this.promptTemplates.get(id);
+  }
+  
+  async getPromptTemplatesByName(name: string): Promise<PromptTemplate[]> {
+    return Array.from(this.promptTemplates.values())
+      .filter(template => template.name === name)
+      .sort((a, b) => a.version - b.version);
+  }
+  
+  async getAllPromptTemplates(): Promise<PromptTemplate[]> {
+    return Array.from(this.promptTemplates.values())
+      .sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version);
+  }
+  
+  async createPromptTemplate(insertTemplate: InsertPromptTemplate): Promise<PromptTemplate> {
+    const id = this.promptTemplateIdCounter++;
+    const template: PromptTemplate = {
+      id,
+      name: insertTemplate.name,
+      version: insertTemplate.version,
+      agentId: insertTemplate.agentId ?? null,
+      content: insertTemplate.content,
+      description: insertTemplate.description ?? null,
+      isActive: insertTemplate.isActive ?? false,
+      createdAt: new Date()
+    };
+    this.promptTemplates.set(id, template);
+    return template;
+  }
+  
+  async updatePromptTemplate(id: number, partialTemplate: Partial<InsertPromptTemplate>): Promise<PromptTemplate | undefined> {
+    const template = this.promptTemplates.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate: PromptTemplate = { ...template, ...partialTemplate };
+    this.promptTemplates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  // Experiment operations
+  async getExperiment(id: number): Promise<Experiment | undefined> {
+    return this.experiments.get(id);
+  }
+  
+  async getAllExperiments(): Promise<Experiment[]> {
+    return Array.from(this.experiments.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async createExperiment(insertExperiment: InsertExperiment): Promise<Experiment> {
+    const id = this.experimentIdCounter++;
+    const experiment: Experiment = {
+      id,
+      name: insertExperiment.name,
+      description: insertExperiment.description ?? null,
+      agentType: insertExperiment.agentType,
+      status: ExperimentStatus.DRAFT,
+      trafficPercent: insertExperiment.trafficPercent ?? 50,
+      variantA: insertExperiment.variantA,
+      variantB: insertExperiment.variantB,
+      createdAt: new Date(),
+      startedAt: null,
+      stoppedAt: null
+    };
+    this.experiments.set(id, experiment);
+    return experiment;
+  }
+  
+  async updateExperimentStatus(id: number, status: ExperimentStatus): Promise<Experiment | undefined> {
+    const experiment = this.experiments.get(id);
+    if (!experiment) return undefined;
+    
+    const updatedExperiment: Experiment = {
+      ...experiment,
+      status,
+      startedAt: status === ExperimentStatus.RUNNING ? new Date() : experiment.startedAt,
+      stoppedAt: status === ExperimentStatus.STOPPED ? new Date() : experiment.stoppedAt
+    };
+    this.experiments.set(id, updatedExperiment);
+    return updatedExperiment;
+  }
+
+  // Job operations
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobs(filter: JobFilter = {}): Promise<Job[]> {
+    const matching = Array.from(this.jobs.values())
+      .filter(job => !filter.statuses || filter.statuses.indexOf(job.status as JobStatus) !== -1)
+      .filter(job => filter.taskId === undefined || job.taskId === filter.taskId)
+      .sort((a, b) => b.id - a.id);
+    return filter.limit !== undefined ? matching.slice(0, filter.limit) : matching;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.jobIdCounter++;
+    const now = new Date();
+    const job: Job = {
+      id,
+      agentType: insertJob.agentType,
+      status: JobStatus.QUEUED,
+      progress: 0,
+      progressMessage: null,
+      input: insertJob.input,
+      context: insertJob.context ?? null,
+      taskId: insertJob.taskId ?? null,
+      messageId: insertJob.messageId ?? null,
+      resultMessageId: null,
+      agentId: null,
+      result: null,
+      error: null,
+      createdAt: now,
+      startedAt: null,
+      completedAt: null,
+      updatedAt: now
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async updateJob(id: number, update: JobUpdate): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob: Job = { ...job, ...update, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
   // Agent Memory operations
   async getAgentMemory(id: number): Promise<AgentMemory | undefined> {
     return this.agentMemories.get(id);
@@ -0,0 +1,137 @@
+import { AgentStatus } from '@shared/schema';
+import { AgentLifecycleError, acceptsWork, canTransition, lifecycleTarget } from '../agents/agentLifecycle';
+import { AgentPool } from '../agents/agentPool';
+import { MemStorage, storage } from '../storage';
+import { GatedAgent, sleep } from './gatedAgent';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('Agent lifecycle', () => {
+  beforeEach(() => {
+    GatedAgent.gates = [];
+  });
+
+  test('should only allow legal transitions', () => {
+    expect(canTransition(AgentStatus.IDLE, AgentStatus.PAUSED)).toBe(true);
+    expect(canTransition(AgentStatus.PAUSED, AgentStatus.IDLE)).toBe(true);
+    expect(canTransition(AgentStatus.PAUSED, AgentStatus.ACTIVE)).toBe(false);
+    expect(canTransition(AgentStatus.DRAINING, AgentStatus.ERROR)).toBe(false);
+
+    expect(lifecycleTarget('drain', AgentStatus.ACTIVE)).toBe(AgentStatus.DRAINING);
+    expect(() => lifecycleTarget('drain', AgentStatus.PAUSED)).toThrow(AgentLifecycleError);
+    expect(() => lifecycleTarget('resume', AgentStatus.IDLE)).toThrow('Cannot resume an agent that is idle');
+
+    expect(acceptsWork(AgentStatus.ERROR)).toBe(true);
+    expect(acceptsWork(AgentStatus.DRAINING)).toBe(false);
+  });
+
+  test('should keep a paused agent paused while its runs finish', async () => {
+    const agent = new GatedAgent(1);
+    const run = agent.run('work');
+    await sleep(10);
+
+    await agent.control('pause');
+    GatedAgent.gates.shift()!();
+    await run;
+
+    expect(agent.status).toBe(AgentStatus.PAUSED);
+    await agent.control('resume');
+    expect(agent.status).toBe(AgentStatus.IDLE);
+  });
+
+  test('should pause a draining agent once its last run finishes', async () => {
+    const agent = new GatedAgent(1);
+    const run = agent.run('work');
+    await sleep(10);
+
+    await agent.control('drain');
+    expect(agent.status).toBe(AgentStatus.DRAINING);
+
+    GatedAgent.gates.shift()!();
+    const result = await run;
+
+    expect(result.success).toBe(true);
+    expect(agent.status).toBe(AgentStatus.PAUSED);
+  });
+
+  test('should cancel runs in progress on restart', async () => {
+    const agent = new GatedAgent(1);
+    const run = agent.run('work');
+    await sleep(10);
+
+    await agent.control('restart');
+    const result = await run;
+
+    expect(result.cancelled).toBe(true);
+    expect(agent.status).toBe(AgentStatus.IDLE);
+  });
+
+  test('should reject status changes the state machine does not allow', async () => {
+    const agent = new GatedAgent(1);
+    await agent.control('pause');
+
+    await expect(agent.changeStatus(AgentStatus.ACTIVE)).rejects.toThrow(AgentLifecycleError);
+    await expect(agent.control('pause')).rejects.toThrow(AgentLifecycleError);
+  });
+
+  test('should not route work to paused instances', async () => {
+    const store = new MemStorage();
+    const pool = new AgentPool({
+      type: 'gated',
+      name: 'Gated Agent',
+      initialStatus: AgentStatus.IDLE,
+      create: id => new GatedAgent(id),
+      store,
+      size: { min: 2, max: 2 }
+    });
+    await pool.initialize(await store.getAllAgents());
+    const [first, second] = pool.getInstances();
+
+    await pool.control(first.id, 'pause');
+    expect((await pool.acquire())!.agent).toBe(second);
+
+    await pool.control(second.id, 'drain');
+    expect(await pool.acquire()).toBeUndefined();
+
+    const restarted = await pool.control(first.id, 'restart');
+    expect(restarted).not.toBe(first);
+    expect(restarted!.status).toBe(AgentStatus.IDLE);
+    expect((await pool.acquire())!.agent).toBe(restarted);
+  });
+
+  test('should keep a restarted instance from changing its replacement\'s status', async () => {
+    const store = new MemStorage();
+    const pool = new AgentPool({
+      type: 'gated',
+      name: 'Gated Agent',
+      initialStatus: AgentStatus.IDLE,
+      create: id => new GatedAgent(id),
+      store,
+      size: { min: 1, max: 1 }
+    });
+    await pool.initialize(await store.getAllAgents());
+    const [first] = pool.getInstances();
+
+    const run = first.run('work');
+    await sleep(10);
+    const restarted = await pool.control(first.id, 'restart');
+    await run;
+    await pool.control(restarted!.id, 'pause');
+
+    const updateAgentStatus = jest.spyOn(storage, 'updateAgentStatus');
+    await first.setStatus(AgentStatus.ERROR);
+    await first.control('restart');
+
+    expect(updateAgentStatus).not.toHaveBeenCalled();
+    expect(restarted!.status).toBe(AgentStatus.PAUSED);
+    updateAgentStatus.mockRestore();
+  });
+});
@@ -0,0 +1,96 @@
+import { AgentType } from '@shared/schema';
+import { AgentBase, AgentExecutionResult } from '../agents/agentBase';
+import { AgentMethodError, describeMethod, formatMethodInput } from '../agents/agentMethods';
+import type { AgentMethodDescription } from '../agents/intentRouter';
+import { llmService } from '../services/llmService';
+import { z } from 'zod';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+jest.mock('../services/llmService', () => ({
+  llmService: { callStructured: jest.fn() }
+}));
+
+const translate: AgentMethodDescription = {
+  name: 'translateCode',
+  description: 'Translate code to another language',
+  parameters: z.object({
+    code: z.string().min(1).describe('The code to translate'),
+    to: z.enum(['python', 'typescript']),
+    notes: z.array(z.string()).optional()
+  }),
+  keywords: ['translate', 'port']
+};
+
+// Echoes the input and context its handler was given
+class TranslatingAgent extends AgentBase {
+  constructor() {
+    super(1, 'Translating Agent', AgentType.CODING);
+  }
+
+  getMethodDescriptions(): AgentMethodDescription[] {
+    return [translate];
+  }
+
+  async process(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    return this.dispatch(input, context, {
+      translateCode: async () => ({ success: true, output: input, data: { to: context?.to, params: context?.params } })
+    });
+  }
+}
+
+describe('Agent method invocation', () => {
+  test('should describe methods with their parameters as JSON schema', () => {
+    const info = describeMethod(translate);
+
+    expect(info).toEqual(expect.objectContaining({ name: 'translateCode', default: false }));
+    expect(info.parameters.required).toEqual(['code', 'to']);
+    expect(info.parameters.properties.to).toEqual({ type: 'string', enum: ['python', 'typescript'] });
+  });
+
+  test('should render parameters as the input text', () => {
+    expect(formatMethodInput(translate, { code: 'let a = 1;\nlet b = 2;', to: 'python', notes: ['Keep names'] })).toBe(
+      'Translate code to another language\ncode:\nlet a = 1;\nlet b = 2;\nto: python\nnotes:\n- Keep names'
+    );
+  });
+
+  test('should run the named method with its parameters in the context', async () => {
+    const agent = new TranslatingAgent();
+
+    const result = await agent.invoke('translateCode', { code: 'x = 1', to: 'typescript' });
+
+    expect(llmService.callStructured).not.toHaveBeenCalled();
+    expect(result.output).toContain('code: x = 1');
+    expect(result.data).toEqual({ to: 'typescript', params: { code: 'x = 1', to: 'typescript' } });
+    expect(result.metadata).toEqual(expect.objectContaining({ method: 'translateCode', routedBy: 'explicit' }));
+  });
+
+  test('should reject invalid parameters with their field errors', async () => {
+    const agent = new TranslatingAgent();
+
+    let error: unknown;
+    try {
+      await agent.invoke('translateCode', { code: '', to: 'cobol', notes: [1] });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(AgentMethodError);
+    expect(Object.keys((error as AgentMethodError).fieldErrors!).sort()).toEqual(['code', 'notes.0', 'to']);
+  });
+
+  test('should reject unknown methods without field errors', () => {
+    const agent = new TranslatingAgent();
+
+    expect(() => agent.parseParams('compileCode', {})).toThrow(AgentMethodError);
+    expect(() => agent.parseParams('compileCode', {})).toThrow('Translating Agent has no method compileCode');
+  });
+});
@@ -0,0 +1,132 @@
+import { AgentStatus } from '@shared/schema';
+import { AgentPool, getAgentPoolSize } from '../agents/agentPool';
+import { MemStorage } from '../storage';
+import { GatedAgent, sleep } from './gatedAgent';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('Agent pool', () => {
+  let store: MemStorage;
+  let changes: number;
+
+  const createPool = (min: number, max: number) => new AgentPool({
+    type: 'gated',
+    name: 'Gated Agent',
+    initialStatus: AgentStatus.IDLE,
+    create: id => new GatedAgent(id),
+    store,
+    size: { min, max },
+    idleMs: 5,
+    onChange: () => changes++
+  });
+
+  const gatedRecords = async () => (await store.getAllAgents()).filter(agent => agent.type === 'gated');
+
+  beforeEach(() => {
+    store = new MemStorage();
+    changes = 0;
+    GatedAgent.gates = [];
+  });
+
+  test('should start the minimum number of instances with their own records', async () => {
+    const pool = createPool(2, 3);
+    await pool.initialize(await store.getAllAgents());
+
+    const records = await gatedRecords();
+    expect(records.map(record => record.name)).toEqual(['Gated Agent', 'Gated Agent #2']);
+    expect(pool.getInstances().map(agent => agent.id)).toEqual(records.map(record => record.id));
+  });
+
+  test('should start another instance when all are busy, up to the maximum', async () => {
+    const pool = createPool(1, 2);
+    await pool.initialize(await store.getAllAgents());
+
+    const first = (await pool.acquire())!;
+    const second = (await pool.acquire())!;
+    const third = (await pool.acquire())!;
+
+    expect(second.agent).not.toBe(first.agent);
+    expect(pool.getInstances()).toHaveLength(2);
+    expect([first.agent, second.agent]).toContain(third.agent);
+  });
+
+  test('should keep an instance active until its last concurrent run finishes', async () => {
+    const pool = createPool(1, 1);
+    await pool.initialize(await store.getAllAgents());
+    const agent = pool.getInstances()[0];
+
+    const first = agent.run('first');
+    const second = agent.run('second');
+    await sleep(10);
+
+    GatedAgent.gates.shift()!();
+    await first;
+    expect(agent.status).toBe(AgentStatus.ACTIVE);
+
+    GatedAgent.gates.shift()!();
+    await second;
+    expect(agent.status).toBe(AgentStatus.IDLE);
+  });
+
+  test('should retire idle instances above the minimum and reuse their records', async () => {
+    const pool = createPool(1, 2);
+    await pool.initialize(await store.getAllAgents());
+
+    const first = (await pool.acquire())!;
+    const second = (await pool.acquire())!;
+    second.release();
+    await sleep(20);
+
+    expect(pool.getInstances()).toEqual([first.agent]);
+    expect((await store.getAgent(second.agent.id))!.status).toBe(AgentStatus.OFFLINE);
+
+    const again = (await pool.acquire())!;
+    expect(again.agent.id).toBe(second.agent.id);
+    expect(await gatedRecords()).toHaveLength(2);
+    first.release();
+    again.release();
+  });
+
+  test('should resize at runtime', async () => {
+    const pool = createPool(1, 1);
+    await pool.initialize(await store.getAllAgents());
+
+    await pool.resize({ min: 3, max: 4 });
+    expect(pool.info().instances.map(instance => instance.name)).toEqual(['Gated Agent', 'Gated Agent #2', 'Gated Agent #3']);
+
+    await pool.resize({ min: 1, max: 1 });
+    expect(pool.info()).toEqual(expect.objectContaining({ min: 1, max: 1 }));
+    expect(pool.getInstances()).toHaveLength(1);
+    expect((await gatedRecords()).filter(record => record.status === AgentStatus.OFFLINE)).toHaveLength(2);
+    expect(changes).toBe(5);
+  });
+
+  test('should not route to deactivated instances', async () => {
+    const pool = createPool(1, 2);
+    await pool.initialize(await store.getAllAgents());
+    pool.getInstances()[0].isActive = false;
+
+    expect(await pool.acquire()).toBeUndefined();
+    expect(pool.get()).toBeUndefined();
+  });
+
+  test('should read pool sizes from the environment', () => {
+    process.env.AGENT_POOL_MAX = '4';
+    process.env.AGENT_POOL_GATED_MIN = '6';
+    try {
+      expect(getAgentPoolSize('coding')).toEqual({ min: 1, max: 4 });
+      expect(getAgentPoolSize('gated')).toEqual({ min: 6, max: 6 });
+    } finally {
+      delete process.env.AGENT_POOL_MAX;
+      delete process.env.AGENT_POOL_GATED_MIN;
+    }
+  });
+});
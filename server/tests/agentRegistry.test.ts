@@ -0,0 +1,148 @@
+import path from 'path';
+import { AgentStatus } from '@shared/schema';
+import { AgentBase, AgentExecutionResult } from '../agents/agentBase';
+import { AgentRegistry } from '../agents/agentRegistry';
+import type { AgentMethodDescription } from '../agents/intentRouter';
+import { fromJsonSchema } from '../services/structuredOutput';
+import { MemStorage } from '../storage';
+import { z } from 'zod';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const PLUGINS_DIR = path.join(__dirname, 'fixtures', 'agentPlugins');
+
+class ReviewAgent extends AgentBase {
+  constructor(id: number) {
+    super(id, 'Review Agent', 'review');
+  }
+
+  getMethodDescriptions(): AgentMethodDescription[] {
+    return [{ name: 'review', description: 'Review a change', parameters: z.object({}), keywords: ['review'], default: true }];
+  }
+
+  async process(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    return this.dispatch(input, context, {
+      review: async () => ({ success: true, output: `Reviewed: ${input}` })
+    });
+  }
+}
+
+describe('Agent registry', () => {
+  let store: MemStorage;
+  let registry: AgentRegistry;
+
+  beforeEach(() => {
+    store = new MemStorage();
+    registry = new AgentRegistry(store);
+    registry.register({
+      type: 'review',
+      name: 'Review Agent',
+      description: 'Reviews changes',
+      source: 'builtin',
+      initialStatus: AgentStatus.IDLE,
+      create: id => new ReviewAgent(id)
+    });
+  });
+
+  test('should create an agent record for a new agent type', async () => {
+    await registry.initialize();
+
+    const agent = registry.get('review');
+    const record = (await store.getAllAgents()).find(candidate => candidate.type === 'review');
+
+    expect(record).toEqual(expect.objectContaining({ name: 'Review Agent', status: AgentStatus.IDLE, isActive: true }));
+    expect(agent).toBeInstanceOf(ReviewAgent);
+    expect(agent!.id).toBe(record!.id);
+  });
+
+  test('should reject registering a type twice', () => {
+    expect(() => registry.register({
+      type: 'review',
+      name: 'Other Review Agent',
+      description: '',
+      source: 'builtin',
+      create: id => new ReviewAgent(id)
+    })).toThrow('already registered');
+  });
+
+  test('should take deactivated agents out of routing', async () => {
+    await registry.initialize();
+    const id = registry.get('review')!.id;
+
+    await registry.setActive(id, false);
+
+    expect(registry.get('review')).toBeUndefined();
+    expect(registry.getAll()).toHaveLength(0);
+    expect(registry.list()[0]).toEqual(expect.objectContaining({ type: 'review', isActive: false }));
+    expect(registry.list()[0].pool!.instances[0]).toEqual(expect.objectContaining({ id, isActive: false }));
+    expect((await store.getAgent(id))!.isActive).toBe(false);
+
+    await registry.setActive(id, true);
+
+    expect(registry.get('review')).toBeDefined();
+  });
+
+  test('should load plugins that match their manifest and skip the rest', async () => {
+    const loaded = await registry.loadPlugins(PLUGINS_DIR);
+    await registry.initialize();
+
+    expect(loaded).toEqual(['documentation']);
+    expect(registry.list().find(info => info.type === 'documentation')).toEqual(expect.objectContaining({
+      name: 'Documentation Agent',
+      source: 'plugin',
+      isActive: true,
+      methods: ['writeReadme', 'documentApi']
+    }));
+    expect(registry.has('mismatched')).toBe(false);
+
+    const result = await registry.get('documentation')!.invoke('writeReadme', { project: 'Shop' });
+    expect(result.output).toMatch(/^concise README/);
+  });
+
+  test('should apply config overrides from the environment', async () => {
+    process.env.AGENT_PLUGIN_DOCUMENTATION_CONFIG = JSON.stringify({ style: 'detailed' });
+    try {
+      await registry.loadPlugin(path.join(PLUGINS_DIR, 'documentation'));
+      await registry.initialize();
+
+      const result = await registry.get('documentation')!.invoke('writeReadme', { project: 'Shop' });
+      expect(result.output).toMatch(/^detailed README/);
+    } finally {
+      delete process.env.AGENT_PLUGIN_DOCUMENTATION_CONFIG;
+    }
+  });
+
+  test('should reject config that does not match the config schema', async () => {
+    process.env.AGENT_PLUGIN_DOCUMENTATION_CONFIG = JSON.stringify({ style: 'verbose' });
+    try {
+      await expect(registry.loadPlugin(path.join(PLUGINS_DIR, 'documentation'))).rejects.toThrow('Invalid config');
+      expect(registry.has('documentation')).toBe(false);
+    } finally {
+      delete process.env.AGENT_PLUGIN_DOCUMENTATION_CONFIG;
+    }
+  });
+
+  test('should build config validators from JSON schema', () => {
+    const schema = fromJsonSchema({
+      type: 'object',
+      properties: {
+        retries: { type: 'integer', default: 3 },
+        endpoint: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['endpoint']
+    });
+
+    expect(schema.parse({ endpoint: 'http://localhost' })).toEqual({ endpoint: 'http://localhost', retries: 3 });
+    expect(schema.safeParse({ retries: 3 }).success).toBe(false);
+    expect(schema.safeParse({ endpoint: 'x', retries: 1.5 }).success).toBe(false);
+  });
+});
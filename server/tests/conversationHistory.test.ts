@@ -0,0 +1,127 @@
+import { MessageType } from '@shared/schema';
+import { MemStorage } from '../storage';
+import { LLMService, LLMMessage, LLMProviderClient } from '../services/llmService';
+import { MemoryCacheStore } from '../services/llmCacheStore';
+import { ProviderRegistry } from '../services/providerRegistry';
+import { buildTaskHistory, truncateHistory } from '../services/conversationHistory';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+// 40 characters, about 10 tokens plus framing
+const turn = (role: 'user' | 'assistant', index: number): LLMMessage => ({
+  role,
+  content: `Message ${index} `.padEnd(40, '.')
+});
+
+// A local provider with a tiny context window, answering through a mock client
+const createService = () => {
+  const client: LLMProviderClient = {
+    callLLM: jest.fn().mockImplementation(async params => ({
+      text: params.system?.startsWith('Summarize') ? 'The user wants a todo app.' : 'Answer',
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 }
+    }))
+  };
+  const registry = new ProviderRegistry();
+  registry.register(
+    { id: 'tiny', name: 'Tiny', baseUrl: 'http://127.0.0.1:1', model: 'tiny-model', local: true, contextWindow: 600 },
+    { client }
+  );
+  const service = new LLMService({
+    registry,
+    cacheStore: new MemoryCacheStore(),
+    retry: { maxRetries: 0 },
+    usageLedger: { enforce: jest.fn(), record: jest.fn() } as any
+  });
+  return { client, service };
+};
+
+describe('conversation history', () => {
+  test('should drop the oldest turns first, keeping system messages', () => {
+    const messages: LLMMessage[] = [
+      { role: 'system', content: 'Project: todo app' },
+      turn('user', 1),
+      turn('assistant', 2),
+      turn('user', 3),
+      turn('assistant', 4)
+    ];
+
+    const { messages: kept, dropped } = truncateHistory({ prompt: 'Next?', messages, maxTokens: 20 }, 60);
+
+    expect(dropped).toEqual([messages[1], messages[2]]);
+    expect(kept).toEqual([messages[0], messages[3], messages[4]]);
+  });
+
+  test('should not keep tool results without the call that requested them', () => {
+    const messages: LLMMessage[] = [
+      { role: 'assistant', content: null, toolCalls: [{ id: 'call_1', name: 'lookup', arguments: '{}' }] },
+      { role: 'tool', toolCallId: 'call_1', content: 'x'.repeat(40) },
+      turn('user', 3)
+    ];
+
+    const { messages: kept } = truncateHistory({ prompt: 'Next?', messages }, 25);
+
+    expect(kept).toEqual([messages[2]]);
+  });
+
+  test('should build a task history from stored messages without the current prompt', async () => {
+    const store = new MemStorage();
+    await store.createMessage({ taskId: 1, content: 'Build a todo app', type: MessageType.USER });
+    await store.createMessage({ taskId: 1, content: 'Here is a plan', type: MessageType.AGENT });
+    await store.createMessage({ taskId: 2, content: 'Other task', type: MessageType.USER });
+    await store.createMessage({ taskId: 1, content: 'Add due dates', type: MessageType.USER });
+
+    const history = await buildTaskHistory(1, 'Add due dates', store);
+
+    expect(history).toEqual([
+      { role: 'user', content: 'Build a todo app' },
+      { role: 'assistant', content: 'Here is a plan' }
+    ]);
+  });
+});
+
+describe('LLMService conversation history', () => {
+  const history = Array.from({ length: 60 }, (_, index) => turn(index % 2 === 0 ? 'user' : 'assistant', index));
+
+  test('should key the cache on the full history', async () => {
+    const { client, service } = createService();
+
+    await service.callLLM({ prompt: 'Next?', provider: 'tiny', messages: history.slice(0, 2) });
+    await service.callLLM({ prompt: 'Next?', provider: 'tiny', messages: history.slice(0, 2) });
+    await service.callLLM({ prompt: 'Next?', provider: 'tiny', messages: history.slice(0, 4) });
+
+    expect(client.callLLM).toHaveBeenCalledTimes(2);
+  });
+
+  test('should truncate history that exceeds the context window', async () => {
+    const { client, service } = createService();
+
+    await service.callLLM({ prompt: 'Next?', provider: 'tiny', messages: history, maxTokens: 100 });
+
+    const sent = (client.callLLM as jest.Mock).mock.calls[0][0].messages as LLMMessage[];
+    expect(sent.length).toBeLessThan(history.length);
+    expect(sent[sent.length - 1]).toEqual(history[history.length - 1]);
+  });
+
+  test('should replace truncated history with a summary when asked to', async () => {
+    const { client, service } = createService();
+
+    await service.callLLM({ prompt: 'Next?', provider: 'tiny', messages: history, historyStrategy: 'summarize' });
+
+    const calls = (client.callLLM as jest.Mock).mock.calls.map(call => call[0]);
+    expect(calls).toHaveLength(2);
+    expect(calls[0].system).toMatch(/^Summarize/);
+    expect(calls[0].prompt).toContain('Message 5');
+    expect(calls[1].messages[0]).toEqual({
+      role: 'system',
+      content: 'Summary of the earlier conversation:\nThe user wants a todo app.'
+    });
+  });
+});
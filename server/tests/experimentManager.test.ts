@@ -0,0 +1,130 @@
+import { AgentType, ExperimentStatus, ExperimentVariant, TaskStatus } from '@shared/schema';
+import { MemStorage } from '../storage';
+import { ExperimentManager, ExperimentError } from '../services/experimentManager';
+import { ProviderRegistry } from '../services/providerRegistry';
+import { PromptRegistry } from '../agents/promptRegistry';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const supervision = { id: 1, type: AgentType.SUPERVISION };
+
+const createManager = () => {
+  const store = new MemStorage();
+  const prompts = new PromptRegistry(store);
+  prompts.register({ name: 'test.plan', description: 'Plan', variables: [], content: 'Plan it' });
+  const manager = new ExperimentManager(store, new ProviderRegistry(), prompts);
+  return { store, manager };
+};
+
+describe('ExperimentManager', () => {
+  test('should only assign runs while the experiment is running', async () => {
+    const { manager } = createManager();
+    const experiment = await manager.create({
+      name: 'Cooler planning',
+      agentType: AgentType.SUPERVISION,
+      trafficPercent: 100,
+      variantA: {},
+      variantB: { temperature: 0.2 }
+    });
+
+    expect(await manager.assign(supervision)).toBeUndefined();
+
+    await manager.start(experiment.id);
+    const assignment = await manager.assign(supervision);
+    const otherAgent = await manager.assign({ id: 2, type: AgentType.CODING });
+
+    expect(assignment).toEqual(expect.objectContaining({
+      experimentId: experiment.id,
+      variant: ExperimentVariant.B,
+      config: { temperature: 0.2 }
+    }));
+    expect(otherAgent).toBeUndefined();
+  });
+
+  test('should keep every run for a task in the same variant', async () => {
+    const { manager } = createManager();
+    const experiment = await manager.create({
+      name: 'Split',
+      agentType: AgentType.SUPERVISION,
+      trafficPercent: 50,
+      variantA: {},
+      variantB: { temperature: 0.2 }
+    });
+    await manager.start(experiment.id);
+
+    const variants = await Promise.all([1, 2, 3].map(() => manager.assign(supervision, { taskId: 42 })));
+
+    expect(new Set(variants.map(assignment => assignment!.variant)).size).toBe(1);
+  });
+
+  test('should run one experiment per agent type at a time', async () => {
+    const { store, manager } = createManager();
+    const variants = { variantA: {}, variantB: { temperature: 0.2 } };
+    const first = await manager.create({ name: 'First', agentType: AgentType.CODING, ...variants });
+    const second = await manager.create({ name: 'Second', agentType: AgentType.CODING, ...variants });
+
+    await manager.start(first.id);
+
+    await expect(manager.start(second.id)).rejects.toThrow(ExperimentError);
+    await expect(manager.create({ name: 'Third', agentType: AgentType.CODING, ...variants }, { start: true }))
+      .rejects.toThrow(ExperimentError);
+    expect(await store.getAllExperiments()).toHaveLength(2);
+    expect((await manager.stop(first.id))!.status).toBe(ExperimentStatus.STOPPED);
+    expect((await manager.start(second.id))!.status).toBe(ExperimentStatus.RUNNING);
+  });
+
+  test('should reject variants naming unknown providers or prompt versions', async () => {
+    const { manager } = createManager();
+    const base = { name: 'Bad', agentType: AgentType.SUPERVISION, variantA: {} };
+
+    await expect(manager.create({ ...base, variantB: { provider: 'nowhere' } })).rejects.toThrow(ExperimentError);
+    await expect(manager.create({ ...base, variantB: { promptVersions: { 'test.plan': 3 } } })).rejects.toThrow(ExperimentError);
+    await expect(manager.create({ ...base, variantB: { promptVersions: { 'test.plan': 0 } } })).resolves.toBeDefined();
+  });
+
+  test('should compare outcomes, ratings, validation and tokens per variant', async () => {
+    const { manager } = createManager();
+    const experiment = await manager.create({
+      name: 'All B',
+      agentType: AgentType.SUPERVISION,
+      trafficPercent: 100,
+      variantA: {},
+      variantB: { temperature: 0.2 }
+    });
+    await manager.start(experiment.id);
+
+    const first = (await manager.assign(supervision, { taskId: 7 }))!;
+    const second = (await manager.assign(supervision, { taskId: 8 }))!;
+    await manager.recordValidation(first, true);
+    await manager.recordOutcome(first, TaskStatus.COMPLETED, 300);
+    await manager.recordValidation(second, false, 'Missing overview');
+    await manager.recordOutcome(second, TaskStatus.FAILED, 100);
+    await manager.recordRating(7, 2);
+    await manager.recordRating(7, 4);
+
+    const report = await manager.getReport(experiment.id);
+    const [a, b] = report!.variants;
+
+    expect(a).toEqual(expect.objectContaining({ variant: ExperimentVariant.A, runs: 0, successRate: null }));
+    expect(b).toEqual(expect.objectContaining({
+      variant: ExperimentVariant.B,
+      runs: 2,
+      completed: 1,
+      failed: 1,
+      successRate: 0.5,
+      ratings: 1,
+      averageRating: 4,
+      validations: 2,
+      validationPassRate: 0.5,
+      averageTokens: 200
+    }));
+  });
+});
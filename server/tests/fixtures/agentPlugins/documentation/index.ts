@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { AgentBase, AgentExecutionResult } from '../../../../agents/agentBase';
+import type { AgentMethodDescription } from '../../../../agents/intentRouter';
+
+interface DocumentationConfig {
+  style: 'concise' | 'detailed';
+}
+
+// Plugin agent used by the agent registry tests
+export default class DocumentationAgent extends AgentBase {
+  private config: DocumentationConfig;
+
+  constructor(id: number, config: DocumentationConfig) {
+    super(id, 'Documentation Agent', 'documentation');
+    this.config = config;
+  }
+
+  getMethodDescriptions(): AgentMethodDescription[] {
+    return [
+      {
+        name: 'writeReadme',
+        description: 'Write a README for a project',
+        parameters: z.object({ project: z.string().min(1) }),
+        keywords: ['readme'],
+        default: true
+      },
+      {
+        name: 'documentApi',
+        description: 'Document the endpoints of an API',
+        parameters: z.object({ endpoints: z.array(z.string()).min(1) }),
+        keywords: ['api', 'endpoint']
+      }
+    ];
+  }
+
+  async process(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    return this.dispatch(input, context, {
+      writeReadme: async () => ({ success: true, output: `${this.config.style} README: ${input}` }),
+      documentApi: async () => ({ success: true, output: `${this.config.style} API docs: ${input}` })
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { AgentStatus } from '@shared/schema';
+import { AgentBase, AgentExecutionResult } from '../agents/agentBase';
+import type { AgentMethodDescription } from '../agents/intentRouter';
+import { z } from 'zod';
+
+/**
+ * Test agent whose runs wait until the test opens their gate, by calling the
+ * oldest function in `GatedAgent.gates`, or until the run is aborted. An
+ * opened gate streams the input back a word at a time and answers
+ * "Done: <input>"; an aborted run answers as cancelled.
+ */
+export class GatedAgent extends AgentBase {
+  static gates: Array<() => void> = [];
+
+  constructor(id: number) {
+    super(id, 'Gated Agent', 'gated');
+  }
+
+  getMethodDescriptions(): AgentMethodDescription[] {
+    return [{ name: 'wait', description: 'Wait for the gate', parameters: z.object({}), keywords: [], default: true }];
+  }
+
+  async process(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    await this.setStatus(AgentStatus.ACTIVE);
+    await new Promise<void>(resolve => {
+      GatedAgent.gates.push(resolve);
+      context?.signal?.addEventListener('abort', () => resolve());
+    });
+    await this.setStatus(AgentStatus.IDLE);
+
+    if (context?.signal?.aborted) {
+      return { success: false, output: '', cancelled: true };
+    }
+    input.split(' ').forEach(word => context?.onToken?.(word));
+    return { success: true, output: `Done: ${input}` };
+  }
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -0,0 +1,126 @@
+import { AgentType, TaskStatus } from '@shared/schema';
+import { AgentBase, AgentExecutionResult, taskStatusOf } from '../agents/agentBase';
+import { classifyByKeywords, clarificationQuestion, type AgentMethodDescription } from '../agents/intentRouter';
+import { llmService } from '../services/llmService';
+import { z } from 'zod';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+jest.mock('../services/llmService', () => ({
+  llmService: { callStructured: jest.fn() }
+}));
+
+const parameters = z.object({});
+const methods: AgentMethodDescription[] = [
+  { name: 'generateCode', description: 'Write new code', parameters, keywords: ['generate', 'write'] },
+  { name: 'optimizeCode', description: 'Make code faster', parameters, keywords: ['optimiz', 'faster'] },
+  { name: 'reviewCode', description: 'Review code quality', parameters, keywords: ['review'], default: true }
+];
+
+// Runs whichever method the router picks, recording which
+class RoutedAgent extends AgentBase {
+  handled: string[] = [];
+
+  constructor() {
+    super(1, 'Routed Agent', AgentType.CODING);
+  }
+
+  getMethodDescriptions(): AgentMethodDescription[] {
+    return methods;
+  }
+
+  async process(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    const handle = (method: string) => async () => {
+      this.handled.push(method);
+      return { success: true, output: `${method} done`, metadata: { action: method } };
+    };
+    return this.dispatch(input, context, {
+      generateCode: handle('generateCode'),
+      optimizeCode: handle('optimizeCode'),
+      reviewCode: handle('reviewCode')
+    });
+  }
+}
+
+const classifyAs = (method: string, confidence: number, alternatives: string[] = []) => {
+  (llmService.callStructured as jest.Mock).mockResolvedValue({
+    text: '',
+    usage: { inputTokens: 50, outputTokens: 10, totalTokens: 60 },
+    data: { method, confidence, alternatives, reasoning: 'Because' }
+  });
+};
+
+describe('keyword classification', () => {
+  test('should pick the method with the most matching keywords', () => {
+    const decision = classifyByKeywords('Write a faster sort and generate tests', methods);
+
+    expect(decision).toEqual(expect.objectContaining({ method: 'generateCode', source: 'keyword', alternatives: ['optimizeCode'] }));
+    expect(decision.confidence).toBeGreaterThanOrEqual(0.5);
+  });
+
+  test('should have low confidence when methods tie', () => {
+    const decision = classifyByKeywords('Optimize and review this', methods);
+
+    expect(decision.confidence).toBeLessThan(0.5);
+    expect(clarificationQuestion(decision, methods)).toContain('Make code faster (optimizeCode)');
+  });
+
+  test('should fall back to the default method when nothing matches', () => {
+    expect(classifyByKeywords('Hello there', methods)).toEqual(expect.objectContaining({ method: 'reviewCode', confidence: 0.5 }));
+  });
+});
+
+describe('AgentBase routing', () => {
+  let agent: RoutedAgent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    agent = new RoutedAgent();
+  });
+
+  test('should run the method the LLM picks and report it in the metadata', async () => {
+    // The keywords alone would pick optimizeCode
+    classifyAs('reviewCode', 0.85);
+
+    const result = await agent.process('Is this optimized enough?');
+
+    expect(agent.handled).toEqual(['reviewCode']);
+    expect(result.metadata).toEqual(expect.objectContaining({ action: 'reviewCode', method: 'reviewCode', confidence: 0.85, routedBy: 'llm' }));
+  });
+
+  test('should ask for clarification instead of acting when confidence is low', async () => {
+    classifyAs('optimizeCode', 0.3, ['reviewCode']);
+
+    const result = await agent.process('Look at this code');
+
+    expect(agent.handled).toEqual([]);
+    expect(result.needsClarification).toBe(true);
+    expect(result.output).toContain('Make code faster (optimizeCode)');
+    expect(result.output).toContain('Review code quality (reviewCode)');
+    expect(taskStatusOf(result)).toBe(TaskStatus.PENDING);
+  });
+
+  test('should fall back to keywords when the LLM fails', async () => {
+    (llmService.callStructured as jest.Mock).mockRejectedValue(new Error('Provider unavailable'));
+
+    const result = await agent.process('Generate a parser');
+
+    expect(agent.handled).toEqual(['generateCode']);
+    expect(result.metadata).toEqual(expect.objectContaining({ method: 'generateCode', routedBy: 'keyword' }));
+  });
+
+  test('should use the method named in the context without classifying', async () => {
+    const result = await agent.process('Anything', { method: 'optimizeCode' });
+
+    expect(llmService.callStructured).not.toHaveBeenCalled();
+    expect(result.metadata).toEqual(expect.objectContaining({ method: 'optimizeCode', confidence: 1, routedBy: 'explicit' }));
+  });
+});
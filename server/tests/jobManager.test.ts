@@ -0,0 +1,108 @@
+import { AgentStatus, JobStatus, TaskStatus, type Job } from '@shared/schema';
+import { AgentRegistry } from '../agents/agentRegistry';
+import { JobManager, JobError, type JobEvent } from '../services/jobManager';
+import { cancelRuns } from '../services/runTracker';
+import { MemStorage } from '../storage';
+import { GatedAgent, sleep } from './gatedAgent';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('JobManager', () => {
+  let store: MemStorage;
+  let manager: JobManager;
+
+  beforeEach(async () => {
+    GatedAgent.gates = [];
+    store = new MemStorage();
+    const registry = new AgentRegistry(store);
+    registry.register({
+      type: 'gated',
+      name: 'Gated Agent',
+      description: 'Waits for the test',
+      source: 'builtin',
+      initialStatus: AgentStatus.IDLE,
+      create: id => new GatedAgent(id)
+    });
+    await registry.initialize();
+    manager = new JobManager(store, registry);
+  });
+
+  test('should run a job in the background and store its result with its task and messages', async () => {
+    const project = await store.createProject({ name: 'Jobs', description: 'Job tests' });
+    const changes: string[] = [];
+    manager.onChange(job => changes.push(job.status));
+
+    const job = await manager.submit({ agentType: 'gated', message: 'hello', projectId: project.id });
+    expect(job).toEqual(expect.objectContaining({ status: JobStatus.QUEUED, progress: 0 }));
+
+    await sleep(10);
+    expect(await manager.get(job.id)).toEqual(expect.objectContaining({ status: JobStatus.RUNNING, progress: 10 }));
+    expect((await store.getTask(job.taskId!))!.status).toBe(TaskStatus.IN_PROGRESS);
+
+    GatedAgent.gates.shift()!();
+    const finished = (await manager.wait(job.id))!;
+
+    expect(finished).toEqual(expect.objectContaining({
+      status: JobStatus.SUCCEEDED,
+      progress: 100,
+      result: { success: true, output: 'Done: hello' }
+    }));
+    expect(finished.completedAt).toBeInstanceOf(Date);
+    expect((await store.getTask(job.taskId!))!.status).toBe(TaskStatus.COMPLETED);
+    expect((await store.getMessagesByTask(job.taskId!)).map(message => message.id))
+      .toEqual([finished.messageId, finished.resultMessageId]);
+    expect(changes).toEqual([JobStatus.QUEUED, JobStatus.RUNNING, JobStatus.RUNNING, JobStatus.SUCCEEDED]);
+  });
+
+  test('should send streamed tokens to the job subscribers', async () => {
+    const events: JobEvent[] = [];
+    const job = await manager.submit({ agentType: 'gated', message: 'one two', stream: true }, event => events.push(event));
+
+    await sleep(10);
+    GatedAgent.gates.shift()!();
+    await manager.wait(job.id);
+
+    expect(events.filter(event => event.type === 'token')).toEqual([
+      { type: 'token', delta: 'one' },
+      { type: 'token', delta: 'two' }
+    ]);
+    const last = events[events.length - 1] as { type: 'update'; job: Job };
+    expect(last.job.status).toBe(JobStatus.SUCCEEDED);
+  });
+
+  test('should cancel running jobs, directly or through their task', async () => {
+    const project = await store.createProject({ name: 'Jobs', description: 'Job tests' });
+    const first = await manager.submit({ agentType: 'gated', message: 'first', projectId: project.id });
+    const second = await manager.submit({ agentType: 'gated', message: 'second', projectId: project.id });
+    await sleep(10);
+
+    const cancelled = await manager.cancel(first.id);
+    expect(cancelRuns(second.taskId!)).toBe(1);
+
+    expect(cancelled).toEqual(expect.objectContaining({ status: JobStatus.CANCELLED, resultMessageId: null }));
+    expect((await manager.wait(second.id))!.status).toBe(JobStatus.CANCELLED);
+    expect((await store.getTask(first.taskId!))!.status).toBe(TaskStatus.CANCELLED);
+    await expect(manager.cancel(first.id)).rejects.toThrow(JobError);
+    expect(await manager.cancel(999)).toBeUndefined();
+  });
+
+  test('should fail jobs a previous server process left unfinished', async () => {
+    const interrupted = await store.createJob({ agentType: 'gated', input: 'lost' });
+    await store.updateJob(interrupted.id, { status: JobStatus.RUNNING });
+
+    expect(await manager.recover()).toBe(1);
+    expect(await manager.get(interrupted.id)).toEqual(expect.objectContaining({
+      status: JobStatus.FAILED,
+      error: 'The server restarted before the job finished'
+    }));
+    expect(await manager.list({ statuses: [JobStatus.QUEUED, JobStatus.RUNNING] })).toEqual([]);
+  });
+});
@@ -0,0 +1,231 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileCacheStore, LLMCacheEntry, MemoryCacheStore, measureEntry } from '../services/llmCacheStore';
+import { LLMService, LLMProviderClient } from '../services/llmService';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const createEntry = (key: string, provider = 'groq', expiresAt = Date.now() + 60000): LLMCacheEntry => {
+  const response = { text: `Response for ${key}`, usage: { inputTokens: 1, outputTokens: 2, totalTokens: 3 } };
+  const now = Date.now();
+  return { key, provider, response, createdAt: now, expiresAt, lastAccessedAt: now, hits: 0, pinned: false, sizeBytes: measureEntry(key, response) };
+};
+
+describe('LLM cache stores', () => {
+  describe('MemoryCacheStore', () => {
+    test('should evict the least recently used entries first', async () => {
+      const store = new MemoryCacheStore();
+      await store.set(createEntry('a'));
+      await store.set(createEntry('b'));
+      await store.set(createEntry('c'));
+      await store.get('a');
+
+      const { evicted } = await store.evict(Date.now(), { maxEntries: 2 });
+
+      expect(evicted.map(entry => entry.key)).toEqual(['b']);
+      expect(store.list().map(entry => entry.key)).toEqual(['c', 'a']);
+    });
+
+    test('should account for entry sizes and enforce a byte limit', async () => {
+      const store = new MemoryCacheStore();
+      const first = createEntry('first');
+      const second = createEntry('second');
+      await store.set(first);
+      await store.set(second);
+
+      expect(store.bytes).toBe(first.sizeBytes + second.sizeBytes);
+
+      await store.evict(Date.now(), { maxEntries: 10, maxBytes: second.sizeBytes });
+
+      expect(store.list().map(entry => entry.key)).toEqual(['second']);
+      expect(store.bytes).toBe(second.sizeBytes);
+    });
+
+    test('should report expired entries separately from evictions', async () => {
+      const store = new MemoryCacheStore();
+      await store.set(createEntry('stale', 'groq', Date.now() - 1));
+      await store.set(createEntry('fresh'));
+
+      const { expired, evicted } = await store.evict(Date.now(), { maxEntries: 10 });
+
+      expect(expired.map(entry => entry.key)).toEqual(['stale']);
+      expect(evicted).toHaveLength(0);
+    });
+
+    test('should never expire or evict pinned entries', async () => {
+      const store = new MemoryCacheStore();
+      await store.set({ ...createEntry('pinned', 'groq', Date.now() - 1), pinned: true });
+      await store.set(createEntry('a'));
+      await store.set(createEntry('b'));
+
+      const { expired, evicted } = await store.evict(Date.now(), { maxEntries: 2 });
+
+      expect(expired).toHaveLength(0);
+      expect(evicted.map(entry => entry.key)).toEqual(['a']);
+      expect(store.list().map(entry => entry.key)).toEqual(['pinned', 'b']);
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should persist entries across instances', async () => {
+      const writer = new FileCacheStore(directory);
+      await writer.set(createEntry('persisted'));
+
+      const reader = new FileCacheStore(directory);
+
+      expect(reader.size).toBe(1);
+      expect((await reader.get('persisted'))?.response.text).toBe('Response for persisted');
+    });
+
+    test('should pick up entries written by another instance', async () => {
+      const first = new FileCacheStore(directory);
+      const second = new FileCacheStore(directory);
+
+      await first.set(createEntry('shared'));
+
+      expect((await second.get('shared'))?.response.text).toBe('Response for shared');
+      expect(second.size).toBe(1);
+    });
+
+    test('should delete evicted entries from disk', async () => {
+      const store = new FileCacheStore(directory);
+      await store.set(createEntry('old'));
+      await store.set(createEntry('new'));
+
+      await store.evict(Date.now(), { maxEntries: 1 });
+
+      expect(store.list().map(entry => entry.key)).toEqual(['new']);
+      expect(fs.readdirSync(directory)).toHaveLength(1);
+    });
+  });
+
+  describe('LLMService cache metrics', () => {
+    test('should report hits, misses and bytes per provider', async () => {
+      const groq: LLMProviderClient = {
+        callLLM: jest.fn().mockResolvedValue({ text: 'cached', usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } })
+      };
+      const service = new LLMService({ clients: { groq }, cacheStore: new MemoryCacheStore() });
+
+      await service.callLLM({ prompt: 'Same', provider: 'groq' });
+      await service.callLLM({ prompt: 'Same', provider: 'groq' });
+
+      const metrics = service.getCacheMetrics();
+      const groqMetrics = metrics.providers.find(provider => provider.provider === 'groq');
+
+      expect(groq.callLLM).toHaveBeenCalledTimes(1);
+      expect(metrics.store).toBe('memory');
+      expect(groqMetrics).toEqual(expect.objectContaining({ hits: 1, misses: 1, entries: 1, hitRate: 0.5 }));
+      expect(groqMetrics?.bytes).toBe(metrics.bytes);
+    });
+
+    test('should count LRU evictions against the provider', async () => {
+      const groq: LLMProviderClient = {
+        callLLM: jest.fn().mockResolvedValue({ text: 'ok', usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } })
+      };
+      const service = new LLMService({ clients: { groq }, cacheStore: new MemoryCacheStore() });
+      service.setCacheSettings(300, 10);
+
+      for (let i = 0; i < 12; i++) {
+        await service.callLLM({ prompt: `Prompt ${i}`, provider: 'groq' });
+      }
+
+      const metrics = service.getCacheMetrics();
+      expect(metrics.size).toBe(10);
+      expect(metrics.evictions).toBe(2);
+    });
+  });
+
+  describe('LLMService cache inspection', () => {
+    const createService = () => {
+      const groq: LLMProviderClient = {
+        callLLM: jest.fn().mockImplementation(async params => ({
+          text: `Answer to ${params.prompt}`,
+          usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 }
+        }))
+      };
+      return { groq, service: new LLMService({ clients: { groq }, cacheStore: new MemoryCacheStore() }) };
+    };
+
+    test('should list entries with prompt, agent and hit counts', async () => {
+      const { service } = createService();
+      await service.callLLM({ prompt: 'Design a form', system: 'You are a designer', provider: 'groq', agent: 'design' });
+      await service.callLLM({ prompt: 'Design a form', system: 'You are a designer', provider: 'groq', agent: 'design' });
+      await service.callLLM({ prompt: 'Fix the bug', provider: 'groq', agent: 'debug' });
+
+      const entries = service.listCacheEntries();
+
+      expect(entries.map(entry => entry.prompt)).toEqual(['Fix the bug', 'Design a form']);
+      expect(entries[1]).toEqual(expect.objectContaining({ agent: 'design', system: 'You are a designer', hits: 1, pinned: false }));
+      expect(service.listCacheEntries({ search: 'designer' })).toHaveLength(1);
+    });
+
+    test('should invalidate entries by prompt prefix, agent and id', async () => {
+      const { groq, service } = createService();
+      await service.callLLM({ prompt: 'Fix the bug', provider: 'groq', agent: 'debug' });
+      await service.callLLM({ prompt: 'Fix the test', provider: 'groq', agent: 'debug' });
+      await service.callLLM({ prompt: 'Design a form', provider: 'groq', agent: 'design' });
+
+      expect(await service.invalidateCache({ promptPrefix: 'Fix the b' })).toBe(1);
+      expect(await service.invalidateCache({ agent: 'debug' })).toBe(1);
+
+      const [remaining] = service.listCacheEntries();
+      expect(await service.invalidateCache({ ids: [remaining.id] })).toBe(1);
+
+      await service.callLLM({ prompt: 'Design a form', provider: 'groq', agent: 'design' });
+      expect(groq.callLLM).toHaveBeenCalledTimes(4);
+    });
+
+    test('should keep serving pinned entries after their TTL', async () => {
+      const { groq, service } = createService();
+      service.setCacheSettings(1);
+      await service.callLLM({ prompt: 'Pinned', provider: 'groq' });
+      await service.pinCacheEntry(service.listCacheEntries()[0].id, true);
+
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 5000);
+      try {
+        const response = await service.callLLM({ prompt: 'Pinned', provider: 'groq' });
+        expect(response.cached).toBe(true);
+      } finally {
+        jest.restoreAllMocks();
+      }
+
+      expect(groq.callLLM).toHaveBeenCalledTimes(1);
+    });
+
+    test('should round-trip the cache through an exported bundle', async () => {
+      const { service } = createService();
+      await service.callLLM({ prompt: 'Exported', provider: 'groq', agent: 'coding' });
+      await service.pinCacheEntry(service.listCacheEntries()[0].id, true);
+      const bundle = await service.exportCache();
+
+      const { groq, service: restored } = createService();
+      expect(await restored.importCache(bundle)).toEqual({ imported: 1, skipped: 0 });
+      expect(await restored.importCache(bundle)).toEqual({ imported: 0, skipped: 1 });
+
+      const response = await restored.callLLM({ prompt: 'Exported', provider: 'groq', agent: 'coding' });
+      expect(response).toEqual(expect.objectContaining({ text: 'Answer to Exported', cached: true }));
+      expect(restored.listCacheEntries()[0]).toEqual(expect.objectContaining({ agent: 'coding', pinned: true }));
+      expect(groq.callLLM).not.toHaveBeenCalled();
+    });
+  });
+});
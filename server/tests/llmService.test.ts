@@ -0,0 +1,394 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LLMService, LLMProvider, LLMStreamChunk } from '../services/llmService';
+import { GroqService } from '../services/groqService';
+import { PhidataService } from '../services/phidataService';
+import {
+  LLMAuthenticationError,
+  LLMCancelledError,
+  LLMConfigurationError,
+  LLMCircuitOpenError,
+  LLMRateLimitError,
+  LLMResponseError
+} from '../services/llmErrors';
+import { CircuitState } from '../services/circuitBreaker';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+// Minimal stand-in for an OpenAI-style completions endpoint.
+// The status and body of the next response are controlled per test.
+let nextStatus = 200;
+let nextBody: any = null;
+let nextHeaders: Record<string, string> = {};
+let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: any } | null = null;
+let requestCount = 0;
+
+// Deltas sent as server-sent events when a request asks for `stream: true`
+const streamDeltas = ['Hello', ' from', ' the stream'];
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    lastRequest = { url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : null };
+    requestCount++;
+
+    if (lastRequest.body?.stream && nextStatus === 200) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      streamDeltas.forEach(delta => {
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: delta } }] })}\n\n`);
+      });
+      res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 4, completion_tokens: 3, total_tokens: 7 } })}\n\n`);
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+
+    res.writeHead(nextStatus, { 'Content-Type': 'application/json', ...nextHeaders });
+    res.end(JSON.stringify(nextBody));
+  });
+});
+
+let baseUrl = '';
+
+const completion = (content: string, usage = { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 }) => ({
+  choices: [{ message: { role: 'assistant', content } }],
+  usage
+});
+
+describe('LLMService provider dispatch', () => {
+  beforeAll(done => {
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    nextStatus = 200;
+    nextBody = completion('Hello from the stand-in');
+    nextHeaders = {};
+    lastRequest = null;
+    requestCount = 0;
+  });
+
+  // Retries are disabled so error mapping tests see the first failure
+  const createService = () => new LLMService({
+    clients: {
+      [LLMProvider.GROQ]: new GroqService({ apiKey: 'test-key', baseUrl, model: 'test-model' }),
+      [LLMProvider.PHIDATA]: new PhidataService({ apiKey: 'test-key', baseUrl, model: 'test-model' })
+    },
+    retry: { maxRetries: 0 }
+  });
+
+  test('should return the completion and real token usage from Groq', async () => {
+    const service = createService();
+
+    const result = await service.callLLM({
+      prompt: 'Say hello',
+      system: 'You are terse',
+      provider: LLMProvider.GROQ,
+      temperature: 0
+    });
+
+    expect(result.text).toBe('Hello from the stand-in');
+    expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 8, totalTokens: 20 });
+
+    expect(lastRequest?.url).toBe('/chat/completions');
+    expect(lastRequest?.headers.authorization).toBe('Bearer test-key');
+    expect(lastRequest?.body).toEqual(expect.objectContaining({
+      model: 'test-model',
+      temperature: 0,
+      messages: [
+        { role: 'system', content: 'You are terse' },
+        { role: 'user', content: 'Say hello' }
+      ]
+    }));
+  });
+
+  test('should route Phidata requests to its completions endpoint', async () => {
+    const service = createService();
+
+    await service.callLLM({ prompt: 'Hi', provider: LLMProvider.PHIDATA });
+
+    expect(lastRequest?.url).toBe('/completions');
+  });
+
+  test('should send tools in the OpenAI format and return the requested tool calls', async () => {
+    nextBody = {
+      choices: [{
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"id":1}' } }]
+        }
+      }],
+      usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 }
+    };
+    const service = createService();
+    const tools = [{ name: 'lookup', description: 'Look up a record', parameters: { type: 'object', properties: { id: { type: 'number' } } } }];
+
+    const result = await service.callLLM({
+      prompt: 'Find record 1',
+      provider: LLMProvider.GROQ,
+      tools,
+      toolMessages: [
+        { role: 'assistant', content: null, toolCalls: [{ id: 'call_0', name: 'lookup', arguments: '{"id":0}' }] },
+        { role: 'tool', toolCallId: 'call_0', content: '{"found":false}' }
+      ]
+    });
+
+    expect(result.text).toBe('');
+    expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'lookup', arguments: '{"id":1}' }]);
+    expect(lastRequest?.body.tools).toEqual([{ type: 'function', function: tools[0] }]);
+    expect(lastRequest?.body.tool_choice).toBe('auto');
+    expect(lastRequest?.body.messages).toEqual([
+      { role: 'user', content: 'Find record 1' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_0', type: 'function', function: { name: 'lookup', arguments: '{"id":0}' } }]
+      },
+      { role: 'tool', tool_call_id: 'call_0', content: '{"found":false}' }
+    ]);
+  });
+
+  test('should derive total tokens when the provider omits it', async () => {
+    nextBody = completion('ok', { prompt_tokens: 5, completion_tokens: 7, total_tokens: 0 });
+    const service = createService();
+
+    const result = await service.callLLM({ prompt: 'Count', provider: LLMProvider.GROQ });
+
+    expect(result.usage.totalTokens).toBe(12);
+  });
+
+  test('should raise LLMRateLimitError with retry-after on 429', async () => {
+    nextStatus = 429;
+    nextBody = { error: { message: 'Too many requests' } };
+    nextHeaders = { 'Retry-After': '2' };
+    const service = createService();
+
+    const error = await service.callLLM({ prompt: 'Busy', provider: LLMProvider.GROQ }).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMRateLimitError);
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  test('should raise LLMAuthenticationError on 401', async () => {
+    nextStatus = 401;
+    nextBody = { error: { message: 'Invalid API key' } };
+    const service = createService();
+
+    await expect(service.callLLM({ prompt: 'Auth', provider: LLMProvider.GROQ }))
+      .rejects.toBeInstanceOf(LLMAuthenticationError);
+  });
+
+  test('should raise a retryable LLMResponseError on 5xx', async () => {
+    nextStatus = 503;
+    nextBody = { error: { message: 'Overloaded' } };
+    const service = createService();
+
+    const error = await service.callLLM({ prompt: 'Down', provider: LLMProvider.GROQ }).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMResponseError);
+    expect(error.statusCode).toBe(503);
+    expect(error.retryable).toBe(true);
+  });
+
+  test('should raise LLMResponseError on a malformed body', async () => {
+    nextBody = { choices: [] };
+    const service = createService();
+
+    await expect(service.callLLM({ prompt: 'Empty', provider: LLMProvider.GROQ }))
+      .rejects.toBeInstanceOf(LLMResponseError);
+  });
+
+  test('should raise LLMConfigurationError when the API key is missing', async () => {
+    const service = new LLMService({
+      clients: { [LLMProvider.GROQ]: new GroqService({ apiKey: '', baseUrl }) },
+      retry: { maxRetries: 0 }
+    });
+
+    await expect(service.callLLM({ prompt: 'No key', provider: LLMProvider.GROQ }))
+      .rejects.toBeInstanceOf(LLMConfigurationError);
+    expect(lastRequest).toBeNull();
+  });
+
+  describe('streaming', () => {
+    const collect = async (stream: AsyncIterable<LLMStreamChunk>) => {
+      const chunks: LLMStreamChunk[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    test('should yield deltas followed by the assembled response', async () => {
+      const service = createService();
+
+      const chunks = await collect(service.streamLLM({ prompt: 'Stream it', provider: LLMProvider.GROQ }));
+
+      expect(chunks.filter(chunk => !chunk.done).map(chunk => chunk.delta)).toEqual(streamDeltas);
+      expect(chunks[chunks.length - 1]).toEqual({
+        delta: '',
+        done: true,
+        response: {
+          text: 'Hello from the stream',
+          usage: { inputTokens: 4, outputTokens: 3, totalTokens: 7 },
+          provider: LLMProvider.GROQ,
+          model: 'llama-3.3-70b-versatile'
+        }
+      });
+      expect(lastRequest?.body.stream).toBe(true);
+    });
+
+    test('should replay a cache hit as a single chunk', async () => {
+      const service = createService();
+      await collect(service.streamLLM({ prompt: 'Cached', provider: LLMProvider.GROQ }));
+
+      const chunks = await collect(service.streamLLM({ prompt: 'Cached', provider: LLMProvider.GROQ }));
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].delta).toBe('Hello from the stream');
+      expect(chunks[0].response?.cached).toBe(true);
+      expect(requestCount).toBe(1);
+    });
+
+    test('should share an in-flight stream with concurrent callLLM requests', async () => {
+      const service = createService();
+      const stream = service.streamLLM({ prompt: 'Shared', provider: LLMProvider.GROQ });
+
+      const [chunks, response] = await Promise.all([
+        collect(stream),
+        // Starts once the stream has registered itself as in flight
+        Promise.resolve().then(() => service.callLLM({ prompt: 'Shared', provider: LLMProvider.GROQ }))
+      ]);
+
+      expect(chunks[chunks.length - 1].response?.text).toBe('Hello from the stream');
+      expect(response.text).toBe('Hello from the stream');
+      expect(requestCount).toBe(1);
+    });
+
+    test('should fall back to a single chunk for providers without streaming', async () => {
+      nextBody = completion('Complete answer');
+      const service = createService();
+
+      const chunks = await collect(service.streamLLM({ prompt: 'No stream', provider: LLMProvider.PHIDATA }));
+
+      expect(chunks.map(chunk => chunk.delta)).toEqual(['Complete answer', '']);
+      expect(lastRequest?.body.stream).toBeUndefined();
+    });
+  });
+
+  describe('fallback, retries and circuit breaking', () => {
+    const ok = (text: string) => ({ text, usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 } });
+    const fast = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 2 };
+
+    test('should retry retryable failures before succeeding', async () => {
+      const groq = {
+        callLLM: jest.fn()
+          .mockRejectedValueOnce(new LLMResponseError('Overloaded', 'groq', 503))
+          .mockResolvedValueOnce(ok('second try'))
+      };
+      const service = new LLMService({ clients: { groq }, retry: fast });
+
+      const result = await service.callLLM({ prompt: 'Retry', provider: 'groq' });
+
+      expect(result.text).toBe('second try');
+      expect(groq.callLLM).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry non-retryable failures', async () => {
+      const groq = { callLLM: jest.fn().mockRejectedValue(new LLMAuthenticationError('Bad key', 'groq', 401)) };
+      const service = new LLMService({ clients: { groq }, retry: fast });
+
+      await expect(service.callLLM({ prompt: 'Auth', provider: 'groq' })).rejects.toBeInstanceOf(LLMAuthenticationError);
+      expect(groq.callLLM).toHaveBeenCalledTimes(1);
+    });
+
+    test('should fall back to the next provider and model in the chain', async () => {
+      const groq = { callLLM: jest.fn().mockRejectedValue(new LLMRateLimitError('Slow down', 'groq')) };
+      const phidata = { callLLM: jest.fn().mockResolvedValue(ok('from phidata')) };
+      const service = new LLMService({
+        clients: { groq, phidata },
+        retry: { maxRetries: 0 },
+        fallbackChain: [{ provider: 'phidata', model: 'backup-model' }]
+      });
+
+      const result = await service.callLLM({ prompt: 'Fallback', provider: 'groq' });
+
+      expect(result.text).toBe('from phidata');
+      expect(phidata.callLLM).toHaveBeenCalledWith(expect.objectContaining({ provider: 'phidata', model: 'backup-model' }));
+    });
+
+    test('should open the circuit after repeated failures and skip the provider', async () => {
+      const groq = { callLLM: jest.fn().mockRejectedValue(new LLMResponseError('Down', 'groq', 500)) };
+      const service = new LLMService({
+        clients: { groq },
+        retry: { maxRetries: 0 },
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 }
+      });
+
+      await service.callLLM({ prompt: 'one', provider: 'groq' }).catch(() => undefined);
+      await service.callLLM({ prompt: 'two', provider: 'groq' }).catch(() => undefined);
+
+      await expect(service.callLLM({ prompt: 'three', provider: 'groq' })).rejects.toBeInstanceOf(LLMCircuitOpenError);
+      expect(groq.callLLM).toHaveBeenCalledTimes(2);
+      expect(service.getCircuitStatuses().find(circuit => circuit.provider === 'groq')?.state).toBe(CircuitState.OPEN);
+
+      service.resetCircuit('groq');
+      expect(service.getCircuitStatuses().find(circuit => circuit.provider === 'groq')?.state).toBe(CircuitState.CLOSED);
+    });
+  });
+
+  describe('cancellation', () => {
+    test('should abandon a pending request without falling back when its signal aborts', async () => {
+      const controller = new AbortController();
+      // The request is dispatched, and left hanging, before the signal aborts
+      const groq = {
+        callLLM: jest.fn().mockImplementation(() => {
+          controller.abort();
+          return new Promise(() => undefined);
+        })
+      };
+      const phidata = { callLLM: jest.fn() };
+      const service = new LLMService({ clients: { groq, phidata }, fallbackChain: [{ provider: 'phidata' }] });
+
+      const request = service.callLLM({ prompt: 'Hang', provider: 'groq', signal: controller.signal });
+
+      await expect(request).rejects.toBeInstanceOf(LLMCancelledError);
+      expect(groq.callLLM).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }));
+      expect(phidata.callLLM).not.toHaveBeenCalled();
+      expect(service.getCircuitStatuses().find(circuit => circuit.provider === 'groq')?.state).toBe(CircuitState.CLOSED);
+    });
+
+    test('should stop waiting to retry when the signal aborts', async () => {
+      const groq = { callLLM: jest.fn().mockRejectedValue(new LLMResponseError('Overloaded', 'groq', 503)) };
+      const service = new LLMService({ clients: { groq }, retry: { maxRetries: 3, baseDelayMs: 60000, maxDelayMs: 60000 } });
+
+      await expect(service.callLLM({ prompt: 'Retry', provider: 'groq', signal: AbortSignal.timeout(20) })).rejects.toBeInstanceOf(LLMCancelledError);
+      expect(groq.callLLM).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not contact the provider once the signal has aborted', async () => {
+      const service = createService();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(service.callLLM({ prompt: 'Never sent', provider: LLMProvider.GROQ, signal: controller.signal })).rejects.toBeInstanceOf(LLMCancelledError);
+      expect(requestCount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { AgentStatus, AgentType, TaskStatus, type PipelinePlan } from '@shared/schema';
+import { AgentBase, AgentExecutionResult } from '../agents/agentBase';
+import { AgentRegistry } from '../agents/agentRegistry';
+import type { AgentMethodDescription } from '../agents/intentRouter';
+import { JobManager } from '../services/jobManager';
+import { PipelineOrchestrator, PipelineError, REVIEW_METHOD, planLevels, withReviewStep } from '../services/pipelineOrchestrator';
+import { MemStorage } from '../storage';
+import { z } from 'zod';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+// Records what it was asked, fails instructions starting with FAIL and waits on instructions starting with WAIT until aborted
+class StepAgent extends AgentBase {
+  static calls: Array<{ type: string; input: string; context?: Record<string, any> }> = [];
+  static running = 0;
+  static maxRunning = 0;
+
+  constructor(id: number, type: string) {
+    super(id, `${type} step agent`, type);
+  }
+
+  getMethodDescriptions(): AgentMethodDescription[] {
+    return [
+      { name: 'work', description: 'Do the step', parameters: z.object({}), keywords: [], default: true },
+      { name: 'review', description: 'Review the step', parameters: z.object({}), keywords: [] }
+    ];
+  }
+
+  async process(input: string, context?: Record<string, any>): Promise<AgentExecutionResult> {
+    StepAgent.calls.push({ type: this.type, input, context });
+    StepAgent.running++;
+    StepAgent.maxRunning = Math.max(StepAgent.maxRunning, StepAgent.running);
+    try {
+      if (input.startsWith('WAIT')) {
+        await new Promise<void>(resolve => context?.signal?.addEventListener('abort', () => resolve()));
+        return { success: false, output: '', cancelled: true };
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+      if (input.startsWith('FAIL')) {
+        return { success: false, output: 'It broke', error: 'The step broke' };
+      }
+      return {
+        success: true,
+        output: `${this.type} finished: ${input.split('\n')[0]}`,
+        data: this.type === AgentType.CODING ? { code: 'const answer = 42;', language: 'javascript' } : undefined
+      };
+    } finally {
+      StepAgent.running--;
+    }
+  }
+}
+
+const step = (id: string, agentType: PipelinePlan['steps'][number]['agentType'], instruction: string, dependsOn: string[] = []) =>
+  ({ id, title: id.toUpperCase(), agentType, instruction, dependsOn });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('planLevels', () => {
+  test('should put every step one level after its deepest dependency', () => {
+    const levels = planLevels({
+      goal: 'Build',
+      steps: [
+        step('debug', AgentType.DEBUG, 'Debug', ['api', 'ui']),
+        step('design', AgentType.DESIGN, 'Design'),
+        step('api', AgentType.CODING, 'API', ['design']),
+        step('ui', AgentType.CODING, 'UI', ['design'])
+      ]
+    });
+
+    expect(Array.from(levels.entries())).toEqual(expect.arrayContaining([['design', 0], ['api', 1], ['ui', 1], ['debug', 2]]));
+  });
+
+  test('should reject duplicate steps, unknown dependencies and cycles', () => {
+    expect(() => planLevels({ goal: 'Build', steps: [step('a', AgentType.CODING, 'A'), step('a', AgentType.DEBUG, 'A')] }))
+      .toThrow('Step a appears more than once');
+    expect(() => planLevels({ goal: 'Build', steps: [step('a', AgentType.CODING, 'A', ['b'])] }))
+      .toThrow('Step a depends on unknown step b');
+    expect(() => planLevels({ goal: 'Build', steps: [step('a', AgentType.CODING, 'A', ['b']), step('b', AgentType.DEBUG, 'B', ['a'])] }))
+      .toThrow(PipelineError);
+  });
+});
+
+describe('withReviewStep', () => {
+  test('should end a plan that writes code in a review of it after its last steps', () => {
+    const plan = withReviewStep({
+      goal: 'Build',
+      steps: [
+        step('design', AgentType.DESIGN, 'Design'),
+        step('review', AgentType.CODING, 'API', ['design']),
+        step('ui', AgentType.CODING, 'UI', ['design'])
+      ]
+    });
+
+    expect(plan.steps.map(info => info.id)).toEqual(['design', 'review', 'ui', 'review-2']);
+    expect(plan.steps[3]).toMatchObject({ agentType: AgentType.CODING, method: REVIEW_METHOD, dependsOn: ['review', 'ui'] });
+    expect(planLevels(plan).get('review-2')).toBe(2);
+  });
+
+  test('should leave plans that already review their code or write none alone', () => {
+    const reviewed = {
+      goal: 'Build',
+      steps: [step('code', AgentType.CODING, 'Code'), { ...step('check', AgentType.CODING, 'Check', ['code']), method: REVIEW_METHOD }]
+    };
+    const designOnly = { goal: 'Design', steps: [step('design', AgentType.DESIGN, 'Design')] };
+
+    expect(withReviewStep(reviewed)).toBe(reviewed);
+    expect(withReviewStep(designOnly)).toBe(designOnly);
+  });
+});
+
+describe('PipelineOrchestrator', () => {
+  let store: MemStorage;
+  let orchestrator: PipelineOrchestrator;
+
+  beforeEach(async () => {
+    StepAgent.calls = [];
+    StepAgent.running = 0;
+    StepAgent.maxRunning = 0;
+    store = new MemStorage();
+    const registry = new AgentRegistry(store);
+    [AgentType.DESIGN, AgentType.CODING, AgentType.DEBUG].forEach(type => registry.register({
+      type,
+      name: `${type} step agent`,
+      description: 'Does pipeline steps for the test',
+      source: 'builtin',
+      initialStatus: AgentStatus.IDLE,
+      create: id => new StepAgent(id, type)
+    }));
+    await registry.initialize();
+    orchestrator = new PipelineOrchestrator(store, new JobManager(store, registry));
+  });
+
+  test('should run steps in dependency order, in parallel within a level, passing outputs on', async () => {
+    const project = await store.createProject({ name: 'Pipelines', description: 'Pipeline tests' });
+    const pipeline = await orchestrator.run({
+      goal: 'Build a counter',
+      steps: [
+        step('design', AgentType.DESIGN, 'Design the counter'),
+        step('api', AgentType.CODING, 'Write the API', ['design']),
+        { ...step('ui', AgentType.CODING, 'Write the UI', ['design']), method: 'review' },
+        step('debug', AgentType.DEBUG, 'Debug the code', ['api', 'ui'])
+      ]
+    }, { projectId: project.id });
+
+    expect(pipeline.status).toBe('succeeded');
+    expect(pipeline.steps.map(info => [info.id, info.status, info.level])).toEqual([
+      ['design', 'succeeded', 0],
+      ['api', 'succeeded', 1],
+      ['ui', 'succeeded', 1],
+      ['debug', 'succeeded', 2]
+    ]);
+    expect(StepAgent.calls.map(call => call.type)).toEqual([AgentType.DESIGN, AgentType.CODING, AgentType.CODING, AgentType.DEBUG]);
+    expect(StepAgent.maxRunning).toBe(2);
+
+    const debug = StepAgent.calls[3];
+    expect(debug.input).toContain('Overall goal: Build a counter');
+    expect(debug.input).toContain('coding finished: Write the API');
+    expect(debug.input).toContain('coding finished: Write the UI');
+    expect(debug.input).not.toContain('design finished');
+    expect(debug.context).toEqual(expect.objectContaining({ code: 'const answer = 42;', language: 'javascript', pipelineStep: 'debug' }));
+    expect(StepAgent.calls[2].context?.method).toBe('review');
+
+    // Every step is recorded as a task of the project
+    const tasks = await Promise.all(pipeline.steps.map(info => store.getTask(info.taskId!)));
+    expect(tasks.map(task => [task!.projectId, task!.status])).toEqual(pipeline.steps.map(() => [project.id, TaskStatus.COMPLETED]));
+  });
+
+  test('should skip the steps that depend on a failed step and still run the others', async () => {
+    const changes: string[] = [];
+    orchestrator.onChange(pipeline => changes.push(pipeline.status));
+
+    const pipeline = await orchestrator.run({
+      goal: 'Break',
+      steps: [
+        step('code', AgentType.CODING, 'FAIL to write code'),
+        step('debug', AgentType.DEBUG, 'Debug the code', ['code']),
+        step('design', AgentType.DESIGN, 'Design anyway')
+      ]
+    });
+
+    expect(pipeline.status).toBe('failed');
+    expect(pipeline.steps.map(info => [info.id, info.status, info.error])).toEqual([
+      ['code', 'failed', 'The step broke'],
+      ['debug', 'skipped', null],
+      ['design', 'succeeded', null]
+    ]);
+    expect(StepAgent.calls.map(call => call.type)).toEqual([AgentType.CODING, AgentType.DESIGN]);
+    expect(changes[changes.length - 1]).toBe('failed');
+    expect(typeof orchestrator.get(pipeline.id)!.completedAt).toBe('string');
+  });
+
+  test('should cancel a running pipeline and its steps', async () => {
+    const pipeline = await orchestrator.start({
+      goal: 'Wait',
+      steps: [step('code', AgentType.CODING, 'WAIT for ever'), step('debug', AgentType.DEBUG, 'Debug the code', ['code'])]
+    });
+    await sleep(10);
+
+    const cancelled = await orchestrator.cancel(pipeline.id);
+
+    expect(cancelled!.status).toBe('cancelled');
+    expect(cancelled!.steps.map(info => info.status)).toEqual(['cancelled', 'cancelled']);
+    expect((await store.getTask(cancelled!.steps[0].taskId!))!.status).toBe(TaskStatus.CANCELLED);
+    await expect(orchestrator.cancel(pipeline.id)).rejects.toThrow(PipelineError);
+    expect(await orchestrator.cancel(999)).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import { MemStorage } from '../storage';
+import { PromptRegistry, PromptTemplateError, BUILT_IN_PROMPT_VERSION } from '../agents/promptRegistry';
+import { UsageLedger } from '../services/usageLedger';
+import { LLMService, LLMProviderClient } from '../services/llmService';
+import { MemoryCacheStore } from '../services/llmCacheStore';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const createRegistry = (store = new MemStorage()) => {
+  const registry = new PromptRegistry(store);
+  registry.register({
+    name: 'test.review',
+    description: 'Review a change',
+    variables: ['change'],
+    content: 'Review this change:\n{{change}}'
+  });
+  return { registry, store };
+};
+
+describe('PromptRegistry', () => {
+  test('should render the built-in template until a version is activated', async () => {
+    const { registry } = createRegistry();
+
+    const builtIn = await registry.render('test.review', { change: 'diff' });
+    await registry.createVersion('test.review', { content: 'Be strict. {{change}}' });
+    const inactive = await registry.render('test.review', { change: 'diff' });
+    await registry.activate('test.review', 1);
+    const active = await registry.render('test.review', { change: 'diff' });
+
+    expect(builtIn).toEqual({ name: 'test.review', version: BUILT_IN_PROMPT_VERSION, text: 'Review this change:\ndiff' });
+    expect(inactive.version).toBe(BUILT_IN_PROMPT_VERSION);
+    expect(active).toEqual({ name: 'test.review', version: 1, text: 'Be strict. diff' });
+  });
+
+  test('should prefer an agent override over the default for all agents', async () => {
+    const { registry } = createRegistry();
+
+    await registry.createVersion('test.review', { content: 'Default {{change}}', activate: true });
+    await registry.createVersion('test.review', { content: 'Agent 7 {{change}}', agentId: 7, activate: true });
+
+    expect((await registry.render('test.review', { change: 'x' }, 7)).text).toBe('Agent 7 x');
+    expect((await registry.render('test.review', { change: 'x' }, 8)).text).toBe('Default x');
+  });
+
+  test('should keep one active version per scope', async () => {
+    const { registry, store } = createRegistry();
+
+    await registry.createVersion('test.review', { content: 'First {{change}}', activate: true });
+    await registry.createVersion('test.review', { content: 'Second {{change}}', activate: true });
+
+    const versions = await store.getPromptTemplatesByName('test.review');
+    expect(versions.map(version => [version.version, version.isActive])).toEqual([[1, false], [2, true]]);
+  });
+
+  test('should reject variables the agent does not provide', async () => {
+    const { registry } = createRegistry();
+
+    await expect(registry.createVersion('test.review', { content: 'Review {{diff}}' }))
+      .rejects.toThrow(PromptTemplateError);
+    await expect(registry.createVersion('test.unknown', { content: 'Hello' }))
+      .rejects.toThrow(PromptTemplateError);
+  });
+
+  test('should go back to the built-in template on reset', async () => {
+    const { registry } = createRegistry();
+
+    await registry.createVersion('test.review', { content: 'Custom {{change}}', activate: true });
+    const deactivated = await registry.reset('test.review');
+
+    expect(deactivated).toBe(1);
+    expect((await registry.resolve('test.review')).version).toBe(BUILT_IN_PROMPT_VERSION);
+  });
+
+  test('should attribute usage to the prompt version that was sent', async () => {
+    const { registry, store } = createRegistry();
+    const ledger = new UsageLedger(store);
+    const groq: LLMProviderClient = {
+      callLLM: jest.fn().mockResolvedValue({
+        text: 'Looks good',
+        usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 }
+      })
+    };
+    const service = new LLMService({
+      clients: { groq },
+      cacheStore: new MemoryCacheStore(),
+      retry: { maxRetries: 0 },
+      usageLedger: ledger
+    });
+
+    await registry.createVersion('test.review', { content: 'Be brief. {{change}}', activate: true });
+    const prompt = await registry.render('test.review', { change: 'diff' });
+    await service.callLLM({
+      prompt: 'Review it',
+      provider: 'groq',
+      system: prompt.text,
+      promptTemplate: { name: prompt.name, version: prompt.version }
+    });
+
+    const [usage] = await store.getLLMUsage({});
+    const report = await ledger.getReport();
+    expect(usage).toEqual(expect.objectContaining({ promptTemplate: 'test.review', promptVersion: 1 }));
+    expect(report.prompts).toEqual([
+      expect.objectContaining({ promptTemplate: 'test.review', promptVersion: 1, calls: 1, totalTokens: 120 })
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { registerRoutes } from '../routes';
+import { providerRegistry } from '../services/providerRegistry';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  },
+  loggerStream: { write: jest.fn() }
+}));
+
+// The routes only need the in-memory storage
+jest.mock('../db', () => ({ db: {} }));
+
+describe('LLM provider routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const register = (body: Record<string, unknown>) => fetch(`${baseUrl}/api/llm-providers`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const provider = { name: 'Remote', baseUrl: 'http://127.0.0.1:1/v1', model: 'remote-model', contextWindow: 8192 };
+
+  test('should not let API callers name environment variables or set headers', async () => {
+    const fields = [{ apiKeyEnv: 'DATABASE_URL' }, { headers: { 'X-Api-Key': 'secret' } }, { authHeader: 'X-Api-Key' }];
+
+    for (const [index, field] of fields.entries()) {
+      const response = await register({ id: `remote-${index}`, ...provider, ...field });
+      expect(response.status).toBe(400);
+      expect(providerRegistry.has(`remote-${index}`)).toBe(false);
+    }
+  });
+
+  test('should register providers with an inline key', async () => {
+    const response = await register({ id: 'remote-inline', ...provider, apiKey: 'sk-test' });
+
+    expect(response.status).toBe(201);
+    expect(providerRegistry.has('remote-inline')).toBe(true);
+    providerRegistry.unregister('remote-inline');
+  });
+});
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LLMService, LLMProviderClient, llmService } from '../services/llmService';
+import {
+  FixtureStore,
+  LLMFixtureMissingError,
+  RecordingProvider,
+  ReplayProvider,
+  hashRequest
+} from '../services/recordReplayProvider';
+import { SupervisionAgent } from '../agents/supervisionAgent';
+
+// Mock the storage implementation
+jest.mock('../storage', () => ({
+  storage: {
+    updateAgentStatus: jest.fn(),
+    createSystemActivity: jest.fn(),
+    // Checked by the usage ledger before every LLM call; no budgets are set
+    getAllUsageBudgets: jest.fn().mockResolvedValue([]),
+    getSystemStats: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const SUPERVISION_FIXTURE = path.join(__dirname, 'fixtures', 'supervisionAgent.json');
+
+describe('Record/replay LLM provider', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('hashRequest', () => {
+    test('should ignore whitespace and timestamp differences', () => {
+      const a = hashRequest({ prompt: 'Plan it', system: 'Line one\n      Line two at 2024-01-01T10:00:00.000Z' });
+      const b = hashRequest({ prompt: ' Plan it ', system: 'Line one Line two at 2025-06-30T23:59:59Z' });
+
+      expect(a).toBe(b);
+    });
+
+    test('should ignore the provider but not sampling parameters', () => {
+      const base = hashRequest({ prompt: 'Plan it', temperature: 0.5 });
+
+      expect(hashRequest({ prompt: 'Plan it', temperature: 0.5, provider: 'phidata' })).toBe(base);
+      expect(hashRequest({ prompt: 'Plan it', temperature: 0.2 })).not.toBe(base);
+      expect(hashRequest({ prompt: 'Plan something else', temperature: 0.5 })).not.toBe(base);
+    });
+  });
+
+  describe('RecordingProvider and ReplayProvider', () => {
+    test('should record a completion and replay it without calling the provider', async () => {
+      const filePath = path.join(tmpDir, 'recorded.json');
+      const inner: LLMProviderClient = {
+        callLLM: jest.fn().mockResolvedValue({
+          text: 'Recorded answer',
+          usage: { inputTokens: 5, outputTokens: 2, totalTokens: 7 }
+        })
+      };
+
+      const recorder = new RecordingProvider(inner, new FixtureStore(filePath));
+      await recorder.callLLM({ prompt: 'Question', system: 'Be brief' });
+
+      const replay = new ReplayProvider(new FixtureStore(filePath));
+      const response = await replay.callLLM({ prompt: 'Question', system: 'Be brief' });
+
+      expect(inner.callLLM).toHaveBeenCalledTimes(1);
+      expect(response).toEqual({
+        text: 'Recorded answer',
+        usage: { inputTokens: 5, outputTokens: 2, totalTokens: 7 }
+      });
+    });
+
+    test('should fail loudly on an unrecorded request', async () => {
+      const replay = new ReplayProvider(new FixtureStore(path.join(tmpDir, 'empty.json')));
+
+      await expect(replay.callLLM({ prompt: 'Never recorded' })).rejects.toBeInstanceOf(LLMFixtureMissingError);
+    });
+  });
+
+  describe('LLMService fixture modes', () => {
+    test('should record through the configured provider and replay offline', async () => {
+      const filePath = path.join(tmpDir, 'service.json');
+      const groq: LLMProviderClient = {
+        callLLM: jest.fn().mockResolvedValue({
+          text: 'From Groq',
+          usage: { inputTokens: 3, outputTokens: 4, totalTokens: 0 }
+        })
+      };
+
+      const recorder = new LLMService({ clients: { groq }, fixtures: { mode: 'record', filePath } });
+      await recorder.callLLM({ prompt: 'Hello', provider: 'groq' });
+
+      const replayer = new LLMService({ fixtures: { mode: 'replay', filePath } });
+      const response = await replayer.callLLM({ prompt: 'Hello', provider: 'groq' });
+
+      expect(groq.callLLM).toHaveBeenCalledTimes(1);
+      expect(response.text).toBe('From Groq');
+      expect(response.usage.totalTokens).toBe(7);
+    });
+  });
+
+  describe('SupervisionAgent end-to-end replay', () => {
+    let supervisionAgent: SupervisionAgent;
+
+    beforeAll(() => {
+      llmService.useFixtures('replay', SUPERVISION_FIXTURE);
+    });
+
+    afterAll(() => {
+      llmService.disableFixtures();
+    });
+
+    beforeEach(() => {
+      supervisionAgent = new SupervisionAgent(1);
+    });
+
+    test('should replay a recorded project plan byte for byte', async () => {
+      const result = await supervisionAgent.process('Build a todo app with user accounts');
+      const fixture = JSON.parse(fs.readFileSync(SUPERVISION_FIXTURE, 'utf8'));
+      const recorded = Object.values<any>(fixture.entries)
+        .find(entry => entry.request.prompt === 'Build a todo app with user accounts');
+
+      // The plan is recorded as structured output and rendered as markdown
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(JSON.parse(recorded.response.text));
+      expect(result.output).toContain('## Project Overview\nA multi-user todo application with authentication.');
+      expect(result.tokens).toEqual({ input: 138, output: 106, total: 244 });
+    });
+
+    test('should replay a recorded requirements analysis', async () => {
+      const result = await supervisionAgent.process('Please analyze the requirements for a todo app with user accounts');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toContain('## Functional Requirements');
+    });
+
+    test('should surface unrecorded prompts as errors', async () => {
+      const result = await supervisionAgent.process('Build a chat app');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No recorded LLM response');
+    });
+  });
+});
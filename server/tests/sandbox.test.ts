@@ -0,0 +1,86 @@
+import { ErrorType } from '@shared/schema';
+import { CodingAgent } from '../agents/codingAgent';
+import { DebugAgent } from '../agents/debugAgent';
+import { runInSandbox } from '../utils/sandbox';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('Sandbox', () => {
+  test('should run code and tests, capturing their output', async () => {
+    const result = await runInSandbox(
+      'const add = (a, b) => a + b; console.log("adding"); console.error("careful"); add(2, 3)',
+      'test("adds", () => assert.strictEqual(add(1, 2), 3)); test("overflows", () => assert.strictEqual(add(1, 1), 3));'
+    );
+
+    expect(result).toEqual(expect.objectContaining({ success: false, result: '5', stdout: 'adding\n', stderr: 'careful\n' }));
+    expect(result.error).toBeUndefined();
+    expect(result.tests.map(test => [test.name, test.passed])).toEqual([['adds', true], ['overflows', false]]);
+  });
+
+  test('should report denied APIs as authorization errors', async () => {
+    const required = await runInSandbox('require("fs").readFileSync("/etc/passwd", "utf8")');
+    const escaped = await runInSandbox('this.constructor.constructor("return process")().binding("fs")');
+    const fetched = await runInSandbox('fetch("http://localhost")');
+    const evaluated = await runInSandbox('eval("1 + 1")');
+
+    [required, escaped, fetched, evaluated].forEach(result => {
+      expect(result.success).toBe(false);
+      expect(result.error).toEqual(expect.objectContaining({ errorType: ErrorType.AUTHORIZATION_ERROR, violation: 'permission' }));
+    });
+  });
+
+  test('should not expose the runner\'s Function through the sandbox globals', async () => {
+    const escapes = await Promise.all([
+      'console.log.constructor("return require")()("net")',
+      'assert.constructor("return process")()',
+      'setTimeout.constructor("return process")()',
+      'test.constructor.constructor("return process")()'
+    ].map(code => runInSandbox(code)));
+
+    escapes.forEach(result => {
+      expect(result.success).toBe(false);
+      expect(result.error).toEqual(expect.objectContaining({ name: 'EvalError', errorType: ErrorType.AUTHORIZATION_ERROR }));
+    });
+  });
+
+  test('should report exceeded time and memory limits as resource errors', async () => {
+    const spinning = await runInSandbox('while (true) {}', undefined, { timeoutMs: 200 });
+    const waiting = await runInSandbox('setTimeout(() => { while (true) {} }); new Promise(() => {})', undefined, { timeoutMs: 200 });
+    const growing = await runInSandbox('const chunks = []; while (true) chunks.push(new Array(100000).fill(1))', undefined, { timeoutMs: 20000, memoryMb: 32 });
+
+    expect(spinning.error).toEqual(expect.objectContaining({ errorType: ErrorType.RESOURCE_ERROR, violation: 'timeout' }));
+    expect(waiting.error).toEqual(expect.objectContaining({ errorType: ErrorType.RESOURCE_ERROR, violation: 'timeout' }));
+    expect(growing.error).toEqual(expect.objectContaining({ errorType: ErrorType.RESOURCE_ERROR, violation: 'memory' }));
+  });
+
+  test('should let the debug agent reproduce errors', async () => {
+    const agent = new DebugAgent(1);
+
+    const reproduced = await agent.invoke('reproduceError', { code: 'const user = null;\nuser.name', errorMessage: 'Cannot read properties of null' });
+    const denied = await agent.invoke('reproduceError', { code: 'process.exit(1)' });
+
+    expect(reproduced).toEqual(expect.objectContaining({ success: true, metadata: expect.objectContaining({ reproduced: true }) }));
+    expect(denied.success).toBe(false);
+    expect(denied.metadata).toEqual(expect.objectContaining({ errorType: ErrorType.AUTHORIZATION_ERROR, violation: 'permission' }));
+  });
+
+  test('should only give sandboxed code the network where the server allows it', async () => {
+    const agent = new CodingAgent(1);
+
+    const requested = await agent.invoke('runCode', { code: 'typeof fetch' }, { allowNetwork: true });
+    process.env.SANDBOX_NETWORK_CODING = 'true';
+    const allowed = await agent.invoke('runCode', { code: 'typeof fetch' }).finally(() => delete process.env.SANDBOX_NETWORK_CODING);
+
+    expect(requested.success).toBe(false);
+    expect(requested.metadata).toEqual(expect.objectContaining({ errorType: ErrorType.AUTHORIZATION_ERROR, violation: 'permission' }));
+    expect(allowed.success).toBe(true);
+  });
+});
@@ -3,6 +3,7 @@ import { AgentType, AgentStatus, ActivityType, ErrorType, SystemKnowledge, Syste
 import { SelfHealingAgent } from '../agents/selfHealingAgent';
 import { storage } from '../storage';
 import { threadManager } from '../utils/threadManager';
+import { llmService } from '../services/llmService';
 
 // Mock dependencies
 jest.mock('../storage');
@@ -15,6 +16,9 @@ jest.mock('../utils/logger', () => ({
   }
 }));
 jest.mock('../utils/threadManager');
+jest.mock('../services/llmService', () => ({
+  llmService: { callLLM: jest.fn() }
+}));
 
 describe('SelfHealingAgent', () => {
   let agent: SelfHealingAgent;
@@ -130,20 +134,40 @@ describe('SelfHealingAgent', () => {
     expect(result.metadata).toHaveProperty('action', 'detect_errors');
   });
   
-  it('should analyze errors when asked to', async () => {
+  it('should analyze errors when asked to, using its tools', async () => {
+    const usage = { inputTokens: 100, outputTokens: 50, totalTokens: 150 };
+    (llmService.callLLM as jest.Mock<any>)
+      .mockResolvedValueOnce({
+        text: '',
+        usage,
+        toolCalls: [{ id: 'call_1', name: 'getSystemErrorLogs', arguments: '{"componentName":"test-component"}' }]
+      })
+      .mockResolvedValueOnce({ text: 'Root cause: test', usage });
+    
     const result = await agent.process('analyze error in component X', {
       componentName: 'test-component',
       errorMessage: 'Test error'
     });
     
     expect(storage.updateAgentStatus).toHaveBeenCalledWith(1, AgentStatus.OBSERVING);
-    expect(storage.createSystemActivity).toHaveBeenCalled();
-    expect(threadManager.executeTask).toHaveBeenCalled();
-    expect(storage.updateSystemStats).toHaveBeenCalled();
+    expect(storage.getSystemErrorLogsByComponent).toHaveBeenCalledWith('test-component');
+    expect(storage.createSystemActivity).toHaveBeenCalledWith(expect.objectContaining({
+      type: ActivityType.TOOL_CALL,
+      metadata: expect.objectContaining({ tool: 'getSystemErrorLogs', success: true })
+    }));
+    
+    // The tool result is fed back to the model in the second round
+    const secondRequest = (llmService.callLLM as jest.Mock<any>).mock.calls[1][0] as any;
+    expect(secondRequest.tools.map((tool: any) => tool.name)).toEqual(['searchKnowledge', 'getSystemErrorLogs']);
+    expect(secondRequest.toolMessages).toEqual([
+      expect.objectContaining({ role: 'assistant' }),
+      expect.objectContaining({ role: 'tool', toolCallId: 'call_1', content: expect.stringContaining('Test error') })
+    ]);
     
     expect(result.success).toBe(true);
-    expect(result.output).toBe('Test output');
+    expect(result.output).toBe('Root cause: test');
     expect(result.metadata).toHaveProperty('action', 'analyze_error');
+    expect(result.metadata!.tokens).toEqual({ input: 200, output: 100, total: 300 });
   });
   
   it('should suggest fixes when asked to', async () => {
@@ -191,7 +215,7 @@ describe('SelfHealingAgent', () => {
     });
     
     expect(storage.updateAgentStatus).toHaveBeenCalledWith(1, AgentStatus.OBSERVING);
-    expect(storage.createSystemActivity).toHaveBeenCalledTimes(4); // Initial + 3 operations
+    expect(storage.createSystemActivity).toHaveBeenCalledTimes(5); // Status change + initial + 3 operations
     expect(threadManager.executeTask).toHaveBeenCalledTimes(3); // For each operation
     expect(storage.updateSystemStats).toHaveBeenCalledTimes(3); // For each operation
     expect(storage.createSystemErrorLog).toHaveBeenCalled();
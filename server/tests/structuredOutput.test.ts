@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { LLMService, LLMProviderClient } from '../services/llmService';
+import { MemoryCacheStore } from '../services/llmCacheStore';
+import { LLMStructuredOutputError } from '../services/llmErrors';
+import { describeSchema, extractJson, parseStructuredOutput } from '../services/structuredOutput';
+import { projectPlanSchema } from '@shared/schema';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const planSchema = z.object({
+  title: z.string(),
+  steps: z.array(z.string()).min(1),
+  priority: z.enum(['low', 'high']).optional()
+});
+
+const completion = (text: string) => ({
+  text,
+  usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 }
+});
+
+// Groq stand-in answering each call with the next of the given completions
+const createService = (answers: string[]) => {
+  const groq: LLMProviderClient = {
+    callLLM: jest.fn().mockImplementation(async () => completion(answers.shift() || ''))
+  };
+  const usageLedger = { enforce: jest.fn(), record: jest.fn() } as any;
+  const service = new LLMService({
+    clients: { groq },
+    cacheStore: new MemoryCacheStore(),
+    retry: { maxRetries: 0 },
+    usageLedger
+  });
+  return { groq, service };
+};
+
+describe('structured output helpers', () => {
+  test('should extract JSON from fences, prose and trailing commas', () => {
+    expect(extractJson('{"a": 1}')).toEqual({ a: 1 });
+    expect(extractJson('```json\n{"a": [1, 2]}\n```')).toEqual({ a: [1, 2] });
+    expect(extractJson('Here is the plan: {"a": [1, 2,],} Hope it helps!')).toEqual({ a: [1, 2] });
+    expect(() => extractJson('No JSON here')).toThrow(SyntaxError);
+  });
+
+  test('should report validation problems by path', () => {
+    const result = parseStructuredOutput('{"title": "Ship", "steps": []}', planSchema);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues).toEqual([expect.stringContaining('steps:')]);
+  });
+
+  test('should describe a schema for the prompt', () => {
+    const description = describeSchema(planSchema);
+
+    expect(description).toContain('title: string;');
+    expect(description).toContain('steps: string[];');
+    expect(description).toContain('priority?: "low" | "high";');
+    expect(describeSchema(projectPlanSchema)).toContain('agentType: "design" | "coding"');
+  });
+});
+
+describe('LLMService structured output', () => {
+  test('should request JSON and return the validated object', async () => {
+    const { groq, service } = createService(['{"title": "Ship", "steps": ["Build", "Test"]}']);
+
+    const response = await service.callStructured({ prompt: 'Plan the release', provider: 'groq', schema: planSchema });
+
+    expect(response.data).toEqual({ title: 'Ship', steps: ['Build', 'Test'] });
+    expect(groq.callLLM).toHaveBeenCalledWith(expect.objectContaining({
+      responseFormat: 'json',
+      system: expect.stringContaining('steps: string[];')
+    }));
+  });
+
+  test('should re-ask with the validation errors and sum usage over attempts', async () => {
+    const { groq, service } = createService([
+      '{"title": "Ship"}',
+      '{"title": "Ship", "steps": ["Build"]}'
+    ]);
+
+    const response = await service.callLLM({ prompt: 'Plan the release', provider: 'groq', schema: planSchema });
+
+    expect(response.data).toEqual({ title: 'Ship', steps: ['Build'] });
+    expect(response.usage.totalTokens).toBe(30);
+    expect(groq.callLLM).toHaveBeenCalledTimes(2);
+    expect((groq.callLLM as jest.Mock).mock.calls[1][0].prompt).toContain('steps: Required');
+  });
+
+  test('should not serve an invalid answer from the cache', async () => {
+    const { groq, service } = createService([
+      'Sorry, I cannot help with that.',
+      '{"title": "Ship", "steps": ["Build"]}',
+      '{"title": "Ship", "steps": ["Build"]}'
+    ]);
+
+    await service.callStructured({ prompt: 'Plan the release', provider: 'groq', schema: planSchema });
+    await service.callStructured({ prompt: 'Plan the release', provider: 'groq', schema: planSchema });
+
+    expect(groq.callLLM).toHaveBeenCalledTimes(3);
+  });
+
+  test('should raise LLMStructuredOutputError once repair attempts are used up', async () => {
+    const { groq, service } = createService(['nope', 'still nope', '{"title": 1}']);
+
+    const request = service.callStructured({ prompt: 'Plan the release', provider: 'groq', schema: planSchema });
+
+    await expect(request).rejects.toBeInstanceOf(LLMStructuredOutputError);
+    await expect(request).rejects.toMatchObject({ issues: expect.arrayContaining([expect.stringContaining('title:')]) });
+    expect(groq.callLLM).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,68 @@
+import { ScheduledTask, TaskPriority, TaskScheduler } from '../utils/taskScheduler';
+
+const task = (agentType: string, priority: TaskPriority, enqueuedAt = 0): ScheduledTask => ({ agentType, priority, enqueuedAt });
+
+describe('Task scheduler', () => {
+  test('should run higher priorities first, equal ones in arrival order', () => {
+    const scheduler = new TaskScheduler<ScheduledTask>(0);
+    const maintenance = task('self_healing', 'maintenance', 1);
+    const first = task('coding', 'background', 2);
+    const interactive = task('supervision', 'interactive', 3);
+    const second = task('coding', 'background', 4);
+    [maintenance, first, interactive, second].forEach(queued => scheduler.enqueue(queued));
+
+    expect([scheduler.next(), scheduler.next(), scheduler.next(), scheduler.next()]).toEqual([interactive, first, second, maintenance]);
+    expect(scheduler.next()).toBeUndefined();
+  });
+
+  test('should age waiting tasks up one priority per aging interval', () => {
+    const scheduler = new TaskScheduler<ScheduledTask>(1000);
+    const old = task('self_healing', 'maintenance', 0);
+    scheduler.enqueue(old);
+    scheduler.enqueue(task('supervision', 'interactive', 1500));
+
+    expect(scheduler.next(1999)!.agentType).toBe('supervision');
+
+    scheduler.enqueue(task('supervision', 'interactive', 1999));
+    expect(scheduler.next(2000)).toBe(old);
+    expect(scheduler.info().recentDecisions[1]).toEqual(expect.objectContaining({
+      agentType: 'self_healing',
+      priority: 'maintenance',
+      effectivePriority: 'interactive',
+      waitMs: 2000
+    }));
+  });
+
+  test('should share workers between agent types by weight', () => {
+    const scheduler = new TaskScheduler<ScheduledTask>(0);
+    scheduler.configure({ weights: { coding: 2 } });
+    ['coding', 'coding', 'coding', 'design', 'design'].forEach((agentType, index) => scheduler.enqueue(task(agentType, 'background', index)));
+
+    const order = [1, 2, 3, 4, 5].map(() => scheduler.next()!.agentType);
+
+    expect(order).toEqual(['coding', 'design', 'coding', 'coding', 'design']);
+  });
+
+  test('should hold back agent types at their limit until a task finishes', () => {
+    process.env.THREAD_LIMIT_SELF_HEALING = '1';
+    try {
+      const scheduler = new TaskScheduler<ScheduledTask>(0);
+      scheduler.enqueue(task('self_healing', 'interactive', 1));
+      scheduler.enqueue(task('self_healing', 'interactive', 2));
+      scheduler.enqueue(task('design', 'maintenance', 3));
+
+      expect(scheduler.next()!.agentType).toBe('self_healing');
+      expect(scheduler.next()!.agentType).toBe('design');
+      expect(scheduler.info().recentDecisions[1].passedOver).toBe(1);
+      expect(scheduler.next()).toBeUndefined();
+
+      scheduler.finish('self_healing');
+      expect(scheduler.next()!.agentType).toBe('self_healing');
+
+      scheduler.configure({ limits: { self_healing: null } });
+      expect(scheduler.info().agentTypes.find(info => info.agentType === 'self_healing')!.limit).toBeNull();
+    } finally {
+      delete process.env.THREAD_LIMIT_SELF_HEALING;
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import type { TaskPriority } from '../utils/taskScheduler';
+import { ThreadManager, ThreadQueueFullError } from '../utils/threadManager';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+// Resolves with `data.value` after `data.ms` milliseconds
+const delayed = 'async function(data) { await new Promise(resolve => setTimeout(resolve, data.ms)); return data.value; }';
+
+describe('Thread manager', () => {
+  let manager: ThreadManager;
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  test('should run task functions and their source in worker threads', async () => {
+    manager = new ThreadManager({ maxThreads: 1 });
+
+    const fromSource = await manager.executeTask('async function(data) { return data.value * 2; }', { value: 21 }, 'Double');
+    const fromFunction = await manager.executeTask((data: { value: number }) => ({ isMainThread: require('worker_threads').isMainThread, value: data.value }), { value: 1 }, 'Check thread');
+
+    expect(fromSource).toBe(42);
+    expect(fromFunction).toEqual({ isMainThread: false, value: 1 });
+  });
+
+  test('should queue tasks while all workers are busy, higher priorities first', async () => {
+    manager = new ThreadManager({ maxThreads: 1, maxQueueSize: 3 });
+    const finished: string[] = [];
+    const run = (value: string, priority?: TaskPriority) =>
+      manager.executeTask<string>(delayed, { ms: 20, value }, value, { priority }).then(result => finished.push(result));
+
+    const tasks = [run('first'), run('low'), run('high', 'interactive'), run('later')];
+    expect(manager.getThreadStats()).toEqual(expect.objectContaining({ activeThreads: 1, queuedTasks: 3 }));
+
+    await Promise.all(tasks);
+
+    expect(finished).toEqual(['first', 'high', 'low', 'later']);
+    expect(manager.getThreadStats()).toEqual(expect.objectContaining({ queuedTasks: 0, completedTasks: 4 }));
+    expect(manager.getThreadStats().maxWaitMs).toBeGreaterThanOrEqual(40);
+  });
+
+  test('should hold back tasks of an agent type at its concurrency limit', async () => {
+    manager = new ThreadManager({ maxThreads: 2 });
+    manager.configureScheduler({ limits: { self_healing: 1 } });
+    const run = (agentType: string, value: string) =>
+      manager.executeTask<string>(delayed, { ms: 20, value }, value, { agentType });
+
+    const tasks = [run('self_healing', 'first'), run('self_healing', 'second'), run('supervision', 'user')];
+    expect(manager.getThreadStats().scheduler.agentTypes).toEqual([
+      { agentType: 'self_healing', running: 1, queued: 1, limit: 1, weight: 1 },
+      { agentType: 'supervision', running: 1, queued: 0, limit: null, weight: 1 }
+    ]);
+
+    await expect(Promise.all(tasks)).resolves.toEqual(['first', 'second', 'user']);
+  });
+
+  test('should reject tasks once the queue is full', async () => {
+    manager = new ThreadManager({ maxThreads: 1, maxQueueSize: 1 });
+
+    const running = manager.executeTask(delayed, { ms: 20, value: 'running' }, 'Running');
+    const queued = manager.executeTask(delayed, { ms: 0, value: 'queued' }, 'Queued');
+
+    await expect(manager.executeTask(delayed, { ms: 0 }, 'Rejected')).rejects.toThrow(ThreadQueueFullError);
+    await expect(Promise.all([running, queued])).resolves.toEqual(['running', 'queued']);
+  });
+
+  test('should replace workers that crash or are terminated on timeout', async () => {
+    manager = new ThreadManager({ maxThreads: 1 });
+
+    await expect(manager.executeTask(
+      'function() { setTimeout(() => { throw new Error("Worker crashed") }); return new Promise(() => {}); }',
+      {},
+      'Crash'
+    )).rejects.toThrow('Worker crashed');
+    await expect(manager.executeTask('function() { while (true) {} }', {}, 'Spin', { timeoutMs: 50 }))
+      .rejects.toHaveProperty('name', 'TimeoutError');
+
+    expect(await manager.executeTask(delayed, { ms: 0, value: 'recovered' }, 'Recovered')).toBe('recovered');
+    expect(manager.getThreadStats()).toEqual(expect.objectContaining({ maxThreads: 1, recycledWorkers: 2, failedTasks: 2 }));
+  });
+
+  test('should run sandboxed code in its own slots rather than on a worker', async () => {
+    manager = new ThreadManager({ maxThreads: 1, maxSandboxes: 1 });
+
+    const first = manager.executeSandboxed('new Promise(resolve => setTimeout(() => resolve(1), 200))', 'First');
+    const second = manager.executeSandboxed('2', 'Second');
+    expect(manager.getThreadStats()).toEqual(expect.objectContaining({
+      activeThreads: 0,
+      sandboxes: { active: 1, max: 1, queued: 1, completed: 0, failed: 0 }
+    }));
+
+    expect(await manager.executeTask(delayed, { ms: 0, value: 'thread' }, 'Thread')).toBe('thread');
+    expect((await Promise.all([first, second])).map(result => result.result)).toEqual(['1', '2']);
+    expect(manager.getThreadStats().sandboxes).toEqual(expect.objectContaining({ active: 0, queued: 0, completed: 2 }));
+  });
+});
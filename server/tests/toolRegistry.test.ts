@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { ActivityType, AgentType } from '@shared/schema';
+import { MemStorage } from '../storage';
+import { ToolRegistry, AgentTool, toolRegistry } from '../agents/toolRegistry';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const lookupTool: AgentTool<{ id: number; verbose: boolean }> = {
+  name: 'lookup',
+  description: 'Look up a record',
+  parameters: z.object({
+    id: z.number().int().describe('Record id'),
+    verbose: z.boolean().default(false)
+  }),
+  execute: jest.fn().mockImplementation(async ({ id }) => ({ id, name: `Record ${id}` }))
+};
+
+const toolContext = { agentId: 7, agentName: 'Debug Agent', agentType: AgentType.DEBUG };
+
+describe('ToolRegistry', () => {
+  let store: MemStorage;
+  let registry: ToolRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new MemStorage();
+    registry = new ToolRegistry(store);
+    registry.register(AgentType.DEBUG, lookupTool);
+  });
+
+  test('should describe tools per agent type as JSON schema', () => {
+    expect(registry.getDefinitions(AgentType.DEBUG)).toEqual([{
+      name: 'lookup',
+      description: 'Look up a record',
+      parameters: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Record id' },
+          verbose: { type: 'boolean', default: false }
+        },
+        required: ['id']
+      }
+    }]);
+    expect(registry.getDefinitions(AgentType.CODING)).toEqual([]);
+    expect(() => registry.register(AgentType.DEBUG, lookupTool)).toThrow('already registered');
+  });
+
+  test('should run a tool with validated arguments and record the call', async () => {
+    const invocation = await registry.invoke({ id: 'call_1', name: 'lookup', arguments: '{"id": 3}' }, toolContext);
+
+    expect(invocation).toEqual(expect.objectContaining({ success: true, result: { id: 3, name: 'Record 3' } }));
+    expect(lookupTool.execute).toHaveBeenCalledWith({ id: 3, verbose: false }, toolContext);
+
+    const [activity] = await store.getRecentSystemActivities(1);
+    expect(activity.type).toBe(ActivityType.TOOL_CALL);
+    expect(activity.metadata).toEqual(expect.objectContaining({ agentId: 7, tool: 'lookup', success: true }));
+  });
+
+  test('should report invalid arguments and unknown tools instead of throwing', async () => {
+    const invalid = await registry.invoke({ id: 'call_1', name: 'lookup', arguments: '{"id": "three"}' }, toolContext);
+    const unknown = await registry.invoke({ id: 'call_2', name: 'deleteEverything', arguments: '{}' }, toolContext);
+    const wrongAgent = await registry.invoke({ id: 'call_3', name: 'lookup', arguments: '{"id": 3}' }, { ...toolContext, agentType: AgentType.CODING });
+
+    expect(invalid).toEqual(expect.objectContaining({ success: false, error: expect.stringContaining('id:') }));
+    expect(unknown).toEqual(expect.objectContaining({ success: false, error: 'Unknown tool: deleteEverything' }));
+    expect(wrongAgent.success).toBe(false);
+    expect(lookupTool.execute).not.toHaveBeenCalled();
+  });
+
+  test('should give the self-healing agent its built-in tools', () => {
+    const names = toolRegistry.getTools(AgentType.SELF_HEALING).map(tool => tool.name);
+
+    expect(names).toEqual(expect.arrayContaining(['searchKnowledge', 'getSystemErrorLogs']));
+  });
+});
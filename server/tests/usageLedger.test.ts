@@ -0,0 +1,128 @@
+import { BudgetPeriod, BudgetScope, BudgetUnit } from '@shared/schema';
+import { MemStorage } from '../storage';
+import { UsageLedger } from '../services/usageLedger';
+import { LLMService, LLMProviderClient } from '../services/llmService';
+import { MemoryCacheStore } from '../services/llmCacheStore';
+import { LLMBudgetExceededError } from '../services/llmErrors';
+
+// Mock the logger
+jest.mock('../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const createService = (ledger: UsageLedger) => {
+  const groq: LLMProviderClient = {
+    callLLM: jest.fn().mockImplementation(async params => ({
+      text: `Answer to ${params.prompt}`,
+      usage: { inputTokens: 100, outputTokens: 200, totalTokens: 300 }
+    }))
+  };
+  const service = new LLMService({
+    clients: { groq },
+    cacheStore: new MemoryCacheStore(),
+    retry: { maxRetries: 0 },
+    usageLedger: ledger
+  });
+  return { groq, service };
+};
+
+describe('UsageLedger', () => {
+  let store: MemStorage;
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    store = new MemStorage();
+    ledger = new UsageLedger(store);
+  });
+
+  test('should record calls with cost and attribution', async () => {
+    const { service } = createService(ledger);
+
+    const response = await service.callLLM({
+      prompt: 'Plan the sprint',
+      provider: 'groq',
+      usageContext: { agentId: 1, projectId: 2, taskId: 3 }
+    });
+
+    const [usage] = await store.getLLMUsage({});
+    expect(response.provider).toBe('groq');
+    expect(usage).toEqual(expect.objectContaining({
+      provider: 'groq',
+      totalTokens: 300,
+      cached: false,
+      agentId: 1,
+      projectId: 2,
+      taskId: 3
+    }));
+    expect(usage.cost).toBeGreaterThan(0);
+    expect((await store.getSystemStats())!.apiTokensUsed).toBe(300);
+  });
+
+  test('should record cache hits without charging them', async () => {
+    const { service } = createService(ledger);
+
+    await service.callLLM({ prompt: 'Same', provider: 'groq' });
+    await service.callLLM({ prompt: 'Same', provider: 'groq' });
+
+    const report = await ledger.getReport();
+    expect(report.totals).toEqual(expect.objectContaining({ calls: 2, cachedCalls: 1, totalTokens: 300 }));
+    expect((await store.getSystemStats())!.apiTokensUsed).toBe(300);
+  });
+
+  test('should block calls once a hard budget is used up', async () => {
+    await store.createUsageBudget({ scope: BudgetScope.PROJECT, scopeId: 7, unit: BudgetUnit.TOKENS, period: BudgetPeriod.DAILY, hardLimit: 500 });
+    const { groq, service } = createService(ledger);
+
+    await service.callLLM({ prompt: 'First', provider: 'groq', usageContext: { projectId: 7 } });
+    await service.callLLM({ prompt: 'Second', provider: 'groq', usageContext: { projectId: 7 } });
+
+    await expect(service.callLLM({ prompt: 'Third', provider: 'groq', usageContext: { projectId: 7 } }))
+      .rejects.toBeInstanceOf(LLMBudgetExceededError);
+    expect(groq.callLLM).toHaveBeenCalledTimes(2);
+
+    // Other projects are not affected
+    await service.callLLM({ prompt: 'Third', provider: 'groq', usageContext: { projectId: 8 } });
+    expect(groq.callLLM).toHaveBeenCalledTimes(3);
+  });
+
+  test('should enforce the system API token limit', async () => {
+    await store.updateSystemStats({ apiTokensUsed: 10000, apiTokensLimit: 10000 });
+    const { groq, service } = createService(ledger);
+
+    await expect(service.callLLM({ prompt: 'Anything', provider: 'groq' })).rejects.toBeInstanceOf(LLMBudgetExceededError);
+    expect(groq.callLLM).not.toHaveBeenCalled();
+  });
+
+  test('should warn once when a soft limit is reached', async () => {
+    await store.createUsageBudget({ scope: BudgetScope.AGENT, scopeId: 4, unit: BudgetUnit.TOKENS, softLimit: 250 });
+    const { service } = createService(ledger);
+
+    await service.callLLM({ prompt: 'One', provider: 'groq', usageContext: { agentId: 4 } });
+    await service.callLLM({ prompt: 'Two', provider: 'groq', usageContext: { agentId: 4 } });
+    await service.callLLM({ prompt: 'Three', provider: 'groq', usageContext: { agentId: 4 } });
+
+    const warnings = (await store.getRecentSystemActivities(10))
+      .filter(activity => activity.description.includes('soft limit'));
+    expect(warnings).toHaveLength(1);
+
+    const statuses = await ledger.getBudgetStatuses();
+    expect(statuses.find(status => status.id !== null)).toEqual(expect.objectContaining({ spent: 900, state: 'warning' }));
+  });
+
+  test('should aggregate usage by day', async () => {
+    const { service } = createService(ledger);
+    await service.callLLM({ prompt: 'Today', provider: 'groq', usageContext: { agentId: 1 } });
+
+    const report = await ledger.getReport();
+    const today = new Date().toISOString().substring(0, 10);
+
+    expect(report.days).toHaveLength(30);
+    expect(report.days[report.days.length - 1]).toEqual(expect.objectContaining({ date: today, calls: 1, totalTokens: 300 }));
+    expect(report.agents).toEqual([expect.objectContaining({ agentId: 1, totalTokens: 300 })]);
+  });
+});
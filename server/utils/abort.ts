@@ -0,0 +1,47 @@
+/**
+ * Helpers for threading AbortSignals through work that does not accept one
+ * itself. Aborting only stops the caller from waiting: the underlying promise
+ * keeps running, so anything that can be cancelled for real (HTTP requests)
+ * should also be handed the signal directly.
+ */
+
+// Rejects with the signal's reason as soon as it aborts
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// A signal that aborts with whichever of `signal` or a `timeoutMs` timer fires first
+export function withTimeout(signal?: AbortSignal, timeoutMs?: number): AbortSignal | undefined {
+  const signals = signal ? [signal] : [];
+  if (timeoutMs !== undefined && timeoutMs > 0) {
+    signals.push(AbortSignal.timeout(timeoutMs));
+  }
+
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+// AbortSignal.timeout aborts with a TimeoutError; an explicit abort() with an AbortError
+export function isTimeout(signal?: AbortSignal): boolean {
+  return !!signal?.aborted && signal.reason instanceof Error && signal.reason.name === 'TimeoutError';
+}
@@ -0,0 +1,735 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ErrorType } from '@shared/schema';
+import { logger } from './logger';
+
+/**
+ * Runs untrusted JavaScript, such as code written by agents, in a separate
+ * Node process. The code runs in a `vm` context that only has the language
+ * built-ins, timers, `console` (captured), `assert` and `test(name, fn)`;
+ * `require`, `process`, `fetch` and `fs` throw unless a permission grants
+ * them, and eval and Function are disabled. These globals are created inside
+ * the context, so no object of the runner's realm is reachable from the code:
+ * they reach the runner through one function that takes and returns strings,
+ * numbers and booleans. Underneath, Node's permission model denies the
+ * process file system access and child processes, and its heap is capped.
+ *
+ * Nothing blocks the network below the context: Node 20's permission model
+ * does not cover it, so code that got out of the context could connect out.
+ *
+ * Breaking the rules is reported in the result rather than thrown: running
+ * out of time or memory as RESOURCE_ERROR, reaching for a denied API as
+ * AUTHORIZATION_ERROR.
+ */
+
+export interface SandboxPermissions {
+  network?: boolean; // Expose fetch, whose responses have text() and json()
+  fsRead?: string[]; // Expose fs.readFile and fs.readdir, which return promises, for reading under these paths
+}
+
+export interface SandboxOptions {
+  timeoutMs?: number; // Limit on the whole run, tests included
+  memoryMb?: number; // Heap limit of the sandbox process
+  permissions?: SandboxPermissions;
+  signal?: AbortSignal; // Kills the sandbox; the run rejects with the signal's reason
+}
+
+export type SandboxViolation = 'timeout' | 'memory' | 'permission';
+
+export interface SandboxError {
+  name: string;
+  message: string;
+  errorType: ErrorType;
+  violation?: SandboxViolation;
+}
+
+export interface SandboxTestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface SandboxResult {
+  success: boolean; // Ran without an error and every test passed
+  result?: string; // The completion value of the code, inspected
+  stdout: string;
+  stderr: string;
+  tests: SandboxTestResult[];
+  error?: SandboxError;
+  durationMs: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MEMORY_MB = 64;
+const MIN_MEMORY_MB = 16;
+
+// Time the sandbox process gets to start up and report on top of the run's own limit
+const STARTUP_GRACE_MS = 2000;
+
+// SANDBOX_TIMEOUT_MS and SANDBOX_MEMORY_MB set the default limits
+export function getSandboxLimits(): { timeoutMs: number; memoryMb: number } {
+  const timeoutMs = parseInt(process.env.SANDBOX_TIMEOUT_MS || '', 10);
+  const memoryMb = parseInt(process.env.SANDBOX_MEMORY_MB || '', 10);
+  return {
+    timeoutMs: isNaN(timeoutMs) || timeoutMs <= 0 ? DEFAULT_TIMEOUT_MS : timeoutMs,
+    memoryMb: isNaN(memoryMb) || memoryMb <= 0 ? DEFAULT_MEMORY_MB : memoryMb
+  };
+}
+
+// SANDBOX_NETWORK_<TYPE> (e.g. SANDBOX_NETWORK_CODING) overrides SANDBOX_NETWORK for one agent type; both default to false
+export function getSandboxNetwork(agentType: string): boolean {
+  const value = process.env[`SANDBOX_NETWORK_${agentType.toUpperCase()}`] || process.env.SANDBOX_NETWORK;
+  return value === 'true';
+}
+
+// Evaluated inside the sandbox's vm context: defines its globals and returns what the runner calls it with
+const CONTEXT_SCRIPT = `
+(function (bridge, network, fsRead) {
+  'use strict';
+  const { create, defineProperty, getOwnPropertyDescriptor, getOwnPropertySymbols, getPrototypeOf, keys, is } = Object;
+  const { isArray } = Array;
+  const { apply } = Reflect;
+  const { parse, stringify } = JSON;
+  const { Error, TypeError, SyntaxError, RangeError, Promise, Map, Set, Date, RegExp } = globalThis;
+  const functionSource = Function.prototype.toString;
+  const MAX_DEPTH = 4;
+  const MAX_ITEMS = 100;
+
+  const describe = error => {
+    let name = 'Error';
+    let message;
+    let violation;
+    try {
+      const isObject = error !== null && (typeof error === 'object' || typeof error === 'function');
+      name = isObject && error.name ? String(error.name) : 'Error';
+      message = isObject && error.message !== undefined ? String(error.message) : String(error);
+      const code = isObject ? error.code : undefined;
+      // EvalError is only thrown for eval and Function, which the context disallows
+      if (name === 'SandboxPermissionError' || name === 'EvalError' || code === 'ERR_ACCESS_DENIED') violation = 'permission';
+      if (code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') violation = 'timeout';
+    } catch (ignored) {
+      message = 'The error could not be described';
+    }
+    return { name, message, violation };
+  };
+
+  const fail = error => {
+    const { name, message, violation } = describe(error);
+    bridge('fail', name, message, violation);
+  };
+
+  // Throw an error the runner described, as an error of this context
+  const raise = (name, message, code) => {
+    const Type = name === 'TypeError' ? TypeError : name === 'SyntaxError' ? SyntaxError : name === 'RangeError' ? RangeError : Error;
+    const error = new Type(message);
+    if (error.name !== name) error.name = name;
+    if (code !== undefined) error.code = code;
+    throw error;
+  };
+
+  // util.inspect and util.format, for the values of this context
+  const quote = string => "'" + string.split('\\\\').join('\\\\\\\\').split("'").join("\\\\'").split('\\n').join('\\\\n') + "'";
+  const propertyName = key => typeof key === 'symbol' ? '[' + key.toString() + ']' : /^[A-Za-z_$][\\w$]*$/.test(key) ? key : quote(key);
+
+  const inspect = (value, depth, seen) => {
+    switch (typeof value) {
+      case 'string': return quote(value);
+      case 'number': return is(value, -0) ? '-0' : String(value);
+      case 'bigint': return String(value) + 'n';
+      case 'symbol': return value.toString();
+      case 'undefined': return 'undefined';
+      case 'boolean': return String(value);
+      case 'function': {
+        const name = value.name ? String(value.name) : '';
+        if (apply(functionSource, value, []).slice(0, 5) === 'class') return '[class ' + (name || '(anonymous)') + ']';
+        return name ? '[Function: ' + name + ']' : '[Function (anonymous)]';
+      }
+    }
+    if (value === null) return 'null';
+    if (seen.indexOf(value) !== -1) return '[Circular]';
+    if (value instanceof Error) return value.stack ? String(value.stack) : String(value);
+    if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    if (value instanceof RegExp) return String(value);
+    if (value instanceof Promise) return 'Promise {}';
+
+    const inner = seen.concat([value]);
+    const show = item => inspect(item, depth - 1, inner);
+    const list = (open, items, close) => items.length > 0 ? open + ' ' + items.join(', ') + ' ' + close : open + close;
+    if (isArray(value)) {
+      if (depth < 0) return '[Array]';
+      const items = value.slice(0, MAX_ITEMS).map(show);
+      if (value.length > MAX_ITEMS) items.push('... ' + (value.length - MAX_ITEMS) + ' more items');
+      return list('[', items, ']');
+    }
+    if (value instanceof Map) {
+      if (depth < 0) return '[Map]';
+      const items = [];
+      value.forEach((item, key) => items.push(show(key) + ' => ' + show(item)));
+      return list('Map(' + value.size + ') {', items, '}');
+    }
+    if (value instanceof Set) {
+      if (depth < 0) return '[Set]';
+      const items = [];
+      value.forEach(item => items.push(show(item)));
+      return list('Set(' + value.size + ') {', items, '}');
+    }
+
+    const prototype = getPrototypeOf(value);
+    const constructor = prototype && getOwnPropertyDescriptor(prototype, 'constructor');
+    const type = prototype === null
+      ? '[Object: null prototype]'
+      : constructor && typeof constructor.value === 'function' && constructor.value.name !== 'Object' ? String(constructor.value.name) : '';
+    if (depth < 0) return '[' + (type || 'Object') + ']';
+    const properties = keys(value).concat(getOwnPropertySymbols(value).filter(symbol => getOwnPropertyDescriptor(value, symbol).enumerable));
+    const items = properties.map(key => {
+      const property = getOwnPropertyDescriptor(value, key);
+      const shown = !property ? 'undefined'
+        : property.get ? (property.set ? '[Getter/Setter]' : '[Getter]')
+        : property.set ? '[Setter]' : show(property.value);
+      return propertyName(key) + ': ' + shown;
+    });
+    return (type ? type + ' ' : '') + list('{', items, '}');
+  };
+
+  const format = args => {
+    let rest = args;
+    const parts = [];
+    if (typeof args[0] === 'string') {
+      let index = 1;
+      parts.push(args[0].replace(/%([sdifjoO%])/g, (match, type) => {
+        if (type === '%') return '%';
+        if (index >= args.length) return match;
+        const arg = args[index++];
+        if (type === 's') return typeof arg === 'string' ? arg : inspect(arg, 1, []);
+        if (type === 'd' || type === 'i' || type === 'f') {
+          if (typeof arg === 'bigint') return String(arg) + 'n';
+          if (typeof arg === 'symbol') return 'NaN';
+          return String(type === 'd' ? Number(arg) : type === 'i' ? parseInt(arg) : parseFloat(arg));
+        }
+        if (type === 'j') {
+          try {
+            return stringify(arg);
+          } catch (error) {
+            return '[Circular]';
+          }
+        }
+        return inspect(arg, MAX_DEPTH, []);
+      }));
+      rest = args.slice(index);
+    }
+    return parts.concat(rest.map(arg => typeof arg === 'string' ? arg : inspect(arg, 2, []))).join(' ');
+  };
+
+  const write = stream => (...args) => bridge('write', stream, format(args) + '\\n');
+  const console = { log: write('stdout'), info: write('stdout'), debug: write('stdout'), warn: write('stderr'), error: write('stderr') };
+
+  // assert, as far as tests of snippets use it
+  class AssertionError extends Error {
+    constructor(message, actual, expected, operator) {
+      super(message);
+      this.name = 'AssertionError';
+      this.code = 'ERR_ASSERTION';
+      this.actual = actual;
+      this.expected = expected;
+      this.operator = operator;
+    }
+  }
+
+  const deepEqual = (a, b, strict, seen) => {
+    if (strict ? is(a, b) : a == b || (a !== a && b !== b)) return true;
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+    if (strict && getPrototypeOf(a) !== getPrototypeOf(b)) return false;
+    if (isArray(a) !== isArray(b)) return false;
+    if (a instanceof Date) return b instanceof Date && is(a.getTime(), b.getTime());
+    if (a instanceof RegExp) return b instanceof RegExp && String(a) === String(b);
+    if (a instanceof Error && b instanceof Error && (a.name !== b.name || a.message !== b.message)) return false;
+    if (seen.some(pair => pair[0] === a && pair[1] === b)) return true;
+
+    const inner = seen.concat([[a, b]]);
+    if (a instanceof Map || a instanceof Set) {
+      if (!(b instanceof (a instanceof Map ? Map : Set)) || a.size !== b.size) return false;
+      const others = [];
+      b.forEach((value, key) => others.push([key, value]));
+      let equal = true;
+      a.forEach((value, key) => {
+        equal = equal && others.some(other => deepEqual(key, other[0], strict, inner) && deepEqual(value, other[1], strict, inner));
+      });
+      return equal;
+    }
+    const aKeys = keys(a);
+    const bKeys = keys(b);
+    return aKeys.length === bKeys.length &&
+      aKeys.every(key => getOwnPropertyDescriptor(b, key) !== undefined && deepEqual(a[key], b[key], strict, inner));
+  };
+
+  const show = value => inspect(value, MAX_DEPTH, []);
+  const check = (passed, message, describeFailure, actual, expected, operator) => {
+    if (passed) return;
+    if (message instanceof Error) throw message;
+    throw new AssertionError(message !== undefined ? String(message) : describeFailure(), actual, expected, operator);
+  };
+  const comparison = (operator, passes, describeFailure) => (actual, expected, message) =>
+    check(passes(actual, expected), message, () => describeFailure(actual, expected), actual, expected, operator);
+
+  const matches = (error, expected) => {
+    if (expected instanceof RegExp) return expected.test(String(error));
+    if (typeof expected === 'function') {
+      if (expected.prototype !== undefined && error instanceof expected) return true;
+      if (expected === Error || Error.isPrototypeOf(expected)) return false;
+      return apply(expected, {}, [error]) === true;
+    }
+    return keys(expected).every(key => expected[key] instanceof RegExp && typeof error[key] === 'string'
+      ? expected[key].test(error[key])
+      : deepEqual(error[key], expected[key], true, []));
+  };
+  const checkThrown = (error, expected, message, operator) => {
+    if (typeof expected === 'string') {
+      message = expected;
+      expected = undefined;
+    }
+    if (error === undefined) {
+      const name = typeof expected === 'function' && expected.name ? ' (' + expected.name + ')' : '';
+      check(false, message, () => (operator === 'rejects' ? 'Missing expected rejection' : 'Missing expected exception') + name + (message ? ': ' + message : '.'), undefined, expected, operator);
+    }
+    if (expected !== undefined && !matches(error.value, expected)) {
+      check(false, message, () => 'The error did not match ' + show(expected) + '. Received ' + show(error.value), error.value, expected, operator);
+    }
+  };
+
+  const assert = (value, message) =>
+    check(value, message, () => 'The expression evaluated to a falsy value:\\n\\n  assert(' + show(value) + ')\\n', value, true, '==');
+  assert.ok = assert;
+  assert.AssertionError = AssertionError;
+  assert.equal = comparison('==', (a, b) => a == b || (a !== a && b !== b), (a, b) => show(a) + ' == ' + show(b));
+  assert.notEqual = comparison('!=', (a, b) => !(a == b || (a !== a && b !== b)), (a, b) => show(a) + ' != ' + show(b));
+  assert.strictEqual = comparison('strictEqual', is, (a, b) => 'Expected values to be strictly equal:\\n\\n' + show(a) + ' !== ' + show(b) + '\\n');
+  assert.notStrictEqual = comparison('notStrictEqual', (a, b) => !is(a, b), (a, b) => 'Expected "actual" to be strictly unequal to: ' + show(b));
+  assert.deepEqual = comparison('deepEqual', (a, b) => deepEqual(a, b, false, []), (a, b) => 'Expected values to be loosely deep-equal:\\n\\n' + show(a) + '\\n\\nshould loosely deep-equal\\n\\n' + show(b));
+  assert.deepStrictEqual = comparison('deepStrictEqual', (a, b) => deepEqual(a, b, true, []), (a, b) => 'Expected values to be strictly deep-equal:\\n\\n' + show(a) + '\\n\\nshould equal\\n\\n' + show(b));
+  assert.notDeepEqual = comparison('notDeepEqual', (a, b) => !deepEqual(a, b, false, []), (a, b) => 'Expected "actual" not to be loosely deep-equal to: ' + show(b));
+  assert.notDeepStrictEqual = comparison('notDeepStrictEqual', (a, b) => !deepEqual(a, b, true, []), (a, b) => 'Expected "actual" not to be strictly deep-equal to: ' + show(b));
+  assert.match = comparison('match', (string, regexp) => typeof string === 'string' && regexp.test(string), (string, regexp) => 'The input did not match the regular expression ' + String(regexp) + '. Input:\\n\\n' + show(string) + '\\n');
+  assert.doesNotMatch = comparison('doesNotMatch', (string, regexp) => typeof string === 'string' && !regexp.test(string), (string, regexp) => 'The input was expected to not match the regular expression ' + String(regexp) + '. Input:\\n\\n' + show(string) + '\\n');
+  assert.fail = message => check(false, message, () => 'Failed', undefined, undefined, 'fail');
+  assert.throws = (fn, expected, message) => {
+    let error;
+    try {
+      fn();
+    } catch (value) {
+      error = { value };
+    }
+    checkThrown(error, expected, message, 'throws');
+  };
+  assert.doesNotThrow = (fn, message) => {
+    try {
+      fn();
+    } catch (value) {
+      check(false, message, () => 'Got unwanted exception.\\nActual message: "' + describe(value).message + '"', value, undefined, 'doesNotThrow');
+    }
+  };
+  assert.rejects = async (promiseOrFn, expected, message) => {
+    let error;
+    try {
+      await (typeof promiseOrFn === 'function' ? promiseOrFn() : promiseOrFn);
+    } catch (value) {
+      error = { value };
+    }
+    checkThrown(error, expected, message, 'rejects');
+  };
+  assert.doesNotReject = async (promiseOrFn, message) => {
+    try {
+      await (typeof promiseOrFn === 'function' ? promiseOrFn() : promiseOrFn);
+    } catch (value) {
+      check(false, message, () => 'Got unwanted rejection.\\nActual message: "' + describe(value).message + '"', value, undefined, 'doesNotReject');
+    }
+  };
+  assert.strict = assert;
+
+  // Timers run on the runner's timers, which call back with the timer's id
+  const timers = create(null);
+  let nextTimer = 1;
+  const schedule = repeat => (callback, delay, ...args) => {
+    if (typeof callback !== 'function') throw new TypeError('The "callback" argument must be of type function');
+    const id = nextTimer++;
+    timers[id] = { callback, args, repeat };
+    bridge('setTimer', id, Math.max(1, Number(delay) || 1), repeat);
+    return id;
+  };
+  const clear = id => {
+    if (typeof id === 'number' && timers[id]) {
+      delete timers[id];
+      bridge('clearTimer', id);
+    }
+  };
+  const fire = id => {
+    const timer = timers[id];
+    if (!timer) return;
+    if (!timer.repeat) delete timers[id];
+    try {
+      apply(timer.callback, undefined, timer.args);
+    } catch (error) {
+      fail(error);
+    }
+  };
+  const queueMicrotask = callback => {
+    if (typeof callback !== 'function') throw new TypeError('The "callback" argument must be of type function');
+    Promise.resolve().then(() => callback()).catch(fail);
+  };
+
+  // File reads and fetches run in the runner, which settles them with the call's id
+  const calls = create(null);
+  let nextCall = 1;
+  const call = (op, a, b, c, d) => new Promise((resolve, reject) => {
+    const id = nextCall++;
+    calls[id] = { resolve, reject };
+    bridge(op, id, a, b, c, d);
+  });
+  const settle = (id, ok, a, b, c) => {
+    const pending = calls[id];
+    if (!pending) return;
+    delete calls[id];
+    if (ok) {
+      pending.resolve([a, b]);
+      return;
+    }
+    try {
+      raise(a, b, c);
+    } catch (error) {
+      pending.reject(error);
+    }
+  };
+
+  const fs = {
+    readFile: (path, options) => call('readFile', String(path), typeof options === 'string' ? options : options && options.encoding ? String(options.encoding) : 'utf8')
+      .then(result => result[0]),
+    readdir: path => call('readdir', String(path)).then(result => parse(result[0]))
+  };
+
+  const fetch = (input, init) => {
+    const options = init || {};
+    const headers = isArray(options.headers) ? options.headers : options.headers ? keys(options.headers).map(key => [key, options.headers[key]]) : [];
+    const body = options.body === undefined || options.body === null ? undefined : String(options.body);
+    return call('fetch', String(input), options.method ? String(options.method) : 'GET', stringify(headers.map(header => [String(header[0]), String(header[1])])), body)
+      .then(result => {
+        const response = parse(result[0]);
+        const text = result[1];
+        const values = create(null);
+        response.headers.forEach(header => {
+          values[header[0].toLowerCase()] = header[1];
+        });
+        return {
+          ok: response.status >= 200 && response.status < 300,
+          status: response.status,
+          statusText: response.statusText,
+          url: response.url,
+          headers: { get: name => values[String(name).toLowerCase()] ?? null, has: name => String(name).toLowerCase() in values },
+          text: () => Promise.resolve(text),
+          json: () => Promise.resolve(text).then(parse)
+        };
+      });
+  };
+
+  const registered = [];
+  const test = (name, fn) => {
+    registered.push({ name: String(name), fn });
+  };
+
+  // Run the code, then the tests, and report on them
+  const start = async (code, tests) => {
+    try {
+      let value = bridge('run', code, 'snippet.js');
+      if (value && typeof value.then === 'function') value = await value;
+      const result = value === undefined ? undefined : inspect(value, MAX_DEPTH, []);
+
+      if (tests) {
+        const registering = bridge('run', tests, 'tests.js');
+        if (registering && typeof registering.then === 'function') await registering;
+      }
+      for (let index = 0; index < registered.length; index++) {
+        const { name, fn } = registered[index];
+        try {
+          await fn();
+          bridge('test', name, true);
+        } catch (error) {
+          const described = describe(error);
+          if (described.violation) throw error;
+          bridge('test', name, false, described.name + ': ' + described.message);
+        }
+      }
+
+      bridge('done', result);
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const expose = (name, value) => defineProperty(globalThis, name, { value, writable: true, configurable: true });
+  const deny = name => defineProperty(globalThis, name, {
+    get() {
+      const error = new Error(name + ' is not available in the sandbox');
+      error.name = 'SandboxPermissionError';
+      throw error;
+    },
+    configurable: true
+  });
+
+  expose('console', console);
+  expose('assert', assert);
+  expose('test', test);
+  expose('setTimeout', schedule(false));
+  expose('setInterval', schedule(true));
+  expose('clearTimeout', clear);
+  expose('clearInterval', clear);
+  expose('queueMicrotask', queueMicrotask);
+  deny('require');
+  deny('process');
+  if (network) expose('fetch', fetch);
+  else deny('fetch');
+  if (fsRead) expose('fs', fs);
+  else deny('fs');
+
+  return { raise, fire, settle, fail, start };
+})
+`;
+
+// Runs in the sandbox process: sets up the context, runs the code and tests it is sent and posts back what happened
+const RUNNER_SCRIPT = `
+'use strict';
+const vm = require('vm');
+const fs = require('fs');
+const MAX_OUTPUT_LENGTH = 10000;
+const CONTEXT_SCRIPT = ${JSON.stringify(CONTEXT_SCRIPT)};
+
+// Errors of the runner itself, e.g. the vm's timeout or a denied file read
+const describe = error => {
+  const name = (error && error.name) || 'Error';
+  const code = error && error.code;
+  let violation;
+  if (code === 'ERR_ACCESS_DENIED') violation = 'permission';
+  if (code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') violation = 'timeout';
+  return { name: String(name), message: error && error.message !== undefined ? String(error.message) : String(error), violation };
+};
+
+let report;
+let hooks;
+// Errors from the context are described there, so the runner never reads them
+const uncaught = error => {
+  if (hooks && !(error instanceof Error)) hooks.fail(error);
+  else report({ error: describe(error) });
+};
+process.on('uncaughtException', uncaught);
+process.on('unhandledRejection', uncaught);
+
+process.once('message', ({ code, tests, timeoutMs, permissions }) => {
+  const deadline = Date.now() + timeoutMs;
+  const output = { stdout: '', stderr: '' };
+  const testResults = [];
+  const timers = new Map();
+
+  let reported = false;
+  report = message => {
+    if (reported) return;
+    reported = true;
+    process.send({ ...output, tests: testResults, ...message }, () => process.exit(0));
+  };
+
+  const text = value => typeof value === 'string' ? value : '';
+  const settle = (id, promise) => promise.then(
+    ([a, b]) => hooks.settle(id, true, a, b),
+    error => hooks.settle(id, false, describe(error).name, describe(error).message, typeof error.code === 'string' ? error.code : undefined)
+  );
+
+  // All the context can call: arguments and results are primitives, except that 'run' hands back the code's own completion value
+  const bridge = (op, a, b, c, d, e) => {
+    try {
+      switch (op) {
+        case 'write':
+          if ((a === 'stdout' || a === 'stderr') && output[a].length < MAX_OUTPUT_LENGTH) {
+            output[a] = (output[a] + text(b)).slice(0, MAX_OUTPUT_LENGTH);
+          }
+          return undefined;
+        case 'run':
+          return new vm.Script(text(a), { filename: text(b) }).runInContext(context, { timeout: Math.max(1, deadline - Date.now()) });
+        case 'test':
+          testResults.push(b === true ? { name: text(a), passed: true } : { name: text(a), passed: false, error: text(c) });
+          return undefined;
+        case 'setTimer':
+          if (typeof a === 'number' && typeof b === 'number') {
+            const timer = (c === true ? setInterval : setTimeout)(() => {
+              if (c !== true) timers.delete(a);
+              hooks.fire(a);
+            }, b);
+            timers.set(a, timer);
+          }
+          return undefined;
+        case 'clearTimer':
+          clearTimeout(timers.get(a));
+          timers.delete(a);
+          return undefined;
+        case 'readFile':
+          if (permissions.fsRead && typeof a === 'number') settle(a, fs.promises.readFile(text(b), text(c) || 'utf8').then(data => [data]));
+          return undefined;
+        case 'readdir':
+          if (permissions.fsRead && typeof a === 'number') settle(a, fs.promises.readdir(text(b)).then(names => [JSON.stringify(names)]));
+          return undefined;
+        case 'fetch':
+          if (permissions.network && typeof a === 'number') {
+            const request = { method: text(c) || 'GET', headers: JSON.parse(text(d) || '[]'), body: typeof e === 'string' ? e : undefined };
+            settle(a, fetch(text(b), request).then(response => response.text().then(body => [JSON.stringify({
+              status: response.status,
+              statusText: response.statusText,
+              url: response.url,
+              headers: Array.from(response.headers.entries())
+            }), body])));
+          }
+          return undefined;
+        case 'done':
+          report({ result: typeof a === 'string' ? a.slice(0, MAX_OUTPUT_LENGTH) : undefined });
+          return undefined;
+        case 'fail':
+          report({ error: { name: text(a), message: text(b), violation: c === 'permission' || c === 'timeout' ? c : undefined } });
+          return undefined;
+        default:
+          return undefined;
+      }
+    } catch (error) {
+      // Errors thrown in the context pass back through; the runner's own are rethrown as errors of the context
+      if (!(error instanceof Error)) throw error;
+      const described = describe(error);
+      return hooks.raise(described.name, described.message, typeof error.code === 'string' ? error.code : undefined);
+    }
+  };
+
+  // Everything the code can reach is created inside the context; the runner's objects never enter it
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+  hooks = vm.runInContext(CONTEXT_SCRIPT, context, { filename: 'sandbox.js' })(bridge, permissions.network === true, Boolean(permissions.fsRead));
+  const { raise, fire, settle: settleCall, fail, start } = hooks;
+  hooks = { raise, fire, settle: settleCall, fail };
+  start(text(code), text(tests));
+});
+`;
+
+let runnerFile: string | undefined;
+
+// The runner runs from a file: run with -e, it would have require as a global
+function getRunnerFile(): string {
+  if (!runnerFile || !fs.existsSync(runnerFile)) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-'));
+    runnerFile = path.join(dir, 'runner.js');
+    fs.writeFileSync(runnerFile, RUNNER_SCRIPT, { mode: 0o400 });
+    process.once('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+  }
+  return runnerFile;
+}
+
+interface RunnerReport {
+  result?: string;
+  stdout: string;
+  stderr: string;
+  tests: SandboxTestResult[];
+  error?: { name: string; message: string; violation?: SandboxViolation };
+}
+
+function sandboxError(name: string, message: string, violation?: SandboxViolation): SandboxError {
+  let errorType = name === 'SyntaxError' ? ErrorType.SYNTAX_ERROR : ErrorType.RUNTIME_ERROR;
+  if (violation === 'permission') errorType = ErrorType.AUTHORIZATION_ERROR;
+  if (violation === 'timeout' || violation === 'memory') errorType = ErrorType.RESOURCE_ERROR;
+  return { name, message, errorType, violation };
+}
+
+// Run `code`, then `tests` (which register cases with test(name, fn)), in a fresh sandbox process
+export function runInSandbox(code: string, tests?: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+  const limits = getSandboxLimits();
+  const timeoutMs = options.timeoutMs ?? limits.timeoutMs;
+  const memoryMb = Math.max(MIN_MEMORY_MB, options.memoryMb ?? limits.memoryMb);
+  const permissions = options.permissions || {};
+  const signal = options.signal;
+
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  const runner = getRunnerFile();
+  const args = ['--experimental-permission', `--max-old-space-size=${memoryMb}`, '--disable-warning=ExperimentalWarning', `--allow-fs-read=${runner}`];
+  (permissions.fsRead || []).forEach(allowed => args.push(`--allow-fs-read=${allowed}`));
+  args.push(runner);
+
+  const startedAt = Date.now();
+  // No environment: the sandbox must not see the server's secrets
+  const child = spawn(process.execPath, args, { stdio: ['ignore', 'ignore', 'pipe', 'ipc'], env: {} });
+
+  return new Promise<SandboxResult>((resolve, reject) => {
+    let processError = '';
+    let report: RunnerReport | undefined;
+    let violation: SandboxViolation | undefined;
+    let settled = false;
+
+    const finish = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      outcome();
+    };
+
+    // The runner's own timeout only covers synchronous code; a hard limit covers the rest
+    const timer = setTimeout(() => {
+      violation = 'timeout';
+      child.kill('SIGKILL');
+    }, timeoutMs + STARTUP_GRACE_MS);
+
+    const onAbort = () => {
+      child.kill('SIGKILL');
+      finish(() => reject(signal!.reason));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stderr!.on('data', chunk => {
+      processError = (processError + chunk).slice(-2000);
+    });
+    child.on('message', message => {
+      report = message as RunnerReport;
+    });
+    child.on('error', error => finish(() => reject(error)));
+
+    child.on('exit', () => finish(() => {
+      const durationMs = Date.now() - startedAt;
+
+      if (!report) {
+        if (!violation && /heap out of memory|Allocation failed/i.test(processError)) {
+          violation = 'memory';
+        }
+        const message = violation === 'timeout'
+          ? `Sandbox run exceeded its ${timeoutMs}ms time limit`
+          : violation === 'memory'
+            ? `Sandbox run exceeded its ${memoryMb}MB memory limit`
+            : `Sandbox process exited unexpectedly${processError ? `: ${processError.trim().split('\n').pop()}` : ''}`;
+        logger.warn(message);
+        resolve({
+          success: false,
+          stdout: '',
+          stderr: '',
+          tests: [],
+          error: sandboxError(violation === 'memory' ? 'RangeError' : 'Error', message, violation),
+          durationMs
+        });
+        return;
+      }
+
+      const error = report.error ? sandboxError(report.error.name, report.error.message, report.error.violation) : undefined;
+      resolve({
+        success: !error && report.tests.every(test => test.passed),
+        result: report.result,
+        stdout: report.stdout,
+        stderr: report.stderr,
+        tests: report.tests,
+        error,
+        durationMs
+      });
+    }));
+
+    child.send({ code, tests, timeoutMs, permissions });
+  });
+}
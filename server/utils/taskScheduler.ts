@@ -0,0 +1,243 @@
+import { z } from 'zod';
+
+/**
+ * Decides which queued task gets the next free worker thread:
+ *
+ * - priority: interactive work (user requests) goes before background work,
+ *   which goes before maintenance (monitoring, learning)
+ * - aging: a task moves up one priority for every `agingMs` it has waited,
+ *   so low-priority work cannot be starved
+ * - quotas: an agent type with a concurrency limit never runs more tasks at
+ *   once; its other tasks wait even while workers are free
+ * - fair share: among tasks of equal priority, the agent type running the
+ *   fewest tasks for its weight goes first, then the one queued longest
+ */
+
+export type TaskPriority = 'interactive' | 'background' | 'maintenance';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['interactive', 'background', 'maintenance'];
+
+const LEVELS: Record<TaskPriority, number> = { interactive: 2, background: 1, maintenance: 0 };
+
+// Agent type of tasks not run on behalf of an agent
+export const SYSTEM_TASK_TYPE = 'system';
+
+const DEFAULT_AGING_MS = 10000;
+
+// Number of recent scheduling decisions kept for the stats
+const DECISION_HISTORY = 20;
+
+// Runtime changes; a null limit removes an agent type's limit and a null weight resets it to 1, overriding the environment
+export const taskSchedulerConfigSchema = z.object({
+  agingMs: z.number().int().min(0).optional(), // 0 disables aging
+  limits: z.record(z.number().int().min(1).nullable()).optional(),
+  weights: z.record(z.number().positive().nullable()).optional()
+});
+
+export type TaskSchedulerConfig = z.infer<typeof taskSchedulerConfigSchema>;
+
+export interface ScheduledTask {
+  agentType: string;
+  priority: TaskPriority;
+  enqueuedAt: number;
+}
+
+export interface SchedulingDecision {
+  agentType: string;
+  priority: TaskPriority;
+  effectivePriority: TaskPriority; // Higher than `priority` when the task was aged up
+  waitMs: number;
+  passedOver: number; // Queued tasks that ranked higher but were held back by their agent type's limit
+  at: string;
+}
+
+export interface AgentTypeSchedule {
+  agentType: string;
+  running: number;
+  queued: number;
+  limit: number | null;
+  weight: number;
+}
+
+export interface TaskSchedulerInfo {
+  agingMs: number;
+  queuedByPriority: Record<TaskPriority, number>;
+  agentTypes: AgentTypeSchedule[];
+  recentDecisions: SchedulingDecision[];
+}
+
+// THREAD_PRIORITY_AGING_MS sets how long a task waits before it moves up a priority
+export function getTaskAgingMs(): number {
+  const agingMs = process.env.THREAD_PRIORITY_AGING_MS ? parseInt(process.env.THREAD_PRIORITY_AGING_MS, 10) : NaN;
+  return isNaN(agingMs) || agingMs < 0 ? DEFAULT_AGING_MS : agingMs;
+}
+
+// THREAD_LIMIT_<TYPE> and THREAD_WEIGHT_<TYPE> (e.g. THREAD_LIMIT_SELF_HEALING) set an agent type's quota and share
+function envNumber(name: string, type: string): number | null {
+  const value = process.env[`THREAD_${name}_${type.toUpperCase()}`];
+  const parsed = value ? parseFloat(value) : NaN;
+  return isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+export class TaskScheduler<T extends ScheduledTask> {
+  private queue: T[] = [];
+  private running = new Map<string, number>();
+  private limits = new Map<string, number | null>();
+  private weights = new Map<string, number | null>();
+  private decisions: SchedulingDecision[] = [];
+  private agingMs: number;
+
+  constructor(agingMs = getTaskAgingMs()) {
+    this.agingMs = agingMs;
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  enqueue(task: T) {
+    this.queue.push(task);
+  }
+
+  has(task: T): boolean {
+    return this.queue.indexOf(task) !== -1;
+  }
+
+  remove(task: T): boolean {
+    const index = this.queue.indexOf(task);
+    if (index === -1) {
+      return false;
+    }
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  // Empty the queue, returning the tasks that were waiting
+  clear(): T[] {
+    return this.queue.splice(0);
+  }
+
+  // Take the task that should run next and count it as running; undefined
+  // when the queue is empty or every queued task is held back by a limit
+  next(now = Date.now()): T | undefined {
+    let best: T | undefined;
+    let bestLevel = -1;
+    const heldBack: number[] = [];
+
+    for (const task of this.queue) {
+      const level = this.levelOf(task, now);
+      const limit = this.limitFor(task.agentType);
+
+      if (limit !== null && this.runningOf(task.agentType) >= limit) {
+        heldBack.push(level);
+        continue;
+      }
+
+      if (!best || level > bestLevel || (level === bestLevel && this.ranksBefore(task, best))) {
+        best = task;
+        bestLevel = level;
+      }
+    }
+
+    if (!best) {
+      return undefined;
+    }
+
+    this.remove(best);
+    this.running.set(best.agentType, this.runningOf(best.agentType) + 1);
+    this.record({
+      agentType: best.agentType,
+      priority: best.priority,
+      effectivePriority: this.priorityAt(bestLevel),
+      waitMs: now - best.enqueuedAt,
+      passedOver: heldBack.filter(level => level > bestLevel).length,
+      at: new Date(now).toISOString()
+    });
+    return best;
+  }
+
+  // A task taken with next() has finished
+  finish(agentType: string) {
+    const running = this.runningOf(agentType) - 1;
+    if (running > 0) {
+      this.running.set(agentType, running);
+    } else {
+      this.running.delete(agentType);
+    }
+  }
+
+  configure(config: TaskSchedulerConfig) {
+    if (config.agingMs !== undefined) {
+      this.agingMs = config.agingMs;
+    }
+    Object.keys(config.limits || {}).forEach(type => this.limits.set(type, config.limits![type]));
+    Object.keys(config.weights || {}).forEach(type => this.weights.set(type, config.weights![type]));
+  }
+
+  info(): TaskSchedulerInfo {
+    const queuedByPriority = { interactive: 0, background: 0, maintenance: 0 };
+    this.queue.forEach(task => queuedByPriority[task.priority]++);
+
+    // Agent types with work or settings
+    const types = new Set<string>(Array.from(this.running.keys()));
+    this.queue.forEach(task => types.add(task.agentType));
+    Array.from(this.limits.keys()).concat(Array.from(this.weights.keys())).forEach(type => types.add(type));
+
+    return {
+      agingMs: this.agingMs,
+      queuedByPriority,
+      agentTypes: Array.from(types).sort().map(agentType => ({
+        agentType,
+        running: this.runningOf(agentType),
+        queued: this.queue.filter(task => task.agentType === agentType).length,
+        limit: this.limitFor(agentType),
+        weight: this.weightFor(agentType)
+      })),
+      recentDecisions: this.decisions.slice()
+    };
+  }
+
+  private limitFor(agentType: string): number | null {
+    if (this.limits.has(agentType)) {
+      return this.limits.get(agentType)!;
+    }
+    const limit = envNumber('LIMIT', agentType);
+    return limit === null ? null : Math.floor(limit);
+  }
+
+  private weightFor(agentType: string): number {
+    const weight = this.weights.has(agentType) ? this.weights.get(agentType) : envNumber('WEIGHT', agentType);
+    return weight ?? 1;
+  }
+
+  private runningOf(agentType: string): number {
+    return this.running.get(agentType) || 0;
+  }
+
+  // The task's priority level after aging
+  private levelOf(task: ScheduledTask, now: number): number {
+    const aged = this.agingMs > 0 ? Math.floor((now - task.enqueuedAt) / this.agingMs) : 0;
+    return Math.min(LEVELS[task.priority] + aged, LEVELS.interactive);
+  }
+
+  private priorityAt(level: number): TaskPriority {
+    return TASK_PRIORITIES.find(priority => LEVELS[priority] === level)!;
+  }
+
+  // Fair share between two tasks of the same priority level
+  private ranksBefore(task: ScheduledTask, other: ScheduledTask): boolean {
+    const share = this.runningOf(task.agentType) / this.weightFor(task.agentType);
+    const otherShare = this.runningOf(other.agentType) / this.weightFor(other.agentType);
+    if (share !== otherShare) {
+      return share < otherShare;
+    }
+    return task.enqueuedAt < other.enqueuedAt;
+  }
+
+  private record(decision: SchedulingDecision) {
+    this.decisions.push(decision);
+    if (this.decisions.length > DECISION_HISTORY) {
+      this.decisions.shift();
+    }
+  }
+}
@@ -2,115 +2,455 @@ import { Worker } from 'worker_threads';
 import { logger } from './logger';
 import { storage } from '../storage';
 import { ActivityType } from '@shared/schema';
+import { withTimeout } from './abort';
+import { runInSandbox, type SandboxOptions, type SandboxResult } from './sandbox';
+import { ScheduledTask, SYSTEM_TASK_TYPE, TaskPriority, TaskScheduler, TaskSchedulerConfig } from './taskScheduler';
 
-// ThreadManager class for handling thread allocation and execution
+export interface TaskExecutionOptions {
+  signal?: AbortSignal; // Cancels the task when aborted, terminating its worker if it is running
+  timeoutMs?: number;
+  priority?: TaskPriority; // Defaults to background
+  agentType?: string; // The agent the task runs for, which its concurrency limit and fair share apply to
+}
+
+export interface SandboxExecutionOptions extends SandboxOptions, Pick<TaskExecutionOptions, 'agentType' | 'priority'> {
+  tests?: string; // Code that registers test cases with test(name, fn), run after the code
+}
+
+export interface ThreadManagerOptions {
+  maxThreads?: number;
+  maxQueueSize?: number; // Applies to the thread queue and the sandbox queue each
+  maxSandboxes?: number;
+  agingMs?: number;
+}
+
+/**
+ * A task is a function, or its source, that takes the task data and returns
+ * the result (or a promise of it). It is evaluated in a worker thread, so it
+ * must not refer to anything outside itself: everything it needs goes in the
+ * data, which is copied to the worker as JSON.
+ */
+export type TaskFunction = string | ((data: any) => unknown);
+
+// Rejected when the queue is full; callers should back off and retry
+export class ThreadQueueFullError extends Error {
+  constructor(maxQueueSize: number) {
+    super(`Thread queue is full (${maxQueueSize} tasks waiting). Try again later.`);
+    this.name = 'ThreadQueueFullError';
+  }
+}
+
+// Evaluates each task it is sent and posts back its result or error
+const WORKER_SCRIPT = `
+const { parentPort } = require('worker_threads');
+parentPort.on('message', async ({ id, source, data }) => {
+  try {
+    const task = (0, eval)('(' + source + ')');
+    const result = await task(data);
+    parentPort.postMessage({ id, result });
+  } catch (error) {
+    parentPort.postMessage({
+      id,
+      error: { name: error && error.name, message: error && error.message !== undefined ? error.message : String(error) }
+    });
+  }
+});
+`;
+
+// Number of recent queue wait times the wait metrics are computed over
+const WAIT_SAMPLE_SIZE = 100;
+
+interface PooledWorker {
+  worker: Worker;
+  busy: boolean;
+  task?: {
+    id: number;
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+  };
+}
+
+// A task waiting for a worker, or for a sandbox slot (which hands it nothing)
+interface QueuedTask<Slot = PooledWorker> extends ScheduledTask {
+  resolve: (slot: Slot) => void;
+  reject: (error: unknown) => void;
+}
+
+// ThreadManager runs tasks on a pool of pre-warmed worker threads. Tasks
+// beyond the pool size wait in a bounded queue, from which the scheduler
+// picks the next one to run; workers that crash or are terminated to cancel
+// a task are replaced. Sandboxed code runs in child processes rather than on
+// the workers, so those runs have their own slots and queue.
 export class ThreadManager {
   private maxThreads: number;
-  private activeThreads: number;
+  private maxQueueSize: number;
+  private maxSandboxes: number;
+  private workers: PooledWorker[] = [];
+  private scheduler: TaskScheduler<QueuedTask>;
+  private sandboxScheduler: TaskScheduler<QueuedTask<void>>;
+  private activeSandboxes = 0;
+  private completedSandboxes = 0;
+  private failedSandboxes = 0;
+  private waits: number[] = [];
+  private nextTaskId = 1;
+  private completedTasks = 0;
+  private failedTasks = 0;
+  private recycledWorkers = 0;
+  private shuttingDown = false;
+
+  constructor(options: ThreadManagerOptions = {}) {
+    // Get max threads and queue size from environment variables or use 8 and 100 as defaults
+    this.maxThreads = Math.max(1, options.maxThreads ?? parseInt(process.env.MAX_THREADS || '8', 10));
+    this.maxQueueSize = Math.max(0, options.maxQueueSize ?? parseInt(process.env.MAX_THREAD_QUEUE || '100', 10));
+    this.maxSandboxes = Math.max(1, options.maxSandboxes ?? parseInt(process.env.MAX_SANDBOXES || '4', 10));
+    this.scheduler = new TaskScheduler<QueuedTask>(options.agingMs);
+    this.sandboxScheduler = new TaskScheduler<QueuedTask<void>>(options.agingMs);
+
+    for (let i = 0; i < this.maxThreads; i++) {
+      this.spawn();
+    }
 
-  constructor() {
-    // Get max threads from environment variable or use 8 as default
-    this.maxThreads = parseInt(process.env.MAX_THREADS || '8', 10);
-    this.activeThreads = 0;
-    
     // Log initialization
-    logger.info(`Thread manager initialized with ${this.maxThreads} max threads`);
+    logger.info(`Thread manager initialized with ${this.maxThreads} worker threads and a queue of ${this.maxQueueSize}`);
   }
 
-  // Execute a task in a worker thread
-  async executeTask<T>(
-    taskFunction: string,
+  // Execute a task in a worker thread, waiting in the queue while all workers
+  // are busy. The returned promise rejects with the signal's reason once it
+  // aborts or the timeout elapses, and with ThreadQueueFullError when the
+  // queue has no room. Workers have full access to the server process, so
+  // tasks must be trusted code; run generated code with executeSandboxed.
+  async executeTask<T = any>(
+    taskFunction: TaskFunction,
     data: any,
-    taskDescription: string
+    taskDescription: string,
+    options: TaskExecutionOptions = {}
   ): Promise<T> {
-    try {
-      // Check if we can allocate a new thread
-      if (this.activeThreads >= this.maxThreads) {
-        logger.warn(`Thread limit reached: ${this.activeThreads}/${this.maxThreads}`);
-        throw new Error('Thread limit reached. Try again later.');
-      }
+    const signal = withTimeout(options.signal, options.timeoutMs);
+    signal?.throwIfAborted();
 
-      // Increment active threads counter
-      this.activeThreads++;
-      
-      // Log thread allocation
-      logger.debug(`Allocating thread for ${taskDescription}. Active threads: ${this.activeThreads}/${this.maxThreads}`);
-      
-      // Update system stats
-      await storage.updateSystemStats({ activeThreads: this.activeThreads });
-      
-      // Log system activity
-      await storage.createSystemActivity({
-        type: ActivityType.THREAD_ALLOCATION,
-        description: `Thread allocated for: ${taskDescription}`,
-        metadata: { activeThreads: this.activeThreads, maxThreads: this.maxThreads }
-      });
+    const source = typeof taskFunction === 'function' ? taskFunction.toString() : taskFunction.trim();
+    const payload = data === undefined ? undefined : JSON.parse(JSON.stringify(data));
 
-      // Create a simple implementation that doesn't use threads for now
-      // Just execute the function directly
-      try {
-        // For taskFunction that's a string containing function declaration,
-        // we need to extract the function body and create a proper function
-        const functionBody = taskFunction.trim();
-        // Handle async function declarations properly
-        if (functionBody.startsWith('async function')) {
-          // Extract the function body between { and the last }
-          const bodyStart = functionBody.indexOf('{') + 1;
-          const bodyEnd = functionBody.lastIndexOf('}');
-          if (bodyStart > 0 && bodyEnd > bodyStart) {
-            const actualBody = functionBody.substring(bodyStart, bodyEnd);
-            const evalFunction = new Function('data', `
-              return (async function(data) {
-                ${actualBody}
-              })(data);
-            `);
-            const result = await evalFunction(data);
-            return result as T;
-          }
-        }
-        
-        // Fallback to simpler evaluation for regular functions
-        const evalFunction = new Function('data', `
-          return (${taskFunction})(data);
-        `);
-        const result = await evalFunction(data);
-        return result as T;
-      } catch (error) {
-        logger.error(`Function evaluation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        throw error;
+    const result = await this.schedule(taskDescription, options, signal, pooled => this.run(pooled, source, payload, signal));
+    return result as T;
+  }
+
+  // Run untrusted code and its tests in a sandbox process (see sandbox.ts)
+  // once the sandbox scheduler gives the task a slot; it takes no worker.
+  // Time, memory and permission violations are reported in the result;
+  // aborting `signal` rejects.
+  async executeSandboxed(
+    code: string,
+    taskDescription: string,
+    options: SandboxExecutionOptions = {}
+  ): Promise<SandboxResult> {
+    const { agentType: requestedType, priority, signal, tests, ...sandbox } = options;
+    const agentType = requestedType || SYSTEM_TASK_TYPE;
+    signal?.throwIfAborted();
+
+    await this.acquire(this.sandboxScheduler, () => this.dispatchSandboxes(), agentType, priority || 'background', signal);
+    try {
+      logger.debug(`Starting sandbox for ${taskDescription}. Active sandboxes: ${this.activeSandboxes}/${this.maxSandboxes}`);
+      const result = await runInSandbox(code, tests, { ...sandbox, signal });
+      this.completedSandboxes++;
+      if (result.error?.violation) {
+        logger.warn(`Sandbox ${result.error.violation} violation in ${taskDescription}: ${result.error.message}`);
       }
+      return result;
     } catch (error) {
-      logger.error(`Thread execution error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.failedSandboxes++;
       throw error;
     } finally {
-      // Decrement active threads counter
-      this.activeThreads--;
-      
-      // Update system stats
-      await storage.updateSystemStats({ activeThreads: this.activeThreads });
-      
-      logger.debug(`Thread released. Active threads: ${this.activeThreads}/${this.maxThreads}`);
+      this.activeSandboxes--;
+      this.sandboxScheduler.finish(agentType);
+      this.dispatchSandboxes();
     }
   }
 
-  // Get current thread usage statistics
+  // Get current thread usage, queue statistics and the scheduler's recent decisions
   getThreadStats() {
+    const activeThreads = this.activeThreads();
+    const totalWait = this.waits.reduce((sum, wait) => sum + wait, 0);
+
     return {
-      activeThreads: this.activeThreads,
+      activeThreads,
       maxThreads: this.maxThreads,
-      availableThreads: this.maxThreads - this.activeThreads
+      availableThreads: this.maxThreads - activeThreads,
+      queuedTasks: this.scheduler.size,
+      maxQueueSize: this.maxQueueSize,
+      averageWaitMs: this.waits.length > 0 ? Math.round(totalWait / this.waits.length) : 0,
+      maxWaitMs: this.waits.length > 0 ? Math.max(...this.waits) : 0,
+      completedTasks: this.completedTasks,
+      failedTasks: this.failedTasks,
+      recycledWorkers: this.recycledWorkers,
+      scheduler: this.scheduler.info(),
+      sandboxes: {
+        active: this.activeSandboxes,
+        max: this.maxSandboxes,
+        queued: this.sandboxScheduler.size,
+        completed: this.completedSandboxes,
+        failed: this.failedSandboxes
+      }
     };
   }
 
+  // Change the scheduler's aging or agent type limits and weights at runtime
+  configureScheduler(config: TaskSchedulerConfig) {
+    this.scheduler.configure(config);
+    this.sandboxScheduler.configure(config);
+
+    // A raised limit may let queued tasks run on idle workers or sandbox slots
+    this.dispatch();
+    this.dispatchSandboxes();
+    return this.scheduler.info();
+  }
+
   // Clean up resources
   async shutdown() {
     try {
-      // Nothing to clean up in this simplified implementation
+      this.shuttingDown = true;
+
+      // Tasks still waiting will never get a worker
+      this.scheduler.clear().forEach(task => task.reject(new Error('Thread manager is shutting down')));
+      this.sandboxScheduler.clear().forEach(task => task.reject(new Error('Thread manager is shutting down')));
+
+      await Promise.all(this.workers.map(pooled => pooled.worker.terminate()));
+      this.workers = [];
       logger.info('Thread manager shut down successfully');
     } catch (error) {
       logger.error(`Error shutting down thread manager: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  private activeThreads(): number {
+    return this.workers.filter(pooled => pooled.busy).length;
+  }
+
+  // Run `work` on a worker once the scheduler picks the task
+  private async schedule<T>(
+    taskDescription: string,
+    options: Pick<TaskExecutionOptions, 'agentType' | 'priority'>,
+    signal: AbortSignal | undefined,
+    work: (pooled: PooledWorker) => Promise<T>
+  ): Promise<T> {
+    const agentType = options.agentType || SYSTEM_TASK_TYPE;
+    const pooled = await this.acquire(this.scheduler, () => this.dispatch(), agentType, options.priority || 'background', signal);
+
+    try {
+      // Log thread allocation
+      const activeThreads = this.activeThreads();
+      logger.debug(`Allocating thread for ${taskDescription}. Active threads: ${activeThreads}/${this.maxThreads}`);
+
+      // Update system stats
+      await storage.updateSystemStats({ activeThreads });
+
+      // Log system activity
+      await storage.createSystemActivity({
+        type: ActivityType.THREAD_ALLOCATION,
+        description: `Thread allocated for: ${taskDescription}`,
+        metadata: { activeThreads, maxThreads: this.maxThreads, queuedTasks: this.scheduler.size, agentType }
+      });
+
+      const result = await work(pooled);
+      this.completedTasks++;
+      return result;
+    } catch (error) {
+      this.failedTasks++;
+      logger.error(`Thread execution error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
+    } finally {
+      this.release(pooled, agentType);
+
+      // Update system stats
+      await storage.updateSystemStats({ activeThreads: this.activeThreads() });
+
+      logger.debug(`Thread released. Active threads: ${this.activeThreads()}/${this.maxThreads}, queued: ${this.scheduler.size}`);
+    }
+  }
+
+  // Start a worker and replace it when it exits, unless we are shutting down
+  private spawn() {
+    const pooled: PooledWorker = { worker: new Worker(WORKER_SCRIPT, { eval: true }), busy: false };
+
+    pooled.worker.on('message', (message: { id: number; result?: unknown; error?: { name?: string; message: string } }) => {
+      const task = pooled.task;
+      if (!task || task.id !== message.id) {
+        return;
+      }
+      pooled.task = undefined;
+
+      if (message.error) {
+        const error = new Error(message.error.message);
+        error.name = message.error.name || 'Error';
+        task.reject(error);
+      } else {
+        task.resolve(message.result);
+      }
+    });
+
+    // Errors thrown outside the task's promise (e.g. in a timer) crash the worker
+    pooled.worker.on('error', error => {
+      logger.error(`Worker thread crashed: ${error.message}`);
+      this.retire(pooled);
+      pooled.task?.reject(error);
+      pooled.task = undefined;
+    });
+
+    pooled.worker.on('exit', code => {
+      pooled.task?.reject(new Error(`Worker thread exited with code ${code}`));
+      pooled.task = undefined;
+      this.retire(pooled);
+
+      if (!this.shuttingDown) {
+        this.recycledWorkers++;
+        logger.warn(`Replacing worker thread that exited with code ${code}`);
+        this.spawn();
+        this.dispatch();
+      }
+    });
+
+    // Idle workers should not keep the process alive
+    pooled.worker.unref();
+    this.workers.push(pooled);
+  }
+
+  // Queue the task and wait for `scheduler` to give it a slot, which is right
+  // away when one is free and the agent type is under its limit
+  private acquire<Slot>(
+    scheduler: TaskScheduler<QueuedTask<Slot>>,
+    dispatch: () => void,
+    agentType: string,
+    priority: TaskPriority,
+    signal?: AbortSignal
+  ): Promise<Slot> {
+    if (this.shuttingDown) {
+      return Promise.reject(new Error('Thread manager is shutting down'));
+    }
+
+    return new Promise<Slot>((resolve, reject) => {
+      const onAbort = () => {
+        scheduler.remove(task);
+        reject(signal!.reason);
+      };
+      const task: QueuedTask<Slot> = {
+        agentType,
+        priority,
+        enqueuedAt: Date.now(),
+        resolve: slot => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(slot);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+
+      scheduler.enqueue(task);
+      dispatch();
+      if (!scheduler.has(task)) {
+        return;
+      }
+
+      // Still waiting: only keep it if the queue has room
+      if (scheduler.size > this.maxQueueSize) {
+        scheduler.remove(task);
+        logger.warn(`Thread queue full: ${this.maxQueueSize} tasks waiting`);
+        reject(new ThreadQueueFullError(this.maxQueueSize));
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      logger.debug(`Queued ${priority} task for ${agentType} (${scheduler.size}/${this.maxQueueSize})`);
+    });
+  }
+
+  // Hand idle workers to the tasks the scheduler picks
+  private dispatch() {
+    let idle = this.workers.find(pooled => !pooled.busy);
+    while (idle) {
+      const task = this.scheduler.next();
+      if (!task) {
+        break;
+      }
+      idle.busy = true;
+      this.recordWait(Date.now() - task.enqueuedAt);
+      task.resolve(idle);
+      idle = this.workers.find(pooled => !pooled.busy);
+    }
+  }
+
+  // Hand free sandbox slots to the sandbox runs the scheduler picks
+  private dispatchSandboxes() {
+    while (this.activeSandboxes < this.maxSandboxes) {
+      const task = this.sandboxScheduler.next();
+      if (!task) {
+        break;
+      }
+      this.activeSandboxes++;
+      task.resolve();
+    }
+  }
+
+  private release(pooled: PooledWorker, agentType: string) {
+    pooled.busy = false;
+    this.scheduler.finish(agentType);
+    this.dispatch();
+  }
+
+  // Run a task on a worker. Aborting terminates the worker, which is the only
+  // way to stop code running in it; the exit handler then replaces it.
+  private run(pooled: PooledWorker, source: string, data: unknown, signal?: AbortSignal): Promise<unknown> {
+    const id = this.nextTaskId++;
+
+    return new Promise<unknown>((resolve, reject) => {
+      const settle = () => {
+        signal?.removeEventListener('abort', onAbort);
+        pooled.worker.unref();
+      };
+      const onAbort = () => {
+        pooled.task = undefined;
+        settle();
+        reject(signal!.reason);
+        this.retire(pooled);
+        pooled.worker.terminate();
+      };
+
+      pooled.task = {
+        id,
+        resolve: result => {
+          settle();
+          resolve(result);
+        },
+        reject: error => {
+          settle();
+          reject(error);
+        }
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Keep the process alive while the worker has work
+      pooled.worker.ref();
+      pooled.worker.postMessage({ id, source, data });
+    });
+  }
+
+  // Stop handing out a worker that is exiting
+  private retire(pooled: PooledWorker) {
+    this.workers = this.workers.filter(candidate => candidate !== pooled);
+  }
+
+  private recordWait(ms: number) {
+    this.waits.push(ms);
+    if (this.waits.length > WAIT_SAMPLE_SIZE) {
+      this.waits.shift();
+    }
+  }
 }
 
 // Create a singleton instance
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -151,14 +151,18 @@ export enum AgentStatus {
   IDLE = 'idle',
   OBSERVING = 'observing',
   STANDBY = 'standby',
-  ERROR = 'error'
+  ERROR = 'error',
+  PAUSED = 'paused', // Takes no new work until resumed
+  DRAINING = 'draining', // Finishing its runs in progress, then paused
+  OFFLINE = 'offline' // Retired from its pool; the record is kept for its history
 }
 
 export enum TaskStatus {
   PENDING = 'pending',
   IN_PROGRESS = 'in_progress',
   COMPLETED = 'completed',
-  FAILED = 'failed'
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
 }
 
 export enum MessageType {
@@ -173,7 +177,9 @@ export enum ActivityType {
   MEMORY_USAGE = 'memory_usage',
   AGENT_STATUS_CHANGE = 'agent_status_change',
   SYSTEM_ERROR = 'system_error',
-  SYSTEM_HEALING = 'system_healing'
+  SYSTEM_HEALING = 'system_healing',
+  TOOL_CALL = 'tool_call',
+  EXPERIMENT = 'experiment'
 }
 
 // ErrorType is now defined at the end of the file
@@ -348,3 +354,288 @@ export enum ErrorType {
   SYSTEM_ERROR = 'system_error',
   UNKNOWN = 'unknown'
 }
+
+// LLM Usage table - One row per LLM call, for cost accounting
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(),
+  model: text("model"),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  cost: doublePrecision("cost").notNull().default(0), // USD, from the provider's declared pricing
+  cached: boolean("cached").notNull().default(false), // Served from the response cache; not charged
+  agentId: integer("agent_id").references(() => agents.id),
+  projectId: integer("project_id").references(() => projects.id),
+  taskId: integer("task_id").references(() => tasks.id),
+  promptTemplate: text("prompt_template"), // Name and version of the system prompt template, if one was used
+  promptVersion: integer("prompt_version"),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+export const insertLLMUsageSchema = createInsertSchema(llmUsage).pick({
+  provider: true,
+  model: true,
+  inputTokens: true,
+  outputTokens: true,
+  totalTokens: true,
+  cost: true,
+  cached: true,
+  agentId: true,
+  projectId: true,
+  taskId: true,
+  promptTemplate: true,
+  promptVersion: true
+});
+
+// Usage Budgets table - Soft limits warn, hard limits block LLM calls
+export const usageBudgets = pgTable("usage_budgets", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(), // 'global', 'project', 'task' or 'agent'
+  scopeId: integer("scope_id"), // Project, task or agent id; null for global budgets
+  unit: text("unit").notNull().default("tokens"), // 'tokens' or 'usd'
+  period: text("period").notNull().default("total"), // 'total', 'daily' or 'monthly'
+  softLimit: doublePrecision("soft_limit"),
+  hardLimit: doublePrecision("hard_limit"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+export const insertUsageBudgetSchema = createInsertSchema(usageBudgets).pick({
+  scope: true,
+  scopeId: true,
+  unit: true,
+  period: true,
+  softLimit: true,
+  hardLimit: true
+});
+
+export type LLMUsage = typeof llmUsage.$inferSelect;
+export type InsertLLMUsage = z.infer<typeof insertLLMUsageSchema>;
+
+export type UsageBudget = typeof usageBudgets.$inferSelect;
+export type InsertUsageBudget = z.infer<typeof insertUsageBudgetSchema>;
+
+export enum BudgetScope {
+  GLOBAL = 'global',
+  PROJECT = 'project',
+  TASK = 'task',
+  AGENT = 'agent'
+}
+
+export enum BudgetUnit {
+  TOKENS = 'tokens',
+  USD = 'usd'
+}
+
+export enum BudgetPeriod {
+  TOTAL = 'total',
+  DAILY = 'daily',
+  MONTHLY = 'monthly'
+}
+
+// Prompt Templates table - Stored versions of the agents' system prompts. Versions
+// are numbered per template name; a row with an agentId overrides the default for
+// that agent, and at most one version per name and agent is active at a time.
+export const promptTemplates = pgTable("prompt_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g. 'supervision.requirements'
+  version: integer("version").notNull(),
+  agentId: integer("agent_id").references(() => agents.id),
+  content: text("content").notNull(), // {{variable}} placeholders are filled in when rendered
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates).pick({
+  name: true,
+  version: true,
+  agentId: true,
+  content: true,
+  description: true,
+  isActive: true
+});
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+
+// Prompt/model experiments: a share of one agent type's runs use variant B instead of A
+export const experiments = pgTable("experiments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  agentType: text("agent_type").notNull(),
+  status: text("status").notNull().default("draft"),
+  trafficPercent: integer("traffic_percent").notNull().default(50), // Share of runs assigned to variant B
+  variantA: jsonb("variant_a").notNull(), // ExperimentVariantConfig
+  variantB: jsonb("variant_b").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  stoppedAt: timestamp("stopped_at")
+});
+
+export const insertExperimentSchema = createInsertSchema(experiments).pick({
+  name: true,
+  description: true,
+  agentType: true,
+  trafficPercent: true,
+  variantA: true,
+  variantB: true
+});
+
+export type Experiment = typeof experiments.$inferSelect;
+export type InsertExperiment = z.infer<typeof insertExperimentSchema>;
+
+// What a variant changes in the agent's LLM requests; anything left out keeps the agent's own setting
+export const experimentVariantSchema = z.object({
+  promptVersions: z.record(z.number().int().min(0)).optional()
+    .describe('Prompt template name to version, 0 for the built-in template'),
+  temperature: z.number().min(0).max(2).optional(),
+  provider: z.string().min(1).optional(),
+  model: z.string().min(1).optional()
+});
+
+export type ExperimentVariantConfig = z.infer<typeof experimentVariantSchema>;
+
+export enum ExperimentStatus {
+  DRAFT = 'draft',
+  RUNNING = 'running',
+  STOPPED = 'stopped'
+}
+
+export enum ExperimentVariant {
+  A = 'A',
+  B = 'B'
+}
+
+// Asynchronous agent runs submitted through /api/process; a job outlives the request that started it
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  agentType: text("agent_type").notNull(),
+  status: text("status").notNull().default("queued"),
+  progress: integer("progress").notNull().default(0), // 0-100
+  progressMessage: text("progress_message"),
+  input: text("input").notNull(),
+  context: jsonb("context"),
+  taskId: integer("task_id").references(() => tasks.id),
+  messageId: integer("message_id").references(() => messages.id), // The user's message
+  resultMessageId: integer("result_message_id").references(() => messages.id), // The agent's answer
+  agentId: integer("agent_id").references(() => agents.id), // The pool instance that ran it
+  result: jsonb("result"), // AgentExecutionResult
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  agentType: true,
+  input: true,
+  context: true,
+  taskId: true,
+  messageId: true
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+// Machine-readable project plan produced by the supervision agent
+export const projectPlanTaskSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  agentType: z.nativeEnum(AgentType).describe('Agent best suited to the task'),
+  estimateHours: z.number().positive().optional(),
+  dependsOn: z.array(z.string()).default([]).describe('Titles of tasks that must be finished first')
+});
+
+export const projectPlanSchema = z.object({
+  overview: z.string(),
+  requirements: z.array(z.string()),
+  architecture: z.string(),
+  milestones: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string(),
+    tasks: z.array(projectPlanTaskSchema).min(1)
+  })).min(1)
+});
+
+export type ProjectPlanTask = z.infer<typeof projectPlanTaskSchema>;
+export type ProjectPlan = z.infer<typeof projectPlanSchema>;
+
+// A multi-agent pipeline planned by the supervision agent; each step runs once the steps it depends on have succeeded
+export const pipelineStepSchema = z.object({
+  id: z.string().min(1).describe('Short name of the step, unique in the pipeline, e.g. "design-api"'),
+  title: z.string().min(1),
+  agentType: z.enum([AgentType.DESIGN, AgentType.CODING, AgentType.DEBUG]).describe('Agent that carries the step out'),
+  method: z.string().min(1).optional().describe('Method of the agent to run, when the step needs a particular one'),
+  instruction: z.string().min(1).describe('What the agent should do in this step'),
+  dependsOn: z.array(z.string()).default([]).describe('Ids of the steps whose results this step needs')
+});
+
+export const pipelinePlanSchema = z.object({
+  goal: z.string().min(1),
+  steps: z.array(pipelineStepSchema).min(1).max(12)
+});
+
+export type PipelineStep = z.infer<typeof pipelineStepSchema>;
+export type PipelinePlan = z.infer<typeof pipelinePlanSchema>;
+
+// A problem found in code or a design by the coding, debug and design agents
+export const findingSchema = z.object({
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  line: z.number().int().positive().optional().describe('Line of the code the finding is about, when it is about one'),
+  description: z.string().min(1),
+  suggestion: z.string().describe('How to resolve it')
+});
+
+// Code written or changed by the coding agent
+export const codeResultSchema = z.object({
+  language: z.string(),
+  code: z.string().min(1).describe('The complete resulting code'),
+  explanation: z.string().describe('How the code works or what was done to it'),
+  changes: z.array(z.string()).default([]).describe('Each change made to existing code')
+});
+
+// Findings about a piece of code: a quality review or a debugging report
+export const codeReportSchema = z.object({
+  summary: z.string(),
+  score: z.number().min(0).max(10).optional().describe('Overall quality from 0 to 10, for reviews'),
+  findings: z.array(findingSchema),
+  fixedCode: z.string().optional().describe('The code with the findings resolved, when they can be')
+});
+
+// A UI, architecture or workflow design by the design agent
+export const designDocumentSchema = z.object({
+  overview: z.string(),
+  components: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string(),
+    dependsOn: z.array(z.string()).default([]).describe('Names of components this one uses or follows')
+  })).min(1).describe('Screens, system components or workflow steps, depending on the kind of design'),
+  decisions: z.array(z.string()).default([]).describe('Design decisions and their rationale'),
+  openQuestions: z.array(z.string()).default([])
+});
+
+// The design agent's evaluation of an existing design
+export const designEvaluationSchema = z.object({
+  summary: z.string(),
+  score: z.number().min(0).max(10),
+  strengths: z.array(z.string()).default([]),
+  findings: z.array(findingSchema)
+});
+
+export type Finding = z.infer<typeof findingSchema>;
+export type CodeResult = z.infer<typeof codeResultSchema>;
+export type CodeReport = z.infer<typeof codeReportSchema>;
+export type DesignDocument = z.infer<typeof designDocumentSchema>;
+export type DesignEvaluation = z.infer<typeof designEvaluationSchema>;